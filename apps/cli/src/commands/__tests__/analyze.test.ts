@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { Command } from "commander";
+import { createCli } from "../../index.js";
+
+vi.mock("../../config/loader.js", () => ({
+  loadConfig: vi.fn(),
+  getConfigPath: vi.fn().mockReturnValue(null),
+}));
+
+vi.mock("../../config/auto-detect.js", () => ({
+  buildAutoConfig: vi.fn().mockResolvedValue({
+    config: { project: { name: "test-project" }, sources: {} },
+    detected: [],
+    tokenFiles: [],
+  }),
+}));
+
+vi.mock("../../store/index.js", () => ({
+  createStore: vi.fn(() => ({
+    getOrCreateProject: vi.fn().mockResolvedValue({ id: "proj_1", name: "test-project" }),
+    getScans: vi.fn().mockResolvedValue([]),
+    getSnapshots: vi.fn().mockResolvedValue([]),
+    close: vi.fn(),
+  })),
+  getProjectName: vi.fn().mockReturnValue("test-project"),
+}));
+
+function subcommandNames(command: Command | undefined): string[] {
+  return command?.commands.map((c) => c.name()) ?? [];
+}
+
+describe("command registration", () => {
+  const program = createCli();
+  const find = (name: string) => program.commands.find((c) => c.name() === name);
+
+  it("groups analysis commands under analyze", () => {
+    expect(subcommandNames(find("analyze"))).toEqual([
+      "graph",
+      "audit",
+      "learn",
+      "history",
+      "architect",
+    ]);
+  });
+
+  it("adds compare, import, contrast and export to tokens", () => {
+    expect(subcommandNames(find("tokens"))).toEqual(["lookup", "compare", "import", "contrast", "export"]);
+  });
+
+  it("registers context", () => {
+    expect(find("context")).toBeDefined();
+  });
+
+  it("offers --json on every analysis command", () => {
+    const commands = [
+      ...(find("analyze")?.commands ?? []),
+      ...(find("tokens")?.commands ?? []),
+      find("context")!,
+    ].filter((c) => c.name() !== "graph");
+
+    for (const command of commands) {
+      expect(
+        command.options.some((o) => o.long === "--json"),
+        `${command.name()} --json`,
+      ).toBe(true);
+    }
+  });
+});
+
+describe("analysis commands with --json", () => {
+  let projectRoot: string;
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+  let consoleErrorSpy: ReturnType<typeof vi.spyOn>;
+  let processExitSpy: ReturnType<typeof vi.spyOn>;
+  let cwdSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), "buoy-analyze-"));
+    consoleLogSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    consoleErrorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    processExitSpy = vi.spyOn(process, "exit").mockImplementation(() => {
+      throw new Error("process.exit called");
+    });
+    cwdSpy = vi.spyOn(process, "cwd").mockReturnValue(projectRoot);
+  });
+
+  afterEach(async () => {
+    consoleLogSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+    processExitSpy.mockRestore();
+    cwdSpy.mockRestore();
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  async function run(...args: string[]): Promise<unknown> {
+    await createCli().parseAsync(["node", "buoy", ...args]);
+    const output = consoleLogSpy.mock.calls.map((call) => String(call[0])).join("\n");
+    return JSON.parse(output);
+  }
+
+  it("audit reports a clean score when there is nothing to audit", async () => {
+    expect(await run("analyze", "audit", "--json")).toMatchObject({
+      score: 100,
+      totals: { uniqueValues: 0 },
+    });
+  });
+
+  it("learn reports no patterns without scan history", async () => {
+    expect(await run("analyze", "learn", "--json")).toEqual({
+      project: "test-project",
+      scansAnalyzed: 0,
+      totalDrifts: 0,
+      patterns: [],
+    });
+  });
+
+  it("history lists no scans without scan history", async () => {
+    expect(await run("analyze", "history", "--json")).toMatchObject({
+      scans: [],
+      snapshots: [],
+    });
+  });
+
+  it("tokens import previews tokens without writing on --dry-run", async () => {
+    await writeFile(
+      join(projectRoot, "tokens.css"),
+      ":root {\n  --color-primary: #3b82f6;\n  --space-md: 16px;\n}\n",
+    );
+
+    expect(
+      await run("tokens", "import", join(projectRoot, "tokens.css"), "--json", "--dry-run", "-o", "out.css"),
+    ).toMatchObject({
+      output: null,
+      tokenCount: 2,
+      tokens: [
+        { name: "--color-primary", category: "color", value: "#3b82f6" },
+        { name: "--space-md", category: "spacing", value: "16px" },
+      ],
+    });
+  });
+});
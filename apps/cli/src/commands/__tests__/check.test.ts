@@ -5,7 +5,9 @@ import {
   getStagedFiles,
   filterScannableFiles,
   isFromStagedFile,
+  isInChangedLines,
   formatAiFeedback,
+  formatBudgetStatuses,
 } from "../check.js";
 import type { DriftSignal } from "@buoy-design/core";
 
@@ -150,6 +152,46 @@ describe("check command", () => {
     });
   });
 
+  describe("isInChangedLines", () => {
+    const createMockDrift = (location?: string): DriftSignal => ({
+      id: "test-drift",
+      type: "hardcoded-value",
+      severity: "warning",
+      source: {
+        entityType: "component",
+        entityId: "test",
+        entityName: "Button",
+        location,
+      },
+      message: "Test drift",
+      details: {},
+      detectedAt: new Date(),
+    });
+
+    const changedLines = new Map([
+      ["src/Button.tsx", [{ start: 10, end: 12 }]],
+      ["src/New.tsx", [{ start: 1, end: Infinity }]],
+    ]);
+
+    it("keeps drift on added or modified lines", () => {
+      expect(isInChangedLines(createMockDrift("src/Button.tsx:10"), changedLines)).toBe(true);
+      expect(isInChangedLines(createMockDrift("src/Button.tsx:12:4"), changedLines)).toBe(true);
+      expect(isInChangedLines(createMockDrift("src/New.tsx:200"), changedLines)).toBe(true);
+    });
+
+    it("drops drift on untouched lines and files", () => {
+      expect(isInChangedLines(createMockDrift("src/Button.tsx:9"), changedLines)).toBe(false);
+      expect(isInChangedLines(createMockDrift("src/Button.tsx:13"), changedLines)).toBe(false);
+      expect(isInChangedLines(createMockDrift("src/Card.tsx:10"), changedLines)).toBe(false);
+      expect(isInChangedLines(createMockDrift(undefined), changedLines)).toBe(false);
+    });
+
+    it("only keeps drift without a line number in new files", () => {
+      expect(isInChangedLines(createMockDrift("src/Button.tsx"), changedLines)).toBe(false);
+      expect(isInChangedLines(createMockDrift("src/New.tsx"), changedLines)).toBe(true);
+    });
+  });
+
   describe("exit codes", () => {
     const SEVERITY_ORDER = {
       info: 0,
@@ -362,4 +404,22 @@ describe("check command", () => {
       expect(parsed.instructions).toContain("buoy check");
     });
   });
+
+  describe("formatBudgetStatuses", () => {
+    it("reports exceeded and lowered budgets", () => {
+      const output = formatBudgetStatuses(
+        [
+          { path: "src/legacy/**", type: "hardcoded-value", budget: 2, count: 2 },
+          { path: "src/legacy/**", type: "naming-inconsistency", budget: 0, count: 1 },
+          { path: "src/", type: "*", budget: 10, count: 4 },
+        ],
+        [{ path: "src/legacy/**", type: "hardcoded-value", budget: 2, count: 2, previous: 5 }],
+      );
+
+      expect(output.split("\n")).toEqual([
+        "+ Budget lowered src/legacy/** hardcoded-value: 5 -> 2",
+        "x Budget exceeded src/legacy/** naming-inconsistency: 1/0 (+1)",
+      ]);
+    });
+  });
 });
@@ -75,10 +75,14 @@ vi.mock("../../hooks/index.js", () => ({
   detectHookSystem: vi.fn(() => null),
 }));
 
-vi.mock("@buoy-design/core", () => ({
-  parseTokenFile: vi.fn(() => []),
-  detectFormat: vi.fn(() => "dtcg"),
-}));
+vi.mock("@buoy-design/core", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@buoy-design/core")>();
+  return {
+    ...actual,
+    parseTokenFile: vi.fn(() => []),
+    detectFormat: vi.fn(() => "dtcg"),
+  };
+});
 
 // Import after mocks are set up
 import { createDockCommand } from "../dock.js";
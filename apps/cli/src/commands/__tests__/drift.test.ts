@@ -47,6 +47,9 @@ vi.mock("@buoy-design/scanners", () => ({
 
 vi.mock("@buoy-design/core/analysis", () => ({
   SemanticDiffEngine: vi.fn(),
+  CODEOWNERS_PATHS: [],
+  parseCodeowners: vi.fn(() => []),
+  assignDriftOwners: vi.fn((drifts) => drifts),
 }));
 
 vi.mock("../../output/reporters.js", () => ({
@@ -73,6 +76,10 @@ vi.mock("../../output/formatters.js", () => ({
   formatMarkdown: vi.fn(() => "# Drift Report\n\nMarkdown content"),
 }));
 
+vi.mock("../../store/index.js", () => ({
+  recordScanHistory: vi.fn().mockResolvedValue(undefined),
+}));
+
 // Import after mocks are set up
 import { createDriftCommand } from "../drift.js";
 import { loadConfig } from "../../config/loader.js";
@@ -80,6 +87,7 @@ import * as scanners from "@buoy-design/scanners/git";
 import * as analysis from "@buoy-design/core/analysis";
 import * as reporters from "../../output/reporters.js";
 import * as formatters from "../../output/formatters.js";
+import { recordScanHistory } from "../../store/index.js";
 
 // Type the mocked functions
 const mockLoadConfig = vi.mocked(loadConfig);
@@ -243,6 +251,26 @@ describe("drift command", () => {
       expect(formatters.formatDriftTree).toHaveBeenCalled();
     });
 
+    it("records unfiltered runs in scan history", async () => {
+      const program = createTestProgram();
+      await program.parseAsync(["node", "test", "drift", "check"]);
+
+      expect(recordScanHistory).toHaveBeenCalledWith(
+        expect.objectContaining({ project: { name: "test-project" } }),
+        expect.objectContaining({
+          components: expect.arrayContaining([expect.objectContaining({ name: "Button" })]),
+          drifts: expect.any(Array),
+        }),
+      );
+    });
+
+    it("does not record filtered or --no-persist runs", async () => {
+      await createTestProgram().parseAsync(["node", "test", "drift", "check", "--severity", "warning"]);
+      await createTestProgram().parseAsync(["node", "test", "drift", "check", "--no-persist"]);
+
+      expect(recordScanHistory).not.toHaveBeenCalled();
+    });
+
     it("displays summary statistics in verbose mode", async () => {
       const program = createTestProgram();
       await program.parseAsync(["node", "test", "drift", "check", "--verbose"]);
@@ -775,6 +803,7 @@ describe("drift command", () => {
         checkDeprecated: true,
         checkNaming: true,
         checkDocumentation: true,
+        availableTokens: [],
       });
 
       // With no components, should show info message guiding user to alternatives
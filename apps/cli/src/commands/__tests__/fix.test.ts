@@ -98,6 +98,27 @@ vi.mock('@buoy-design/core', async (importOriginal) => {
   };
 });
 
+vi.mock('@buoy-design/scanners', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@buoy-design/scanners')>();
+  return {
+    ...actual,
+    TailwindConfigParser: vi.fn().mockImplementation(() => ({
+      parse: vi.fn().mockResolvedValue({
+        theme: { colors: { primary: '#3b82f6' } },
+        tokens: [],
+        configPath: 'tailwind.config.js',
+        version: 3,
+      }),
+    })),
+    ArbitraryValueDetector: vi.fn().mockImplementation(() => ({
+      detect: vi.fn().mockResolvedValue([
+        { type: 'spacing', value: '13px', fullClass: 'p-[13px]', file: 'src/Card.tsx', line: 3, column: 20 },
+        { type: 'color', value: '#3b82f6', fullClass: 'bg-[#3b82f6]', file: 'src/Card.tsx', line: 3, column: 29 },
+      ]),
+    })),
+  };
+});
+
 describe('fix command', () => {
   let consoleSpy: ReturnType<typeof vi.spyOn>;
   let processExitSpy: ReturnType<typeof vi.spyOn>;
@@ -141,6 +162,85 @@ describe('fix command', () => {
     });
   });
 
+  describe('tailwind arbitrary values', () => {
+    it('suggests theme classes when tailwind is enabled', async () => {
+      const { loadConfig } = await import('../../config/loader.js');
+      const { formatFixPreview } = await import('../../output/fix-formatters.js');
+      vi.mocked(loadConfig).mockResolvedValueOnce({
+        config: {
+          sources: {
+            react: { include: ['src/**/*.tsx'] },
+            tailwind: { enabled: true, files: ['src/**/*.tsx'], exclude: [] },
+          },
+        },
+      } as any);
+
+      const cmd = createFixCommand();
+      await cmd.parseAsync(['node', 'test']);
+
+      expect(formatFixPreview).toHaveBeenCalledWith([
+        expect.objectContaining({ original: 'bg-[#3b82f6]', replacement: 'bg-primary' }),
+        expect.objectContaining({ original: 'p-[13px]', replacement: 'p-3' }),
+      ]);
+    });
+  });
+
+  describe('component hardcoded values', () => {
+    it('generates fixes that target the property each value is assigned to', async () => {
+      const { ScanOrchestrator } = await import('../../scan/orchestrator.js');
+      const { formatFixPreview } = await import('../../output/fix-formatters.js');
+      const core = await import('@buoy-design/core');
+      const actual = await vi.importActual<typeof import('@buoy-design/core')>('@buoy-design/core');
+      vi.mocked(core.generateFixes).mockImplementationOnce(actual.generateFixes);
+      vi.mocked(ScanOrchestrator).mockImplementationOnce(() => ({
+        scan: vi.fn().mockResolvedValue({
+          components: [
+            {
+              id: 'react:src/Card.tsx:Card',
+              name: 'Card',
+              source: { type: 'react', path: 'src/Card.tsx', exportName: 'Card' },
+              props: [],
+              variants: [],
+              dependencies: [],
+              metadata: {
+                hardcodedValues: [
+                  { type: 'color', value: '#3b82f6', property: 'backgroundColor', location: 'line 5' },
+                  { type: 'shadow', value: '0 1px 2px #000', property: 'boxShadow', location: 'line 6' },
+                  { type: 'color', value: '#3b82f6', property: 'color', location: 'template' },
+                ],
+              },
+            },
+          ],
+          tokens: [
+            {
+              id: 'token:--color-primary',
+              name: '--color-primary',
+              category: 'color',
+              value: { type: 'color', hex: '#3b82f6' },
+              source: { type: 'css', file: 'tokens.css', line: 1 },
+              metadata: {},
+            },
+          ],
+          errors: [],
+        }),
+      }) as any);
+
+      const cmd = createFixCommand();
+      await cmd.parseAsync(['node', 'test']);
+
+      expect(formatFixPreview).toHaveBeenCalledWith([
+        expect.objectContaining({
+          file: 'src/Card.tsx',
+          line: 5,
+          original: '#3b82f6',
+          property: 'backgroundColor',
+          fixType: 'hardcoded-color',
+          tokenName: '--color-primary',
+        }),
+      ]);
+    });
+  });
+
   describe('confidence level parsing', () => {
     it('defaults to high confidence', () => {
       const cmd = createFixCommand();
@@ -0,0 +1,59 @@
+// apps/cli/src/commands/__tests__/intent.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createIntentCommand } from "../intent.js";
+import { error } from "../../output/reporters.js";
+import { saveIntent } from "../../services/intent-store.js";
+
+vi.mock("../../output/reporters.js", () => ({
+  success: vi.fn(),
+  error: vi.fn(),
+  info: vi.fn(),
+  warning: vi.fn(),
+  header: vi.fn(),
+  keyValue: vi.fn(),
+  newline: vi.fn(),
+  setJsonMode: vi.fn(),
+}));
+
+vi.mock("../../services/intent-store.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../../services/intent-store.js")>();
+  return {
+    ...actual,
+    saveIntent: vi.fn().mockResolvedValue("/project/.buoy/intents/intent.json"),
+  };
+});
+
+describe("intent add", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(process, "exit").mockImplementation(() => undefined as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const add = (...args: string[]) =>
+    createIntentCommand().parseAsync(
+      ["node", "intent", "add", "--title", "Legacy colors", "--reason", "Rebrand pending", ...args],
+    );
+
+  it("records a decision for a known drift type", async () => {
+    await add("--pattern", "hardcoded-value");
+
+    expect(saveIntent).toHaveBeenCalledWith(
+      expect.objectContaining({ entityType: "pattern", entityId: "hardcoded-value" }),
+    );
+  });
+
+  it("rejects unknown drift types and lists the valid ones", async () => {
+    await add("--pattern", "hardcoded-values");
+
+    expect(saveIntent).not.toHaveBeenCalled();
+    expect(error).toHaveBeenCalledWith(
+      expect.stringMatching(/Invalid pattern "hardcoded-values"\. Use one of: .*hardcoded-value/),
+    );
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+});
@@ -5,7 +5,7 @@
  * buoy ahoy logout   - Sign out
  * buoy ahoy status   - Show account, project, and bot status
  * buoy ahoy github   - Set up GitHub PR bot
- * buoy ahoy gitlab   - Set up GitLab PR bot (coming soon)
+ * buoy ahoy gitlab   - Post drift review to a GitLab merge request (from CI)
  * buoy ahoy billing  - Manage subscription
  * buoy ahoy plans    - Compare pricing
  */
@@ -13,6 +13,8 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import open from 'open';
+import { writeFileSync } from 'fs';
+import type { DriftSignal, Severity } from '@buoy-design/core';
 import {
   isLoggedIn,
   getApiEndpoint,
@@ -34,6 +36,23 @@ import {
   newline,
   header,
 } from '../output/reporters.js';
+import { formatCodeQuality } from '../output/formatters.js';
+import { parseDriftLocation } from '../output/sarif.js';
+import { loadConfig, getConfigPath } from '../config/loader.js';
+import { buildAutoConfig } from '../config/auto-detect.js';
+import type { BuoyConfig } from '../config/schema.js';
+import {
+  DriftAnalysisService,
+  hasDriftsAboveThreshold,
+} from '../services/drift-analysis.js';
+import {
+  GitLabClient,
+  getGitLabContextFromEnv,
+  formatPRComment,
+  formatDriftSignalForInline,
+  toDriftResult,
+  type GitLabContext,
+} from '../integrations/index.js';
 import { createLoginCommand } from './login.js';
 import { createLogoutCommand } from './logout.js';
 import { createBillingCommand } from './billing.js';
@@ -398,24 +417,189 @@ async function handleGitHubDisconnect(account: string | true, json: boolean): Pr
 }
 
 // ============================================================================
-// GitLab (Coming Soon)
+// GitLab
 // ============================================================================
 
+// Cap inline threads so a large MR doesn't get flooded
+const MAX_INLINE_DISCUSSIONS = 10;
+
 function createGitLabCommand(): Command {
   return new Command('gitlab')
-    .description('Set up GitLab PR bot (coming soon)')
-    .action(() => {
-      header('GitLab Integration');
-      newline();
-      info('GitLab integration is coming soon!');
-      newline();
-      info('In the meantime, use the CLI in GitLab CI:');
-      newline();
-      console.log(chalk.dim('  # .gitlab-ci.yml'));
-      console.log(chalk.cyan('  buoy_check:'));
-      console.log(chalk.cyan('    script:'));
-      console.log(chalk.cyan('      - npx ahoybuoy check --json'));
-      newline();
-      info('Follow updates at: https://buoy.design/roadmap');
+    .description('Post a drift review to a GitLab merge request (run in GitLab CI)')
+    .option('--token <token>', 'GitLab access token with api scope (or use GITLAB_TOKEN env)')
+    .option('--url <url>', 'GitLab instance URL (defaults to CI_SERVER_URL or gitlab.com)')
+    .option('--project <id>', 'Project ID or path (defaults to CI_PROJECT_ID)')
+    .option('--mr <iid>', 'Merge request IID (defaults to CI_MERGE_REQUEST_IID)', parseInt)
+    .option('--no-inline', 'Skip inline discussion threads')
+    .option('--code-quality <file>', 'Write a GitLab Code Quality report to this file')
+    .option(
+      '--fail-on <severity>',
+      'Exit 1 if drift at this severity or higher: critical, warning, info, none',
+      'none',
+    )
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      const envContext = getGitLabContextFromEnv();
+      const token = options.token || envContext?.token;
+      const projectId = options.project || envContext?.projectId;
+      const mrIid = options.mr || envContext?.mrIid;
+
+      if (!token || !projectId || !mrIid) {
+        if (options.json) {
+          console.log(JSON.stringify({ error: 'Missing GitLab merge request context' }));
+          process.exit(1);
+        }
+        printGitLabSetup();
+        if (options.token || options.project || options.mr) {
+          process.exit(1);
+        }
+        return;
+      }
+
+      const context: GitLabContext = {
+        token,
+        baseUrl: options.url || envContext?.baseUrl,
+        projectId,
+        mrIid,
+      };
+
+      const spin = options.json ? null : spinner('Analyzing drift...');
+
+      try {
+        const config = await loadGitLabConfig();
+        const service = new DriftAnalysisService(config);
+        const { drifts } = await service.analyze({ includeBaseline: false });
+
+        if (options.codeQuality) {
+          writeFileSync(options.codeQuality, formatCodeQuality(drifts));
+        }
+
+        if (spin) spin.text = 'Posting merge request note...';
+        const client = new GitLabClient(context);
+        const results = toDriftResult(drifts);
+        await client.createOrUpdateNote(
+          formatPRComment(results, {
+            hasDesignReference: Boolean(config.sources.tokens?.enabled || config.sources.figma?.enabled),
+          }),
+        );
+
+        let inline = { posted: 0, skipped: 0, failed: 0 };
+        if (options.inline && drifts.length > 0) {
+          if (spin) spin.text = 'Posting inline discussions...';
+          inline = await postInlineDiscussions(client, drifts);
+        }
+
+        spin?.stop();
+
+        if (options.json) {
+          console.log(JSON.stringify({
+            mergeRequest: mrIid,
+            summary: results.summary,
+            inline,
+            codeQuality: options.codeQuality ?? null,
+          }, null, 2));
+        } else {
+          success(`Posted drift report to merge request !${mrIid}`);
+          keyValue('Drift signals', String(results.summary.total));
+          if (options.inline) {
+            keyValue('Inline threads', `${inline.posted} posted, ${inline.skipped} existing`);
+            if (inline.failed > 0) {
+              warning(`${inline.failed} thread(s) could not be placed on the diff`);
+            }
+          }
+          if (options.codeQuality) {
+            keyValue('Code Quality report', options.codeQuality);
+          }
+        }
+
+        const failOn = options.failOn as Severity | 'none';
+        if (hasDriftsAboveThreshold(drifts, failOn)) {
+          process.exit(1);
+        }
+      } catch (err) {
+        spin?.stop();
+        const message = err instanceof Error ? err.message : String(err);
+        if (options.json) {
+          console.log(JSON.stringify({ error: message }));
+        } else {
+          error(`GitLab review failed: ${message}`);
+        }
+        process.exit(1);
+      }
     });
 }
+
+async function loadGitLabConfig(): Promise<BuoyConfig> {
+  if (getConfigPath()) {
+    return (await loadConfig()).config;
+  }
+  return (await buildAutoConfig(process.cwd())).config;
+}
+
+/**
+ * Open one discussion per actionable drift on files changed in the MR.
+ * Drifts that already have a Buoy thread are skipped so reruns don't duplicate.
+ */
+async function postInlineDiscussions(
+  client: GitLabClient,
+  drifts: DriftSignal[],
+): Promise<{ posted: number; skipped: number; failed: number }> {
+  const [mr, changes, existing] = await Promise.all([
+    client.getMRInfo(),
+    client.getChanges(),
+    client.findBuoyDiscussions(),
+  ]);
+
+  const changedFiles = new Set(changes.filter((c) => !c.deletedFile).map((c) => c.newPath));
+  const existingIds = new Set(existing.map((d) => d.driftSignalId));
+  const result = { posted: 0, skipped: 0, failed: 0 };
+
+  for (const drift of drifts) {
+    if (drift.severity === 'info') continue;
+
+    const location = parseDriftLocation(drift.source.location);
+    const file = location?.file.replace(/\\/g, '/').replace(/^\.\//, '');
+    if (!file || !location?.line || !changedFiles.has(file)) continue;
+
+    if (existingIds.has(drift.id)) {
+      result.skipped++;
+      continue;
+    }
+    if (result.posted >= MAX_INLINE_DISCUSSIONS) break;
+
+    try {
+      await client.createInlineDiscussion(
+        file,
+        location.line,
+        formatDriftSignalForInline(drift, drift.id),
+        drift.id,
+        mr.diffRefs,
+      );
+      result.posted++;
+    } catch {
+      // GitLab rejects positions outside the diff; the summary note still covers it
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+function printGitLabSetup(): void {
+  header('GitLab Integration');
+  newline();
+  info('Run this command in a merge request pipeline to post drift reviews.');
+  info('Add a project access token with `api` scope as the GITLAB_TOKEN CI variable.');
+  newline();
+  console.log(chalk.dim('  # .gitlab-ci.yml'));
+  console.log(chalk.cyan('  buoy_review:'));
+  console.log(chalk.cyan('    rules:'));
+  console.log(chalk.cyan('      - if: $CI_PIPELINE_SOURCE == "merge_request_event"'));
+  console.log(chalk.cyan('    script:'));
+  console.log(chalk.cyan('      - npx ahoybuoy ahoy gitlab --code-quality gl-code-quality-report.json'));
+  console.log(chalk.cyan('    artifacts:'));
+  console.log(chalk.cyan('      reports:'));
+  console.log(chalk.cyan('        codequality: gl-code-quality-report.json'));
+  newline();
+  info('Outside CI, pass --token, --project and --mr explicitly.');
+}
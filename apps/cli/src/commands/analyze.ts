@@ -0,0 +1,23 @@
+/**
+ * buoy analyze - Design system analysis beyond a single drift check
+ *
+ * Groups the knowledge graph, the health audit, drift patterns, scan
+ * history and the design system architect.
+ */
+
+import { Command } from "commander";
+import { createGraphCommand } from "./graph.js";
+import { createAuditCommand } from "./audit.js";
+import { createLearnCommand } from "./learn.js";
+import { createHistoryCommand } from "./history.js";
+import { createArchitectCommand } from "./architect.js";
+
+export function createAnalyzeCommand(): Command {
+  return new Command("analyze")
+    .description("Analyze design system health, history and relationships")
+    .addCommand(createGraphCommand())
+    .addCommand(createAuditCommand())
+    .addCommand(createLearnCommand())
+    .addCommand(createHistoryCommand())
+    .addCommand(createArchitectCommand());
+}
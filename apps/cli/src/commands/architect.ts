@@ -18,6 +18,7 @@ import {
   header,
   keyValue,
   newline,
+  setJsonMode,
 } from '../output/reporters.js';
 import { DesignSystemArchitect } from '../services/architect.js';
 import { GitHubArchitectClient, parseRepoString } from '../integrations/index.js';
@@ -42,6 +43,10 @@ export function createArchitectCommand(): Command {
       'Write generated tokens to file instead of creating PR'
     )
     .action(async (options) => {
+      if (options.json) {
+        setJsonMode(true);
+      }
+
       const spin = spinner('Analyzing codebase...');
 
       try {
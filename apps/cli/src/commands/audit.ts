@@ -62,6 +62,10 @@ export function createAuditCommand(): Command {
 
         if (files.length === 0) {
           spin.stop();
+          if (options.json) {
+            console.log(JSON.stringify(generateAuditReport([]), null, 2));
+            return;
+          }
           error('No source files found');
           return;
         }
@@ -103,6 +107,10 @@ export function createAuditCommand(): Command {
         spin.stop();
 
         if (extractedValues.length === 0) {
+          if (options.json) {
+            console.log(JSON.stringify(generateAuditReport([]), null, 2));
+            return;
+          }
           console.log(chalk.green('✓ No hardcoded design values found!'));
           console.log(chalk.dim('Your codebase appears to be using design tokens correctly.'));
           return;
@@ -262,7 +270,7 @@ function printReport(report: AuditReport): void {
   newline();
 
   if (report.score < 50) {
-    console.log(chalk.yellow('Run `buoy drift check` for detailed fixes.'));
+    console.log(chalk.yellow('Run `buoy drift` for detailed fixes.'));
   }
 }
 
@@ -10,8 +10,21 @@ import {
   hasDriftsAboveThreshold,
   calculateDriftSummary,
 } from "../services/drift-analysis.js";
+import {
+  evaluateBudgets,
+  getExceededBudgets,
+  ratchetBudgets,
+  saveBudgets,
+  type BudgetStatus,
+  type RatchetResult,
+} from "../services/drift-budget.js";
 import { formatUpgradeHint } from "../utils/upgrade-hints.js";
 import { generatePRCommentPreview } from "../output/pr-comment-preview.js";
+import {
+  formatDriftReport,
+  isDriftReportFormat,
+  type DriftReportFormat,
+} from "../output/formatters.js";
 import {
   isLoggedIn,
   submitScanReport,
@@ -19,8 +32,9 @@ import {
   type ScanReportInput,
 } from "../cloud/index.js";
 import { ScanOrchestrator } from "../scan/orchestrator.js";
+import { getChangedLines, type LineRange } from "@buoy-design/scanners";
 
-export type OutputFormat = "text" | "json" | "ai-feedback";
+export type OutputFormat = "text" | "json" | "ai-feedback" | DriftReportFormat;
 
 /**
  * Generate a copy-paste ready diff snippet for a drift fix
@@ -185,6 +199,28 @@ export function isFromStagedFile(
   );
 }
 
+/**
+ * Check if a drift signal falls inside lines changed since the diff base.
+ * Drift without a line number only counts when its whole file is new.
+ */
+export function isInChangedLines(
+  drift: DriftSignal,
+  changedLines: Map<string, LineRange[]>,
+): boolean {
+  const match = drift.source.location?.match(/^(.+?)(?::(\d+))?(?::\d+)?$/);
+  if (!match) return false;
+
+  const filePath = match[1]!.replace(/^\.\//, "");
+  const ranges = changedLines.get(filePath);
+  if (!ranges) return false;
+
+  if (match[2] === undefined) {
+    return ranges.some((range) => range.end === Infinity);
+  }
+  const line = parseInt(match[2], 10);
+  return ranges.some((range) => line >= range.start && line <= range.end);
+}
+
 /**
  * Calculate a simple maturity score based on tokens and drift
  */
@@ -199,6 +235,33 @@ function calculateMaturityScore(tokenCount: number, driftCount: number): number
   return Math.max(0, Math.min(100, score));
 }
 
+/**
+ * Format drift budget results: exceeded and lowered budgets, and every
+ * budget when verbose
+ */
+export function formatBudgetStatuses(
+  statuses: BudgetStatus[],
+  ratcheted: RatchetResult["lowered"] = [],
+  verbose = false,
+): string {
+  const lines: string[] = [];
+  const lowered = new Map(ratcheted.map((r) => [`${r.path}\0${r.type}`, r]));
+
+  for (const status of statuses) {
+    const ratchet = lowered.get(`${status.path}\0${status.type}`);
+    const label = `${status.path} ${status.type}: ${status.count}/${status.budget}`;
+    if (status.count > status.budget) {
+      lines.push(`x Budget exceeded ${label} (+${status.count - status.budget})`);
+    } else if (ratchet) {
+      lines.push(`+ Budget lowered ${status.path} ${status.type}: ${ratchet.previous} -> ${ratchet.budget}`);
+    } else if (verbose) {
+      lines.push(`+ Budget ok ${label}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
 export function createCheckCommand(): Command {
   const cmd = new Command("check")
     .description("Fast drift check for pre-commit hooks")
@@ -208,11 +271,15 @@ export function createCheckCommand(): Command {
       "critical",
     )
     .option("--staged", "Only check staged files (for pre-commit hooks)")
+    .option(
+      "--diff-base <ref>",
+      "Only report drift on lines added or changed since this git ref (e.g., origin/main)",
+    )
     .option("--quiet", "Suppress all output except errors")
     .option("-v, --verbose", "Show detailed output")
     .option(
       "--format <format>",
-      "Output format: text, json, ai-feedback",
+      "Output format: text, json, ai-feedback, sarif, junit, checkstyle, codequality",
       "text",
     )
     .option("--preview-comment", "Preview what a PR comment would look like")
@@ -220,6 +287,10 @@ export function createCheckCommand(): Command {
     .option("--repo <repo>", "Repository name (owner/repo) for cloud reporting")
     .option("--pr <number>", "PR number for cloud reporting", parseInt)
     .option("--experimental", "Enable experimental features")
+    .option(
+      "--ratchet",
+      "Lower drift budgets in .buoy.yaml to the current counts when drift goes down",
+    )
     .action(async (options) => {
       const log = options.quiet
         ? () => {}
@@ -227,6 +298,15 @@ export function createCheckCommand(): Command {
           ? console.error.bind(console)
           : () => {};
 
+      if (options.ratchet && (options.staged || options.diffBase)) {
+        if (!options.quiet) {
+          console.error(
+            "Error: --ratchet counts all drift and can't be combined with --staged or --diff-base",
+          );
+        }
+        process.exit(1);
+      }
+
       try {
         log("Loading configuration...");
         const existingConfigPath = getConfigPath();
@@ -258,6 +338,23 @@ export function createCheckCommand(): Command {
           log(`Checking ${scannableStaged.length} staged file(s)...`);
         }
 
+        // Resolve changed lines before scanning so a bad ref fails fast
+        let changedLines: Map<string, LineRange[]> | null = null;
+        if (options.diffBase) {
+          const gitMeta = getGitMetadata(process.cwd());
+          if (!gitMeta.commitSha) {
+            throw new Error("--diff-base needs a git repository with at least one commit");
+          }
+          try {
+            changedLines = await getChangedLines(process.cwd(), options.diffBase);
+          } catch {
+            throw new Error(`Unknown git ref for --diff-base: ${options.diffBase}`);
+          }
+          log(
+            `Checking ${changedLines.size} file(s) changed on ${gitMeta.branch ?? gitMeta.commitSha} since ${options.diffBase}...`,
+          );
+        }
+
         log("Scanning for drift...");
 
         // Use consolidated drift analysis service
@@ -274,9 +371,43 @@ export function createCheckCommand(): Command {
           drifts = drifts.filter((d) => isFromStagedFile(d, stagedFiles));
         }
 
+        // Filter to changed lines only if --diff-base is used
+        if (changedLines) {
+          const lines = changedLines;
+          drifts = drifts.filter((d) => isInChangedLines(d, lines));
+        }
+
+        // Drift covered by a budget only fails the check once the budget
+        // is exceeded; everything else goes through --fail-on. Budgets count
+        // all drift, not just the staged or changed part
+        const budgets = config.drift.budgets;
+        const { statuses: budgetStatuses, unbudgeted } = evaluateBudgets(
+          result.drifts,
+          budgets,
+          drifts,
+        );
+        const exceededBudgets = getExceededBudgets(budgetStatuses);
+
+        let ratcheted: RatchetResult["lowered"] = [];
+        if (options.ratchet) {
+          if (budgetStatuses.length === 0) {
+            log("No drift budgets configured, nothing to ratchet");
+          } else {
+            ratcheted = ratchetBudgets(budgets, budgetStatuses).lowered;
+            if (ratcheted.length > 0) {
+              if (!existingConfigPath) {
+                throw new Error("--ratchet needs a .buoy.yaml config file");
+              }
+              await saveBudgets(existingConfigPath, ratcheted);
+              log(`Lowered ${ratcheted.length} drift budget(s) in ${existingConfigPath}`);
+            }
+          }
+        }
+
         // Determine exit code using shared utility
         const failOn = options.failOn as Severity | "none";
-        const exitCode = hasDriftsAboveThreshold(drifts, failOn) ? 1 : 0;
+        const exitCode =
+          hasDriftsAboveThreshold(unbudgeted, failOn) || exceededBudgets.length > 0 ? 1 : 0;
 
         // Summary counts using shared utility
         const summary = calculateDriftSummary(drifts);
@@ -388,6 +519,12 @@ export function createCheckCommand(): Command {
           return;
         }
 
+        if (isDriftReportFormat(format)) {
+          console.log(formatDriftReport(drifts, format));
+          process.exit(exitCode);
+          return;
+        }
+
         if (format === "json") {
           console.log(
             JSON.stringify(
@@ -402,6 +539,10 @@ export function createCheckCommand(): Command {
                   details: d.details,
                 })),
                 summary,
+                ...(budgetStatuses.length > 0 && {
+                  budgets: budgetStatuses,
+                  ratcheted,
+                }),
               },
               null,
               2,
@@ -413,6 +554,12 @@ export function createCheckCommand(): Command {
 
         // Default text format
         if (!options.quiet) {
+          const budgetReport = formatBudgetStatuses(budgetStatuses, ratcheted, options.verbose);
+          if (budgetReport) {
+            console.log(budgetReport);
+            console.log("");
+          }
+
           if (exitCode === 0) {
             if (summary.total === 0) {
               console.log("+ No drift detected");
@@ -422,7 +569,9 @@ export function createCheckCommand(): Command {
               );
             }
           } else {
-            console.log("x Drift detected");
+            console.log(exceededBudgets.length > 0 && !hasDriftsAboveThreshold(unbudgeted, failOn)
+              ? "x Drift budget exceeded"
+              : "x Drift detected");
             console.log("");
             console.log(`  Critical: ${summary.critical}`);
             console.log(`  Warning:  ${summary.warning}`);
@@ -1,6 +1,6 @@
 import { Command } from 'commander';
-import { readFileSync, existsSync } from 'fs';
-import { resolve, basename } from 'path';
+import { readFileSync, existsSync, statSync } from 'fs';
+import { resolve, basename, relative } from 'path';
 import chalk from 'chalk';
 import {
   spinner,
@@ -19,12 +19,18 @@ import {
   compareTokens,
   type DesignToken,
 } from '@buoy-design/core';
-import { TokenScanner } from '@buoy-design/scanners';
+import { TokenScanner, loadTokenSet } from '@buoy-design/scanners';
 
 export function createCompareCommand(): Command {
   const cmd = new Command('compare')
     .description('Compare design tokens from a file against your codebase')
-    .argument('<design-tokens-file>', 'Path to design tokens JSON file (DTCG, Tokens Studio, or Style Dictionary format)')
+    .argument('<design-tokens-file>', 'Path to design tokens JSON file (DTCG, Tokens Studio, or Style Dictionary format) or token set folder')
+    .option(
+      '--theme <name>',
+      'Tokens Studio theme to apply to a token set folder (repeatable)',
+      (value: string, previous: string[]) => [...previous, value],
+      [] as string[],
+    )
     .option('--json', 'Output as JSON')
     .option('--strict', 'Exit with error code if any drift detected')
     .option('-v, --verbose', 'Show detailed match information')
@@ -46,21 +52,37 @@ export function createCompareCommand(): Command {
           process.exit(1);
         }
 
-        // Parse design tokens file
-        const content = readFileSync(fullPath, 'utf-8');
+        // Parse design tokens file, or every set in a token set folder
+        const isTokenSet = statSync(fullPath).isDirectory();
         let designTokens: DesignToken[];
 
         try {
-          const json = JSON.parse(content);
-          const format = detectFormat(json);
+          if (isTokenSet) {
+            const tokenSet = await loadTokenSet(fullPath, { themes: options.theme, projectRoot: cwd });
+
+            if (!options.json) {
+              spin.stop();
+              info(`Token sets: ${tokenSet.enabledSets.join(', ') || 'none'}`);
+              if (tokenSet.themes.length > 0) {
+                info(`Themes: ${tokenSet.themes.join(', ')}`);
+              }
+              spin.start('Parsing tokens...');
+            }
 
-          if (!options.json) {
-            spin.stop();
-            info(`Detected format: ${formatName(format)}`);
-            spin.start('Parsing tokens...');
-          }
+            designTokens = tokenSet.tokens;
+          } else {
+            const content = readFileSync(fullPath, 'utf-8');
+            const json = JSON.parse(content);
+            const format = detectFormat(json);
 
-          designTokens = parseTokenFile(content);
+            if (!options.json) {
+              spin.stop();
+              info(`Detected format: ${formatName(format)}`);
+              spin.start('Parsing tokens...');
+            }
+
+            designTokens = parseTokenFile(content);
+          }
         } catch (parseErr) {
           spin.stop();
           error(`Failed to parse token file: ${parseErr instanceof Error ? parseErr.message : String(parseErr)}`);
@@ -80,7 +102,11 @@ export function createCompareCommand(): Command {
         const scanner = new TokenScanner({
           projectRoot: cwd,
           include: ['**/*.css', '**/*.scss', '**/*.json'],
-          exclude: ['**/node_modules/**', '**/dist/**', '**/build/**', '**/*.min.css'],
+          exclude: [
+            '**/node_modules/**', '**/dist/**', '**/build/**', '**/*.min.css',
+            // Don't count the design token set as code tokens
+            ...(isTokenSet ? [`${relative(cwd, fullPath)}/**`] : []),
+          ],
         });
 
         const scanResult = await scanner.scan();
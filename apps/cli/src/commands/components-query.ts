@@ -24,7 +24,7 @@ import {
   keyValue,
 } from '../output/reporters.js';
 
-interface QueryResult {
+export interface QueryResult {
   component: Component;
   score: number;
   matchType: 'exact' | 'fuzzy' | 'prop' | 'pattern';
@@ -62,7 +62,7 @@ function fuzzyScore(query: string, target: string): number {
 /**
  * Search components by name
  */
-function searchByName(components: Component[], query: string): QueryResult[] {
+export function searchByName(components: Component[], query: string): QueryResult[] {
   const results: QueryResult[] = [];
 
   for (const component of components) {
@@ -148,7 +148,7 @@ function searchByPattern(components: Component[], pattern: string): QueryResult[
 /**
  * Format component path for display
  */
-function getComponentPath(component: Component): string {
+export function getComponentPath(component: Component): string {
   if ('path' in component.source) {
     return component.source.path;
   }
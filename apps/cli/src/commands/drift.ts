@@ -20,10 +20,17 @@ import {
   formatMarkdown,
   formatHtml,
   formatAgent,
+  formatDriftReport,
+  formatDriftDelta,
+  isDriftReportFormat,
+  DRIFT_REPORT_FORMATS,
 } from "../output/formatters.js";
 import { writeFileSync } from "fs";
 import type { DriftSignal, Severity } from "@buoy-design/core";
+import type { BuoyConfig } from "../config/schema.js";
 import { DriftAnalysisService } from "../services/drift-analysis.js";
+import { startDriftWatch } from "../services/drift-watch.js";
+import { recordScanHistory } from "../store/index.js";
 import { withOptionalCache, type ScanCache } from "@buoy-design/scanners";
 import { formatUpgradeHint } from "../utils/upgrade-hints.js";
 
@@ -35,18 +42,32 @@ export function createDriftCommand(): Command {
       "Filter by minimum severity (info, warning, critical)",
     )
     .option("-t, --type <type>", "Filter by drift type")
+    .option("--owner <owner>", "Only show drift owned by this CODEOWNERS owner (e.g., @acme/web)")
     .option("--json", "Output as JSON")
     .option("--markdown", "Output as Markdown")
     .option("--html [file]", "Output as HTML report (optionally specify filename)")
     .option("--agent", "Output optimized for AI agents (concise, actionable)")
+    .option("--format <format>", "Output format: sarif, junit, checkstyle, codequality")
     .option("--table", "Show as table instead of tree view")
     .option("-v, --verbose", "Verbose output with full details")
     .option("--include-baseline", "Include baselined drifts (show all)")
     .option("--no-cache", "Disable incremental scanning cache")
     .option("--clear-cache", "Clear cache before scanning")
+    .option("--no-persist", "Skip saving results to scan history (filtered runs are never saved)")
+    .option("-w, --watch", "Re-analyze changed files on save and show new/resolved drift")
     .action(async (options) => {
+      if (options.format && !isDriftReportFormat(options.format)) {
+        error(`Unknown format: ${options.format}. Supported: ${DRIFT_REPORT_FORMATS.join(", ")}`);
+        process.exit(1);
+      }
+
+      if (options.watch && (options.format || options.html || options.markdown || options.agent)) {
+        error("--watch can only be combined with --json");
+        process.exit(1);
+      }
+
       // Set JSON mode before creating spinner to redirect spinner to stderr
-      if (options.json || options.agent) {
+      if (options.json || options.agent || options.format) {
         setJsonMode(true);
       }
       const spin = spinner("🛟 Scanning for design drift...");
@@ -55,6 +76,11 @@ export function createDriftCommand(): Command {
         const { config } = await loadConfig();
         spin.text = "Scanning for drift...";
 
+        if (options.watch) {
+          await watchDrift(config, options, spin);
+          return;
+        }
+
         // Use cache wrapper for guaranteed cleanup
         const { result } = await withOptionalCache(
           process.cwd(),
@@ -68,6 +94,7 @@ export function createDriftCommand(): Command {
               includeBaseline: options.includeBaseline,
               minSeverity: options.severity as Severity | undefined,
               filterType: options.type,
+              filterOwner: options.owner,
               cache,
             });
           },
@@ -80,10 +107,25 @@ export function createDriftCommand(): Command {
         const drifts = result.drifts;
         const sourceComponents = result.components;
         const baselinedCount = result.baselinedCount;
+        const intentSuppressedCount = result.intentSuppressedCount;
+
+        if (options.persist !== false && !options.severity && !options.type && !options.owner) {
+          spin.text = "Saving scan history...";
+          await recordScanHistory(config, {
+            components: result.components,
+            tokens: result.tokens,
+            drifts,
+          });
+        }
 
         spin.stop();
 
         // Output results
+        if (options.format) {
+          console.log(formatDriftReport(drifts, options.format));
+          return;
+        }
+
         if (options.agent) {
           console.log(formatAgent(drifts));
           return;
@@ -95,6 +137,7 @@ export function createDriftCommand(): Command {
               drifts,
               summary: getSummary(drifts),
               baselinedCount,
+              intentSuppressedCount,
             }),
           );
           return;
@@ -131,6 +174,9 @@ export function createDriftCommand(): Command {
           if (baselinedCount > 0) {
             keyValue("Baselined (hidden)", String(baselinedCount));
           }
+          if (intentSuppressedCount > 0) {
+            keyValue("Excepted by intent (hidden)", String(intentSuppressedCount));
+          }
           newline();
           console.log(formatDriftList(drifts));
         } else if (options.table) {
@@ -191,6 +237,76 @@ export function createDriftCommand(): Command {
   return cmd;
 }
 
+/**
+ * Run drift analysis, then re-analyze changed files until Ctrl+C.
+ * With --json, emits one JSON object per line (initial result, then deltas).
+ */
+async function watchDrift(
+  config: BuoyConfig,
+  options: {
+    json?: boolean;
+    severity?: string;
+    type?: string;
+    owner?: string;
+    includeBaseline?: boolean;
+    clearCache?: boolean;
+  },
+  spin: ReturnType<typeof spinner>,
+): Promise<void> {
+  const stop = await startDriftWatch(config, {
+    includeBaseline: options.includeBaseline,
+    minSeverity: options.severity as Severity | undefined,
+    filterType: options.type,
+    filterOwner: options.owner,
+    clearCache: options.clearCache,
+    onProgress: (msg) => {
+      spin.text = msg;
+    },
+    onReady: (drifts) => {
+      spin.stop();
+      if (options.json) {
+        console.log(JSON.stringify({ event: "ready", drifts, summary: getSummary(drifts) }));
+        return;
+      }
+      const uniqueFiles = new Set(
+        drifts.map(d => d.source.location?.split(':')[0] || d.source.entityName)
+      );
+      newline();
+      console.log(formatDriftTree(drifts, uniqueFiles.size));
+      newline();
+      info("Watching for changes... (Ctrl+C to stop)");
+    },
+    onChange: (delta) => {
+      // Changes outside scanned sources don't affect drift; stay quiet
+      if (delta.componentsAnalyzed === 0 && delta.introduced.length === 0 && delta.resolved.length === 0) {
+        return;
+      }
+      if (options.json) {
+        console.log(
+          JSON.stringify({
+            event: "change",
+            changedFiles: delta.changedFiles,
+            introduced: delta.introduced,
+            resolved: delta.resolved,
+            summary: getSummary(delta.drifts),
+          }),
+        );
+        return;
+      }
+      console.log(formatDriftDelta(delta));
+    },
+    onError: (err) => {
+      error(`Re-analysis failed: ${err instanceof Error ? err.message : String(err)}`);
+    },
+  });
+
+  await new Promise<void>((resolve) => {
+    process.once("SIGINT", () => {
+      stop().then(resolve, resolve);
+    });
+  });
+}
+
 function getSummary(drifts: DriftSignal[]): {
   critical: number;
   warning: number;
@@ -1,7 +1,8 @@
 /**
  * Fix Command
  *
- * Suggests and applies fixes for hardcoded values by replacing them with design tokens.
+ * Suggests and applies fixes for hardcoded values by replacing them with design tokens,
+ * and rewrites arbitrary Tailwind classes (p-[13px]) to theme classes (p-3).
  */
 
 import { Command } from "commander";
@@ -28,14 +29,22 @@ import {
   runSafetyChecks,
   validateFixTargets,
 } from "../fix/index.js";
+import {
+  ArbitraryValueDetector,
+  TailwindConfigParser,
+  generateTailwindFixes,
+} from "@buoy-design/scanners";
 import {
   generateFixes,
   type Fix,
+  type FixGeneratorOptions,
   type ConfidenceLevel,
   type DesignToken,
   type DriftSignal,
+  type Component,
 } from "@buoy-design/core";
 import type { BuoyConfig } from "../config/schema.js";
+import { inferFixType } from "../services/design-system-data.js";
 
 export function createFixCommand(): Command {
   const cmd = new Command("fix")
@@ -92,7 +101,32 @@ export function createFixCommand(): Command {
         // Get tokens from scan
         const tokens = scanResult.tokens || [];
 
-        if (tokens.length === 0) {
+        // Parse options
+        const minConfidence = parseConfidenceLevel(options.confidence);
+        const includeTypes = options.type
+          ? options.type.split(",").map((t: string) => t.trim())
+          : undefined;
+        const includeFiles = options.file
+          ? options.file.split(",").map((f: string) => f.trim())
+          : [];
+        const excludeFiles = options.exclude
+          ? options.exclude.split(",").map((f: string) => f.trim())
+          : [];
+        const generatorOptions: FixGeneratorOptions = {
+          types: includeTypes,
+          minConfidence,
+          includeFiles,
+          excludeFiles,
+        };
+
+        // Tailwind arbitrary values are rewritten to theme classes
+        let tailwindFixes: Fix[] = [];
+        if (config.sources.tailwind?.enabled) {
+          spin.text = "Matching Tailwind arbitrary values to theme...";
+          tailwindFixes = await generateTailwindThemeFixes(config, generatorOptions);
+        }
+
+        if (tokens.length === 0 && tailwindFixes.length === 0) {
           spin.stop();
           // No Dead Ends: Show what we found and guide next steps
           console.log("");
@@ -136,12 +170,10 @@ export function createFixCommand(): Command {
           availableTokens: tokens as DesignToken[],
         });
 
-        // Get drift signals (hardcoded values specifically)
-        const driftSignals: DriftSignal[] = diffResult.drifts.filter((d) =>
-          d.type.startsWith("hardcoded-"),
-        );
+        // One signal per hardcoded value, so each fix targets its property
+        const driftSignals = hardcodedValueSignals(components);
 
-        if (driftSignals.length === 0) {
+        if (driftSignals.length === 0 && tailwindFixes.length === 0) {
           spin.stop();
           
           // If no components were found, we might have missed inline styles
@@ -178,30 +210,16 @@ export function createFixCommand(): Command {
           return;
         }
 
-        // Parse options
-        const minConfidence = parseConfidenceLevel(options.confidence);
-        const includeTypes = options.type
-          ? options.type.split(",").map((t: string) => t.trim())
-          : undefined;
-        const includeFiles = options.file
-          ? options.file.split(",").map((f: string) => f.trim())
-          : [];
-        const excludeFiles = options.exclude
-          ? options.exclude.split(",").map((f: string) => f.trim())
-          : [];
-
         // Generate fixes
         spin.text = "Generating fix suggestions...";
-        const fixes = generateFixes(
-          driftSignals as DriftSignal[],
-          tokens as DesignToken[],
-          {
-            types: includeTypes,
-            minConfidence,
-            includeFiles,
-            excludeFiles,
-          },
-        );
+        const fixes = [
+          ...generateFixes(
+            driftSignals,
+            tokens as DesignToken[],
+            generatorOptions,
+          ),
+          ...tailwindFixes,
+        ];
 
         spin.stop();
 
@@ -265,6 +283,71 @@ export function createFixCommand(): Command {
   return cmd;
 }
 
+/** Composite values have no single-token fix */
+const UNFIXABLE_VALUE_TYPES = new Set(["shadow", "border", "fontFamily"]);
+
+/**
+ * Turn each hardcoded value the scanners found on a component into a drift
+ * signal the fix generator understands, located at its file and line
+ */
+function hardcodedValueSignals(components: Component[]): DriftSignal[] {
+  const signals: DriftSignal[] = [];
+
+  for (const component of components) {
+    if (!("path" in component.source)) continue;
+    const file = component.source.path;
+
+    for (const hardcoded of component.metadata.hardcodedValues ?? []) {
+      if (UNFIXABLE_VALUE_TYPES.has(hardcoded.type)) continue;
+
+      // Scanners report "line 12", "12:4" or "file:12"; values without a line can't be located
+      const position = hardcoded.location.match(/(\d+)(?::(\d+))?$/);
+      if (!position) continue;
+      const line = position[1]!;
+      const column = position[2] ?? "1";
+
+      const fixType = inferFixType(hardcoded.value, hardcoded.property);
+      signals.push({
+        id: `drift:${fixType}:${component.id}:${hardcoded.property}:${line}`,
+        type: fixType as DriftSignal["type"],
+        severity: fixType === "hardcoded-color" ? "warning" : "info",
+        source: {
+          entityType: "component",
+          entityId: component.id,
+          entityName: component.name,
+          location: `${file}:${line}:${column}`,
+        },
+        message: `Component "${component.name}" has hardcoded ${hardcoded.property}: ${hardcoded.value}`,
+        details: { actual: hardcoded.value, property: hardcoded.property },
+        detectedAt: new Date(),
+      });
+    }
+  }
+
+  return signals;
+}
+
+/**
+ * Find arbitrary Tailwind values and match them to the project theme
+ */
+async function generateTailwindThemeFixes(
+  config: BuoyConfig,
+  options: FixGeneratorOptions,
+): Promise<Fix[]> {
+  const tailwind = config.sources.tailwind!;
+  const parsed = await new TailwindConfigParser(process.cwd()).parse();
+
+  const detector = new ArbitraryValueDetector({
+    projectRoot: process.cwd(),
+    include: tailwind.files,
+    exclude: tailwind.exclude,
+  });
+  const values = await detector.detect();
+
+  // Without a config file, the default Tailwind scales still apply
+  return generateTailwindFixes(values, parsed?.theme ?? {}, options);
+}
+
 /**
  * Handle apply mode - run safety checks and apply fixes
  */
@@ -1,4 +1,5 @@
 import { Command } from "commander";
+import { relative } from "path";
 import chalk from "chalk";
 import {
   spinner,
@@ -11,7 +12,6 @@ import {
   setJsonMode,
 } from "../output/reporters.js";
 import {
-  GraphBuilder,
   getGraphStats,
   exportToDOT,
   exportToCytoscape,
@@ -24,7 +24,21 @@ import {
   collectGitHistory,
   collectUsages,
   collectImports,
+  runGraphQuery,
+  type DesignSystemGraph,
 } from "@buoy-design/core";
+import { formatGraphQueryTable } from "../output/formatters.js";
+import { loadConfig, getConfigPath } from "../config/loader.js";
+import { buildAutoConfig } from "../config/auto-detect.js";
+import { ScanOrchestrator } from "../scan/orchestrator.js";
+import { withOptionalCache, type ScanCache } from "@buoy-design/scanners";
+import {
+  buildGraph,
+  loadGraph,
+  getGraphSummary,
+  DEFAULT_GRAPH_OPTIONS,
+  type GraphScan,
+} from "../services/graph-store.js";
 
 export function createGraphCommand(): Command {
   const cmd = new Command("graph")
@@ -51,6 +65,8 @@ function createBuildCommand(): Command {
     .option("--imports", "Include import relationships", true)
     .option("--no-imports", "Skip import collection")
     .option("--since <date>", "Only include commits since date (ISO format)")
+    .option("--full", "Ignore the stored graph and rebuild everything")
+    .option("--no-cache", "Disable incremental scanning cache")
     .option("--json", "Output as JSON")
     .action(async (options) => {
       if (options.json) {
@@ -61,118 +77,48 @@ function createBuildCommand(): Command {
       const projectRoot = process.cwd();
 
       try {
-        const builder = new GraphBuilder({ projectId: "default" });
-        const stats = {
-          commits: 0,
-          developers: 0,
-          tokenUsages: 0,
-          componentUsages: 0,
-          imports: 0,
-          files: new Set<string>(),
+        const onProgress = (message: string) => {
+          spin.text = message;
         };
-
-        // Collect git history
-        if (options.git) {
-          spin.text = "Collecting git history...";
-          const gitResult = await collectGitHistory(projectRoot, {
-            since: options.since ? new Date(options.since) : undefined,
-            includeStats: true,
-          });
-
-          // Add commits to graph
-          for (const commit of gitResult.commits) {
-            const commitId = builder.addCommit(
-              commit.sha,
-              commit.message,
-              commit.author,
-              commit.authorEmail,
-              commit.timestamp
-            );
-
-            // Track files
-            for (const file of commit.filesChanged) {
-              const fileId = builder.addFile(file.path, file.path);
-              stats.files.add(file.path);
-              builder.addEdge("CHANGED", commitId, fileId, {
-                createdAt: commit.timestamp,
-              });
-            }
-          }
-
-          // Add developers
-          for (const dev of gitResult.developers) {
-            const devId = builder.addDeveloper(
-              dev.id,
-              dev.name,
-              dev.email,
-              undefined,
-              dev.commitCount
-            );
-
-            // Link to commits
-            for (const commit of gitResult.commits) {
-              if (commit.authorEmail === dev.email) {
-                const commitId = `commit:${commit.sha}`;
-                builder.addEdge("AUTHORED", devId, commitId);
-              }
-            }
-          }
-
-          stats.commits = gitResult.commits.length;
-          stats.developers = gitResult.developers.length;
-        }
-
-        // Collect usages
-        if (options.usages) {
-          spin.text = "Collecting token and component usages...";
-          const usageResult = await collectUsages({ projectRoot });
-
-          // Track hardcoded values as potential tokens
-          for (const usage of usageResult.hardcodedValues) {
-            stats.files.add(usage.filePath);
-          }
-
-          stats.tokenUsages = usageResult.tokenUsages.length;
-          stats.componentUsages = usageResult.componentUsages.length;
-        }
-
-        // Collect imports
-        if (options.imports) {
-          spin.text = "Collecting import relationships...";
-          const importResult = await collectImports({ projectRoot });
-
-          for (const imp of importResult.imports) {
-            if (!imp.isExternal) {
-              const sourceId = builder.addFile(imp.sourceFile, imp.sourceFile);
-              const targetId = builder.addFile(imp.targetFile, imp.targetFile);
-              builder.addEdge("IMPORTS", sourceId, targetId, {
-                createdAt: new Date(),
-              });
-              stats.files.add(imp.sourceFile);
-              stats.files.add(imp.targetFile);
-            }
-          }
-
-          stats.imports = importResult.imports.filter((i) => !i.isExternal)
-            .length;
-        }
+        const result = await buildGraph(projectRoot, {
+          git: options.git,
+          usages: options.usages,
+          imports: options.imports,
+          since: options.since,
+          full: options.full,
+          scan: await scanForGraph(projectRoot, onProgress, {
+            cache: options.cache,
+            clearCache: options.full,
+          }),
+          onProgress,
+        });
 
         spin.stop();
 
-        const graph = builder.build();
+        const graph = result.stored.graph;
         const graphStats = getGraphStats(graph);
+        const summary = getGraphSummary(graph);
 
         if (options.json) {
           console.log(
             JSON.stringify(
               {
+                path: result.path,
+                incremental: result.incremental,
+                changes: {
+                  commitsAdded: result.commitsAdded,
+                  filesCollected: result.filesCollected,
+                  filesRemoved: result.filesRemoved,
+                },
                 stats: {
                   nodes: graphStats.nodeCount,
                   edges: graphStats.edgeCount,
-                  commits: stats.commits,
-                  developers: stats.developers,
-                  files: stats.files.size,
-                  imports: stats.imports,
+                  commits: summary.commits,
+                  developers: summary.developers,
+                  files: summary.files,
+                  imports: summary.imports,
+                  tokenUsages: summary.tokenUsages,
+                  componentUsages: summary.componentUsages,
                 },
                 nodesByType: graphStats.nodesByType,
                 edgesByType: graphStats.edgesByType,
@@ -184,19 +130,30 @@ function createBuildCommand(): Command {
           return;
         }
 
-        success("Graph built successfully!");
+        success(result.incremental ? "Graph updated!" : "Graph built successfully!");
+        keyValue("Saved to", relative(projectRoot, result.path));
         newline();
 
+        if (result.incremental) {
+          header("Changes Since Last Build");
+          keyValue("New commits", String(result.commitsAdded));
+          keyValue("Files re-collected", String(result.filesCollected));
+          keyValue("Files removed", String(result.filesRemoved));
+          newline();
+        }
+
         header("Graph Statistics");
         keyValue("Total nodes", String(graphStats.nodeCount));
         keyValue("Total edges", String(graphStats.edgeCount));
         newline();
 
         header("Collected");
-        keyValue("Commits", String(stats.commits));
-        keyValue("Developers", String(stats.developers));
-        keyValue("Files", String(stats.files.size));
-        keyValue("Import relationships", String(stats.imports));
+        keyValue("Commits", String(summary.commits));
+        keyValue("Developers", String(summary.developers));
+        keyValue("Files", String(summary.files));
+        keyValue("Import relationships", String(summary.imports));
+        keyValue("Token usages", String(summary.tokenUsages));
+        keyValue("Component usages", String(summary.componentUsages));
         newline();
 
         if (Object.keys(graphStats.nodesByType).length > 0) {
@@ -221,38 +178,40 @@ function createBuildCommand(): Command {
 function createQueryCommand(): Command {
   return new Command("query")
     .description("Query the knowledge graph")
-    .argument("<question>", "What to query (e.g., 'unused tokens')")
+    .argument(
+      "<question>",
+      "What to query (e.g., 'unused tokens' or 'MATCH (t:Token) RETURN t.name')",
+    )
     .option("--json", "Output as JSON")
     .action(async (question, options) => {
       if (options.json) {
         setJsonMode(true);
       }
 
-      const spin = spinner("Building graph for query...");
+      const spin = spinner("Loading graph...");
       const projectRoot = process.cwd();
 
       try {
-        // Build a quick graph for querying
-        const builder = new GraphBuilder({ projectId: "default" });
-
-        // For now, we'll build a minimal graph for queries
-        // In production, this would load from SQLite
-        spin.text = "Collecting data...";
-
-        const gitResult = await collectGitHistory(projectRoot, { maxCount: 100 });
-        for (const dev of gitResult.developers) {
-          builder.addDeveloper(dev.id, dev.name, dev.email, undefined, dev.commitCount);
-        }
+        const graph = await loadOrBuildGraph(projectRoot, (message) => {
+          spin.text = message;
+        });
 
         spin.stop();
 
-        const graph = builder.build();
-
         // Parse and execute query
         const queryLower = question.toLowerCase();
         let result: unknown = null;
 
-        if (queryLower.includes("unused") && queryLower.includes("token")) {
+        if (/^\s*match\b/.test(queryLower)) {
+          const queryResult = runGraphQuery(graph, question);
+          if (options.json) {
+            console.log(JSON.stringify(queryResult, null, 2));
+          } else {
+            console.log(formatGraphQueryTable(queryResult));
+            newline();
+            info(`${queryResult.rows.length} row${queryResult.rows.length === 1 ? "" : "s"}`);
+          }
+        } else if (queryLower.includes("unused") && queryLower.includes("token")) {
           result = findUnusedTokens(graph);
           if (options.json) {
             console.log(JSON.stringify({ unusedTokens: result }, null, 2));
@@ -339,6 +298,9 @@ function createQueryCommand(): Command {
           info("  • undocumented components");
           info("  • repeat offenders");
           info("  • coverage");
+          newline();
+          info("Or ask your own question with MATCH:");
+          info('  MATCH (c:Component)-[:USES]->(t:Token {category:"color"}) WHERE c.file ~ "legacy/" RETURN c, count(t)');
           process.exit(1);
         }
       } catch (err) {
@@ -360,43 +322,16 @@ function createExportCommand(): Command {
     .option("-f, --format <format>", "Output format (json, dot, cytoscape)", "json")
     .option("-o, --output <file>", "Output file (default: stdout)")
     .action(async (options) => {
-      const spin = spinner("Building graph for export...");
+      const spin = spinner("Loading graph...");
       const projectRoot = process.cwd();
 
       try {
-        // Build graph
-        const builder = new GraphBuilder({ projectId: "default" });
-
-        spin.text = "Collecting data...";
-        const gitResult = await collectGitHistory(projectRoot, { maxCount: 200 });
-
-        for (const commit of gitResult.commits) {
-          builder.addCommit(
-            commit.sha,
-            commit.message,
-            commit.author,
-            commit.authorEmail,
-            commit.timestamp
-          );
-        }
-
-        for (const dev of gitResult.developers) {
-          builder.addDeveloper(dev.id, dev.name, dev.email, undefined, dev.commitCount);
-        }
-
-        spin.text = "Collecting imports...";
-        const importResult = await collectImports({ projectRoot });
-        for (const imp of importResult.imports) {
-          if (!imp.isExternal) {
-            const sourceId = builder.addFile(imp.sourceFile, imp.sourceFile);
-            const targetId = builder.addFile(imp.targetFile, imp.targetFile);
-            builder.addEdge("IMPORTS", sourceId, targetId);
-          }
-        }
+        const graph = await loadOrBuildGraph(projectRoot, (message) => {
+          spin.text = message;
+        });
 
         spin.stop();
 
-        const graph = builder.build();
         let output: string;
 
         switch (options.format) {
@@ -428,6 +363,62 @@ function createExportCommand(): Command {
     });
 }
 
+/**
+ * Load the graph stored by `graph build`, building it first if there is none
+ */
+async function loadOrBuildGraph(
+  projectRoot: string,
+  onProgress: (message: string) => void
+): Promise<DesignSystemGraph> {
+  const stored = await loadGraph(projectRoot);
+  if (stored) {
+    return stored.graph;
+  }
+
+  const result = await buildGraph(projectRoot, {
+    ...DEFAULT_GRAPH_OPTIONS,
+    scan: await scanForGraph(projectRoot, onProgress),
+    onProgress,
+  });
+  return result.stored.graph;
+}
+
+/**
+ * Scan the project's components and tokens for the graph's Component nodes
+ * and token categories
+ */
+async function scanForGraph(
+  projectRoot: string,
+  onProgress: (message: string) => void,
+  options: { cache?: boolean; clearCache?: boolean } = {}
+): Promise<GraphScan> {
+  const config = getConfigPath(projectRoot)
+    ? (await loadConfig(projectRoot)).config
+    : (await buildAutoConfig(projectRoot)).config;
+
+  // Only files changed since the last scan are scanned again
+  const { result } = await withOptionalCache(
+    projectRoot,
+    options.cache !== false,
+    async (cache: ScanCache | undefined) => {
+      const orchestrator = new ScanOrchestrator(config, projectRoot, { cache });
+
+      // Design tool components have no file to link to
+      const sources = orchestrator
+        .getEnabledSources()
+        .filter((source) => source !== "figma" && source !== "storybook");
+      if (sources.length === 0) {
+        return { components: [], tokens: [] };
+      }
+
+      const { components, tokens } = await orchestrator.scan({ sources, onProgress });
+      return { components, tokens };
+    },
+    { clearCache: options.clearCache }
+  );
+  return result;
+}
+
 // ============================================================================
 // Stats Command
 // ============================================================================
@@ -16,7 +16,7 @@ import { createStore, getProjectName } from "../store/index.js";
 
 export function createHistoryCommand(): Command {
   const cmd = new Command("history")
-    .description("View scan history and trends")
+    .description("View scan history and trends (recorded by drift, show drift and show all)")
     .option("--json", "Output as JSON")
     .option("-n, --limit <number>", "Number of scans to show", "10")
     .option("-v, --verbose", "Show detailed information")
@@ -0,0 +1,102 @@
+/**
+ * Impact Command
+ *
+ * Reports every component, file, story and owner touched by a proposed
+ * design system change, with a checklist for the pull request.
+ */
+
+import { Command } from "commander";
+import { writeFile } from "fs/promises";
+import { loadConfig, getConfigPath } from "../config/loader.js";
+import { buildAutoConfig } from "../config/auto-detect.js";
+import {
+  spinner,
+  success,
+  error,
+  warning,
+  setJsonMode,
+} from "../output/reporters.js";
+import {
+  formatTokenImpact,
+  formatTokenImpactChecklist,
+} from "../output/impact-formatters.js";
+import { analyzeTokenImpact } from "../services/token-impact.js";
+import type { BuoyConfig } from "../config/schema.js";
+
+export function createImpactCommand(): Command {
+  return new Command("impact")
+    .description("Show what a proposed design system change touches")
+    .addCommand(createTokenImpactCommand());
+}
+
+function createTokenImpactCommand(): Command {
+  return new Command("token")
+    .description("Show what changing or deleting a token touches")
+    .argument("<name>", "Token name (e.g., color-primary or color.primary)")
+    .option("--value <value>", "Proposed new value")
+    .option("--delete", "Report the impact of deleting the token")
+    .option("--json", "Output as JSON")
+    .option("--markdown", "Output the PR checklist as markdown")
+    .option("-o, --output <path>", "Write the report to a file")
+    .action(async (name, options) => {
+      if (options.json) {
+        setJsonMode(true);
+      }
+
+      if (options.value === undefined && !options.delete) {
+        error("Pass --value <new value> or --delete");
+        process.exit(1);
+      }
+      if (options.value !== undefined && options.delete) {
+        error("Pass either --value or --delete, not both");
+        process.exit(1);
+      }
+
+      const spin = spinner("Loading configuration...");
+
+      try {
+        const existingConfigPath = getConfigPath();
+        let config: BuoyConfig;
+
+        if (existingConfigPath) {
+          const result = await loadConfig();
+          config = result.config;
+        } else {
+          spin.text = "Auto-detecting project setup...";
+          const autoResult = await buildAutoConfig(process.cwd());
+          config = autoResult.config;
+        }
+
+        const { report, errors } = await analyzeTokenImpact(config, name, process.cwd(), {
+          value: options.delete ? undefined : options.value,
+          onProgress: (message) => {
+            spin.text = message;
+          },
+        });
+
+        spin.stop();
+
+        for (const scanError of errors) {
+          warning(`${scanError.source}: ${scanError.message}`);
+        }
+
+        const output = options.json
+          ? JSON.stringify(report, null, 2)
+          : options.markdown
+            ? formatTokenImpactChecklist(report)
+            : `${formatTokenImpact(report)}\n\n${formatTokenImpactChecklist(report)}`;
+
+        if (options.output) {
+          await writeFile(options.output, output, "utf-8");
+          success(`Impact report written to ${options.output}`);
+          return;
+        }
+
+        console.log(output);
+      } catch (err) {
+        spin.stop();
+        error(err instanceof Error ? err.message : "Impact analysis failed");
+        process.exit(1);
+      }
+    });
+}
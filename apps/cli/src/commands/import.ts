@@ -22,6 +22,7 @@ import {
   header,
   keyValue,
   newline,
+  setJsonMode,
 } from '../output/reporters.js';
 import { parseTokenFile, detectFormat } from '@buoy-design/core';
 import type { DesignToken } from '@buoy-design/core';
@@ -30,6 +31,7 @@ interface ImportOptions {
   output?: string;
   format?: 'css' | 'json' | 'scss';
   dryRun?: boolean;
+  json?: boolean;
 }
 
 export function createImportCommand(): Command {
@@ -39,7 +41,12 @@ export function createImportCommand(): Command {
     .option('-o, --output <path>', 'Output file path (default: design-tokens.css)')
     .option('-f, --format <format>', 'Output format: css, json, scss', 'css')
     .option('--dry-run', 'Preview import without writing files')
+    .option('--json', 'Output as JSON')
     .action(async (file: string, options: ImportOptions) => {
+      if (options.json) {
+        setJsonMode(true);
+      }
+
       const filePath = resolve(process.cwd(), file);
 
       if (!existsSync(filePath)) {
@@ -76,6 +83,26 @@ export function createImportCommand(): Command {
 
         spin.stop();
 
+        const outputPath = options.output || `design-tokens.${options.format || 'css'}`;
+
+        if (options.json) {
+          const write = tokens.length > 0 && !options.dryRun;
+          if (write) {
+            writeFileSync(resolve(process.cwd(), outputPath), generateOutput(tokens, options.format || 'css'));
+          }
+          console.log(JSON.stringify({
+            file,
+            output: write ? outputPath : null,
+            tokenCount: tokens.length,
+            tokens: tokens.map((t) => ({
+              name: t.name,
+              category: t.category,
+              value: getTokenValueString(t),
+            })),
+          }, null, 2));
+          return;
+        }
+
         if (tokens.length === 0) {
           warning('No tokens found in file.');
           process.exit(0);
@@ -109,7 +136,6 @@ export function createImportCommand(): Command {
         }
 
         // Generate output
-        const outputPath = options.output || `design-tokens.${options.format || 'css'}`;
         const outputContent = generateOutput(tokens, options.format || 'css');
 
         writeFileSync(resolve(process.cwd(), outputPath), outputContent);
@@ -14,6 +14,13 @@ export { createTokensCommand } from "./tokens.js";
 export { createComponentsCommand } from "./components.js";
 export { createScanCommand } from "./scan.js";
 export { createCommandsCommand } from "./commands.js";
+export { createMcpCommand } from "./mcp.js";
+export { createLspCommand } from "./lsp.js";
+export { createParityCommand } from "./parity.js";
+export { createImpactCommand } from "./impact.js";
+export { createIntentCommand } from "./intent.js";
+export { createAnalyzeCommand } from "./analyze.js";
+export { createContextCommand } from "./context.js";
 
 // Ahoy (cloud features)
 export { createAhoyCommand } from "./ahoy.js";
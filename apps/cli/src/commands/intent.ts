@@ -0,0 +1,281 @@
+/**
+ * Intent Command
+ *
+ * Records design decisions (exceptions, deprecations, migrations) in
+ * .buoy/intents/. Drift covered by an active exception is suppressed until
+ * the exception expires.
+ */
+
+import { Command } from "commander";
+import { relative } from "path";
+import chalk from "chalk";
+import {
+  createIntentId,
+  getIntentStatus,
+  DriftTypeSchema,
+  IntentDecisionTypeSchema,
+  DECISION_TYPE_LABELS,
+  STATUS_LABELS,
+  type Intent,
+  type IntentStatus,
+} from "@buoy-design/core";
+import {
+  success,
+  error,
+  info,
+  warning,
+  header,
+  keyValue,
+  newline,
+  setJsonMode,
+} from "../output/reporters.js";
+import { formatJson } from "../output/formatters.js";
+import {
+  loadIntents,
+  saveIntent,
+  findIntent,
+  parseExpiry,
+} from "../services/intent-store.js";
+
+export function createIntentCommand(): Command {
+  const cmd = new Command("intent").description(
+    "Record design decisions that explain or excuse drift",
+  );
+
+  // intent add
+  cmd
+    .command("add")
+    .description("Record a design decision for a component, token or drift type")
+    .option(
+      "-t, --type <type>",
+      "Decision type: exception, deprecation, migration, documentation, standard",
+      "exception",
+    )
+    .option("--component <name>", "Component the decision covers")
+    .option("--token <name>", "Token the decision covers")
+    .option("--pattern <driftType>", "Drift type the decision covers (e.g. hardcoded-value)")
+    .option("--drift <id>", "Only cover this drift signal")
+    .requiredOption("--title <title>", "Short title for the decision")
+    .requiredOption("-r, --reason <reason>", "Why this decision was made")
+    .option("-d, --description <text>", "Longer description", "")
+    .option("-e, --expires <when>", "Expiry date (2025-06-30) or duration (30d, 6w, 3m)")
+    .option("--migration <path>", "Migration path for deprecations and migrations")
+    .option("--tags <tags>", "Tags (comma-separated)")
+    .option("--by <name>", "Who made the decision")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      if (options.json) {
+        setJsonMode(true);
+      }
+
+      try {
+        const type = IntentDecisionTypeSchema.safeParse(options.type);
+        if (!type.success) {
+          throw new Error(
+            `Invalid type "${options.type}". Use one of: ${IntentDecisionTypeSchema.options.join(", ")}`,
+          );
+        }
+
+        const entity = getEntity(options);
+        const expiresAt = options.expires ? parseExpiry(options.expires) : undefined;
+        if (expiresAt && expiresAt <= new Date()) {
+          throw new Error(`Expiry ${expiresAt.toISOString()} is already in the past`);
+        }
+
+        const intent: Intent = {
+          id: createIntentId(entity.entityType, entity.entityId, type.data),
+          ...entity,
+          decision: {
+            type: type.data,
+            status: "active",
+            title: options.title,
+            description: options.description,
+            rationale: options.reason,
+            ...(options.migration && { migrationPath: options.migration }),
+          },
+          context: {
+            ...(options.drift && { relatedDriftId: options.drift }),
+            ...(options.tags && {
+              tags: options.tags.split(",").map((t: string) => t.trim()),
+            }),
+          },
+          createdAt: new Date(),
+          ...(options.by && { createdBy: options.by }),
+          ...(expiresAt && { expiresAt }),
+        };
+
+        const path = await saveIntent(intent);
+
+        if (options.json) {
+          console.log(formatJson({ intent, path }));
+          return;
+        }
+
+        success(`Recorded ${DECISION_TYPE_LABELS[type.data].toLowerCase()} for ${entity.entityName}`);
+        keyValue("ID", intent.id);
+        keyValue("File", relative(process.cwd(), path));
+        if (expiresAt) {
+          keyValue("Expires", formatDate(expiresAt));
+        }
+        if (type.data === "exception") {
+          newline();
+          info("Covered drift is hidden until the exception expires.");
+        }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        error(`Failed to record intent: ${message}`);
+        process.exit(1);
+      }
+    });
+
+  // intent list
+  cmd
+    .command("list")
+    .description("List design decisions")
+    .option("-a, --all", "Include expired and archived decisions")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      if (options.json) {
+        setJsonMode(true);
+      }
+
+      try {
+        const { files, errors } = await loadIntents();
+        const intents = files
+          .map((f) => ({ ...f.intent, status: getIntentStatus(f.intent) }))
+          .filter((i) => options.all || i.status === "active");
+
+        if (options.json) {
+          console.log(formatJson({ intents, errors }));
+          return;
+        }
+
+        for (const message of errors) {
+          warning(`Skipping invalid intent ${message}`);
+        }
+
+        if (intents.length === 0) {
+          info(
+            options.all
+              ? "No design decisions recorded."
+              : "No active design decisions. Use --all to include expired ones.",
+          );
+          info('Record one with: buoy intent add --component <name> --title "..." -r "..."');
+          return;
+        }
+
+        header(`Design Decisions (${intents.length})`);
+        for (const intent of intents) {
+          newline();
+          console.log(
+            `${formatStatus(intent.status)} ${chalk.bold(intent.decision.title)} ` +
+              chalk.dim(`[${DECISION_TYPE_LABELS[intent.decision.type]}]`),
+          );
+          keyValue("  Covers", formatEntity(intent));
+          keyValue("  Reason", intent.decision.rationale);
+          if (intent.expiresAt) {
+            keyValue(
+              intent.status === "expired" ? "  Expired" : "  Expires",
+              formatDate(intent.expiresAt),
+            );
+          }
+          keyValue("  ID", chalk.dim(intent.id));
+        }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        error(`Failed to list intents: ${message}`);
+        process.exit(1);
+      }
+    });
+
+  // intent expire
+  cmd
+    .command("expire <id>")
+    .description("Expire a decision now so the drift it covers is reported again")
+    .option("--json", "Output as JSON")
+    .action(async (id: string, options) => {
+      if (options.json) {
+        setJsonMode(true);
+      }
+
+      try {
+        const { files } = await loadIntents();
+        const file = findIntent(files, id);
+        if (!file) {
+          throw new Error(`No intent matches "${id}". Run "buoy intent list --all" to see IDs.`);
+        }
+
+        const now = new Date();
+        const intent: Intent = {
+          ...file.intent,
+          decision: { ...file.intent.decision, status: "expired" },
+          updatedAt: now,
+          expiresAt:
+            file.intent.expiresAt && file.intent.expiresAt < now
+              ? file.intent.expiresAt
+              : now,
+        };
+        await saveIntent(intent, file.path);
+
+        if (options.json) {
+          console.log(formatJson({ intent, path: file.path }));
+          return;
+        }
+
+        success(`Expired "${intent.decision.title}"`);
+        info("Drift it covered will be reported again.");
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        error(`Failed to expire intent: ${message}`);
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+function getEntity(options: {
+  component?: string;
+  token?: string;
+  pattern?: string;
+}): Pick<Intent, "entityType" | "entityId" | "entityName"> {
+  const given = [
+    options.component && { entityType: "component" as const, name: options.component },
+    options.token && { entityType: "token" as const, name: options.token },
+    options.pattern && { entityType: "pattern" as const, name: options.pattern },
+  ].filter((e) => !!e);
+
+  if (given.length !== 1 || !given[0]) {
+    throw new Error("Specify exactly one of --component, --token or --pattern");
+  }
+
+  const { entityType, name } = given[0];
+  if (entityType === "pattern" && !DriftTypeSchema.safeParse(name).success) {
+    throw new Error(
+      `Invalid pattern "${name}". Use one of: ${DriftTypeSchema.options.join(", ")}`,
+    );
+  }
+  return { entityType, entityId: name, entityName: name };
+}
+
+function formatEntity(intent: Intent): string {
+  const entity = `${intent.entityType} ${intent.entityName}`;
+  return intent.context.relatedDriftId
+    ? `${entity} (${intent.context.relatedDriftId})`
+    : entity;
+}
+
+function formatStatus(status: IntentStatus): string {
+  switch (status) {
+    case "active":
+      return chalk.green(STATUS_LABELS.active);
+    case "expired":
+      return chalk.yellow(STATUS_LABELS.expired);
+    case "archived":
+      return chalk.dim(STATUS_LABELS.archived);
+  }
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
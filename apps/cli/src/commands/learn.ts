@@ -1,5 +1,5 @@
 /**
- * buoy learn - Analyze drift history to show repeat patterns
+ * buoy analyze learn - Analyze drift history to show repeat patterns
  *
  * Groups drifts by (type + component), surfaces patterns, and gives
  * personalized recommendations based on your mistakes.
@@ -71,6 +71,11 @@ export function createLearnCommand(): Command {
 
           if (scans.length === 0) {
             spin.stop();
+            if (options.json) {
+              console.log(formatLearnJson(project.name, 0, [], []));
+              store.close();
+              return;
+            }
             info(
               "No scan history found. Run " +
                 chalk.cyan("buoy show all") +
@@ -92,6 +97,11 @@ export function createLearnCommand(): Command {
           spin.stop();
 
           if (allDrifts.length === 0) {
+            if (options.json) {
+              console.log(formatLearnJson(project.name, scans.length, [], []));
+              store.close();
+              return;
+            }
             console.log("");
             console.log(chalk.green.bold("  🎉 No drift patterns found!"));
             console.log("");
@@ -106,26 +116,7 @@ export function createLearnCommand(): Command {
 
           if (options.json) {
             console.log(
-              JSON.stringify(
-                {
-                  project: project.name,
-                  scansAnalyzed: scans.length,
-                  totalDrifts: allDrifts.length,
-                  patterns: patterns.map((p) => ({
-                    type: p.type,
-                    component: p.component,
-                    count: p.count,
-                    files: Array.from(p.files),
-                    severity: p.severity,
-                    example: {
-                      message: p.example.message,
-                      details: p.example.details,
-                    },
-                  })),
-                },
-                null,
-                2
-              )
+              formatLearnJson(project.name, scans.length, allDrifts, patterns)
             );
             store.close();
             return;
@@ -240,6 +231,37 @@ export function createLearnCommand(): Command {
     });
 }
 
+/**
+ * JSON output, also used when there is no history to analyze yet
+ */
+function formatLearnJson(
+  projectName: string,
+  scansAnalyzed: number,
+  drifts: DriftSignal[],
+  patterns: RepeatPattern[]
+): string {
+  return JSON.stringify(
+    {
+      project: projectName,
+      scansAnalyzed,
+      totalDrifts: drifts.length,
+      patterns: patterns.map((p) => ({
+        type: p.type,
+        component: p.component,
+        count: p.count,
+        files: Array.from(p.files),
+        severity: p.severity,
+        example: {
+          message: p.example.message,
+          details: p.example.details,
+        },
+      })),
+    },
+    null,
+    2
+  );
+}
+
 /**
  * Analyze drifts and group by (type + component) to find repeat patterns
  */
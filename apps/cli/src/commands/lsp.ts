@@ -0,0 +1,34 @@
+/**
+ * buoy lsp - Language server for in-editor drift diagnostics
+ *
+ * Runs the scanners on open buffers and publishes drift as diagnostics, with
+ * quick-fixes that replace hardcoded values with design tokens.
+ *
+ * Example (Neovim):
+ *   vim.lsp.start({ name = "buoy", cmd = { "npx", "buoy", "lsp", "--stdio" } })
+ */
+
+import { Command } from "commander";
+import { LanguageServer, createStreamSender } from "../lsp/index.js";
+
+export function createLspCommand(): Command {
+  return new Command("lsp")
+    .description("Start a language server on stdio for in-editor drift diagnostics")
+    // Editors commonly pass --stdio; it is the only supported transport
+    .option("--stdio", "Communicate over stdin/stdout (default)")
+    .action(async () => {
+      // stdout carries the protocol; anything human-readable goes to stderr
+      const server = new LanguageServer({
+        send: createStreamSender(process.stdout),
+        onExit: (code) => process.exit(code),
+      });
+
+      try {
+        await server.listen(process.stdin);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`buoy lsp failed: ${message}`);
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,50 @@
+/**
+ * buoy mcp - Model Context Protocol server for AI agents
+ *
+ * Serves design system tools over stdio so agents can query components and
+ * tokens, and check code for drift, without shelling out and parsing JSON.
+ *
+ * Example MCP client config (Claude Desktop, Cursor, VS Code):
+ *   { "mcpServers": { "buoy": { "command": "npx", "args": ["buoy", "mcp"] } } }
+ */
+
+import { Command } from "commander";
+import { loadConfig, getConfigPath } from "../config/loader.js";
+import { buildAutoConfig } from "../config/auto-detect.js";
+import type { BuoyConfig } from "../config/schema.js";
+import {
+  McpServer,
+  createDesignSystemTools,
+  createProjectData,
+} from "../mcp/index.js";
+
+export function createMcpCommand(): Command {
+  return new Command("mcp")
+    .description("Start an MCP server on stdio exposing design system tools to AI agents")
+    .option("--cwd <dir>", "Project directory to serve", process.cwd())
+    .action(async (options) => {
+      // stdout carries the protocol; anything human-readable goes to stderr
+      try {
+        if (options.cwd !== process.cwd()) {
+          process.chdir(options.cwd);
+        }
+
+        let config: BuoyConfig;
+        if (getConfigPath()) {
+          config = (await loadConfig()).config;
+        } else {
+          config = (await buildAutoConfig(process.cwd())).config;
+        }
+
+        const data = createProjectData(config, process.cwd());
+        const server = new McpServer(createDesignSystemTools(data));
+
+        console.error(`buoy MCP server ready (${process.cwd()})`);
+        await server.connect(process.stdin, process.stdout);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`buoy mcp failed: ${message}`);
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,103 @@
+/**
+ * Parity Command
+ *
+ * Compares code components against Figma and Storybook components and reports
+ * matched and orphaned components plus prop and variant mismatches per pair.
+ */
+
+import { Command } from "commander";
+import { writeFile } from "fs/promises";
+import { loadConfig, getConfigPath } from "../config/loader.js";
+import { buildAutoConfig } from "../config/auto-detect.js";
+import {
+  spinner,
+  success,
+  error,
+  warning,
+  setJsonMode,
+} from "../output/reporters.js";
+import {
+  formatParityReport,
+  formatParityMarkdown,
+} from "../output/parity-formatters.js";
+import { analyzeParity } from "../services/parity.js";
+import type { BuoyConfig } from "../config/schema.js";
+
+export function createParityCommand(): Command {
+  const cmd = new Command("parity")
+    .description("Compare code components against Figma and Storybook")
+    .option("--json", "Output as JSON")
+    .option("--markdown", "Output as markdown for design reviews")
+    .option("-o, --output <path>", "Write the report to a file")
+    .option(
+      "--min-confidence <n>",
+      "Minimum confidence (0-1) for fuzzy name matches",
+    )
+    .action(async (options) => {
+      if (options.json) {
+        setJsonMode(true);
+      }
+
+      const spin = spinner("Loading configuration...");
+
+      try {
+        const existingConfigPath = getConfigPath();
+        let config: BuoyConfig;
+
+        if (existingConfigPath) {
+          const result = await loadConfig();
+          config = result.config;
+        } else {
+          spin.text = "Auto-detecting project setup...";
+          const autoResult = await buildAutoConfig(process.cwd());
+          config = autoResult.config;
+        }
+
+        const minMatchConfidence =
+          options.minConfidence !== undefined
+            ? parseConfidence(options.minConfidence)
+            : undefined;
+
+        const { report, errors } = await analyzeParity(config, process.cwd(), {
+          minMatchConfidence,
+          onProgress: (message) => {
+            spin.text = message;
+          },
+        });
+
+        spin.stop();
+
+        for (const scanError of errors) {
+          warning(`${scanError.source}: ${scanError.message}`);
+        }
+
+        const output = options.json
+          ? JSON.stringify(report, null, 2)
+          : options.markdown
+            ? formatParityMarkdown(report)
+            : formatParityReport(report);
+
+        if (options.output) {
+          await writeFile(options.output, output, "utf-8");
+          success(`Parity report written to ${options.output}`);
+          return;
+        }
+
+        console.log(output);
+      } catch (err) {
+        spin.stop();
+        error(err instanceof Error ? err.message : "Parity check failed");
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+function parseConfidence(value: string): number {
+  const confidence = Number(value);
+  if (Number.isNaN(confidence) || confidence < 0 || confidence > 1) {
+    throw new Error(`Invalid --min-confidence "${value}". Use a number from 0 to 1`);
+  }
+  return confidence;
+}
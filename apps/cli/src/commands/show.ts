@@ -9,6 +9,12 @@ import {
 } from "../output/reporters.js";
 import { ScanOrchestrator } from "../scan/orchestrator.js";
 import { DriftAnalysisService } from "../services/drift-analysis.js";
+import { startDriftWatch } from "../services/drift-watch.js";
+import {
+  formatDriftReport,
+  isDriftReportFormat,
+  DRIFT_REPORT_FORMATS,
+} from "../output/formatters.js";
 import { withOptionalCache, type ScanCache } from "@buoy-design/scanners";
 import type { DriftSignal } from "@buoy-design/core";
 import { formatUpgradeHint } from "../utils/upgrade-hints.js";
@@ -18,6 +24,7 @@ import { parseCssValues } from "@buoy-design/core";
 import { glob } from "glob";
 import { readFile } from "fs/promises";
 import type { BuoyConfig } from "../config/schema.js";
+import { recordScanHistory } from "../store/index.js";
 
 export function createShowCommand(): Command {
   const cmd = new Command("show")
@@ -104,16 +111,71 @@ export function createShowCommand(): Command {
     .option("--raw", "Output raw signals without grouping")
     .option("-S, --severity <level>", "Filter by minimum severity (info, warning, critical)")
     .option("-t, --type <type>", "Filter by drift type")
+    .option("--format <format>", "Output format: sarif, junit, checkstyle, codequality")
+    .option("-w, --watch", "Re-analyze changed files on save, emitting one JSON line per change")
+    .option("--no-persist", "Skip saving results to scan history (filtered runs are never saved)")
     .action(async (options, command) => {
       const parentOpts = command.parent?.opts() || {};
       const json = options.json || parentOpts.json !== false;
       if (json) setJsonMode(true);
 
+      if (options.format && !isDriftReportFormat(options.format)) {
+        error(`Unknown format: ${options.format}. Supported: ${DRIFT_REPORT_FORMATS.join(", ")}`);
+        process.exit(1);
+      }
+
+      if (options.watch && options.format) {
+        error("--watch cannot be combined with --format");
+        process.exit(1);
+      }
+
       const spin = spinner("Analyzing drift...");
 
       try {
         const { config } = await loadConfig();
 
+        if (options.watch) {
+          setJsonMode(true);
+          const summarize = (drifts: DriftSignal[]) => ({
+            total: drifts.length,
+            critical: drifts.filter((d) => d.severity === "critical").length,
+            warning: drifts.filter((d) => d.severity === "warning").length,
+            info: drifts.filter((d) => d.severity === "info").length,
+          });
+
+          const stop = await startDriftWatch(config, {
+            minSeverity: options.severity,
+            filterType: options.type,
+            onProgress: (msg) => { spin.text = msg; },
+            onReady: (drifts) => {
+              spin.stop();
+              console.log(JSON.stringify({ event: "ready", drifts, summary: summarize(drifts) }));
+            },
+            onChange: (delta) => {
+              if (delta.componentsAnalyzed === 0 && delta.introduced.length === 0 && delta.resolved.length === 0) {
+                return;
+              }
+              console.log(JSON.stringify({
+                event: "change",
+                changedFiles: delta.changedFiles,
+                introduced: delta.introduced,
+                resolved: delta.resolved,
+                summary: summarize(delta.drifts),
+              }));
+            },
+            onError: (err) => {
+              error(err instanceof Error ? err.message : String(err));
+            },
+          });
+
+          await new Promise<void>((resolve) => {
+            process.once("SIGINT", () => {
+              stop().then(resolve, resolve);
+            });
+          });
+          return;
+        }
+
         const { result } = await withOptionalCache(
           process.cwd(),
           parentOpts.cache !== false,
@@ -129,8 +191,22 @@ export function createShowCommand(): Command {
           },
         );
 
+        if (options.persist !== false && !options.severity && !options.type) {
+          spin.text = "Saving scan history...";
+          await recordScanHistory(config, {
+            components: result.components,
+            tokens: result.tokens,
+            drifts: result.drifts,
+          });
+        }
+
         spin.stop();
 
+        if (options.format) {
+          console.log(formatDriftReport(result.drifts, options.format));
+          return;
+        }
+
         // Raw mode: output signals without grouping (existing behavior)
         if (options.raw) {
           const output = {
@@ -298,7 +374,7 @@ export function createShowCommand(): Command {
   // show history
   cmd
     .command("history")
-    .description("Show scan history")
+    .description("Show scan history recorded by drift, show drift and show all")
     .option("--json", "Output as JSON")
     .option("-n, --limit <number>", "Number of entries to show", "10")
     .action(async (options, command) => {
@@ -340,6 +416,7 @@ export function createShowCommand(): Command {
     .command("all")
     .description("Show everything: components, tokens, drift, and health")
     .option("--json", "Output as JSON")
+    .option("--no-persist", "Skip saving results to scan history")
     .action(async (options, command) => {
       const parentOpts = command.parent?.opts() || {};
       const json = options.json || parentOpts.json !== false;
@@ -382,6 +459,16 @@ export function createShowCommand(): Command {
           : { score: 100, categories: {}, worstFiles: [], totals: { uniqueValues: 0, totalUsages: 0, filesAffected: 0 } };
 
         const { scanResult, driftResult } = allResults;
+
+        if (options.persist !== false) {
+          spin.text = "Saving scan history...";
+          await recordScanHistory(config, {
+            components: scanResult.components,
+            tokens: scanResult.tokens,
+            drifts: driftResult.drifts,
+          });
+        }
+
         spin.stop();
 
         // Aggregate drift signals
@@ -0,0 +1,121 @@
+/**
+ * buoy tokens contrast - Audit contrast across the color palette
+ *
+ * Measures every color token against every other (WCAG 2.x ratio and APCA
+ * lightness contrast) and reports documented foreground/background
+ * pairings that fail as color-contrast drift.
+ *
+ * Examples:
+ *   buoy tokens contrast                                   # Check documented pairings
+ *   buoy tokens contrast --pair text-muted:surface         # Check an extra pairing
+ *   buoy tokens contrast --html                            # Write the full matrix
+ */
+
+import { Command } from 'commander';
+import { writeFileSync } from 'fs';
+import type { Severity } from '@buoy-design/core';
+import { loadConfig, getConfigPath } from '../config/loader.js';
+import { buildAutoConfig } from '../config/auto-detect.js';
+import {
+  analyzeTokenContrast,
+  parseContrastPairs,
+} from '../services/token-contrast.js';
+import { hasDriftsAboveThreshold } from '../services/drift-analysis.js';
+import { formatDriftList } from '../output/formatters.js';
+import { formatContrastReport, formatContrastHtml } from '../output/contrast-formatters.js';
+import {
+  spinner,
+  error,
+  info,
+  success,
+  newline,
+} from '../output/reporters.js';
+
+export function createTokensContrastCommand(): Command {
+  return new Command('contrast')
+    .description('Check WCAG and APCA contrast of color token pairings')
+    .option(
+      '--pair <fg:bg>',
+      'Foreground/background token pairing to check (repeatable)',
+      (value: string, previous: string[]) => [...previous, value],
+      [] as string[],
+    )
+    .option('--html [file]', 'Write the full contrast matrix as HTML (optionally specify filename)')
+    .option(
+      '--fail-on <severity>',
+      'Exit 1 if drift at this severity or higher: critical, warning, info, none',
+      'none',
+    )
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      const cwd = process.cwd();
+      const spin = options.json ? null : spinner('Loading tokens...');
+
+      try {
+        const pairs = parseContrastPairs(options.pair);
+
+        // Load config
+        const configPath = getConfigPath();
+        let config;
+        if (configPath) {
+          const result = await loadConfig();
+          config = result.config;
+        } else {
+          const autoResult = await buildAutoConfig(cwd);
+          config = autoResult.config;
+        }
+
+        if (spin) spin.text = 'Measuring contrast...';
+        const { report, tokenCount } = await analyzeTokenContrast(config, cwd, { pairs });
+        spin?.stop();
+
+        if (tokenCount === 0) {
+          if (options.json) {
+            console.log(JSON.stringify({ matrix: report.matrix, pairings: [], drifts: [] }, null, 2));
+            return;
+          }
+          error('No tokens found');
+          info('Run `buoy show all` to scan your codebase first');
+          process.exit(1);
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify({
+            matrix: report.matrix,
+            pairings: report.pairings,
+            drifts: report.drifts,
+          }, null, 2));
+        } else {
+          newline();
+          console.log(formatContrastReport(report));
+          if (report.drifts.length > 0) {
+            newline();
+            console.log(formatDriftList(report.drifts));
+          }
+        }
+
+        if (options.html) {
+          const filename = typeof options.html === 'string' ? options.html : 'contrast-report.html';
+          writeFileSync(filename, formatContrastHtml(report));
+          if (!options.json) {
+            newline();
+            success(`Contrast matrix saved to ${filename}`);
+          }
+        }
+
+        const failOn = options.failOn as Severity | 'none';
+        if (hasDriftsAboveThreshold(report.drifts, failOn)) {
+          process.exit(1);
+        }
+      } catch (err) {
+        spin?.stop();
+        const message = err instanceof Error ? err.message : String(err);
+        if (options.json) {
+          console.log(JSON.stringify({ error: message }));
+        } else {
+          error(`Contrast check failed: ${message}`);
+        }
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,135 @@
+/**
+ * buoy tokens export - Write tokens for every platform in one run
+ *
+ * Formats the project's design tokens for each target listed under
+ * `sources.tokens.platforms` in .buoy.yaml: CSS, SCSS, Less, TypeScript,
+ * Swift, Kotlin or DTCG JSON.
+ *
+ * Examples:
+ *   buoy tokens export                        # Write every configured platform
+ *   buoy tokens export --format swift         # Only the Swift target
+ *   buoy tokens export --dry-run              # Preview without writing files
+ */
+
+import { Command } from 'commander';
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import chalk from 'chalk';
+import { TOKEN_EXPORT_FORMATS } from '@buoy-design/core';
+import { loadConfig, getConfigPath } from '../config/loader.js';
+import { buildAutoConfig } from '../config/auto-detect.js';
+import {
+  generateTokenExports,
+  getExportPlatforms,
+} from '../services/token-export.js';
+import {
+  spinner,
+  error,
+  info,
+  success,
+  header,
+  newline,
+} from '../output/reporters.js';
+
+export function createTokensExportCommand(): Command {
+  return new Command('export')
+    .description('Export tokens for web, iOS and Android platforms')
+    .option(
+      '--format <format>',
+      `Only export this format (repeatable): ${TOKEN_EXPORT_FORMATS.join(', ')}`,
+      (value: string, previous: string[]) => [...previous, value],
+      [] as string[],
+    )
+    .option('--dry-run', 'Preview without writing files')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      const cwd = process.cwd();
+      const spin = options.json ? null : spinner('Loading tokens...');
+
+      try {
+        // Load config
+        const configPath = getConfigPath();
+        let config;
+        if (configPath) {
+          const result = await loadConfig();
+          config = result.config;
+        } else {
+          const autoResult = await buildAutoConfig(cwd);
+          config = autoResult.config;
+        }
+
+        const platforms = getExportPlatforms(config, options.format);
+        if (platforms.length === 0) {
+          spin?.stop();
+          error('No token platforms configured');
+          info('Add export targets to .buoy.yaml:');
+          console.log(chalk.cyan('  sources:'));
+          console.log(chalk.cyan('    tokens:'));
+          console.log(chalk.cyan('      platforms:'));
+          console.log(chalk.cyan('        - format: scss'));
+          console.log(chalk.cyan('          output: build/tokens/_tokens.scss'));
+          info('Or pick formats with --format');
+          process.exit(1);
+        }
+
+        if (spin) spin.text = 'Exporting tokens...';
+        const { files, tokenCount } = await generateTokenExports(config, platforms, cwd);
+        spin?.stop();
+
+        if (tokenCount === 0) {
+          error('No tokens found');
+          info('Run `buoy show tokens` to check which token files are scanned');
+          process.exit(1);
+        }
+
+        if (!options.dryRun) {
+          for (const file of files) {
+            const outputPath = resolve(cwd, file.platform.output);
+            mkdirSync(dirname(outputPath), { recursive: true });
+            writeFileSync(outputPath, file.content, 'utf-8');
+          }
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify({
+            tokenCount,
+            dryRun: Boolean(options.dryRun),
+            files: files.map((file) => ({
+              format: file.platform.format,
+              output: file.platform.output,
+              ...(options.dryRun && { content: file.content }),
+            })),
+          }, null, 2));
+          return;
+        }
+
+        if (options.dryRun) {
+          info('Dry run - no files written');
+          for (const file of files) {
+            newline();
+            header(`${file.platform.output} (${file.platform.format})`);
+            console.log(chalk.dim(file.content.slice(0, 800)));
+            if (file.content.length > 800) {
+              console.log(chalk.dim('...'));
+            }
+          }
+          return;
+        }
+
+        newline();
+        for (const file of files) {
+          success(`Created ${chalk.cyan(file.platform.output)} ${chalk.dim(`(${file.platform.format})`)}`);
+        }
+        info(`Exported ${tokenCount} tokens to ${files.length} platform${files.length === 1 ? '' : 's'}`);
+      } catch (err) {
+        spin?.stop();
+        const message = err instanceof Error ? err.message : String(err);
+        if (options.json) {
+          console.log(JSON.stringify({ error: message }));
+        } else {
+          error(`Token export failed: ${message}`);
+        }
+        process.exit(1);
+      }
+    });
+}
@@ -25,7 +25,7 @@ import {
   keyValue,
 } from '../output/reporters.js';
 
-interface LookupResult {
+export interface LookupResult {
   token: DesignToken;
   score: number;
   matchType: 'exact' | 'fuzzy' | 'value' | 'category';
@@ -143,7 +143,7 @@ function getTokenHex(token: DesignToken): string | null {
 /**
  * Format token value for display
  */
-function formatTokenValue(token: DesignToken): string {
+export function formatTokenValue(token: DesignToken): string {
   const value = token.value;
 
   if (value.type === 'color' && value.hex) {
@@ -162,7 +162,7 @@ function formatTokenValue(token: DesignToken): string {
 /**
  * Search tokens by fuzzy name match
  */
-function searchByName(tokens: DesignToken[], query: string): LookupResult[] {
+export function searchByName(tokens: DesignToken[], query: string): LookupResult[] {
   const results: LookupResult[] = [];
 
   for (const token of tokens) {
@@ -180,17 +180,23 @@ function searchByName(tokens: DesignToken[], query: string): LookupResult[] {
 }
 
 /**
- * Search tokens by value (for colors)
+ * Search tokens by value (similar colors, exact match for other values)
  */
-function searchByValue(tokens: DesignToken[], value: string): LookupResult[] {
+export function searchByValue(tokens: DesignToken[], value: string): LookupResult[] {
   const results: LookupResult[] = [];
 
   // Normalize the search value
   const searchHex = value.startsWith('#') ? value : `#${value}`;
+  const searchExact = value.trim().toLowerCase();
 
   for (const token of tokens) {
     const tokenHex = getTokenHex(token);
-    if (!tokenHex) continue;
+    if (!tokenHex) {
+      if (formatTokenValue(token).toLowerCase() === searchExact) {
+        results.push({ token, score: 100, matchType: 'value' });
+      }
+      continue;
+    }
 
     const similarity = colorSimilarity(searchHex, tokenHex);
     if (similarity >= 80) { // 80% threshold
@@ -208,7 +214,7 @@ function searchByValue(tokens: DesignToken[], value: string): LookupResult[] {
 /**
  * Filter tokens by category
  */
-function searchByCategory(tokens: DesignToken[], category: string): LookupResult[] {
+export function searchByCategory(tokens: DesignToken[], category: string): LookupResult[] {
   return tokens
     .filter(t => t.category.toLowerCase() === category.toLowerCase())
     .map(token => ({
@@ -27,13 +27,24 @@ import {
   type ExtractedValue,
 } from '@buoy-design/core';
 import { createTokensLookupCommand } from './tokens-lookup.js';
+import { createCompareCommand } from './compare.js';
+import { createImportCommand } from './import.js';
+import { createTokensContrastCommand } from './tokens-contrast.js';
+import { createTokensExportCommand } from './tokens-export.js';
 
 export function createTokensCommand(): Command {
   const cmd = new Command('tokens')
     .description('Generate and search design tokens');
 
-  // Add lookup subcommand
+  // Options after a subcommand name belong to the subcommand
+  cmd.enablePositionalOptions();
+
+  // Add lookup, compare, import, contrast and export subcommands
   cmd.addCommand(createTokensLookupCommand());
+  cmd.addCommand(createCompareCommand());
+  cmd.addCommand(createImportCommand());
+  cmd.addCommand(createTokensContrastCommand());
+  cmd.addCommand(createTokensExportCommand());
 
   // Default action (generate tokens)
   cmd
@@ -36,4 +36,27 @@ describe("experimental config", () => {
     const result = BuoyConfigSchema.safeParse(config);
     expect(result.success).toBe(true);
   });
+
+  it("should validate drift.types minConfidence", () => {
+    const parse = (minConfidence: string) =>
+      BuoyConfigSchema.safeParse({
+        project: { name: "test" },
+        drift: { types: { "unused-token": { minConfidence } } },
+      });
+
+    expect(parse("medium").success).toBe(true);
+    expect(parse("certain").success).toBe(false);
+  });
+
+  it("should only accept drift types or '*' as budget keys", () => {
+    const parse = (type: string) =>
+      BuoyConfigSchema.safeParse({
+        project: { name: "test" },
+        drift: { budgets: { "src/legacy/**": { [type]: 10 } } },
+      });
+
+    expect(parse("hardcoded-value").success).toBe(true);
+    expect(parse("*").success).toBe(true);
+    expect(parse("hardcoded-values").success).toBe(false);
+  });
 });
@@ -293,6 +293,7 @@ export async function buildAutoConfig(projectRoot: string = process.cwd()): Prom
         pathPatterns: [],
       },
       types: {},
+      budgets: {},
     },
     claude: { enabled: false, model: 'claude-sonnet-4-20250514' },
     output: { format: 'table', colors: true },
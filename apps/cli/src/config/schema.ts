@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { DriftTypeSchema } from '@buoy-design/core';
 
 // Base component source config (shared by all component scanners)
 export const ComponentSourceConfigSchema = z.object({
@@ -87,11 +88,28 @@ export const StorybookConfigSchema = z.object({
   staticDir: z.string().optional(),
 });
 
+// Token export target for `buoy tokens export`
+export const TokenPlatformSchema = z.object({
+  format: z.enum(['css', 'scss', 'less', 'typescript', 'swift', 'kotlin', 'dtcg']),
+  output: z.string(),
+  prefix: z.string().optional(),
+  // SCSS map, TypeScript object or Swift/Kotlin type name
+  name: z.string().optional(),
+  // Kotlin package
+  packageName: z.string().optional(),
+});
+
 // Token source config
 export const TokenConfigSchema = z.object({
   enabled: z.boolean().default(true),
+  // Token file globs; a folder is loaded as a multi-file token set
+  // (e.g. a Tokens Studio export with $themes.json and $metadata.json)
   files: z.array(z.string()).default([]),
   cssVariablePrefix: z.string().optional(),
+  // Tokens Studio themes to apply (default: first theme of each group)
+  themes: z.array(z.string()).optional(),
+  // Platform files written by `buoy tokens export`
+  platforms: z.array(TokenPlatformSchema).optional(),
 });
 
 // Tailwind source config (for arbitrary value detection)
@@ -129,8 +147,8 @@ export const DriftIgnoreSchema = z.object({
 
 // Aggregation config for grouping drift signals
 export const AggregationConfigSchema = z.object({
-  /** Strategy order: value, suggestion, path, entity */
-  strategies: z.array(z.enum(['value', 'suggestion', 'path', 'entity'])).default(['value', 'suggestion', 'path', 'entity']),
+  /** Strategy order: value, suggestion, path, entity, owner (CODEOWNERS) */
+  strategies: z.array(z.enum(['value', 'suggestion', 'path', 'entity', 'owner'])).default(['value', 'suggestion', 'path', 'entity']),
   /** Minimum signals to form a group */
   minGroupSize: z.number().min(1).default(2),
   /** Path patterns for path-based grouping (e.g., "src/legacy/**") */
@@ -143,14 +161,26 @@ export const DriftTypeConfigSchema = z.object({
   severity: z.enum(['info', 'warning', 'critical']).optional(),
   minOccurrences: z.number().min(2).optional(),
   matching: z.enum(['exact', 'tight', 'loose']).optional(),
+  // Minimum safe-to-delete confidence for unused-component/unused-token
+  minConfidence: z.enum(['high', 'medium', 'low']).optional(),
 }).passthrough();
 
+// Drift budget key: a drift type, or "*" for all types
+export const DriftBudgetTypeSchema = z.union([DriftTypeSchema, z.literal('*')]);
+
+// Drift budgets: path glob -> drift type -> max count
+// e.g. { 'src/legacy/**': { 'hardcoded-value': 120 } }
+export const DriftBudgetsSchema = z.record(
+  z.record(DriftBudgetTypeSchema, z.number().int().min(0)),
+);
+
 // Drift config
 export const DriftConfigSchema = z.object({
   ignore: z.array(DriftIgnoreSchema).default([]),
   severity: z.record(z.enum(['info', 'warning', 'critical'])).default({}),
   aggregation: AggregationConfigSchema.default({}),
   types: z.record(DriftTypeConfigSchema).default({}),
+  budgets: DriftBudgetsSchema.default({}),
 });
 
 // Claude config
@@ -203,12 +233,15 @@ export type WebComponentConfig = z.infer<typeof WebComponentConfigSchema>;
 export type TemplateConfig = z.infer<typeof TemplateConfigSchema>;
 export type FigmaConfig = z.infer<typeof FigmaConfigSchema>;
 export type StorybookConfig = z.infer<typeof StorybookConfigSchema>;
+export type TokenPlatform = z.infer<typeof TokenPlatformSchema>;
 export type TokenConfig = z.infer<typeof TokenConfigSchema>;
 export type TailwindConfig = z.infer<typeof TailwindConfigSchema>;
 export type SourcesConfig = z.infer<typeof SourcesConfigSchema>;
 export type DriftIgnore = z.infer<typeof DriftIgnoreSchema>;
 export type AggregationConfig = z.infer<typeof AggregationConfigSchema>;
 export type DriftTypeConfig = z.infer<typeof DriftTypeConfigSchema>;
+export type DriftBudgetType = z.infer<typeof DriftBudgetTypeSchema>;
+export type DriftBudgets = z.infer<typeof DriftBudgetsSchema>;
 export type DriftConfig = z.infer<typeof DriftConfigSchema>;
 export type ClaudeConfig = z.infer<typeof ClaudeConfigSchema>;
 export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
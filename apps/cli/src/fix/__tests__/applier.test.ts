@@ -150,7 +150,7 @@ describe('applyFixes', () => {
       replacement: 'var(--green)',
     });
 
-    const fileContent = `line1\n#ff0000\nline3\n#00ff00\nline5`;
+    const fileContent = `line1;\nconst red = '#ff0000';\nline3;\nconst green = '#00ff00';\nline5;`;
     vi.mocked(fs.readFile).mockResolvedValue(fileContent);
 
     const result = await applyFixes([fix1, fix2], { dryRun: false });
@@ -161,6 +161,46 @@ describe('applyFixes', () => {
     expect(writtenContent).toContain('var(--red)');
     expect(writtenContent).toContain('var(--green)');
   });
+
+  it('applies multiple fixes on the same line', async () => {
+    const fixes = [
+      createMockFix({ id: 'fix:1', line: 1, column: 27, original: '#ff0000', replacement: 'var(--red)' }),
+      createMockFix({ id: 'fix:2', line: 1, column: 47, original: '16px', replacement: 'var(--space-4)' }),
+    ];
+    vi.mocked(fs.readFile).mockResolvedValue(
+      `const style = { color: '#ff0000', padding: '16px' };`
+    );
+
+    const result = await applyFixes(fixes, { dryRun: false });
+
+    expect(result.applied).toBe(2);
+    expect(vi.mocked(fs.writeFile).mock.calls[0]?.[1]).toBe(
+      `const style = { color: 'var(--red)', padding: 'var(--space-4)' };`
+    );
+  });
+
+  it('refuses to apply when the value at the fix location has changed', async () => {
+    const fix = createMockFix({ line: 1, column: 15, original: '#ff0000' });
+    vi.mocked(fs.readFile).mockResolvedValue(
+      `const color = '#00ff00'; // was #ff0000`
+    );
+
+    const result = await applyFixes([fix], { dryRun: false });
+
+    expect(result.failed).toBe(1);
+    expect(result.results[0]?.error).toContain('no longer matches');
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('fails every fix in a file that does not parse', async () => {
+    const fix = createMockFix({ line: 1, column: 15 });
+    vi.mocked(fs.readFile).mockResolvedValue(`const color = '#ff0000' +;`);
+
+    const result = await applyFixes([fix], { dryRun: false });
+
+    expect(result.failed).toBe(1);
+    expect(result.results[0]?.error).toContain('Cannot parse');
+  });
 });
 
 describe('generateFixDiff', () => {
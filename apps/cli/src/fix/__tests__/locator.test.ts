@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { applyEdits, locateFixes, type FixEdit } from '../locator.js';
+import type { Fix } from '@buoy-design/core';
+
+function createFix(line: number, column: number, original: string, replacement: string): Fix {
+  return {
+    id: `fix:test:${line}:${column}`,
+    driftSignalId: 'drift:test',
+    confidence: 'exact',
+    confidenceScore: 100,
+    file: 'src/Button.tsx',
+    line,
+    column,
+    original,
+    replacement,
+    reason: 'Exact match',
+    fixType: 'hardcoded-color',
+  };
+}
+
+function apply(file: string, content: string, fixes: Fix[]): string {
+  const edits = locateFixes(file, content, fixes).flatMap((location) =>
+    'edit' in location ? [location.edit] : []
+  );
+  return applyEdits(content, edits);
+}
+
+describe('locateFixes', () => {
+  it('targets the template literal part at the fix column', () => {
+    const content = 'const css = `border: 1px solid ${"#fff"}; color: #fff;`;';
+    const fixes = [createFix(1, 50, '#fff', 'var(--white)')];
+
+    expect(apply('src/styles.ts', content, fixes)).toBe(
+      'const css = `border: 1px solid ${"#fff"}; color: var(--white);`;'
+    );
+  });
+
+  it('does not rewrite identifiers inside interpolations', () => {
+    const content = 'const css = `color: ${red}; background: red;`;';
+
+    expect(apply('src/styles.ts', content, [createFix(1, 1, 'red', 'var(--red)')])).toBe(
+      'const css = `color: ${red}; background: var(--red);`;'
+    );
+  });
+
+  it('ignores identifiers and comments on the line', () => {
+    const content = 'const red = "red"; // red';
+    const [location] = locateFixes('src/a.ts', content, [createFix(1, 1, 'red', 'var(--red)')]);
+
+    expect(location).toMatchObject({ edit: { start: 13, end: 16 } });
+  });
+
+  it('does not match partial values', () => {
+    const content = `const a = { color: '#ffffff', margin: '116px' };`;
+    const locations = locateFixes('src/a.ts', content, [
+      createFix(1, 1, '#fff', 'var(--white)'),
+      createFix(1, 1, '16px', 'var(--space-4)'),
+    ]);
+
+    expect(locations.every((l) => 'error' in l)).toBe(true);
+  });
+
+  it('gives each fix its own occurrence, nearest its column', () => {
+    const content = `<div className="bg-[#fff] hover:bg-[#fff] text-[#fff]" />;`;
+    const fixes = [
+      createFix(1, 43, 'text-[#fff]', 'text-white'),
+      createFix(1, 17, 'bg-[#fff]', 'bg-white'),
+    ];
+
+    expect(apply('src/Button.tsx', content, fixes)).toBe(
+      `<div className="bg-white hover:bg-[#fff] text-white" />;`
+    );
+  });
+
+  it('fails a second fix targeting an already claimed value', () => {
+    const content = `const color = '#fff';`;
+    const locations = locateFixes('src/a.ts', content, [
+      createFix(1, 15, '#fff', 'var(--a)'),
+      createFix(1, 15, '#fff', 'var(--b)'),
+    ]);
+
+    expect('edit' in locations[0]!).toBe(true);
+    expect(locations[1]).toMatchObject({ error: expect.stringContaining('already targeted') });
+  });
+
+  it('rewrites CSS declaration values but not selectors or comments', () => {
+    const content = [
+      '/* #fff is our white */',
+      '.a:hover, #fff { color: #fff; }',
+      '@media (min-width: 16px) { .b { margin: 16px 0; } }',
+    ].join('\n');
+    const fixes = [
+      createFix(1, 4, '#fff', 'var(--white)'),
+      createFix(2, 1, '#fff', 'var(--white)'),
+      createFix(3, 1, '16px', 'var(--space-4)'),
+    ];
+
+    const locations = locateFixes('src/app.css', content, fixes);
+    expect(locations[0]).toMatchObject({ error: expect.stringContaining('not found') });
+    expect(applyEdits(content, locations.flatMap((l) => ('edit' in l ? [l.edit] : [])))).toBe(
+      [
+        '/* #fff is our white */',
+        '.a:hover, #fff { color: var(--white); }',
+        '@media (min-width: 16px) { .b { margin: var(--space-4) 0; } }',
+      ].join('\n')
+    );
+  });
+
+  it('only rewrites values assigned to the fix property', () => {
+    const content = `<Box style={{ margin: '16px', padding: '16px' }} />;`;
+    const fix = { ...createFix(1, 1, '16px', 'var(--space-4)'), property: 'padding' };
+
+    expect(apply('src/Box.tsx', content, [fix])).toBe(
+      `<Box style={{ margin: '16px', padding: 'var(--space-4)' }} />;`
+    );
+  });
+
+  it('matches JSX attributes, CSS declarations and inline declarations by property', () => {
+    const withProperty = (fix: Fix, property: string): Fix => ({ ...fix, property });
+
+    expect(
+      apply('src/Icon.tsx', `<Icon color="#fff" fill="#fff" />;`, [
+        withProperty(createFix(1, 1, '#fff', 'var(--white)'), 'fill'),
+      ])
+    ).toBe(`<Icon color="#fff" fill="var(--white)" />;`);
+    expect(
+      apply('src/app.css', '.a { border-color: #fff; background-color: #fff; }', [
+        withProperty(createFix(1, 1, '#fff', 'var(--white)'), 'backgroundColor'),
+      ])
+    ).toBe('.a { border-color: #fff; background-color: var(--white); }');
+    expect(
+      apply('src/Box.ts', 'const Box = styled.div`margin: 4px; padding: 4px;`;', [
+        withProperty(createFix(1, 1, '4px', 'var(--space-1)'), 'padding'),
+      ])
+    ).toBe('const Box = styled.div`margin: 4px; padding: var(--space-1);`;');
+  });
+
+  it('refuses a fix whose property differs from the value at its column', () => {
+    const content = `<Box style={{ margin: '16px', padding: '8px' }} />;`;
+    const fixes = [
+      { ...createFix(1, 24, '16px', 'var(--space-4)'), property: 'padding' },
+      { ...createFix(1, 1, '#fff', 'var(--white)'), property: 'color' },
+    ];
+    const locations = locateFixes('src/Box.tsx', content, fixes);
+
+    expect(locations[0]).toMatchObject({
+      error: '"16px" on line 1 is assigned to margin, not padding',
+    });
+    expect(locateFixes('src/a.ts', `const white = '#fff';`, [fixes[1]!])[0]).toMatchObject({
+      error: '"#fff" on line 1 is not assigned to color',
+    });
+  });
+
+  it('falls back to line text for other file types', () => {
+    const content = `<template>\n  <div style="color: #fff" />\n</template>`;
+
+    expect(apply('src/A.vue', content, [createFix(2, 1, '#fff', 'var(--white)')])).toBe(
+      `<template>\n  <div style="color: var(--white)" />\n</template>`
+    );
+  });
+});
+
+describe('applyEdits', () => {
+  it('applies edits regardless of order', () => {
+    const edits: FixEdit[] = [
+      { start: 0, end: 1, text: 'A' },
+      { start: 4, end: 5, text: 'E' },
+    ];
+
+    expect(applyEdits('abcde', edits)).toBe('AbcdE');
+  });
+});
@@ -2,11 +2,14 @@
  * Fix Applier
  *
  * Applies fixes to source files by replacing hardcoded values with design tokens.
+ * Fix targets are resolved by ./locator.ts; a fix whose value has moved or
+ * changed fails instead of rewriting whatever text now sits at its position.
  */
 
 import { readFile, writeFile, copyFile } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
 import type { Fix, FixResult, FixApplyOptions } from '@buoy-design/core';
+import { applyEdits, locateFixes, type FixEdit } from './locator.js';
 
 export interface ApplyFixesResult {
   results: FixResult[];
@@ -51,7 +54,9 @@ export async function applyFixes(
 }
 
 /**
- * Apply fixes to a single file
+ * Apply fixes to a single file. Every fix is located against the original
+ * content before anything is rewritten, so several fixes on one line (or in
+ * one string) can be applied together.
  */
 async function applyFixesToFile(
   file: string,
@@ -59,7 +64,6 @@ async function applyFixesToFile(
   options: FixApplyOptions
 ): Promise<FixResult[]> {
   const { dryRun, backup, minConfidence = 'high' } = options;
-  const results: FixResult[] = [];
 
   // Check file exists
   if (!existsSync(file)) {
@@ -71,105 +75,58 @@ async function applyFixesToFile(
   }
 
   try {
-    // Read file content
-    let content = await readFile(file, 'utf-8');
-    const lines = content.split('\n');
-
-    // Sort fixes by line number descending so we apply from bottom to top
-    // This prevents line number shifts from affecting subsequent fixes
-    const sortedFixes = [...fixes].sort((a, b) => {
-      if (b.line !== a.line) return b.line - a.line;
-      return b.column - a.column;
-    });
-
-    // Track which fixes were actually applied
-    const appliedFixes: Fix[] = [];
+    const content = await readFile(file, 'utf-8');
+
+    // Check confidence threshold before locating, so skipped fixes never
+    // claim a value another fix could have used
+    const eligible = fixes.filter((fix) =>
+      meetsMinConfidence(fix.confidence, minConfidence)
+    );
+    const locations = new Map(
+      locateFixes(file, content, eligible).map((location) => [
+        location.fix,
+        location,
+      ])
+    );
+
+    const results: FixResult[] = [];
+    const edits: FixEdit[] = [];
 
-    for (const fix of sortedFixes) {
-      // Check confidence threshold
-      if (!meetsMinConfidence(fix.confidence, minConfidence)) {
+    for (const fix of fixes) {
+      const location = locations.get(fix);
+      if (!location) {
         results.push({
           fixId: fix.id,
           status: 'skipped',
           error: `Confidence ${fix.confidence} below threshold ${minConfidence}`,
         });
-        continue;
-      }
-
-      // Get the line (1-indexed to 0-indexed)
-      const lineIndex = fix.line - 1;
-      if (lineIndex < 0 || lineIndex >= lines.length) {
-        results.push({
-          fixId: fix.id,
-          status: 'failed',
-          error: `Line ${fix.line} out of range (file has ${lines.length} lines)`,
-        });
-        continue;
-      }
-
-      const line = lines[lineIndex]!;
-
-      // Find and replace the original value
-      const column = fix.column - 1;
-      const originalIndex = line.indexOf(fix.original, column);
-
-      if (originalIndex === -1) {
-        // Try finding anywhere in the line
-        const anyIndex = line.indexOf(fix.original);
-        if (anyIndex === -1) {
-          results.push({
-            fixId: fix.id,
-            status: 'failed',
-            error: `Original value "${fix.original}" not found on line ${fix.line}`,
-          });
-          continue;
-        }
-        // Found it elsewhere, use that position
-        lines[lineIndex] =
-          line.slice(0, anyIndex) +
-          fix.replacement +
-          line.slice(anyIndex + fix.original.length);
+      } else if ('error' in location) {
+        results.push({ fixId: fix.id, status: 'failed', error: location.error });
       } else {
-        // Replace at the expected position
-        lines[lineIndex] =
-          line.slice(0, originalIndex) +
-          fix.replacement +
-          line.slice(originalIndex + fix.original.length);
+        edits.push(location.edit);
+        results.push({ fixId: fix.id, status: 'applied' });
       }
-
-      appliedFixes.push(fix);
-      results.push({
-        fixId: fix.id,
-        status: 'applied',
-      });
     }
 
     // If not dry run and we have fixes to apply, write the file
-    if (!dryRun && appliedFixes.length > 0) {
+    if (!dryRun && edits.length > 0) {
       // Create backup if requested
       if (backup) {
         await copyFile(file, `${file}.bak`);
       }
 
-      // Write the modified content
-      content = lines.join('\n');
-      await writeFile(file, content, 'utf-8');
+      await writeFile(file, applyEdits(content, edits), 'utf-8');
     }
+
+    return results;
   } catch (error) {
-    // If any error occurs, mark remaining fixes as failed
-    const appliedIds = new Set(results.map((r) => r.fixId));
-    for (const fix of fixes) {
-      if (!appliedIds.has(fix.id)) {
-        results.push({
-          fixId: fix.id,
-          status: 'failed',
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-      }
-    }
+    // Nothing was written, so every fix failed
+    return fixes.map((fix) => ({
+      fixId: fix.id,
+      status: 'failed' as const,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }));
   }
-
-  return results;
 }
 
 /**
@@ -239,9 +196,13 @@ export async function generateFullDiff(
       lines.push(` ${fileLines[i]}`);
     }
 
-    // Add the changed line
+    // Add the changed line, exactly as applyFixes would rewrite it
+    const [location] = locateFixes(fix.file, content, [fix]);
+    if (!location || 'error' in location) {
+      return generateFixDiff(fix, contextLines);
+    }
     const originalLine = fileLines[lineIndex] || '';
-    const newLine = originalLine.replace(fix.original, fix.replacement);
+    const newLine = applyEdits(content, [location.edit]).split('\n')[lineIndex] || '';
     lines.push(`-${originalLine}`);
     lines.push(`+${newLine}`);
 
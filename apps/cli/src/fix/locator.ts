@@ -0,0 +1,460 @@
+/**
+ * Fix Locator
+ *
+ * Finds the exact span each fix rewrites. TS/JS files are parsed with the
+ * TypeScript compiler and stylesheets with a small declaration parser, so a
+ * fix only ever lands inside a string literal, template literal text or CSS
+ * declaration value - never in identifiers, comments or `${}` expressions.
+ * Fixes that name a property only land on a value assigned to that property.
+ */
+
+import * as ts from 'typescript';
+import type { Fix } from '@buoy-design/core';
+
+export interface FixEdit {
+  /** Start offset in the file content */
+  start: number;
+  /** End offset (exclusive) */
+  end: number;
+  /** Replacement text */
+  text: string;
+}
+
+export type FixLocation =
+  | { fix: Fix; edit: FixEdit }
+  | { fix: Fix; error: string };
+
+/**
+ * A span of source whose text a fix may rewrite
+ */
+interface ValueRange {
+  start: number;
+  end: number;
+  /** JSX attribute, object key or CSS property the value is assigned to */
+  property?: string;
+}
+
+interface ParsedSource {
+  /** Text to search; same length as the content, with comments blanked */
+  text: string;
+  ranges: ValueRange[];
+  /** Whether values may hold CSS declarations of their own (`style="color: red"`) */
+  inlineDeclarations: boolean;
+}
+
+interface Occurrence {
+  start: number;
+  range: ValueRange;
+}
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  '.ts': ts.ScriptKind.TS,
+  '.mts': ts.ScriptKind.TS,
+  '.cts': ts.ScriptKind.TS,
+  '.tsx': ts.ScriptKind.TSX,
+  '.js': ts.ScriptKind.JSX,
+  '.mjs': ts.ScriptKind.JS,
+  '.cjs': ts.ScriptKind.JS,
+  '.jsx': ts.ScriptKind.JSX,
+};
+
+const STYLE_EXTENSIONS = new Set(['.css', '.scss', '.less', '.pcss', '.postcss']);
+
+/** Characters that continue a value, so a match next to one is a partial match */
+const VALUE_CHAR = /[\w#.-]/;
+
+/** The last `prop: value` declaration open at the end of some text */
+const OPEN_DECLARATION = /(?:^|[\s;{"'`])([a-zA-Z-][\w-]*)\s*:[^;{}:]*$/;
+
+/**
+ * Locate every fix in a file's content. Results are in the same order as
+ * `fixes`; fixes that no longer match the source get an error instead of
+ * an edit. Each occurrence is claimed by at most one fix.
+ */
+export function locateFixes(
+  file: string,
+  content: string,
+  fixes: Fix[]
+): FixLocation[] {
+  let source: ParsedSource;
+  try {
+    source = parseSource(file, content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return fixes.map((fix) => ({ fix, error: message }));
+  }
+
+  const lineStarts = getLineStarts(content);
+  const claimed: FixEdit[] = [];
+  const locations = new Map<Fix, FixLocation>();
+
+  // Resolve left to right so each fix claims the occurrence nearest its column
+  const ordered = [...fixes].sort((a, b) =>
+    a.line !== b.line ? a.line - b.line : a.column - b.column
+  );
+  for (const fix of ordered) {
+    const location = locateFix(fix, source, lineStarts, claimed);
+    if ('edit' in location) claimed.push(location.edit);
+    locations.set(fix, location);
+  }
+
+  return fixes.map((fix) => locations.get(fix)!);
+}
+
+/**
+ * Apply non-overlapping edits to content
+ */
+export function applyEdits(content: string, edits: FixEdit[]): string {
+  // Apply from the end of the file so earlier offsets stay valid
+  const sorted = [...edits].sort((a, b) => b.start - a.start);
+  let result = content;
+  for (const edit of sorted) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
+
+function locateFix(
+  fix: Fix,
+  source: ParsedSource,
+  lineStarts: number[],
+  claimed: FixEdit[]
+): FixLocation {
+  const lineIndex = fix.line - 1;
+  if (lineIndex < 0 || lineIndex >= lineStarts.length) {
+    return {
+      fix,
+      error: `Line ${fix.line} out of range (file has ${lineStarts.length} lines)`,
+    };
+  }
+  if (!fix.original) {
+    return { fix, error: 'Fix has no original value' };
+  }
+
+  const lineStart = lineStarts[lineIndex]!;
+  const lineEnd =
+    lineIndex + 1 < lineStarts.length
+      ? lineStarts[lineIndex + 1]! - 1
+      : source.text.length;
+  const offset = Math.min(lineStart + Math.max(0, fix.column - 1), lineEnd);
+
+  const onLine = source.ranges.filter(
+    (r) => r.start <= lineEnd && r.end >= lineStart
+  );
+
+  // A column inside a value (or on its opening quote) pins the fix to it
+  const target = onLine.find((r) => r.start - 1 <= offset && offset <= r.end);
+  const searched = target ? [target] : onLine;
+
+  const found = searched
+    .flatMap((range) =>
+      findOccurrences(source.text, fix.original, range).map((start) => ({ start, range }))
+    )
+    .filter(({ start }) => start >= lineStart && start <= lineEnd);
+
+  if (found.length === 0) {
+    return {
+      fix,
+      error: target
+        ? `Value at line ${fix.line}, column ${fix.column} no longer matches "${fix.original}"`
+        : `Original value "${fix.original}" not found on line ${fix.line}`,
+    };
+  }
+
+  const occurrences = fix.property
+    ? found.filter((o) => isSameProperty(getProperty(source, o), fix.property!))
+    : found;
+  if (occurrences.length === 0) {
+    const property = target ? getProperty(source, found[0]!) : undefined;
+    return {
+      fix,
+      error: property
+        ? `"${fix.original}" on line ${fix.line} is assigned to ${property}, not ${fix.property}`
+        : `"${fix.original}" on line ${fix.line} is not assigned to ${fix.property}`,
+    };
+  }
+
+  const available = occurrences.map((o) => o.start).filter(
+    (start) =>
+      !claimed.some(
+        (edit) => start < edit.end && start + fix.original.length > edit.start
+      )
+  );
+  if (available.length === 0) {
+    return {
+      fix,
+      error: `"${fix.original}" on line ${fix.line} is already targeted by another fix`,
+    };
+  }
+
+  const start = available.reduce((best, candidate) =>
+    Math.abs(candidate - offset) < Math.abs(best - offset) ? candidate : best
+  );
+
+  return {
+    fix,
+    edit: { start, end: start + fix.original.length, text: fix.replacement },
+  };
+}
+
+/**
+ * The property an occurrence is assigned to: a declaration written inside the
+ * value itself (template literals, `style` strings) wins over the value's owner
+ */
+function getProperty(source: ParsedSource, occurrence: Occurrence): string | undefined {
+  if (source.inlineDeclarations) {
+    const before = source.text.slice(occurrence.range.start, occurrence.start);
+    const declaration = before.match(OPEN_DECLARATION);
+    if (declaration) return declaration[1];
+  }
+  return occurrence.range.property;
+}
+
+/**
+ * Compare property names across CSS and JS spellings (`background-color`, `backgroundColor`)
+ */
+function isSameProperty(a: string | undefined, b: string): boolean {
+  const normalize = (name: string) => name.replace(/-/g, '').toLowerCase();
+  return a !== undefined && normalize(a) === normalize(b);
+}
+
+/**
+ * Find whole-value occurrences of `value` inside a range
+ */
+function findOccurrences(
+  text: string,
+  value: string,
+  range: ValueRange
+): number[] {
+  const found: number[] = [];
+  let index = text.indexOf(value, range.start);
+
+  while (index !== -1 && index + value.length <= range.end) {
+    const before = text[index - 1];
+    const after = text[index + value.length];
+    if (
+      (before === undefined || !VALUE_CHAR.test(before)) &&
+      (after === undefined || !VALUE_CHAR.test(after))
+    ) {
+      found.push(index);
+    }
+    index = text.indexOf(value, index + 1);
+  }
+
+  return found;
+}
+
+function parseSource(file: string, content: string): ParsedSource {
+  const extension = getExtension(file);
+
+  const scriptKind = SCRIPT_KINDS[extension];
+  if (scriptKind !== undefined) {
+    return {
+      text: content,
+      ranges: getScriptValueRanges(file, content, scriptKind),
+      inlineDeclarations: true,
+    };
+  }
+
+  if (STYLE_EXTENSIONS.has(extension)) {
+    const text = blankComments(content);
+    return { text, ranges: getDeclarationValueRanges(text), inlineDeclarations: false };
+  }
+
+  // Unknown file types (Vue, Svelte, HTML templates): any text on the line
+  const lineStarts = getLineStarts(content);
+  return {
+    text: content,
+    ranges: lineStarts.map((start, i) => ({
+      start,
+      end: i + 1 < lineStarts.length ? lineStarts[i + 1]! - 1 : content.length,
+    })),
+    inlineDeclarations: true,
+  };
+}
+
+/**
+ * Ranges of string literal and template literal text in a TS/JS file, with
+ * the JSX attribute or object key each one is assigned to
+ */
+function getScriptValueRanges(
+  file: string,
+  content: string,
+  scriptKind: ts.ScriptKind
+): ValueRange[] {
+  const sourceFile = ts.createSourceFile(
+    file,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    scriptKind
+  );
+
+  // parseDiagnostics is not part of the public API, but it is the only way to
+  // get syntax errors without building a Program
+  const diagnostics = (
+    sourceFile as ts.SourceFile & { parseDiagnostics?: ts.Diagnostic[] }
+  ).parseDiagnostics;
+  const syntaxError = diagnostics?.[0];
+  if (syntaxError) {
+    const message = ts.flattenDiagnosticMessageText(syntaxError.messageText, ' ');
+    const { line } = sourceFile.getLineAndCharacterOfPosition(syntaxError.start ?? 0);
+    throw new Error(`Cannot parse ${file} (line ${line + 1}: ${message})`);
+  }
+
+  const ranges: ValueRange[] = [];
+
+  const add = (node: ts.Node, start: number, end: number): void => {
+    const property = getOwningProperty(node, sourceFile);
+    ranges.push(property ? { start, end, property } : { start, end });
+  };
+
+  const visit = (node: ts.Node): void => {
+    const start = node.getStart(sourceFile);
+
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+      // Quoted object keys name a property, they are not values
+      if (!(ts.isPropertyAssignment(node.parent) && node.parent.name === node)) {
+        add(node, start + 1, node.end - 1);
+      }
+    } else if (ts.isTemplateHead(node)) {
+      // `text${
+      add(node, start + 1, node.end - 2);
+    } else if (ts.isTemplateMiddle(node)) {
+      // }text${
+      add(node, start + 1, node.end - 2);
+    } else if (ts.isTemplateTail(node)) {
+      // }text`
+      add(node, start + 1, node.end - 1);
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return ranges;
+}
+
+/**
+ * Name of the JSX attribute or object property a value is assigned to,
+ * looking through expressions such as ternaries and `clsx()` calls
+ */
+function getOwningProperty(node: ts.Node, sourceFile: ts.SourceFile): string | undefined {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isJsxAttribute(current)) {
+      return current.name.getText(sourceFile);
+    }
+    if (ts.isPropertyAssignment(current)) {
+      const name = current.name;
+      return ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)
+        ? name.text
+        : undefined;
+    }
+    if (ts.isFunctionLike(current) || ts.isBlock(current) || ts.isSourceFile(current)) {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Ranges of declaration values (`prop: value;`) in a stylesheet whose
+ * comments have already been blanked. Selectors, at-rule preludes and
+ * SCSS interpolation are skipped.
+ */
+function getDeclarationValueRanges(text: string): ValueRange[] {
+  const ranges: ValueRange[] = [];
+  let statementStart = 0;
+  let colon = -1;
+  let depth = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (ch === '"' || ch === "'") {
+      i = skipString(text, i);
+    } else if (ch === '#' && text[i + 1] === '{') {
+      const close = text.indexOf('}', i + 2);
+      i = close === -1 ? text.length : close;
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if (depth === 0) {
+      if (ch === ':' && colon === -1) {
+        colon = i;
+      } else if (ch === '{') {
+        statementStart = i + 1;
+        colon = -1;
+      } else if (ch === ';' || ch === '}') {
+        const property = text.slice(statementStart, Math.max(colon, statementStart)).trim();
+        if (colon !== -1 && property && !property.startsWith('@')) {
+          ranges.push({ start: colon + 1, end: i, property });
+        }
+        statementStart = i + 1;
+        colon = -1;
+      }
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Replace comment text with spaces, keeping offsets and newlines intact
+ */
+function blankComments(content: string): string {
+  const chars = content.split('');
+
+  for (let i = 0; i < chars.length; i++) {
+    const ch = chars[i];
+    if (ch === '"' || ch === "'") {
+      i = skipString(content, i);
+      continue;
+    }
+
+    let end = -1;
+    if (ch === '/' && chars[i + 1] === '*') {
+      const close = content.indexOf('*/', i + 2);
+      end = close === -1 ? chars.length : close + 2;
+    } else if (ch === '/' && chars[i + 1] === '/' && chars[i - 1] !== ':') {
+      // SCSS/Less line comments; `:` guards url(http://...)
+      const close = content.indexOf('\n', i);
+      end = close === -1 ? chars.length : close;
+    }
+
+    if (end !== -1) {
+      for (let j = i; j < end; j++) {
+        if (chars[j] !== '\n') chars[j] = ' ';
+      }
+      i = end - 1;
+    }
+  }
+
+  return chars.join('');
+}
+
+/**
+ * Return the index of the quote closing the string that starts at `start`
+ */
+function skipString(text: string, start: number): number {
+  const quote = text[start];
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text[i] === quote || text[i] === '\n') return i;
+  }
+  return text.length;
+}
+
+function getLineStarts(content: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+function getExtension(file: string): string {
+  const match = file.match(/\.[^./\\]+$/);
+  return match ? match[0].toLowerCase() : '';
+}
@@ -14,6 +14,13 @@ import {
   createScanCommand,
   createCommandsCommand,
   createAhoyCommand,
+  createMcpCommand,
+  createLspCommand,
+  createParityCommand,
+  createImpactCommand,
+  createIntentCommand,
+  createAnalyzeCommand,
+  createContextCommand,
 } from "./commands/index.js";
 
 export function createCli(): Command {
@@ -23,6 +30,9 @@ export function createCli(): Command {
     .name("buoy")
     .description("Catch design drift before it ships")
     .version(pkg.version)
+    // Lets subcommands reuse option names their parent also defines,
+    // e.g. `tokens -o` and `tokens import -o`
+    .enablePositionalOptions()
     .configureHelp({
       sortSubcommands: false,
       subcommandTerm: (cmd) => cmd.name(),
@@ -31,10 +41,14 @@ export function createCli(): Command {
       "after",
       `
 Command Groups:
-  For AI Agents      show (components, tokens, drift, health, all, history)
+  For AI Agents      show (components, tokens, drift, health, all, history), context, mcp
+  Tokens             tokens (lookup, compare, import, contrast, export)
   Getting Started    begin, dock (config, skills, agents, context, hooks)
-  CI/Hooks           check, baseline
+  CI/Hooks           check, baseline, intent (add, list, expire)
   Fixing             fix
+  Design Review      parity, impact (token)
+  Analysis           analyze (graph, audit, learn, history, architect)
+  Editors            lsp
   Plugins            plugins
   Ahoy (Cloud)       ahoy (login, logout, status, github, gitlab, billing, plans)
 
@@ -52,6 +66,8 @@ Quick Start:
   program.addCommand(createTokensCommand());
   program.addCommand(createComponentsCommand());
   program.addCommand(createScanCommand());
+  program.addCommand(createContextCommand());
+  program.addCommand(createMcpCommand());
 
   // === Getting Started ===
   const beginCommand = createBeginCommand();
@@ -62,10 +78,21 @@ Quick Start:
   // === CI/Hooks ===
   program.addCommand(createCheckCommand());
   program.addCommand(createBaselineCommand());
+  program.addCommand(createIntentCommand());
 
   // === Fixing ===
   program.addCommand(createFixCommand());
 
+  // === Design Review ===
+  program.addCommand(createParityCommand());
+  program.addCommand(createImpactCommand());
+
+  // === Analysis ===
+  program.addCommand(createAnalyzeCommand());
+
+  // === Editors ===
+  program.addCommand(createLspCommand());
+
   // === Plugins ===
   program.addCommand(createPluginsCommand());
 
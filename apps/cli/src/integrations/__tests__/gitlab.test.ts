@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { GitLabClient, getGitLabContextFromEnv } from '../gitlab.js';
+import { COMMENT_MARKER, INLINE_MARKER_PREFIX, INLINE_MARKER_SUFFIX } from '../github.js';
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: unknown;
+}
+
+interface MockNote {
+  id: number;
+  body: string;
+  system: boolean;
+  created_at: string;
+  author: { username: string };
+}
+
+/**
+ * Minimal in-memory GitLab merge request API
+ */
+function createMockGitLab() {
+  const requests: RecordedRequest[] = [];
+  const notes: MockNote[] = [];
+  const discussions: Array<{ id: string; notes: Array<Record<string, unknown>> }> = [];
+  let nextId = 1;
+
+  const mrPath = '/api/v4/projects/group%2Fweb/merge_requests/7';
+
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const body = raw ? JSON.parse(raw) : undefined;
+      requests.push({ method: req.method ?? 'GET', path: url.pathname, headers: req.headers, body });
+
+      const send = (status: number, data?: unknown, headers: Record<string, string> = {}) => {
+        res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+        res.end(data === undefined ? undefined : JSON.stringify(data));
+      };
+
+      if (req.headers['private-token'] !== 'secret') {
+        send(401, { message: '401 Unauthorized' });
+        return;
+      }
+
+      const route = `${req.method} ${url.pathname}`;
+
+      if (route === `GET ${mrPath}`) {
+        send(200, {
+          iid: 7,
+          title: 'Update buttons',
+          author: { username: 'dana' },
+          source_branch: 'feature',
+          target_branch: 'main',
+          web_url: 'http://gitlab.local/group/web/-/merge_requests/7',
+          created_at: '2025-01-01T00:00:00.000Z',
+          updated_at: '2025-01-02T00:00:00.000Z',
+          diff_refs: { base_sha: 'base', start_sha: 'start', head_sha: 'head' },
+        });
+      } else if (route === `GET ${mrPath}/notes`) {
+        // Serve one note per page to exercise pagination
+        const page = parseInt(url.searchParams.get('page') ?? '1', 10);
+        const next = page < notes.length ? String(page + 1) : '';
+        send(200, notes.slice(page - 1, page), { 'x-next-page': next });
+      } else if (route === `POST ${mrPath}/notes`) {
+        const note = {
+          id: nextId++,
+          body: (body as { body: string }).body,
+          system: false,
+          created_at: new Date().toISOString(),
+          author: { username: 'buoy-bot' },
+        };
+        notes.push(note);
+        send(201, note);
+      } else if (req.method === 'PUT' && url.pathname.startsWith(`${mrPath}/notes/`)) {
+        const id = parseInt(url.pathname.split('/').pop()!, 10);
+        const note = notes.find((n) => n.id === id);
+        if (!note) {
+          send(404, { message: '404 Not found' });
+          return;
+        }
+        note.body = (body as { body: string }).body;
+        send(200, note);
+      } else if (route === `GET ${mrPath}/discussions`) {
+        send(200, discussions);
+      } else if (route === `POST ${mrPath}/discussions`) {
+        const { body: text, position } = body as { body: string; position: Record<string, unknown> };
+        if (position.new_line === 999) {
+          send(400, { message: 'line_code can not be blank' });
+          return;
+        }
+        const discussion = {
+          id: `d${nextId++}`,
+          notes: [{ id: nextId++, body: text, system: false, resolved: false, created_at: '', position }],
+        };
+        discussions.push(discussion);
+        send(201, discussion);
+      } else {
+        send(404, { message: '404 Not found' });
+      }
+    });
+  });
+
+  return { server, requests, notes, discussions };
+}
+
+describe('GitLabClient', () => {
+  let mock: ReturnType<typeof createMockGitLab>;
+  let client: GitLabClient;
+
+  beforeEach(async () => {
+    mock = createMockGitLab();
+    await new Promise<void>((resolve) => mock.server.listen(0, '127.0.0.1', resolve));
+    const { port } = mock.server.address() as AddressInfo;
+    client = new GitLabClient({
+      token: 'secret',
+      baseUrl: `http://127.0.0.1:${port}/`,
+      projectId: 'group/web',
+      mrIid: 7,
+    });
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => mock.server.close(() => resolve()));
+  });
+
+  it('creates the summary note when none exists', async () => {
+    await client.createOrUpdateNote(`${COMMENT_MARKER}\nfirst`);
+
+    expect(mock.notes).toHaveLength(1);
+    expect(mock.requests.at(-1)).toMatchObject({
+      method: 'POST',
+      path: '/api/v4/projects/group%2Fweb/merge_requests/7/notes',
+    });
+    expect(mock.requests.at(-1)!.headers['private-token']).toBe('secret');
+  });
+
+  it('updates the marked note instead of posting a new one', async () => {
+    mock.notes.push(
+      { id: 100, body: 'LGTM', system: false, created_at: '', author: { username: 'dana' } },
+      { id: 101, body: `${COMMENT_MARKER}\nold`, system: false, created_at: '', author: { username: 'buoy-bot' } },
+    );
+
+    await client.createOrUpdateNote(`${COMMENT_MARKER}\nnew`);
+
+    expect(mock.notes).toHaveLength(2);
+    expect(mock.notes[1]!.body).toBe(`${COMMENT_MARKER}\nnew`);
+    expect(mock.requests.at(-1)).toMatchObject({ method: 'PUT' });
+  });
+
+  it('follows pagination when looking for the existing note', async () => {
+    mock.notes.push(
+      { id: 1, body: 'a', system: false, created_at: '', author: { username: 'dana' } },
+      { id: 2, body: 'b', system: true, created_at: '', author: { username: 'dana' } },
+      { id: 3, body: COMMENT_MARKER, system: false, created_at: '', author: { username: 'buoy-bot' } },
+    );
+
+    expect(await client.findExistingNote()).toBe(3);
+    expect(mock.requests.filter((r) => r.method === 'GET')).toHaveLength(3);
+  });
+
+  it('opens inline discussions at the MR diff position with a drift marker', async () => {
+    await client.createInlineDiscussion('src/Button.tsx', 12, 'Use a token', 'drift:1');
+
+    const request = mock.requests.at(-1)!;
+    expect(request.path).toBe('/api/v4/projects/group%2Fweb/merge_requests/7/discussions');
+    expect(request.body).toEqual({
+      body: `${INLINE_MARKER_PREFIX}drift:1${INLINE_MARKER_SUFFIX}\nUse a token`,
+      position: {
+        position_type: 'text',
+        base_sha: 'base',
+        start_sha: 'start',
+        head_sha: 'head',
+        old_path: 'src/Button.tsx',
+        new_path: 'src/Button.tsx',
+        new_line: 12,
+      },
+    });
+  });
+
+  it('does not duplicate a marker already in the body', async () => {
+    const body = `${INLINE_MARKER_PREFIX}drift:1${INLINE_MARKER_SUFFIX}\nUse a token`;
+    await client.createInlineDiscussion('src/Button.tsx', 12, body, 'drift:1', {
+      baseSha: 'b',
+      startSha: 's',
+      headSha: 'h',
+    });
+
+    expect((mock.requests.at(-1)!.body as { body: string }).body).toBe(body);
+    // Diff refs were supplied, so the MR wasn't refetched
+    expect(mock.requests).toHaveLength(1);
+  });
+
+  it('finds Buoy discussions and their drift signal ids', async () => {
+    await client.createInlineDiscussion('src/Button.tsx', 12, 'Buoy', 'drift:1');
+    await client.createInlineDiscussion('src/Card.tsx', 3, 'Human comment');
+    mock.discussions[0]!.notes[0]!.resolved = true;
+
+    const discussions = await client.findBuoyDiscussions();
+
+    expect(discussions).toHaveLength(1);
+    expect(discussions[0]).toMatchObject({ path: 'src/Button.tsx', line: 12, driftSignalId: 'drift:1' });
+    expect(await client.getResolvedDriftSignals()).toEqual(['drift:1']);
+  });
+
+  it('surfaces API errors with the status code', async () => {
+    await expect(
+      client.createInlineDiscussion('src/Button.tsx', 999, 'Outside the diff', 'drift:1'),
+    ).rejects.toThrow('GitLab API error: 400');
+
+    const unauthorized = new GitLabClient({
+      token: 'wrong',
+      baseUrl: client['apiUrl'].replace('/api/v4', ''),
+      projectId: 'group/web',
+      mrIid: 7,
+    });
+    await expect(unauthorized.getNotes()).rejects.toThrow('GitLab API error: 401');
+  });
+});
+
+describe('getGitLabContextFromEnv', () => {
+  it('reads merge request pipeline variables', () => {
+    expect(
+      getGitLabContextFromEnv({
+        GITLAB_TOKEN: 'secret',
+        CI_SERVER_URL: 'https://gitlab.example.com',
+        CI_PROJECT_ID: '42',
+        CI_MERGE_REQUEST_IID: '7',
+      }),
+    ).toEqual({ token: 'secret', baseUrl: 'https://gitlab.example.com', projectId: '42', mrIid: 7 });
+  });
+
+  it('returns null outside merge request pipelines', () => {
+    expect(getGitLabContextFromEnv({ GITLAB_TOKEN: 'secret', CI_PROJECT_ID: '42' })).toBeNull();
+  });
+});
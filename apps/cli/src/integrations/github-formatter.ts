@@ -57,6 +57,21 @@ export function formatPRComment(results: DriftResult, context?: PRContext): stri
     lines.push('');
   }
 
+  // Owners table - mentions each CODEOWNERS team so they see their drift
+  const byOwner = groupByOwner(results.signals);
+  if (Object.keys(byOwner).length > 0) {
+    lines.push('### Owners');
+    lines.push('');
+    lines.push('| Owner | Drift Signals | Severity |');
+    lines.push('|-------|---------------|----------|');
+    for (const [owner, signals] of Object.entries(byOwner)) {
+      const maxSeverity = getMaxSeverity(signals);
+      const severityIcon = maxSeverity === 'critical' ? '🔴' : maxSeverity === 'warning' ? '🟡' : '🔵';
+      lines.push(`| ${owner} | ${signals.length} | ${severityIcon} ${maxSeverity} |`);
+    }
+    lines.push('');
+  }
+
   // Pre-merge checks section
   lines.push('### Pre-merge checks');
   lines.push('');
@@ -198,6 +213,17 @@ function groupByFile(signals: DriftResult['signals']): Record<string, DriftResul
   return groups;
 }
 
+function groupByOwner(signals: DriftResult['signals']): Record<string, DriftResult['signals']> {
+  const groups: Record<string, DriftResult['signals']> = {};
+  for (const signal of signals) {
+    for (const owner of signal.owners ?? []) {
+      if (!groups[owner]) groups[owner] = [];
+      groups[owner].push(signal);
+    }
+  }
+  return groups;
+}
+
 function getMaxSeverity(signals: DriftResult['signals']): 'critical' | 'warning' | 'info' {
   if (signals.some(s => s.severity === 'critical')) return 'critical';
   if (signals.some(s => s.severity === 'warning')) return 'warning';
@@ -224,6 +250,11 @@ function formatSignalDetail(signal: DriftResult['signals'][0]): string {
     lines.push(`**Component:** \`${signal.component}\``);
   }
 
+  if (signal.owners?.length) {
+    lines.push('');
+    lines.push(`**Owners:** ${signal.owners.join(' ')}`);
+  }
+
   if (signal.suggestion) {
     lines.push('');
     lines.push(`**💡 Suggestion:** ${signal.suggestion}`);
@@ -318,6 +349,35 @@ export function formatDriftSignalForInline(drift: DriftSignal, signalId: string)
   }, signalId);
 }
 
+/**
+ * Convert drift signals into the DriftResult shape used by PR comments
+ */
+export function toDriftResult(drifts: DriftSignal[]): DriftResult {
+  const signals = drifts.map((drift) => {
+    const match = drift.source.location?.match(/^(.+?):(\d+)(?::\d+)?$/);
+    return {
+      type: drift.type,
+      severity: drift.severity,
+      message: drift.message,
+      component: drift.source.entityName,
+      file: match ? match[1] : drift.source.location || undefined,
+      line: match ? parseInt(match[2]!, 10) : undefined,
+      suggestion: drift.details.suggestions?.[0],
+      owners: drift.details.owners,
+    };
+  });
+
+  return {
+    signals,
+    summary: {
+      total: signals.length,
+      critical: signals.filter((s) => s.severity === 'critical').length,
+      warning: signals.filter((s) => s.severity === 'warning').length,
+      info: signals.filter((s) => s.severity === 'info').length,
+    },
+  };
+}
+
 /**
  * AI Analysis types (imported from ai-analysis service)
  */
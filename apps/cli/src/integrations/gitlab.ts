@@ -0,0 +1,375 @@
+// Built-in GitLab integration for Buoy CLI
+// Mirrors GitHubClient: a summary note on the merge request plus inline
+// discussion threads, using the same hidden markers for upserts.
+import { COMMENT_MARKER, INLINE_MARKER_PREFIX, INLINE_MARKER_SUFFIX } from './github.js';
+
+const REQUEST_TIMEOUT_MS = 30000; // 30 seconds
+const DEFAULT_GITLAB_URL = 'https://gitlab.com';
+
+export interface GitLabContext {
+  token: string;
+  /** Instance URL, e.g. https://gitlab.example.com (defaults to gitlab.com) */
+  baseUrl?: string;
+  /** Numeric project ID or full path ("group/project") */
+  projectId: string | number;
+  mrIid: number;
+}
+
+export interface GitLabNote {
+  id: number;
+  body: string;
+  author: string;
+  system: boolean;
+  createdAt: Date;
+}
+
+export interface GitLabDiscussion {
+  id: string;
+  noteId: number;
+  body: string;
+  path: string | null;
+  line: number | null;
+  resolved: boolean;
+  driftSignalId?: string; // Extracted from marker if present
+}
+
+export interface MRDiffRefs {
+  baseSha: string;
+  startSha: string;
+  headSha: string;
+}
+
+export interface MRInfo {
+  iid: number;
+  title: string;
+  author: string;
+  sourceBranch: string;
+  targetBranch: string;
+  webUrl: string;
+  diffRefs: MRDiffRefs;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MRChange {
+  oldPath: string;
+  newPath: string;
+  newFile: boolean;
+  renamedFile: boolean;
+  deletedFile: boolean;
+  diff: string;
+}
+
+interface ApiNote {
+  id: number;
+  body: string;
+  system: boolean;
+  created_at: string;
+  author?: { username?: string };
+  resolved?: boolean;
+  position?: { new_path?: string; new_line?: number | null };
+}
+
+interface ApiDiscussion {
+  id: string;
+  notes: ApiNote[];
+}
+
+interface ApiMergeRequest {
+  iid: number;
+  title: string;
+  author?: { username?: string };
+  source_branch: string;
+  target_branch: string;
+  web_url: string;
+  created_at: string;
+  updated_at: string;
+  diff_refs: { base_sha: string; start_sha: string; head_sha: string } | null;
+}
+
+interface ApiChange {
+  old_path: string;
+  new_path: string;
+  new_file: boolean;
+  renamed_file: boolean;
+  deleted_file: boolean;
+  diff: string;
+}
+
+/**
+ * Extract the drift signal ID from an inline marker, if present
+ */
+function extractDriftSignalId(body: string): string | undefined {
+  if (!body.includes(INLINE_MARKER_PREFIX)) return undefined;
+  const start = body.indexOf(INLINE_MARKER_PREFIX) + INLINE_MARKER_PREFIX.length;
+  const end = body.indexOf(INLINE_MARKER_SUFFIX, start);
+  return end > start ? body.slice(start, end) : undefined;
+}
+
+/**
+ * Build a GitLabContext from GitLab CI predefined variables.
+ * Returns null when not running in a merge request pipeline.
+ */
+export function getGitLabContextFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): GitLabContext | null {
+  const token = env.BUOY_GITLAB_TOKEN || env.GITLAB_TOKEN;
+  const projectId = env.CI_MERGE_REQUEST_PROJECT_ID || env.CI_PROJECT_ID;
+  const mrIid = env.CI_MERGE_REQUEST_IID ? parseInt(env.CI_MERGE_REQUEST_IID, 10) : NaN;
+
+  if (!token || !projectId || Number.isNaN(mrIid)) {
+    return null;
+  }
+
+  return {
+    token,
+    baseUrl: env.CI_SERVER_URL,
+    projectId,
+    mrIid,
+  };
+}
+
+export class GitLabClient {
+  private context: GitLabContext;
+  private apiUrl: string;
+
+  constructor(context: GitLabContext) {
+    this.context = context;
+    const baseUrl = (context.baseUrl || DEFAULT_GITLAB_URL).replace(/\/+$/, '');
+    this.apiUrl = `${baseUrl}/api/v4`;
+  }
+
+  private get mrPath(): string {
+    const project = encodeURIComponent(String(this.context.projectId));
+    return `/projects/${project}/merge_requests/${this.context.mrIid}`;
+  }
+
+  private async request<T>(
+    method: string,
+    endpoint: string,
+    body?: unknown
+  ): Promise<{ data: T; nextPage: string | null }> {
+    const response = await fetch(`${this.apiUrl}${endpoint}`, {
+      method,
+      headers: {
+        'PRIVATE-TOKEN': this.context.token,
+        'Content-Type': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`GitLab API error: ${response.status} ${error}`);
+    }
+
+    const nextPage = response.headers.get('x-next-page') || null;
+    if (response.status === 204) {
+      return { data: undefined as T, nextPage };
+    }
+    return { data: (await response.json()) as T, nextPage };
+  }
+
+  private async paginate<T>(endpoint: string): Promise<T[]> {
+    const items: T[] = [];
+    const separator = endpoint.includes('?') ? '&' : '?';
+    let page: string | null = '1';
+
+    while (page) {
+      const response: { data: T[]; nextPage: string | null } = await this.request<T[]>(
+        'GET',
+        `${endpoint}${separator}per_page=100&page=${page}`
+      );
+      items.push(...response.data);
+      page = response.nextPage;
+    }
+
+    return items;
+  }
+
+  /**
+   * Get all notes (comments) on the merge request
+   */
+  async getNotes(): Promise<GitLabNote[]> {
+    const notes = await this.paginate<ApiNote>(`${this.mrPath}/notes?sort=asc`);
+
+    return notes.map((note) => ({
+      id: note.id,
+      body: note.body,
+      author: note.author?.username ?? 'unknown',
+      system: note.system,
+      createdAt: new Date(note.created_at),
+    }));
+  }
+
+  async findExistingNote(): Promise<number | null> {
+    const notes = await this.getNotes();
+    const existing = notes.find(
+      (note) => !note.system && note.body.includes(COMMENT_MARKER)
+    );
+
+    return existing?.id ?? null;
+  }
+
+  async createOrUpdateNote(body: string): Promise<void> {
+    const existingId = await this.findExistingNote();
+
+    if (existingId) {
+      await this.request('PUT', `${this.mrPath}/notes/${existingId}`, { body });
+    } else {
+      await this.request('POST', `${this.mrPath}/notes`, { body });
+    }
+  }
+
+  async deleteNote(): Promise<void> {
+    const existingId = await this.findExistingNote();
+
+    if (existingId) {
+      await this.request('DELETE', `${this.mrPath}/notes/${existingId}`);
+    }
+  }
+
+  /**
+   * Get merge request information including the diff refs needed for inline threads
+   */
+  async getMRInfo(): Promise<MRInfo> {
+    const { data: mr } = await this.request<ApiMergeRequest>('GET', this.mrPath);
+
+    if (!mr.diff_refs) {
+      throw new Error(`Merge request !${mr.iid} has no diff refs yet`);
+    }
+
+    return {
+      iid: mr.iid,
+      title: mr.title,
+      author: mr.author?.username ?? 'unknown',
+      sourceBranch: mr.source_branch,
+      targetBranch: mr.target_branch,
+      webUrl: mr.web_url,
+      diffRefs: {
+        baseSha: mr.diff_refs.base_sha,
+        startSha: mr.diff_refs.start_sha,
+        headSha: mr.diff_refs.head_sha,
+      },
+      createdAt: new Date(mr.created_at),
+      updatedAt: new Date(mr.updated_at),
+    };
+  }
+
+  /**
+   * Get files changed in the merge request
+   */
+  async getChanges(): Promise<MRChange[]> {
+    const changes = await this.paginate<ApiChange>(`${this.mrPath}/diffs`);
+
+    return changes.map((c) => ({
+      oldPath: c.old_path,
+      newPath: c.new_path,
+      newFile: c.new_file,
+      renamedFile: c.renamed_file,
+      deletedFile: c.deleted_file,
+      diff: c.diff,
+    }));
+  }
+
+  /**
+   * Get all discussion threads on the merge request
+   */
+  async getDiscussions(): Promise<GitLabDiscussion[]> {
+    const discussions = await this.paginate<ApiDiscussion>(`${this.mrPath}/discussions`);
+    const result: GitLabDiscussion[] = [];
+
+    for (const discussion of discussions) {
+      const first = discussion.notes[0];
+      if (!first || first.system) continue;
+
+      result.push({
+        id: discussion.id,
+        noteId: first.id,
+        body: first.body,
+        path: first.position?.new_path ?? null,
+        line: first.position?.new_line ?? null,
+        resolved: first.resolved ?? false,
+        driftSignalId: extractDriftSignalId(first.body),
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Create an inline discussion thread on a specific file and line.
+   * Pass diffRefs when posting several threads to avoid refetching the MR.
+   */
+  async createInlineDiscussion(
+    path: string,
+    line: number,
+    body: string,
+    driftSignalId?: string,
+    diffRefs?: MRDiffRefs
+  ): Promise<string> {
+    const refs = diffRefs ?? (await this.getMRInfo()).diffRefs;
+
+    // Add marker if signal ID provided and the body doesn't already carry it
+    const marker = driftSignalId
+      ? `${INLINE_MARKER_PREFIX}${driftSignalId}${INLINE_MARKER_SUFFIX}`
+      : '';
+    const markedBody = marker && !body.includes(marker) ? `${marker}\n${body}` : body;
+
+    const { data } = await this.request<ApiDiscussion>('POST', `${this.mrPath}/discussions`, {
+      body: markedBody,
+      position: {
+        position_type: 'text',
+        base_sha: refs.baseSha,
+        start_sha: refs.startSha,
+        head_sha: refs.headSha,
+        old_path: path,
+        new_path: path,
+        new_line: line,
+      },
+    });
+
+    return data.id;
+  }
+
+  /**
+   * Find all inline discussions created by Buoy
+   */
+  async findBuoyDiscussions(): Promise<GitLabDiscussion[]> {
+    const discussions = await this.getDiscussions();
+    return discussions.filter((d) => d.driftSignalId !== undefined);
+  }
+
+  /**
+   * Get drift signals whose discussion was resolved by a reviewer
+   */
+  async getResolvedDriftSignals(): Promise<string[]> {
+    const discussions = await this.findBuoyDiscussions();
+    return discussions
+      .filter((d) => d.resolved && d.driftSignalId)
+      .map((d) => d.driftSignalId!);
+  }
+
+  /**
+   * Delete all inline Buoy discussions (for cleanup/reset)
+   */
+  async deleteInlineDiscussions(): Promise<number> {
+    const discussions = await this.findBuoyDiscussions();
+    let deleted = 0;
+
+    for (const discussion of discussions) {
+      try {
+        await this.request(
+          'DELETE',
+          `${this.mrPath}/discussions/${discussion.id}/notes/${discussion.noteId}`
+        );
+        deleted++;
+      } catch {
+        // Note may already be deleted
+      }
+    }
+
+    return deleted;
+  }
+}
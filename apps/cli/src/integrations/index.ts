@@ -24,4 +24,15 @@ export {
   formatInlineComment,
   formatDriftSignalForInline,
   formatAIPRComment,
+  toDriftResult,
 } from './github-formatter.js';
+export type { PRContext } from './github-formatter.js';
+export { GitLabClient, getGitLabContextFromEnv } from './gitlab.js';
+export type {
+  GitLabContext,
+  GitLabNote,
+  GitLabDiscussion,
+  MRDiffRefs,
+  MRInfo,
+  MRChange,
+} from './gitlab.js';
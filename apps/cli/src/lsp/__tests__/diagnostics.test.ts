@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import type { DesignToken, DriftSignal } from '@buoy-design/core';
+import {
+  driftsToDiagnostics,
+  createCodeActions,
+  severityToDiagnosticSeverity,
+  DiagnosticSeverity,
+} from '../diagnostics.js';
+
+const TEXT = `export function Button() {
+  return <button style={{ color: '#3b82f6', padding: '13px' }}>Save</button>;
+}
+`;
+
+function createDrift(overrides: Partial<DriftSignal> = {}): DriftSignal {
+  return {
+    id: 'drift:hardcoded-value:react:src/Button.tsx:Button:color',
+    type: 'hardcoded-value',
+    severity: 'warning',
+    source: {
+      entityType: 'component',
+      entityId: 'react:src/Button.tsx:Button',
+      entityName: 'Button',
+      location: 'src/Button.tsx:1',
+    },
+    message: 'Component "Button" has 1 hardcoded color: #3b82f6',
+    details: {
+      affectedFiles: ['color: #3b82f6 (line 2)'],
+      tokenSuggestions: ['#3b82f6 → --color-primary (100% match)'],
+    },
+    detectedAt: new Date('2025-01-01T00:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+const tokens: DesignToken[] = [
+  {
+    id: 'css:tokens.css:--color-primary',
+    name: '--color-primary',
+    category: 'color',
+    value: { type: 'color', hex: '#3b82f6' },
+    source: { type: 'css', path: 'tokens.css' },
+    aliases: [],
+    usedBy: [],
+    metadata: {},
+    scannedAt: new Date('2025-01-01T00:00:00.000Z'),
+  },
+];
+
+describe('severityToDiagnosticSeverity', () => {
+  it('maps drift severity to LSP severity', () => {
+    expect(severityToDiagnosticSeverity('critical')).toBe(DiagnosticSeverity.Error);
+    expect(severityToDiagnosticSeverity('warning')).toBe(DiagnosticSeverity.Warning);
+    expect(severityToDiagnosticSeverity('info')).toBe(DiagnosticSeverity.Information);
+  });
+});
+
+describe('driftsToDiagnostics', () => {
+  it('puts hardcoded-value diagnostics on the literal value', () => {
+    const [diagnostic] = driftsToDiagnostics([createDrift()], TEXT);
+
+    expect(diagnostic).toMatchObject({
+      range: { start: { line: 1, character: 34 }, end: { line: 1, character: 41 } },
+      severity: DiagnosticSeverity.Warning,
+      code: 'hardcoded-value',
+      source: 'buoy',
+      message: 'Hardcoded color #3b82f6. Use --color-primary (100% match)',
+      data: { value: '#3b82f6', property: 'color' },
+    });
+  });
+
+  it('emits one diagnostic per affected value', () => {
+    const drift = createDrift({
+      severity: 'info',
+      details: { affectedFiles: ['color: #3b82f6 (line 2)', 'padding: 13px (line 2)'] },
+    });
+
+    const diagnostics = driftsToDiagnostics([drift], TEXT);
+
+    expect(diagnostics).toHaveLength(2);
+    expect(diagnostics[1]!.message).toBe('Hardcoded padding 13px. Use a design token instead');
+  });
+
+  it('falls back to the drift line for other drift types', () => {
+    const drift = createDrift({
+      type: 'naming-inconsistency',
+      severity: 'info',
+      message: 'Component "Button" uses a different naming convention',
+      details: { suggestions: ['Rename to button'] },
+    });
+
+    const [diagnostic] = driftsToDiagnostics([drift], TEXT);
+
+    expect(diagnostic!.range).toEqual({
+      start: { line: 0, character: 0 },
+      end: { line: 0, character: 26 },
+    });
+    expect(diagnostic!.message).toContain('Rename to button');
+    expect(diagnostic!.data).toEqual({ driftId: drift.id });
+  });
+});
+
+describe('createCodeActions', () => {
+  it('offers a token replacement for hardcoded values', () => {
+    const diagnostics = driftsToDiagnostics([createDrift()], TEXT);
+
+    const [action] = createCodeActions('file:///repo/src/Button.tsx', diagnostics, tokens);
+
+    expect(action).toMatchObject({
+      title: 'Replace #3b82f6 with --color-primary (exact confidence)',
+      kind: 'quickfix',
+      isPreferred: true,
+    });
+    expect(action!.edit.changes['file:///repo/src/Button.tsx']).toEqual([
+      { range: diagnostics[0]!.range, newText: 'var(--color-primary)' },
+    ]);
+  });
+
+  it('skips diagnostics without a matching token', () => {
+    const diagnostics = driftsToDiagnostics(
+      [createDrift({ details: { affectedFiles: ['padding: 13px (line 2)'] } })],
+      TEXT,
+    );
+
+    expect(createCodeActions('file:///repo/src/Button.tsx', diagnostics, tokens)).toEqual([]);
+  });
+});
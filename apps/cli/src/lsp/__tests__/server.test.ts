@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PassThrough } from 'node:stream';
+import type { DriftSignal } from '@buoy-design/core';
+import { BuoyConfigSchema } from '../../config/schema.js';
+import type { DesignSystemData } from '../../services/design-system-data.js';
+import { LanguageServer, encodeMessage, type LspMessage } from '../server.js';
+
+const URI = 'file:///repo/src/Button.tsx';
+const TEXT = `export function Button() {
+  return <button style={{ color: '#3b82f6' }}>Save</button>;
+}
+`;
+
+const drift: DriftSignal = {
+  id: 'drift:hardcoded-value:react:src/Button.tsx:Button:color',
+  type: 'hardcoded-value',
+  severity: 'warning',
+  source: {
+    entityType: 'component',
+    entityId: 'react:src/Button.tsx:Button',
+    entityName: 'Button',
+    location: 'src/Button.tsx:1',
+  },
+  message: 'Component "Button" has 1 hardcoded color: #3b82f6',
+  details: { affectedFiles: ['color: #3b82f6 (line 2)'] },
+  detectedAt: new Date('2025-01-01T00:00:00.000Z'),
+};
+
+const project: DesignSystemData = {
+  config: BuoyConfigSchema.parse({ project: { name: 'test' } }),
+  projectRoot: '/repo',
+  getComponents: async () => [],
+  getTokens: async () => [
+    {
+      id: 'css:tokens.css:--color-primary',
+      name: '--color-primary',
+      category: 'color',
+      value: { type: 'color', hex: '#3b82f6' },
+      source: { type: 'css', path: 'tokens.css' },
+      aliases: [],
+      usedBy: [],
+      metadata: {},
+      scannedAt: new Date('2025-01-01T00:00:00.000Z'),
+    },
+  ],
+};
+
+describe('LanguageServer', () => {
+  let sent: LspMessage[];
+  let analyze: ReturnType<typeof vi.fn>;
+  let server: LanguageServer;
+
+  beforeEach(() => {
+    sent = [];
+    analyze = vi.fn(async (text: string) => (text.includes('#3b82f6') ? [drift] : []));
+    server = new LanguageServer({
+      send: (message) => sent.push(message),
+      loadProject: async () => project,
+      analyze,
+      debounceMs: 0,
+    });
+  });
+
+  async function initialize() {
+    await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 0,
+      method: 'initialize',
+      params: { rootUri: 'file:///repo', capabilities: {} },
+    });
+    sent.length = 0;
+  }
+
+  function published(): LspMessage<any>[] {
+    return sent.filter((m) => m.method === 'textDocument/publishDiagnostics');
+  }
+
+  it('advertises document sync and quick-fix capabilities', async () => {
+    await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+
+    expect(sent[0]).toMatchObject({
+      id: 1,
+      result: {
+        capabilities: {
+          textDocumentSync: { openClose: true, change: 1 },
+          codeActionProvider: { codeActionKinds: ['quickfix'] },
+        },
+        serverInfo: { name: 'buoy' },
+      },
+    });
+  });
+
+  it('rejects requests before initialize', async () => {
+    await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'textDocument/codeAction', params: {} });
+    expect(sent[0]!.error?.code).toBe(-32002);
+  });
+
+  it('publishes diagnostics when a document opens', async () => {
+    await initialize();
+
+    await server.handleMessage({
+      jsonrpc: '2.0',
+      method: 'textDocument/didOpen',
+      params: { textDocument: { uri: URI, languageId: 'typescriptreact', version: 1, text: TEXT } },
+    });
+
+    expect(analyze).toHaveBeenCalledWith(TEXT, 'src/Button.tsx', project);
+    const [message] = published();
+    expect(message!.params.uri).toBe(URI);
+    expect(message!.params.diagnostics).toHaveLength(1);
+    expect(message!.params.diagnostics[0].range.start).toEqual({ line: 1, character: 34 });
+  });
+
+  it('re-analyzes after changes and clears diagnostics on close', async () => {
+    await initialize();
+    await server.handleMessage({
+      jsonrpc: '2.0',
+      method: 'textDocument/didOpen',
+      params: { textDocument: { uri: URI, languageId: 'typescriptreact', version: 1, text: TEXT } },
+    });
+
+    await server.handleMessage({
+      jsonrpc: '2.0',
+      method: 'textDocument/didChange',
+      params: {
+        textDocument: { uri: URI, version: 2 },
+        contentChanges: [{ text: TEXT.replace("'#3b82f6'", 'tokens.primary') }],
+      },
+    });
+    await vi.waitFor(() => expect(published()).toHaveLength(2));
+    expect(published()[1]!.params).toMatchObject({ version: 2, diagnostics: [] });
+
+    await server.handleMessage({
+      jsonrpc: '2.0',
+      method: 'textDocument/didClose',
+      params: { textDocument: { uri: URI } },
+    });
+    expect(published()[2]!.params.diagnostics).toEqual([]);
+  });
+
+  it('answers code action requests with token replacements', async () => {
+    await initialize();
+    await server.handleMessage({
+      jsonrpc: '2.0',
+      method: 'textDocument/didOpen',
+      params: { textDocument: { uri: URI, languageId: 'typescriptreact', version: 1, text: TEXT } },
+    });
+    const diagnostics = published()[0]!.params.diagnostics;
+
+    await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 5,
+      method: 'textDocument/codeAction',
+      params: { textDocument: { uri: URI }, range: diagnostics[0].range, context: { diagnostics } },
+    });
+
+    const response = sent.find((m) => m.id === 5)!;
+    expect(response.result).toEqual([
+      expect.objectContaining({
+        kind: 'quickfix',
+        edit: { changes: { [URI]: [{ range: diagnostics[0].range, newText: 'var(--color-primary)' }] } },
+      }),
+    ]);
+  });
+
+  it('publishes no diagnostics when analysis fails', async () => {
+    analyze.mockRejectedValueOnce(new Error('Unsupported file type ".md"'));
+    await initialize();
+
+    await server.handleMessage({
+      jsonrpc: '2.0',
+      method: 'textDocument/didOpen',
+      params: { textDocument: { uri: 'file:///repo/README.md', languageId: 'markdown', version: 1, text: '# Hi' } },
+    });
+
+    expect(published()[0]!.params.diagnostics).toEqual([]);
+  });
+
+  it('exits cleanly only after shutdown', async () => {
+    const onExit = vi.fn();
+    server = new LanguageServer({ send: (m) => sent.push(m), onExit });
+    await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+    await server.handleMessage({ jsonrpc: '2.0', id: 2, method: 'shutdown' });
+    await server.handleMessage({ jsonrpc: '2.0', method: 'exit' });
+
+    expect(onExit).toHaveBeenCalledWith(0);
+  });
+
+  it('reads Content-Length framed messages from a stream', async () => {
+    const input = new PassThrough();
+    const listening = server.listen(input);
+
+    const framed = encodeMessage({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+    // Split mid-message to exercise buffering
+    input.write(framed.slice(0, 10));
+    input.end(framed.slice(10));
+    await listening;
+
+    expect(sent[0]).toMatchObject({ id: 1, result: { serverInfo: { name: 'buoy' } } });
+  });
+});
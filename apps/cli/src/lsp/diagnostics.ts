@@ -0,0 +1,200 @@
+/**
+ * Map drift signals to LSP diagnostics and token quick-fixes.
+ *
+ * Hardcoded-value drift is reported per value (one squiggle on each literal)
+ * rather than once per component, so each squiggle can carry its own fix.
+ */
+
+import type { DesignToken, DriftSignal, Severity } from '@buoy-design/core';
+import { suggestFix } from '../services/design-system-data.js';
+import { parseDriftLocation } from '../output/sarif.js';
+
+export interface Position {
+  line: number; // 0-based
+  character: number; // 0-based
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export const DiagnosticSeverity = {
+  Error: 1,
+  Warning: 2,
+  Information: 3,
+  Hint: 4,
+} as const;
+
+/**
+ * Extra data attached to hardcoded-value diagnostics for code actions
+ */
+export interface DriftDiagnosticData {
+  driftId: string;
+  value?: string;
+  property?: string;
+}
+
+export interface Diagnostic {
+  range: Range;
+  severity: number;
+  code: string;
+  source: 'buoy';
+  message: string;
+  data?: DriftDiagnosticData;
+}
+
+export interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+export interface CodeAction {
+  title: string;
+  kind: 'quickfix';
+  diagnostics: Diagnostic[];
+  isPreferred?: boolean;
+  edit: { changes: Record<string, TextEdit[]> };
+}
+
+export function severityToDiagnosticSeverity(severity: Severity): number {
+  switch (severity) {
+    case 'critical':
+      return DiagnosticSeverity.Error;
+    case 'warning':
+      return DiagnosticSeverity.Warning;
+    case 'info':
+      return DiagnosticSeverity.Information;
+  }
+}
+
+/**
+ * Parse an affectedFiles entry ("backgroundColor: #3b82f6 (line 12)")
+ */
+function parseAffectedValue(
+  entry: string,
+): { property: string; value: string; line?: number } | null {
+  const match = entry.match(/^(.+?):\s+(.+?)\s+\((.+)\)$/);
+  if (!match) return null;
+
+  const lineMatch = match[3]!.match(/(?:line\s+|:)(\d+)(?::\d+)?$/);
+  return {
+    property: match[1]!,
+    value: match[2]!,
+    line: lineMatch ? parseInt(lineMatch[1]!, 10) : undefined,
+  };
+}
+
+function lineRange(lines: string[], line: number): Range {
+  const index = Math.min(Math.max(line - 1, 0), Math.max(lines.length - 1, 0));
+  const text = lines[index] ?? '';
+  const indent = text.length - text.trimStart().length;
+  return {
+    start: { line: index, character: indent },
+    end: { line: index, character: text.length },
+  };
+}
+
+/**
+ * Find the range of a literal value on (or after) a 1-based line
+ */
+function valueRange(lines: string[], value: string, line: number | undefined): Range | null {
+  const candidates = line !== undefined ? [line - 1] : lines.map((_, i) => i);
+  for (const index of candidates) {
+    const column = lines[index]?.indexOf(value) ?? -1;
+    if (column >= 0) {
+      return {
+        start: { line: index, character: column },
+        end: { line: index, character: column + value.length },
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Convert drift signals for one document into diagnostics
+ */
+export function driftsToDiagnostics(drifts: DriftSignal[], text: string): Diagnostic[] {
+  const lines = text.split(/\r?\n/);
+  const diagnostics: Diagnostic[] = [];
+
+  for (const drift of drifts) {
+    const severity = severityToDiagnosticSeverity(drift.severity);
+
+    if (drift.type === 'hardcoded-value' && drift.details.affectedFiles?.length) {
+      for (const entry of drift.details.affectedFiles) {
+        const affected = parseAffectedValue(entry);
+        if (!affected) continue;
+
+        const range = valueRange(lines, affected.value, affected.line);
+        if (!range) continue;
+
+        const suggestion = drift.details.tokenSuggestions?.find((s) =>
+          s.startsWith(`${affected.value} →`),
+        );
+        diagnostics.push({
+          range,
+          severity,
+          code: drift.type,
+          source: 'buoy',
+          message: suggestion
+            ? `Hardcoded ${affected.property} ${affected.value}. Use ${suggestion.split('→')[1]!.trim()}`
+            : `Hardcoded ${affected.property} ${affected.value}. Use a design token instead`,
+          data: { driftId: drift.id, value: affected.value, property: affected.property },
+        });
+      }
+      continue;
+    }
+
+    const location = parseDriftLocation(drift.source.location);
+    const suggestion = drift.details.suggestions?.[0];
+    diagnostics.push({
+      range: lineRange(lines, location?.line ?? 1),
+      severity,
+      code: drift.type,
+      source: 'buoy',
+      message: suggestion ? `${drift.message}\n${suggestion}` : drift.message,
+      data: { driftId: drift.id },
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Build token replacement quick-fixes for the diagnostics in a request
+ */
+export function createCodeActions(
+  uri: string,
+  diagnostics: Diagnostic[],
+  tokens: DesignToken[],
+): CodeAction[] {
+  const actions: CodeAction[] = [];
+
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.source !== 'buoy' || !diagnostic.data?.value) continue;
+
+    const { value, property } = diagnostic.data;
+    const fix = suggestFix(value, tokens, {
+      property,
+      line: diagnostic.range.start.line + 1,
+      column: diagnostic.range.start.character + 1,
+    });
+    if (!fix) continue;
+
+    actions.push({
+      title: `Replace ${value} with ${fix.tokenName ?? fix.replacement} (${fix.confidence} confidence)`,
+      kind: 'quickfix',
+      diagnostics: [diagnostic],
+      isPreferred: fix.confidence === 'exact' || fix.confidence === 'high',
+      edit: {
+        changes: {
+          [uri]: [{ range: diagnostic.range, newText: fix.replacement }],
+        },
+      },
+    });
+  }
+
+  return actions;
+}
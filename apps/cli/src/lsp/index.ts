@@ -0,0 +1,33 @@
+/**
+ * Language server module for CLI
+ *
+ * Publishes drift as editor diagnostics with token quick-fixes.
+ */
+
+export { LanguageServer, encodeMessage, createStreamSender } from './server.js';
+export type {
+  LanguageServerOptions,
+  LspMessage,
+  InitializeParams,
+  DidOpenTextDocumentParams,
+  DidChangeTextDocumentParams,
+  DidSaveTextDocumentParams,
+  DidCloseTextDocumentParams,
+  CodeActionParams,
+  PublishDiagnosticsParams,
+} from './server.js';
+
+export {
+  driftsToDiagnostics,
+  createCodeActions,
+  severityToDiagnosticSeverity,
+  DiagnosticSeverity,
+} from './diagnostics.js';
+export type {
+  Diagnostic,
+  DriftDiagnosticData,
+  CodeAction,
+  TextEdit,
+  Range,
+  Position,
+} from './diagnostics.js';
@@ -0,0 +1,409 @@
+/**
+ * Minimal Language Server Protocol server over stdio.
+ *
+ * Implements just enough of LSP for drift squiggles: full document sync,
+ * publishDiagnostics and quick-fix code actions.
+ * Spec: https://microsoft.github.io/language-server-protocol/
+ */
+
+import { extname, isAbsolute, relative } from 'path';
+import { fileURLToPath } from 'url';
+import type { Readable, Writable } from 'stream';
+import type { DesignToken, DriftSignal } from '@buoy-design/core';
+import pkg from '../../package.json' with { type: 'json' };
+import { loadConfig, getConfigPath } from '../config/loader.js';
+import { buildAutoConfig } from '../config/auto-detect.js';
+import {
+  analyzeSnippet,
+  createProjectData,
+  type DesignSystemData,
+} from '../services/design-system-data.js';
+import {
+  driftsToDiagnostics,
+  createCodeActions,
+  type Diagnostic,
+  type Range,
+} from './diagnostics.js';
+
+// JSON-RPC error codes
+const METHOD_NOT_FOUND = -32601;
+const SERVER_NOT_INITIALIZED = -32002;
+const INTERNAL_ERROR = -32603;
+
+// Full document sync: clients send the whole text on every change
+const TEXT_DOCUMENT_SYNC_FULL = 1;
+
+// Saving one of these can change the token set, so tokens are rescanned
+const TOKEN_FILE_EXTENSIONS = new Set(['.css', '.scss', '.less', '.json']);
+
+export interface LspMessage<TParams = unknown> {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method?: string;
+  params?: TParams;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+// Params of the LSP methods the server handles (the fields it reads)
+
+interface TextDocumentIdentifier {
+  uri: string;
+}
+
+interface VersionedTextDocumentIdentifier extends TextDocumentIdentifier {
+  version: number;
+}
+
+interface TextDocumentItem extends VersionedTextDocumentIdentifier {
+  languageId: string;
+  text: string;
+}
+
+export interface InitializeParams {
+  rootUri?: string | null;
+  /** Deprecated in favour of rootUri, still sent by older clients */
+  rootPath?: string | null;
+  workspaceFolders?: Array<{ uri: string; name: string }> | null;
+}
+
+export interface DidOpenTextDocumentParams {
+  textDocument: TextDocumentItem;
+}
+
+export interface DidChangeTextDocumentParams {
+  textDocument: VersionedTextDocumentIdentifier;
+  /** With full sync, each change carries the whole document */
+  contentChanges: Array<{ text: string }>;
+}
+
+export interface DidSaveTextDocumentParams {
+  textDocument: TextDocumentIdentifier;
+}
+
+export interface DidCloseTextDocumentParams {
+  textDocument: TextDocumentIdentifier;
+}
+
+export interface CodeActionParams {
+  textDocument: TextDocumentIdentifier;
+  range: Range;
+  context?: { diagnostics?: Diagnostic[] };
+}
+
+export interface PublishDiagnosticsParams {
+  uri: string;
+  version?: number;
+  diagnostics: Diagnostic[];
+}
+
+export interface LanguageServerOptions {
+  /** Send a message to the client */
+  send: (message: LspMessage) => void;
+
+  /** Load project data for a workspace root (defaults to config + scan orchestrator) */
+  loadProject?: (root: string) => Promise<DesignSystemData>;
+
+  /** Analyze one document (defaults to analyzeSnippet) */
+  analyze?: (text: string, filename: string, project: DesignSystemData) => Promise<DriftSignal[]>;
+
+  /** Delay before re-analyzing after a change, in ms */
+  debounceMs?: number;
+
+  /** Called on the `exit` notification */
+  onExit?: (code: number) => void;
+}
+
+async function loadProjectData(root: string): Promise<DesignSystemData> {
+  const config = getConfigPath(root)
+    ? (await loadConfig(root)).config
+    : (await buildAutoConfig(root)).config;
+  return createProjectData(config, root);
+}
+
+async function analyzeDocument(
+  text: string,
+  filename: string,
+  project: DesignSystemData,
+): Promise<DriftSignal[]> {
+  const tokens = await project.getTokens();
+  return analyzeSnippet(text, filename, project.config, tokens);
+}
+
+function uriToPath(uri: string): string {
+  return uri.startsWith('file:') ? fileURLToPath(uri) : uri;
+}
+
+export class LanguageServer {
+  private documents = new Map<string, { text: string; version: number }>();
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private root: string = process.cwd();
+  private project: Promise<DesignSystemData> | null = null;
+  private initialized = false;
+  private shuttingDown = false;
+  private options: Required<Omit<LanguageServerOptions, 'onExit'>> & Pick<LanguageServerOptions, 'onExit'>;
+
+  constructor(options: LanguageServerOptions) {
+    this.options = {
+      loadProject: loadProjectData,
+      analyze: analyzeDocument,
+      debounceMs: 300,
+      ...options,
+    };
+  }
+
+  /**
+   * Handle one decoded JSON-RPC message from the client
+   */
+  async handleMessage(message: LspMessage): Promise<void> {
+    if (!message.method) return; // Responses to server requests are ignored
+
+    const isRequest = message.id !== undefined;
+
+    // Before initialize, requests error and notifications are dropped
+    if (!this.initialized && message.method !== 'initialize' && message.method !== 'exit') {
+      if (isRequest) {
+        this.options.send({
+          jsonrpc: '2.0',
+          id: message.id,
+          error: { code: SERVER_NOT_INITIALIZED, message: 'Server not initialized' },
+        });
+      }
+      return;
+    }
+
+    try {
+      const result = await this.dispatch(message.method, message.params ?? {});
+      if (isRequest) {
+        this.options.send({ jsonrpc: '2.0', id: message.id, result: result ?? null });
+      }
+    } catch (err) {
+      if (!isRequest) return;
+      const code = err instanceof LspError ? err.code : INTERNAL_ERROR;
+      const text = err instanceof Error ? err.message : String(err);
+      this.options.send({ jsonrpc: '2.0', id: message.id, error: { code, message: text } });
+    }
+  }
+
+  /**
+   * Serve Content-Length framed messages from input until it closes
+   */
+  async listen(input: Readable = process.stdin): Promise<void> {
+    let buffer = Buffer.alloc(0);
+    // Only messages still being handled, so long sessions don't accumulate
+    const inFlight = new Set<Promise<void>>();
+
+    for await (const chunk of input) {
+      buffer = Buffer.concat([buffer, chunk as Buffer]);
+
+      while (true) {
+        const headerEnd = buffer.indexOf('\r\n\r\n');
+        if (headerEnd < 0) break;
+
+        const header = buffer.subarray(0, headerEnd).toString('ascii');
+        const length = header.match(/Content-Length:\s*(\d+)/i);
+        if (!length) {
+          // Malformed header; drop it and resync on the next one
+          buffer = buffer.subarray(headerEnd + 4);
+          continue;
+        }
+
+        const start = headerEnd + 4;
+        const end = start + parseInt(length[1]!, 10);
+        if (buffer.length < end) break;
+
+        const body = buffer.subarray(start, end).toString('utf-8');
+        buffer = buffer.subarray(end);
+
+        let handled: Promise<void>;
+        try {
+          handled = this.handleMessage(JSON.parse(body));
+        } catch {
+          // Ignore unparseable messages
+          continue;
+        }
+        inFlight.add(handled);
+        const settle = () => inFlight.delete(handled);
+        handled.then(settle, settle);
+      }
+    }
+
+    await Promise.all(inFlight);
+    this.dispose();
+  }
+
+  /**
+   * Cancel pending analysis timers
+   */
+  dispose(): void {
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  private async dispatch(method: string, params: unknown): Promise<unknown> {
+    switch (method) {
+      case 'initialize':
+        return this.initialize(params as InitializeParams);
+
+      case 'initialized':
+        // Start scanning tokens in the background so the first check is fast
+        this.getProject().then((project) => project.getTokens()).catch(() => {});
+        return null;
+
+      case 'shutdown':
+        this.shuttingDown = true;
+        this.dispose();
+        return null;
+
+      case 'exit':
+        this.options.onExit?.(this.shuttingDown ? 0 : 1);
+        return null;
+
+      case 'textDocument/didOpen': {
+        const { uri, text, version } = (params as DidOpenTextDocumentParams).textDocument;
+        this.documents.set(uri, { text, version });
+        await this.validate(uri);
+        return null;
+      }
+
+      case 'textDocument/didChange': {
+        const { textDocument, contentChanges } = params as DidChangeTextDocumentParams;
+        const { uri, version } = textDocument;
+        const last = contentChanges[contentChanges.length - 1];
+        if (last) {
+          this.documents.set(uri, { text: last.text, version });
+          this.scheduleValidation(uri);
+        }
+        return null;
+      }
+
+      case 'textDocument/didSave': {
+        const { uri } = (params as DidSaveTextDocumentParams).textDocument;
+        if (TOKEN_FILE_EXTENSIONS.has(extname(uriToPath(uri)).toLowerCase())) {
+          const project = await this.getProject();
+          await project.getTokens(true);
+          await Promise.all([...this.documents.keys()].map((open) => this.validate(open)));
+        }
+        return null;
+      }
+
+      case 'textDocument/didClose': {
+        const { uri } = (params as DidCloseTextDocumentParams).textDocument;
+        this.documents.delete(uri);
+        clearTimeout(this.timers.get(uri));
+        this.timers.delete(uri);
+        this.publish(uri, []);
+        return null;
+      }
+
+      case 'textDocument/codeAction': {
+        const { textDocument, context } = params as CodeActionParams;
+        const diagnostics = context?.diagnostics ?? [];
+        if (!diagnostics.some((d) => d.source === 'buoy')) return [];
+        const project = await this.getProject();
+        const tokens: DesignToken[] = await project.getTokens();
+        return createCodeActions(textDocument.uri, diagnostics, tokens);
+      }
+
+      default:
+        // Unhandled notifications (including $/ methods) are ignored per spec
+        if (method.startsWith('$/')) return null;
+        throw new LspError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  private initialize(params: InitializeParams): unknown {
+    const rootUri = params.workspaceFolders?.[0]?.uri ?? params.rootUri ?? undefined;
+    if (rootUri) {
+      this.root = uriToPath(rootUri);
+    } else if (params.rootPath) {
+      this.root = params.rootPath;
+    }
+    this.initialized = true;
+
+    return {
+      capabilities: {
+        textDocumentSync: {
+          openClose: true,
+          change: TEXT_DOCUMENT_SYNC_FULL,
+          save: { includeText: false },
+        },
+        codeActionProvider: { codeActionKinds: ['quickfix'] },
+      },
+      serverInfo: { name: 'buoy', version: pkg.version },
+    };
+  }
+
+  private getProject(): Promise<DesignSystemData> {
+    if (!this.project) {
+      this.project = this.options.loadProject(this.root);
+      this.project.catch(() => (this.project = null));
+    }
+    return this.project;
+  }
+
+  private scheduleValidation(uri: string): void {
+    clearTimeout(this.timers.get(uri));
+    this.timers.set(
+      uri,
+      setTimeout(() => {
+        this.timers.delete(uri);
+        this.validate(uri).catch(() => {});
+      }, this.options.debounceMs),
+    );
+  }
+
+  private async validate(uri: string): Promise<void> {
+    const document = this.documents.get(uri);
+    if (!document) return;
+
+    const path = uriToPath(uri);
+    const filename = isAbsolute(path) ? relative(this.root, path) : path;
+
+    let drifts: DriftSignal[];
+    try {
+      const project = await this.getProject();
+      drifts = await this.options.analyze(document.text, filename, project);
+    } catch {
+      // Unsupported file types and scan failures simply produce no squiggles
+      drifts = [];
+    }
+
+    // Skip stale results if the document changed while analyzing
+    const current = this.documents.get(uri);
+    if (!current || current.version !== document.version) return;
+
+    this.publish(uri, driftsToDiagnostics(drifts, document.text), document.version);
+  }
+
+  private publish(uri: string, diagnostics: Diagnostic[], version?: number): void {
+    const params: PublishDiagnosticsParams = { uri, version, diagnostics };
+    this.options.send({ jsonrpc: '2.0', method: 'textDocument/publishDiagnostics', params });
+  }
+}
+
+class LspError extends Error {
+  constructor(
+    public code: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Encode a message with LSP Content-Length framing
+ */
+export function encodeMessage(message: LspMessage): string {
+  const body = JSON.stringify(message);
+  return `Content-Length: ${Buffer.byteLength(body, 'utf-8')}\r\n\r\n${body}`;
+}
+
+/**
+ * Create a sender that writes framed messages to a stream
+ */
+export function createStreamSender(output: Writable): (message: LspMessage) => void {
+  return (message) => {
+    output.write(encodeMessage(message));
+  };
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { PassThrough } from 'node:stream';
+import { McpServer, MCP_PROTOCOL_VERSION, type McpTool } from '../server.js';
+
+const echoTool: McpTool = {
+  name: 'echo',
+  description: 'Echo the message back',
+  inputSchema: {
+    type: 'object',
+    properties: { message: { type: 'string', description: 'Message to echo' } },
+    required: ['message'],
+  },
+  handler: async (args) => ({ echoed: args.message }),
+};
+
+const failingTool: McpTool = {
+  name: 'fail',
+  description: 'Always fails',
+  inputSchema: { type: 'object', properties: {} },
+  handler: async () => {
+    throw new Error('boom');
+  },
+};
+
+function createServer() {
+  return new McpServer([echoTool, failingTool]);
+}
+
+describe('McpServer', () => {
+  it('negotiates the protocol version on initialize', async () => {
+    const server = createServer();
+
+    const known = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {} },
+    });
+    expect(known?.result).toMatchObject({
+      protocolVersion: '2025-03-26',
+      capabilities: { tools: {} },
+      serverInfo: { name: 'buoy' },
+    });
+
+    const unknown = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'initialize',
+      params: { protocolVersion: '1999-01-01' },
+    });
+    expect((unknown?.result as { protocolVersion: string }).protocolVersion).toBe(MCP_PROTOCOL_VERSION);
+  });
+
+  it('does not respond to notifications', async () => {
+    const server = createServer();
+    expect(await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeNull();
+  });
+
+  it('lists tools with their input schemas', async () => {
+    const response = await createServer().handleMessage({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+    const { tools } = response?.result as { tools: Array<{ name: string; inputSchema: unknown }> };
+
+    expect(tools.map((t) => t.name)).toEqual(['echo', 'fail']);
+    expect(tools[0]!.inputSchema).toEqual(echoTool.inputSchema);
+  });
+
+  it('calls tools and returns JSON text content', async () => {
+    const response = await createServer().handleMessage({
+      jsonrpc: '2.0',
+      id: 'a',
+      method: 'tools/call',
+      params: { name: 'echo', arguments: { message: 'ahoy' } },
+    });
+
+    expect(response?.id).toBe('a');
+    const result = response?.result as { content: Array<{ text: string }>; isError?: boolean };
+    expect(result.isError).toBeUndefined();
+    expect(JSON.parse(result.content[0]!.text)).toEqual({ echoed: 'ahoy' });
+  });
+
+  it('reports tool failures and missing arguments as tool errors', async () => {
+    const server = createServer();
+
+    const failed = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name: 'fail', arguments: {} },
+    });
+    expect(failed?.result).toEqual({ content: [{ type: 'text', text: 'boom' }], isError: true });
+
+    const missing = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'tools/call',
+      params: { name: 'echo', arguments: {} },
+    });
+    expect(missing?.result).toMatchObject({ isError: true });
+  });
+
+  it('returns JSON-RPC errors for unknown methods and tools', async () => {
+    const server = createServer();
+
+    const method = await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'resources/list' });
+    expect(method?.error?.code).toBe(-32601);
+
+    const tool = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'tools/call',
+      params: { name: 'nope' },
+    });
+    expect(tool?.error?.code).toBe(-32602);
+
+    const invalid = await server.handleMessage({ id: 3, method: 'ping' });
+    expect(invalid?.error?.code).toBe(-32600);
+  });
+
+  it('serves newline-delimited JSON-RPC over streams', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const chunks: string[] = [];
+    output.on('data', (chunk) => chunks.push(chunk.toString()));
+
+    const done = createServer().connect(input, output);
+    input.write('{"jsonrpc":"2.0","id":1,"method":"ping"}\n');
+    input.write('not json\n');
+    input.write('{"jsonrpc":"2.0","method":"notifications/initialized"}\n');
+    input.end('{"jsonrpc":"2.0","id":2,"method":"tools/call","params":{"name":"echo","arguments":{"message":"hi"}}}\n');
+    await done;
+
+    const responses = chunks.join('').trim().split('\n').map((line) => JSON.parse(line));
+    expect(responses).toHaveLength(3);
+    expect(responses).toContainEqual({ jsonrpc: '2.0', id: 1, result: {} });
+    expect(responses).toContainEqual({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+    expect(responses.find((r) => r.id === 2).result.content[0].text).toContain('"echoed": "hi"');
+  });
+});
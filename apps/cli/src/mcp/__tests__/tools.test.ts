@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import type { Component, DesignToken } from '@buoy-design/core';
+import { BuoyConfigSchema } from '../../config/schema.js';
+import type { DesignSystemData } from '../../services/design-system-data.js';
+import { createDesignSystemTools } from '../tools.js';
+
+const config = BuoyConfigSchema.parse({ project: { name: 'test' } });
+
+function createToken(name: string, value: DesignToken['value'], category: DesignToken['category']): DesignToken {
+  return {
+    id: `css:tokens.css:${name}`,
+    name,
+    category,
+    value,
+    source: { type: 'css', path: 'tokens.css' },
+    aliases: [],
+    usedBy: [],
+    metadata: {},
+    scannedAt: new Date('2025-01-01T00:00:00.000Z'),
+  };
+}
+
+function createComponent(name: string): Component {
+  return {
+    id: `react:src/${name}.tsx:${name}`,
+    name,
+    source: { type: 'react', path: `src/${name}.tsx`, exportName: name },
+    props: [{ name: 'variant', type: 'string', required: false }],
+    variants: [{ name: 'primary', props: {} }],
+    tokens: [],
+    dependencies: [],
+    metadata: {},
+    scannedAt: new Date('2025-01-01T00:00:00.000Z'),
+  };
+}
+
+const tokens = [
+  createToken('--color-primary', { type: 'color', hex: '#3b82f6' }, 'color'),
+  createToken('--spacing-md', { type: 'spacing', value: 16, unit: 'px' }, 'spacing'),
+];
+
+const data: DesignSystemData = {
+  config,
+  projectRoot: '/project',
+  getComponents: async () => [createComponent('Button'), createComponent('Card'), createComponent('IconButton')],
+  getTokens: async () => tokens,
+};
+
+async function callTool(name: string, args: Record<string, unknown>) {
+  const tool = createDesignSystemTools(data).find((t) => t.name === name)!;
+  return (await tool.handler(args)) as any;
+}
+
+const BUTTON_SNIPPET = `export function Button() {
+  return <button style={{ color: '#3b82f6' }}>Save</button>;
+}
+`;
+
+describe('createDesignSystemTools', () => {
+  it('lists components, optionally filtered by name', async () => {
+    const all = await callTool('list_components', {});
+    expect(all.total).toBe(3);
+    expect(all.components[0]).toEqual({
+      name: 'Button',
+      path: 'src/Button.tsx',
+      props: [{ name: 'variant', type: 'string', required: false }],
+      variants: ['primary'],
+    });
+
+    const filtered = await callTool('list_components', { query: 'button' });
+    expect(filtered.components.map((c: { name: string }) => c.name)).toEqual(['Button', 'IconButton']);
+  });
+
+  it('looks up tokens by color similarity and exact value', async () => {
+    const color = await callTool('lookup_token_by_value', { value: '#3b82f5' });
+    expect(color.results[0]).toMatchObject({ name: '--color-primary', category: 'color' });
+
+    const spacing = await callTool('lookup_token_by_value', { value: '16px' });
+    expect(spacing.results.map((r: { name: string }) => r.name)).toEqual(['--spacing-md']);
+  });
+
+  it('checks a snippet for drift with token suggestions', async () => {
+    const result = await callTool('check_snippet', { code: BUTTON_SNIPPET, filename: 'src/Button.tsx' });
+
+    expect(result.summary.total).toBe(1);
+    expect(result.drifts[0]).toMatchObject({
+      type: 'hardcoded-value',
+      location: 'src/Button.tsx:1',
+      tokenSuggestions: ['#3b82f6 → --color-primary (100% match)'],
+    });
+  });
+
+  it('suggests a token replacement for a hardcoded value', async () => {
+    const result = await callTool('suggest_fix', { value: '#3b82f6' });
+    expect(result.fix).toMatchObject({
+      replacement: 'var(--color-primary)',
+      tokenName: '--color-primary',
+      confidence: 'exact',
+    });
+
+    const none = await callTool('suggest_fix', { value: 'hotpink', property: 'color' });
+    expect(none.fix).toBeNull();
+  });
+});
@@ -0,0 +1,17 @@
+/**
+ * MCP server module for CLI
+ *
+ * Exposes the design system to AI agents over the Model Context Protocol.
+ */
+
+export { McpServer, MCP_PROTOCOL_VERSION } from './server.js';
+export type { McpTool, ToolInputSchema, ToolResult, JsonRpcRequest, JsonRpcResponse } from './server.js';
+
+export { createDesignSystemTools } from './tools.js';
+export {
+  createProjectData,
+  analyzeSnippet,
+  suggestFix,
+  inferFixType,
+} from '../services/design-system-data.js';
+export type { DesignSystemData } from '../services/design-system-data.js';
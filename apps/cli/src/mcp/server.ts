@@ -0,0 +1,228 @@
+/**
+ * Minimal Model Context Protocol server over stdio.
+ *
+ * Speaks newline-delimited JSON-RPC 2.0 and implements the subset of MCP
+ * that tool-only servers need: initialize, ping, tools/list and tools/call.
+ * Spec: https://modelcontextprotocol.io/specification
+ */
+
+import { createInterface } from 'readline';
+import type { Readable, Writable } from 'stream';
+import pkg from '../../package.json' with { type: 'json' };
+
+export const MCP_PROTOCOL_VERSION = '2024-11-05';
+
+// Protocol versions this server can speak; the client's choice wins if listed
+const SUPPORTED_PROTOCOL_VERSIONS = ['2024-11-05', '2025-03-26', '2025-06-18'];
+
+// JSON-RPC error codes
+export const PARSE_ERROR = -32700;
+export const INVALID_REQUEST = -32600;
+export const METHOD_NOT_FOUND = -32601;
+export const INVALID_PARAMS = -32602;
+export const INTERNAL_ERROR = -32603;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+/**
+ * JSON Schema describing a tool's arguments
+ */
+export interface ToolInputSchema {
+  type: 'object';
+  properties: Record<string, { type: string; description: string; enum?: string[] }>;
+  required?: string[];
+}
+
+export interface ToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+}
+
+export interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: ToolInputSchema;
+  handler: (args: Record<string, unknown>) => Promise<unknown>;
+}
+
+export class McpServer {
+  private tools = new Map<string, McpTool>();
+  private name: string;
+
+  constructor(tools: McpTool[], name: string = 'buoy') {
+    this.name = name;
+    for (const tool of tools) {
+      this.tools.set(tool.name, tool);
+    }
+  }
+
+  /**
+   * Handle one JSON-RPC message. Returns null for notifications.
+   */
+  async handleMessage(message: unknown): Promise<JsonRpcResponse | null> {
+    if (!isRequest(message)) {
+      return errorResponse(null, INVALID_REQUEST, 'Invalid JSON-RPC request');
+    }
+
+    // Notifications (no id) never get a response
+    const isNotification = message.id === undefined;
+    const id = message.id ?? null;
+
+    try {
+      const result = await this.dispatch(message);
+      if (isNotification) return null;
+      return { jsonrpc: '2.0', id, result };
+    } catch (err) {
+      if (isNotification) return null;
+      if (err instanceof RpcError) {
+        return errorResponse(id, err.code, err.message);
+      }
+      const messageText = err instanceof Error ? err.message : String(err);
+      return errorResponse(id, INTERNAL_ERROR, messageText);
+    }
+  }
+
+  /**
+   * Serve requests from input until it closes
+   */
+  async connect(
+    input: Readable = process.stdin,
+    output: Writable = process.stdout,
+  ): Promise<void> {
+    const rl = createInterface({ input, crlfDelay: Infinity });
+    // Only requests still being handled, so long sessions don't accumulate
+    const inFlight = new Set<Promise<void>>();
+
+    const write = (response: JsonRpcResponse) => {
+      output.write(`${JSON.stringify(response)}\n`);
+    };
+
+    for await (const line of rl) {
+      if (!line.trim()) continue;
+
+      let message: unknown;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        write(errorResponse(null, PARSE_ERROR, 'Parse error'));
+        continue;
+      }
+
+      // Handle requests concurrently so a slow scan doesn't block pings
+      const handled = this.handleMessage(message).then((response) => {
+        if (response) write(response);
+      });
+      inFlight.add(handled);
+      const settle = () => inFlight.delete(handled);
+      handled.then(settle, settle);
+    }
+
+    await Promise.all(inFlight);
+  }
+
+  private async dispatch(request: JsonRpcRequest): Promise<unknown> {
+    switch (request.method) {
+      case 'initialize': {
+        const requested = request.params?.protocolVersion;
+        const protocolVersion =
+          typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+            ? requested
+            : MCP_PROTOCOL_VERSION;
+        return {
+          protocolVersion,
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: { name: this.name, version: pkg.version },
+        };
+      }
+
+      case 'notifications/initialized':
+      case 'notifications/cancelled':
+        return {};
+
+      case 'ping':
+        return {};
+
+      case 'tools/list':
+        return {
+          tools: [...this.tools.values()].map((tool) => ({
+            name: tool.name,
+            description: tool.description,
+            inputSchema: tool.inputSchema,
+          })),
+        };
+
+      case 'tools/call':
+        return this.callTool(request.params ?? {});
+
+      default:
+        throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+    }
+  }
+
+  private async callTool(params: Record<string, unknown>): Promise<ToolResult> {
+    const name = params.name;
+    const tool = typeof name === 'string' ? this.tools.get(name) : undefined;
+    if (!tool) {
+      throw new RpcError(INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+    }
+
+    const args = (params.arguments ?? {}) as Record<string, unknown>;
+    const missing = (tool.inputSchema.required ?? []).filter(
+      (key) => args[key] === undefined || args[key] === '',
+    );
+    if (missing.length > 0) {
+      return toolError(`Missing required argument(s): ${missing.join(', ')}`);
+    }
+
+    try {
+      const result = await tool.handler(args);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      };
+    } catch (err) {
+      return toolError(err instanceof Error ? err.message : String(err));
+    }
+  }
+}
+
+class RpcError extends Error {
+  constructor(
+    public code: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function isRequest(message: unknown): message is JsonRpcRequest {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    (message as JsonRpcRequest).jsonrpc === '2.0' &&
+    typeof (message as JsonRpcRequest).method === 'string'
+  );
+}
+
+function errorResponse(
+  id: string | number | null,
+  code: number,
+  message: string,
+): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+function toolError(message: string): ToolResult {
+  return { content: [{ type: 'text', text: message }], isError: true };
+}
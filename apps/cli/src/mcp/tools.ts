@@ -0,0 +1,178 @@
+/**
+ * Design system tools exposed by `buoy mcp`.
+ *
+ * Each tool returns plain JSON so agents can query the design system without
+ * shelling out to `buoy show --json` and parsing the output.
+ */
+
+import { calculateDriftSummary } from '../services/drift-analysis.js';
+import {
+  analyzeSnippet,
+  suggestFix,
+  type DesignSystemData,
+} from '../services/design-system-data.js';
+import {
+  searchByName as searchComponentsByName,
+  getComponentPath,
+} from '../commands/components-query.js';
+import { searchByValue, formatTokenValue } from '../commands/tokens-lookup.js';
+import type { McpTool } from './server.js';
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  const n = typeof value === 'string' ? parseInt(value, 10) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Build the tool set served by `buoy mcp`
+ */
+export function createDesignSystemTools(data: DesignSystemData): McpTool[] {
+  return [
+    {
+      name: 'list_components',
+      description:
+        'List components in the codebase with their props and variants. Use before building UI to reuse existing components.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Optional fuzzy name filter, e.g. "button"' },
+          limit: { type: 'number', description: 'Maximum components to return (default 50)' },
+          refresh: { type: 'boolean', description: 'Rescan the project instead of using cached results' },
+        },
+      },
+      handler: async (args) => {
+        const components = await data.getComponents(args.refresh === true);
+        const query = optionalString(args.query);
+        const limit = optionalNumber(args.limit) ?? 50;
+
+        const matched = query
+          ? searchComponentsByName(components, query).map((r) => r.component)
+          : components;
+
+        return {
+          components: matched.slice(0, limit).map((c) => ({
+            name: c.name,
+            path: getComponentPath(c),
+            props: c.props.map((p) => ({ name: p.name, type: p.type, required: p.required })),
+            variants: c.variants.map((v) => v.name),
+          })),
+          total: matched.length,
+        };
+      },
+    },
+    {
+      name: 'lookup_token_by_value',
+      description:
+        'Find design tokens matching a raw value (e.g. "#3b82f6" or "16px"). Colors match by similarity; other values match exactly.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          value: { type: 'string', description: 'The hardcoded value to look up' },
+          limit: { type: 'number', description: 'Maximum tokens to return (default 5)' },
+        },
+        required: ['value'],
+      },
+      handler: async (args) => {
+        const tokens = await data.getTokens();
+        const value = String(args.value);
+        const limit = optionalNumber(args.limit) ?? 5;
+
+        return {
+          value,
+          results: searchByValue(tokens, value)
+            .slice(0, limit)
+            .map((r) => ({
+              name: r.token.name,
+              category: r.token.category,
+              value: formatTokenValue(r.token),
+              score: Math.round(r.score),
+            })),
+          totalTokens: tokens.length,
+        };
+      },
+    },
+    {
+      name: 'check_snippet',
+      description:
+        'Check a component source string for design drift (hardcoded values, deprecated patterns, naming) before writing it to disk.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          code: { type: 'string', description: 'Component source code' },
+          filename: {
+            type: 'string',
+            description: 'File name used for the file type and reported locations (default Component.tsx)',
+          },
+        },
+        required: ['code'],
+      },
+      handler: async (args) => {
+        const tokens = await data.getTokens();
+        const drifts = await analyzeSnippet(
+          String(args.code),
+          optionalString(args.filename) ?? 'Component.tsx',
+          data.config,
+          tokens,
+        );
+
+        return {
+          summary: calculateDriftSummary(drifts),
+          drifts: drifts.map((d) => ({
+            type: d.type,
+            severity: d.severity,
+            message: d.message,
+            location: d.source.location,
+            suggestions: d.details.suggestions,
+            tokenSuggestions: d.details.tokenSuggestions,
+          })),
+        };
+      },
+    },
+    {
+      name: 'suggest_fix',
+      description:
+        'Suggest the design token that should replace a hardcoded value, with the replacement text and a confidence level.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          value: { type: 'string', description: 'The hardcoded value, e.g. "#3b82f6" or "12px"' },
+          property: { type: 'string', description: 'CSS property the value is used for, e.g. "padding"' },
+          file: { type: 'string', description: 'File containing the value' },
+          line: { type: 'number', description: 'Line of the value (1-based)' },
+          column: { type: 'number', description: 'Column of the value (1-based)' },
+        },
+        required: ['value'],
+      },
+      handler: async (args) => {
+        const tokens = await data.getTokens();
+        const value = String(args.value);
+        const fix = suggestFix(value, tokens, {
+          property: optionalString(args.property),
+          file: optionalString(args.file),
+          line: optionalNumber(args.line),
+          column: optionalNumber(args.column),
+        });
+
+        if (!fix) {
+          return { value, fix: null, reason: 'No design token is a close enough match' };
+        }
+
+        return {
+          value,
+          fix: {
+            replacement: fix.replacement,
+            tokenName: fix.tokenName,
+            confidence: fix.confidence,
+            confidenceScore: fix.confidenceScore,
+            reason: fix.reason,
+            ...(args.file ? { file: fix.file, line: fix.line, column: fix.column } : {}),
+          },
+        };
+      },
+    },
+  ];
+}
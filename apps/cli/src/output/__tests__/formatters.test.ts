@@ -0,0 +1,227 @@
+import { describe, it, expect } from 'vitest';
+import type { DriftSignal } from '@buoy-design/core';
+import {
+  formatJUnit,
+  formatCheckstyle,
+  buildCodeQualityReport,
+  formatDriftDelta,
+  formatDriftReport,
+  formatMarkdown,
+  groupDriftsByOwner,
+  isDriftReportFormat,
+} from '../formatters.js';
+
+function createDrift(
+  id: string,
+  location: string,
+  overrides: Partial<DriftSignal> = {},
+): DriftSignal {
+  return {
+    id,
+    type: 'hardcoded-value',
+    severity: 'warning',
+    source: {
+      entityType: 'component',
+      entityId: `react:${location}`,
+      entityName: 'Button',
+      location,
+    },
+    message: `Drift ${id}`,
+    details: {},
+    detectedAt: new Date('2025-01-01T00:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+describe('formatJUnit', () => {
+  it('emits one testcase per file with a failure per drift', () => {
+    const xml = formatJUnit([
+      createDrift('a', 'src/Button.tsx:10'),
+      createDrift('b', 'src/Button.tsx:20', { severity: 'critical' }),
+      createDrift('c', 'src/Card.tsx:5'),
+    ]);
+
+    expect(xml).toContain('<?xml version="1.0" encoding="UTF-8"?>');
+    expect(xml.match(/<testcase /g)).toHaveLength(2);
+    expect(xml.match(/<failure /g)).toHaveLength(3);
+    expect(xml).toContain('name="src/Button.tsx" file="src/Button.tsx"');
+    expect(xml).toContain('tests="2" failures="2"');
+
+    const button = xml.split('<testcase ')[1]!;
+    expect(button.match(/<failure /g)).toHaveLength(2);
+    // Most severe drift first within a file
+    expect(button.indexOf('Location: src/Button.tsx:20')).toBeLessThan(
+      button.indexOf('Location: src/Button.tsx:10'),
+    );
+  });
+
+  it('emits a passing testcase when there is no drift', () => {
+    const xml = formatJUnit([]);
+
+    expect(xml).toContain('name="No drift detected"');
+    expect(xml).toContain('tests="1" failures="0"');
+    expect(xml).not.toContain('<failure');
+  });
+
+  it('escapes XML special characters', () => {
+    const xml = formatJUnit([
+      createDrift('a', 'src/Button.tsx:10', { message: 'Use <Token> & "quotes"' }),
+    ]);
+
+    expect(xml).toContain('message="Use &lt;Token&gt; &amp; &quot;quotes&quot;"');
+  });
+
+  it('includes suggestions in the failure body', () => {
+    const xml = formatJUnit([
+      createDrift('a', 'src/Button.tsx:10', { details: { suggestions: ['Use --color-primary'] } }),
+    ]);
+
+    expect(xml).toContain('Suggestion: Use --color-primary');
+  });
+});
+
+describe('formatCheckstyle', () => {
+  it('emits one file entry per file with an error per drift', () => {
+    const xml = formatCheckstyle([
+      createDrift('a', 'src/Button.tsx:10:4', { severity: 'critical' }),
+      createDrift('b', 'src/Button.tsx:20'),
+      createDrift('c', 'src/Card.tsx:5', { severity: 'info', type: 'naming-inconsistency' }),
+    ]);
+
+    expect(xml).toContain('<checkstyle version="4.3">');
+    expect(xml.match(/<file /g)).toHaveLength(2);
+    expect(xml).toContain('<error line="10" column="4" severity="error" message="Drift a" source="buoy.hardcoded-value"/>');
+    expect(xml).toContain('<error line="20" severity="warning"');
+    expect(xml).toContain('severity="info" message="Drift c" source="buoy.naming-inconsistency"');
+  });
+
+  it('falls back to the entity name for drifts without a file', () => {
+    const xml = formatCheckstyle([createDrift('a', '')]);
+
+    expect(xml).toContain('<file name="Button">');
+    expect(xml).toContain('line="1"');
+  });
+});
+
+describe('buildCodeQualityReport', () => {
+  it('maps drifts to GitLab Code Quality issues', () => {
+    const [issue] = buildCodeQualityReport([
+      createDrift('a', './src/Button.tsx:10:4', { severity: 'critical' }),
+    ]);
+
+    expect(issue).toEqual({
+      description: 'Drift a',
+      check_name: 'buoy.hardcoded-value',
+      fingerprint: expect.stringMatching(/^[0-9a-f]{32}$/),
+      severity: 'critical',
+      location: { path: 'src/Button.tsx', lines: { begin: 10 } },
+    });
+  });
+
+  it('uses stable, distinct fingerprints per drift id', () => {
+    const first = buildCodeQualityReport([createDrift('a', 'src/A.tsx:1'), createDrift('b', 'src/A.tsx:1')]);
+    const second = buildCodeQualityReport([createDrift('a', 'src/A.tsx:2')]);
+
+    expect(first[0]!.fingerprint).not.toBe(first[1]!.fingerprint);
+    expect(second[0]!.fingerprint).toBe(first[0]!.fingerprint);
+  });
+
+  it('maps warning and info severities', () => {
+    const report = buildCodeQualityReport([
+      createDrift('a', 'src/A.tsx:1'),
+      createDrift('b', '', { severity: 'info' }),
+    ]);
+
+    expect(report.map((i) => i.severity)).toEqual(['major', 'info']);
+    expect(report[1]!.location).toEqual({ path: 'Button', lines: { begin: 1 } });
+  });
+});
+
+describe('formatDriftReport', () => {
+  it('recognizes supported report formats', () => {
+    expect(isDriftReportFormat('sarif')).toBe(true);
+    expect(isDriftReportFormat('junit')).toBe(true);
+    expect(isDriftReportFormat('checkstyle')).toBe(true);
+    expect(isDriftReportFormat('codequality')).toBe(true);
+    expect(isDriftReportFormat('xml')).toBe(false);
+  });
+
+  it('dispatches to the matching formatter', () => {
+    const drifts = [createDrift('a', 'src/Button.tsx:10')];
+
+    expect(formatDriftReport(drifts, 'junit')).toContain('<testsuites');
+    expect(formatDriftReport(drifts, 'checkstyle')).toContain('<checkstyle');
+    expect(JSON.parse(formatDriftReport(drifts, 'sarif')).version).toBe('2.1.0');
+    expect(JSON.parse(formatDriftReport(drifts, 'codequality'))).toHaveLength(1);
+  });
+});
+
+describe('groupDriftsByOwner', () => {
+  it('groups drift under each of its owners, most drift first', () => {
+    const web = createDrift('a', 'src/Button.tsx', { details: { owners: ['@acme/web'] } });
+    const shared = createDrift('b', 'src/Card.tsx', {
+      details: { owners: ['@acme/mobile', '@acme/web'] },
+    });
+    const unowned = createDrift('c', 'scripts/build.ts');
+
+    const groups = groupDriftsByOwner([web, shared, unowned]);
+
+    expect([...groups.keys()]).toEqual(['@acme/web', '@acme/mobile']);
+    expect(groups.get('@acme/web')).toEqual([web, shared]);
+    expect(groups.get('@acme/mobile')).toEqual([shared]);
+  });
+});
+
+describe('formatMarkdown', () => {
+  it('summarizes drift by owner and lists owners per drift', () => {
+    const output = formatMarkdown([
+      createDrift('a', 'src/Button.tsx:4', {
+        severity: 'critical',
+        details: { owners: ['@acme/web'] },
+      }),
+      createDrift('b', 'src/Card.tsx:8', { details: { owners: ['@acme/web', '@alice'] } }),
+    ]);
+
+    expect(output).toContain('## Drift by Owner');
+    expect(output).toContain('| @acme/web | 1 | 1 | 0 |');
+    expect(output).toContain('| @alice | 0 | 1 | 0 |');
+    expect(output).toContain('- **Owners:** @acme/web @alice');
+  });
+
+  it('leaves out the owner summary without CODEOWNERS', () => {
+    const output = formatMarkdown([createDrift('a', 'src/Button.tsx:4')]);
+
+    expect(output).not.toContain('Owner');
+  });
+});
+
+describe('formatDriftDelta', () => {
+  it('lists introduced and resolved drift with a running total', () => {
+    const added = createDrift('a', 'src/Button.tsx:10', { severity: 'critical' });
+    const removed = createDrift('b', 'src/Card.tsx:4');
+
+    const output = formatDriftDelta({
+      introduced: [added],
+      resolved: [removed],
+      drifts: [added],
+      changedFiles: ['src/Button.tsx'],
+    });
+
+    expect(output).toContain('src/Button.tsx changed');
+    expect(output).toMatch(/\+ .*Drift a.*src\/Button\.tsx:10/);
+    expect(output).toMatch(/- .*Drift b/);
+    expect(output).toContain('1 total: 1 critical, 0 warning, 0 info');
+  });
+
+  it('notes when a change did not affect drift', () => {
+    const output = formatDriftDelta({
+      introduced: [],
+      resolved: [],
+      drifts: [],
+      changedFiles: ['src/a.tsx', 'src/b.tsx'],
+    });
+
+    expect(output).toContain('2 files changed');
+    expect(output).toContain('No drift changes');
+  });
+});
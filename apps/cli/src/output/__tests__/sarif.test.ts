@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import type { DriftSignal } from '@buoy-design/core';
+import {
+  buildSarifLog,
+  formatSarif,
+  parseDriftLocation,
+  severityToSarifLevel,
+} from '../sarif.js';
+
+function createDrift(overrides: Partial<DriftSignal> = {}): DriftSignal {
+  return {
+    id: 'drift:hardcoded-value:react:src/Button.tsx:Button:color',
+    type: 'hardcoded-value',
+    severity: 'warning',
+    source: {
+      entityType: 'component',
+      entityId: 'react:src/Button.tsx:Button',
+      entityName: 'Button',
+      location: 'src/Button.tsx:10',
+    },
+    message: 'Component "Button" has 1 hardcoded color: #3b82f6',
+    details: {},
+    detectedAt: new Date('2025-01-01T00:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+describe('parseDriftLocation', () => {
+  it('parses file, line and column', () => {
+    expect(parseDriftLocation('src/a.tsx:10:5')).toEqual({ file: 'src/a.tsx', line: 10, column: 5 });
+  });
+
+  it('parses file and line', () => {
+    expect(parseDriftLocation('src/a.css:3')).toEqual({ file: 'src/a.css', line: 3, column: undefined });
+  });
+
+  it('returns file only when there is no line', () => {
+    expect(parseDriftLocation('src/a.ts')).toEqual({ file: 'src/a.ts' });
+  });
+
+  it('returns null for URLs and empty locations', () => {
+    expect(parseDriftLocation('https://figma.com/file/abc')).toBeNull();
+    expect(parseDriftLocation('')).toBeNull();
+  });
+});
+
+describe('severityToSarifLevel', () => {
+  it('maps severities to SARIF levels', () => {
+    expect(severityToSarifLevel('critical')).toBe('error');
+    expect(severityToSarifLevel('warning')).toBe('warning');
+    expect(severityToSarifLevel('info')).toBe('note');
+  });
+});
+
+describe('buildSarifLog', () => {
+  it('produces a valid 2.1.0 log envelope', () => {
+    const log = buildSarifLog([]);
+
+    expect(log.version).toBe('2.1.0');
+    expect(log.$schema).toContain('sarif-2.1.0');
+    expect(log.runs).toHaveLength(1);
+    expect(log.runs[0]!.tool.driver.name).toBe('buoy');
+    expect(log.runs[0]!.results).toEqual([]);
+  });
+
+  it('creates one rule per drift type and references it by index', () => {
+    const log = buildSarifLog([
+      createDrift({ type: 'naming-inconsistency', id: 'a' }),
+      createDrift({ type: 'hardcoded-value', id: 'b' }),
+      createDrift({ type: 'hardcoded-value', id: 'c' }),
+    ]);
+    const run = log.runs[0]!;
+
+    expect(run.tool.driver.rules.map((r) => r.id)).toEqual(['hardcoded-value', 'naming-inconsistency']);
+    for (const result of run.results) {
+      expect(run.tool.driver.rules[result.ruleIndex]!.id).toBe(result.ruleId);
+    }
+  });
+
+  it('maps location to a physical location region', () => {
+    const log = buildSarifLog([createDrift({ source: { ...createDrift().source, location: 'src/Button.tsx:10:7' } })]);
+    const location = log.runs[0]!.results[0]!.locations![0]!;
+
+    expect(location.physicalLocation).toEqual({
+      artifactLocation: { uri: 'src/Button.tsx', uriBaseId: '%SRCROOT%' },
+      region: { startLine: 10, startColumn: 7 },
+    });
+  });
+
+  it('uses a logical location for non-file sources', () => {
+    const log = buildSarifLog([
+      createDrift({ source: { ...createDrift().source, location: 'https://figma.com/file/abc' } }),
+    ]);
+    const location = log.runs[0]!.results[0]!.locations![0]!;
+
+    expect(location.physicalLocation).toBeUndefined();
+    expect(location.logicalLocations![0]!.name).toBe('Button');
+  });
+
+  it('fingerprints results with the drift id', () => {
+    const log = buildSarifLog([createDrift()]);
+    expect(log.runs[0]!.results[0]!.partialFingerprints).toEqual({
+      'buoyDriftId/v1': 'drift:hardcoded-value:react:src/Button.tsx:Button:color',
+    });
+  });
+
+  it('turns token suggestions into fixes using the source line', () => {
+    const drift = createDrift({
+      details: {
+        affectedFiles: ['backgroundColor: #3b82f6 (line 12)'],
+        tokenSuggestions: ['#3b82f6 → --color-primary (100% match)'],
+      },
+    });
+
+    const log = buildSarifLog([drift], {
+      getLineText: (_file, line) => (line === 12 ? "  background: '#3b82f6'," : undefined),
+    });
+    const fix = log.runs[0]!.results[0]!.fixes![0]!;
+
+    expect(fix.description.text).toBe('Replace #3b82f6 with --color-primary');
+    expect(fix.artifactChanges[0]!.replacements[0]).toEqual({
+      deletedRegion: { startLine: 12, startColumn: 16, endColumn: 23 },
+      insertedContent: { text: 'var(--color-primary)' },
+    });
+  });
+
+  it('omits fixes when the value cannot be located', () => {
+    const drift = createDrift({
+      details: { tokenSuggestions: ['#3b82f6 → --color-primary (100% match)'] },
+    });
+
+    const result = buildSarifLog([drift]).runs[0]!.results[0]!;
+
+    expect(result.fixes).toBeUndefined();
+    expect(result.properties?.tokenSuggestions).toEqual(['#3b82f6 → --color-primary (100% match)']);
+  });
+
+  it('records the project root as %SRCROOT%', () => {
+    const log = buildSarifLog([], { projectRoot: '/repo' });
+    expect(log.runs[0]!.originalUriBaseIds).toEqual({ '%SRCROOT%': { uri: 'file:///repo/' } });
+  });
+});
+
+describe('formatSarif', () => {
+  it('returns parseable JSON', () => {
+    const parsed = JSON.parse(formatSarif([createDrift({ severity: 'critical' })]));
+    expect(parsed.runs[0].results[0].level).toBe('error');
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Contrast Formatters
+ *
+ * Format token contrast audits for the terminal and as a standalone HTML
+ * contrast matrix to share with designers.
+ */
+
+import chalk from 'chalk';
+import type { WcagContrastLevel } from '@buoy-design/core';
+import type { CheckedPairing, TokenContrastReport } from '../services/token-contrast.js';
+
+const LEVEL_COLORS: Record<WcagContrastLevel, (text: string) => string> = {
+  AAA: chalk.green,
+  AA: chalk.green,
+  'AA-large': chalk.yellow,
+  fail: chalk.red,
+};
+
+const LEVEL_CELL_COLORS: Record<WcagContrastLevel, string> = {
+  AAA: '#dcfce7',
+  AA: '#ecfdf5',
+  'AA-large': '#fef9c3',
+  fail: '#fee2e2',
+};
+
+/**
+ * Format a token contrast report for the terminal
+ */
+export function formatContrastReport(report: TokenContrastReport): string {
+  const lines: string[] = [];
+  const failing = report.pairings.filter((p) => p.wcag === 'fail' || p.wcag === 'AA-large');
+
+  lines.push(chalk.bold('Token Contrast'));
+  lines.push(`  Colors:    ${report.matrix.colors.length}`);
+  lines.push(`  Pairings:  ${report.pairings.length}`);
+  lines.push(`  Failing:   ${failing.length > 0 ? chalk.red(String(failing.length)) : chalk.green('0')}`);
+  lines.push('');
+
+  if (report.pairings.length === 0) {
+    lines.push(chalk.dim('  No documented pairings found.'));
+    lines.push(chalk.dim('  Name foregrounds like on-primary or primary-foreground, or pass --pair fg:bg'));
+    return lines.join('\n');
+  }
+
+  lines.push(chalk.bold('Pairings'));
+  for (const pairing of report.pairings) {
+    lines.push(`  ${formatPairingLine(pairing)}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a token contrast report as an HTML page with the full matrix
+ */
+export function formatContrastHtml(report: TokenContrastReport): string {
+  const { colors } = report.matrix;
+  const byPair = new Map(report.matrix.pairs.map((p) => [`${p.foreground}\0${p.background}`, p]));
+  const documented = new Set(report.pairings.map((p) => `${p.foreground}\0${p.background}`));
+
+  const header = colors
+    .map((c) => `<th title="${escapeHtml(c.name)}"><span class="swatch" style="background: ${escapeHtml(c.hex)}"></span>${escapeHtml(c.name)}</th>`)
+    .join('');
+
+  const rows = colors
+    .map((fg) => {
+      const cells = colors
+        .map((bg) => {
+          const key = `${fg.name}\0${bg.name}`;
+          const pair = byPair.get(key);
+          if (!pair) return '<td class="self"></td>';
+          return `<td class="${documented.has(key) ? 'documented' : ''}" style="background: ${LEVEL_CELL_COLORS[pair.wcag]}" title="${escapeHtml(fg.name)} on ${escapeHtml(bg.name)}">` +
+            `<span class="sample" style="color: ${escapeHtml(fg.hex)}; background: ${escapeHtml(bg.hex)}">Aa</span>` +
+            `<div>${pair.ratio.toFixed(2)}</div><div class="apca">Lc ${pair.apca.toFixed(0)}</div></td>`;
+        })
+        .join('');
+      return `<tr><th><span class="swatch" style="background: ${escapeHtml(fg.hex)}"></span>${escapeHtml(fg.name)}</th>${cells}</tr>`;
+    })
+    .join('\n');
+
+  const pairingRows = report.pairings
+    .map((p) => `<tr><td>${escapeHtml(p.foreground)}</td><td>${escapeHtml(p.background)}</td><td>${escapeHtml(p.mode ?? 'default')}</td><td>${p.ratio.toFixed(2)}:1</td><td>${p.apca.toFixed(1)} (${p.apcaLevel})</td><td class="level-${p.wcag}">${p.wcag}</td></tr>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Buoy Token Contrast Matrix</title>
+  <style>
+    * { box-sizing: border-box; }
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #111827; line-height: 1.5; padding: 40px; margin: 0; }
+    h1 { font-size: 24px; margin: 0 0 8px; }
+    h2 { font-size: 18px; margin: 32px 0 12px; }
+    .subtitle { color: #6b7280; font-size: 14px; margin-bottom: 24px; }
+    table { border-collapse: collapse; font-size: 12px; }
+    th, td { border: 1px solid #e5e7eb; padding: 6px 8px; text-align: center; }
+    th { background: #f9fafb; font-weight: 600; white-space: nowrap; }
+    .matrix { overflow-x: auto; }
+    .swatch { display: inline-block; width: 12px; height: 12px; border: 1px solid #d1d5db; border-radius: 2px; margin-right: 6px; vertical-align: middle; }
+    .sample { display: inline-block; padding: 0 6px; border-radius: 4px; font-weight: 600; }
+    .apca { color: #6b7280; }
+    .self { background: #f3f4f6; }
+    .documented { outline: 2px solid #111827; outline-offset: -2px; }
+    .level-fail { color: #dc2626; font-weight: 600; }
+    .level-AA-large { color: #d97706; font-weight: 600; }
+    .level-AA, .level-AAA { color: #059669; font-weight: 600; }
+    footer { margin-top: 48px; padding-top: 24px; border-top: 1px solid #e5e7eb; font-size: 12px; color: #9ca3af; text-align: center; }
+  </style>
+</head>
+<body>
+  <h1>Token Contrast Matrix</h1>
+  <div class="subtitle">${colors.length} color tokens · rows are text, columns are backgrounds · WCAG 2.x ratio and APCA Lc · outlined cells are documented pairings</div>
+
+  <h2>Documented pairings (${report.pairings.length})</h2>
+  ${report.pairings.length === 0 ? '<p>No documented pairings found.</p>' : `
+  <table>
+    <tr><th>Foreground</th><th>Background</th><th>Mode</th><th>WCAG ratio</th><th>APCA Lc</th><th>Level</th></tr>
+    ${pairingRows}
+  </table>`}
+
+  <h2>Matrix</h2>
+  <div class="matrix">
+    <table>
+      <tr><th></th>${header}</tr>
+      ${rows}
+    </table>
+  </div>
+
+  <footer>Generated by <strong>Buoy</strong></footer>
+</body>
+</html>`;
+}
+
+function formatPairingLine(pairing: CheckedPairing): string {
+  const level = LEVEL_COLORS[pairing.wcag](pairing.wcag.padEnd(8));
+  const ratio = `${pairing.ratio.toFixed(2)}:1`.padStart(7);
+  const apca = chalk.dim(`Lc ${pairing.apca.toFixed(1)} ${pairing.apcaLevel}`.padStart(18));
+  const mode = pairing.mode ? chalk.dim(` (${pairing.mode})`) : '';
+  return `${level} ${ratio} ${apca}  ${pairing.foreground} on ${pairing.background}${mode}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
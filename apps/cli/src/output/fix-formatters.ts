@@ -114,7 +114,8 @@ export function formatFixDiff(fixes: Fix[]): string {
 
       // Token name
       if (fix.tokenName) {
-        lines.push(`  ${chalk.dim('Token:')} ${fix.tokenName}`);
+        const mode = fix.tokenMode ? chalk.dim(` (${fix.tokenMode} mode)`) : '';
+        lines.push(`  ${chalk.dim('Token:')} ${fix.tokenName}${mode}`);
       }
 
       // Reason
@@ -273,6 +274,7 @@ export function formatFixesJson(fixes: Fix[]): string {
         reason: f.reason,
         fixType: f.fixType,
         tokenName: f.tokenName,
+        tokenMode: f.tokenMode,
       })),
     },
     null,
@@ -1,7 +1,17 @@
 import chalk, { type ChalkInstance } from 'chalk';
+import { createHash } from 'crypto';
 import Table from 'cli-table3';
-import type { Component, DesignToken, DriftSignal, Severity } from '@buoy-design/core';
+import type {
+  Component,
+  DesignToken,
+  DriftSignal,
+  GraphQueryResult,
+  GraphQueryValue,
+  Severity,
+} from '@buoy-design/core';
+import { DECISION_TYPE_LABELS } from '@buoy-design/core';
 import { sortDriftsBySeverity } from '../services/drift-analysis.js';
+import { formatSarif, createLineReader, parseDriftLocation } from './sarif.js';
 
 // Severity colors
 export function getSeverityColor(severity: Severity): ChalkInstance {
@@ -158,6 +168,11 @@ export function formatDriftDetails(drift: DriftSignal): string {
   lines.push(chalk.bold('Message:'));
   lines.push(drift.message);
 
+  if (drift.details.intent) {
+    lines.push('');
+    lines.push(chalk.bold('Intent: ') + formatIntentNote(drift.details.intent));
+  }
+
   if (drift.details.suggestions && drift.details.suggestions.length > 0) {
     lines.push('');
     lines.push(chalk.bold('Suggestions:'));
@@ -175,6 +190,18 @@ export function formatDriftDetails(drift: DriftSignal): string {
   return lines.join('\n');
 }
 
+// Format the design decision covering a drift
+function formatIntentNote(intent: NonNullable<DriftSignal['details']['intent']>): string {
+  const label = `${DECISION_TYPE_LABELS[intent.type]}: ${intent.title}`;
+  if (intent.status === 'expired') {
+    const when = intent.expiresAt ? ` on ${intent.expiresAt.toISOString().slice(0, 10)}` : '';
+    return chalk.yellow(`${label} (expired${when})`);
+  }
+  return intent.expiresAt
+    ? `${label} (until ${intent.expiresAt.toISOString().slice(0, 10)})`
+    : label;
+}
+
 // Format summary
 export function formatSummary(stats: {
   components: number;
@@ -195,6 +222,31 @@ export function formatSummary(stats: {
   return lines.join('\n');
 }
 
+// Format graph query results
+export function formatGraphQueryTable(result: GraphQueryResult): string {
+  if (result.rows.length === 0) {
+    return chalk.dim('No matches.');
+  }
+
+  const table = new Table({
+    head: result.columns.map((column) => chalk.bold(column)),
+    style: { head: [], border: [] },
+  });
+
+  for (const row of result.rows) {
+    table.push(result.columns.map((column) => formatGraphQueryValue(row[column] ?? null)));
+  }
+
+  return table.toString();
+}
+
+function formatGraphQueryValue(value: GraphQueryValue): string {
+  if (value === null) return chalk.dim('-');
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return value.name ?? value.id;
+  return String(value);
+}
+
 // Format as JSON
 export function formatJson(data: unknown): string {
   return JSON.stringify(data, null, 2);
@@ -252,6 +304,15 @@ export function formatDriftList(drifts: DriftSignal[]): string {
       lines.push(`  ${chalk.dim('Related:')}   ${drift.details.relatedComponents.join(', ')}`);
     }
 
+    if (drift.details.usage) {
+      const { safeToDelete, filesScanned } = drift.details.usage;
+      lines.push(`  ${chalk.dim('Usages:')}    none in ${filesScanned} files (safe to delete: ${safeToDelete})`);
+    }
+
+    if (drift.details.intent) {
+      lines.push(`  ${chalk.dim('Intent:')}    ${formatIntentNote(drift.details.intent)}`);
+    }
+
     // Show action items
     const actions = getActionItems(drift);
     if (actions.length > 0) {
@@ -795,6 +856,44 @@ export function formatDriftTree(drifts: DriftSignal[], fileCount: number = 0): s
   return lines.join('\n');
 }
 
+// Format the drift that came and went after a change (watch mode)
+export function formatDriftDelta(delta: {
+  introduced: DriftSignal[];
+  resolved: DriftSignal[];
+  drifts: DriftSignal[];
+  changedFiles: string[];
+}): string {
+  const lines: string[] = [];
+  const time = new Date().toLocaleTimeString();
+  const files = delta.changedFiles.length === 1
+    ? delta.changedFiles[0]!
+    : `${delta.changedFiles.length} files`;
+
+  lines.push(chalk.dim(`[${time}] ${files} changed`));
+
+  for (const drift of sortDriftsBySeverity(delta.introduced)) {
+    const location = drift.source.location ? chalk.dim(` ${drift.source.location}`) : '';
+    lines.push(`  ${chalk.red('+')} ${getSeverityIcon(drift.severity)} ${drift.message}${location}`);
+  }
+  for (const drift of delta.resolved) {
+    const location = drift.source.location ? chalk.dim(` ${drift.source.location}`) : '';
+    lines.push(`  ${chalk.green('-')} ${chalk.dim(drift.message)}${location}`);
+  }
+
+  if (delta.introduced.length === 0 && delta.resolved.length === 0) {
+    lines.push(chalk.dim('  No drift changes'));
+  }
+
+  const critical = delta.drifts.filter(d => d.severity === 'critical').length;
+  const warning = delta.drifts.filter(d => d.severity === 'warning').length;
+  const info = delta.drifts.filter(d => d.severity === 'info').length;
+  lines.push(chalk.dim(
+    `  ${delta.drifts.length} total: ${critical} critical, ${warning} warning, ${info} info`,
+  ));
+
+  return lines.join('\n');
+}
+
 // Format as markdown
 export function formatMarkdown(drifts: DriftSignal[]): string {
   if (drifts.length === 0) {
@@ -811,12 +910,28 @@ export function formatMarkdown(drifts: DriftSignal[]): string {
   const warning = drifts.filter(d => d.severity === 'warning');
   const info = drifts.filter(d => d.severity === 'info');
 
+  const byOwner = groupDriftsByOwner(drifts);
+  if (byOwner.size > 0) {
+    lines.push('## Drift by Owner');
+    lines.push('');
+    lines.push('| Owner | Critical | Warnings | Info |');
+    lines.push('|-------|----------|----------|------|');
+    for (const [owner, owned] of byOwner) {
+      const count = (severity: string) => owned.filter(d => d.severity === severity).length;
+      lines.push(`| ${owner} | ${count('critical')} | ${count('warning')} | ${count('info')} |`);
+    }
+    lines.push('');
+  }
+
   const formatDriftMarkdown = (drift: DriftSignal) => {
     lines.push(`### ${drift.source.entityName}`);
     lines.push(`- **Type:** ${formatDriftType(drift.type)}`);
     if (drift.source.location) {
       lines.push(`- **Location:** \`${drift.source.location}\``);
     }
+    if (drift.details.owners && drift.details.owners.length > 0) {
+      lines.push(`- **Owners:** ${drift.details.owners.join(' ')}`);
+    }
     lines.push(`- **Issue:** ${drift.message}`);
 
     if (drift.details.expected !== undefined && drift.details.actual !== undefined) {
@@ -865,3 +980,187 @@ export function formatMarkdown(drifts: DriftSignal[]): string {
 
   return lines.join('\n');
 }
+
+/**
+ * Group drifts by CODEOWNERS owner, most drift first. Drift with several
+ * owners counts for each of them; drift without owners is left out.
+ */
+export function groupDriftsByOwner(drifts: DriftSignal[]): Map<string, DriftSignal[]> {
+  const groups = new Map<string, DriftSignal[]>();
+  for (const drift of drifts) {
+    for (const owner of drift.details.owners ?? []) {
+      const owned = groups.get(owner) ?? [];
+      owned.push(drift);
+      groups.set(owner, owned);
+    }
+  }
+  return new Map(
+    [...groups].sort(([a, x], [b, y]) => y.length - x.length || a.localeCompare(b)),
+  );
+}
+
+// Escape text for XML attributes and content
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Strip control characters that are invalid in XML 1.0
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
+}
+
+// Group drifts by file (falls back to entity name for non-file sources)
+function groupDriftsByFile(drifts: DriftSignal[]): Map<string, DriftSignal[]> {
+  const byFile = new Map<string, DriftSignal[]>();
+  for (const drift of drifts) {
+    const file = parseDriftLocation(drift.source.location)?.file || drift.source.entityName;
+    const existing = byFile.get(file) || [];
+    existing.push(drift);
+    byFile.set(file, existing);
+  }
+  return byFile;
+}
+
+// Format as JUnit XML (one testcase per drifting file, one failure per drift)
+export function formatJUnit(drifts: DriftSignal[]): string {
+  const byFile = groupDriftsByFile(drifts);
+  const timestamp = new Date().toISOString().replace(/\.\d{3}Z$/, '');
+  const testCount = Math.max(byFile.size, 1);
+
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push(`<testsuites name="buoy" tests="${testCount}" failures="${byFile.size}" errors="0">`);
+  lines.push(`  <testsuite name="Design drift" tests="${testCount}" failures="${byFile.size}" errors="0" skipped="0" timestamp="${timestamp}">`);
+
+  if (byFile.size === 0) {
+    lines.push('    <testcase classname="buoy.drift" name="No drift detected"/>');
+  }
+
+  for (const [file, fileDrifts] of byFile) {
+    lines.push(`    <testcase classname="buoy.drift" name="${escapeXml(file)}" file="${escapeXml(file)}">`);
+    for (const drift of sortDriftsBySeverity(fileDrifts)) {
+      const body: string[] = [
+        `Severity: ${drift.severity}`,
+        `Entity: ${drift.source.entityName}`,
+      ];
+      if (drift.source.location) {
+        body.push(`Location: ${drift.source.location}`);
+      }
+      for (const suggestion of drift.details.suggestions ?? []) {
+        body.push(`Suggestion: ${suggestion}`);
+      }
+      lines.push(
+        `      <failure type="${drift.type}" message="${escapeXml(drift.message)}">${escapeXml(body.join('\n'))}</failure>`,
+      );
+    }
+    lines.push('    </testcase>');
+  }
+
+  lines.push('  </testsuite>');
+  lines.push('</testsuites>');
+  return lines.join('\n');
+}
+
+// Format as Checkstyle XML (one file entry per drifting file, one error per drift)
+export function formatCheckstyle(drifts: DriftSignal[]): string {
+  const severityMap: Record<Severity, string> = {
+    critical: 'error',
+    warning: 'warning',
+    info: 'info',
+  };
+
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push('<checkstyle version="4.3">');
+
+  for (const [file, fileDrifts] of groupDriftsByFile(drifts)) {
+    lines.push(`  <file name="${escapeXml(file)}">`);
+    for (const drift of fileDrifts) {
+      const location = parseDriftLocation(drift.source.location);
+      const attrs = [
+        `line="${location?.line ?? 1}"`,
+        ...(location?.column ? [`column="${location.column}"`] : []),
+        `severity="${severityMap[drift.severity]}"`,
+        `message="${escapeXml(drift.message)}"`,
+        `source="buoy.${drift.type}"`,
+      ];
+      lines.push(`    <error ${attrs.join(' ')}/>`);
+    }
+    lines.push('  </file>');
+  }
+
+  lines.push('</checkstyle>');
+  return lines.join('\n');
+}
+
+export interface CodeQualityIssue {
+  description: string;
+  check_name: string;
+  fingerprint: string;
+  severity: 'info' | 'minor' | 'major' | 'critical' | 'blocker';
+  location: {
+    path: string;
+    lines: { begin: number };
+  };
+}
+
+// Build a GitLab Code Quality report (artifacts:reports:codequality)
+export function buildCodeQualityReport(drifts: DriftSignal[]): CodeQualityIssue[] {
+  const severityMap: Record<Severity, CodeQualityIssue['severity']> = {
+    critical: 'critical',
+    warning: 'major',
+    info: 'info',
+  };
+
+  return drifts.map((drift) => {
+    const location = parseDriftLocation(drift.source.location);
+    return {
+      description: drift.message,
+      check_name: `buoy.${drift.type}`,
+      // GitLab matches issues across pipelines by fingerprint to show new vs fixed
+      fingerprint: createHash('md5').update(drift.id).digest('hex'),
+      severity: severityMap[drift.severity],
+      location: {
+        path: location?.file.replace(/\\/g, '/').replace(/^\.\//, '') || drift.source.entityName,
+        lines: { begin: location?.line ?? 1 },
+      },
+    };
+  });
+}
+
+// Format as GitLab Code Quality JSON
+export function formatCodeQuality(drifts: DriftSignal[]): string {
+  return JSON.stringify(buildCodeQualityReport(drifts), null, 2);
+}
+
+// Machine-readable report formats shared by check, drift and show drift
+export type DriftReportFormat = 'sarif' | 'junit' | 'checkstyle' | 'codequality';
+
+export const DRIFT_REPORT_FORMATS: DriftReportFormat[] = ['sarif', 'junit', 'checkstyle', 'codequality'];
+
+export function isDriftReportFormat(format: string): format is DriftReportFormat {
+  return (DRIFT_REPORT_FORMATS as string[]).includes(format);
+}
+
+// Format drifts in one of the machine-readable report formats
+export function formatDriftReport(
+  drifts: DriftSignal[],
+  format: DriftReportFormat,
+  projectRoot: string = process.cwd(),
+): string {
+  switch (format) {
+    case 'sarif':
+      return formatSarif(drifts, {
+        projectRoot,
+        getLineText: createLineReader(projectRoot),
+      });
+    case 'junit':
+      return formatJUnit(drifts);
+    case 'checkstyle':
+      return formatCheckstyle(drifts);
+    case 'codequality':
+      return formatCodeQuality(drifts);
+  }
+}
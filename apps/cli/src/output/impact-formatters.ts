@@ -0,0 +1,143 @@
+/**
+ * Impact Formatters
+ *
+ * Format token impact reports for the terminal and as a markdown
+ * checklist to paste into the pull request that changes the token.
+ */
+
+import chalk from 'chalk';
+import type {
+  ImpactedFile,
+  TokenImpactReport,
+  VisualRiskLevel,
+} from '../services/token-impact.js';
+
+const RISK_COLORS: Record<VisualRiskLevel, (text: string) => string> = {
+  none: chalk.green,
+  low: chalk.green,
+  medium: chalk.yellow,
+  high: chalk.red,
+  unknown: chalk.dim,
+};
+
+/**
+ * Format a token impact report for the terminal
+ */
+export function formatTokenImpact(report: TokenImpactReport): string {
+  const lines: string[] = [];
+  const affected = report.files.length + report.stories.length;
+
+  lines.push(chalk.bold(`${report.token}${report.category ? chalk.dim(` (${report.category})`) : ''}`));
+  lines.push(`  ${formatChange(report, (value) => value)}`);
+  lines.push(
+    `  Visual risk: ${RISK_COLORS[report.visualRisk.level](report.visualRisk.level)} ` +
+      chalk.dim(report.visualRisk.reason)
+  );
+  lines.push(
+    `  Spread: ${report.spreadRisk} ` +
+      chalk.dim(`(${affected} file${affected === 1 ? '' : 's'})`)
+  );
+  lines.push('');
+
+  if (affected === 0) {
+    lines.push(chalk.dim('  No files reference this token.'));
+    return lines.join('\n');
+  }
+
+  if (report.components.length > 0) {
+    lines.push(chalk.bold(`Components (${report.components.length})`));
+    for (const component of report.components) {
+      lines.push(`  ${chalk.cyan(component.name)} ${chalk.dim(component.path)}${formatOwner(component.owner)}`);
+    }
+    lines.push('');
+  }
+
+  for (const [title, files] of [['Files', report.files], ['Stories', report.stories]] as const) {
+    if (files.length === 0) continue;
+    lines.push(chalk.bold(`${title} (${files.length})`));
+    for (const file of files) {
+      const how = file.direct ? chalk.yellow('uses token') : chalk.dim('imports a file that does');
+      lines.push(`  ${file.path} ${how}${formatOwner(file.owner)}`);
+    }
+    lines.push('');
+  }
+
+  if (report.owners.length > 0) {
+    lines.push(chalk.bold('Owners'));
+    for (const owner of report.owners) {
+      lines.push(`  ${owner.name} ${chalk.dim(`(${owner.files} file${owner.files === 1 ? '' : 's'})`)}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+/**
+ * Format a token impact report as a markdown PR checklist
+ */
+export function formatTokenImpactChecklist(report: TokenImpactReport): string {
+  const lines: string[] = [];
+
+  lines.push(`## Token ${report.change === 'delete' ? 'removal' : 'change'}: \`${report.token}\``);
+  lines.push('');
+  lines.push(formatChange(report, (value) => `\`${value}\``));
+  lines.push('');
+  lines.push(`Visual risk: **${report.visualRisk.level}** — ${report.visualRisk.reason}`);
+  lines.push('');
+
+  if (report.change === 'delete' && report.files.some((file) => file.direct)) {
+    lines.push('- [ ] Replace every reference to the token before removing it');
+    lines.push('');
+  }
+
+  if (report.components.length > 0) {
+    lines.push('### Components to review');
+    lines.push('');
+    for (const component of report.components) {
+      lines.push(`- [ ] ${component.name} (\`${component.path}\`)${component.owner ? ` — ${component.owner}` : ''}`);
+    }
+    lines.push('');
+  }
+
+  if (report.stories.length > 0) {
+    lines.push('### Stories to check');
+    lines.push('');
+    lines.push(...report.stories.map(formatFileItem));
+    lines.push('');
+  }
+
+  if (report.files.length > 0) {
+    lines.push('### Files');
+    lines.push('');
+    lines.push(...report.files.map(formatFileItem));
+    lines.push('');
+  }
+
+  if (report.owners.length > 0) {
+    lines.push('### Owners to notify');
+    lines.push('');
+    for (const owner of report.owners) {
+      lines.push(`- [ ] ${owner.name} (${owner.files} file${owner.files === 1 ? '' : 's'})`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+function formatChange(report: TokenImpactReport, code: (value: string) => string): string {
+  const current = report.currentValue ? code(report.currentValue) : 'unknown value';
+  return report.newValue === null
+    ? `Removed (was ${current})`
+    : `${current} → ${code(report.newValue)}`;
+}
+
+function formatFileItem(file: ImpactedFile): string {
+  const how = file.direct ? 'uses the token' : 'imports an affected file';
+  return `- [ ] \`${file.path}\` (${how})${file.owner ? ` — ${file.owner}` : ''}`;
+}
+
+function formatOwner(owner: string | null): string {
+  return owner ? chalk.dim(` · ${owner}`) : '';
+}
@@ -1,3 +1,4 @@
 export * from './formatters.js';
 export * from './reporters.js';
 export * from './reports.js';
+export * from './sarif.js';
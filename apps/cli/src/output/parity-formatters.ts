@@ -0,0 +1,170 @@
+/**
+ * Parity Formatters
+ *
+ * Format design-to-code parity reports for the terminal and as markdown
+ * for design review meetings.
+ */
+
+import chalk from 'chalk';
+import type {
+  DesignSource,
+  ParityMismatch,
+  ParityPair,
+  ParityReport,
+  ParitySourceReport,
+} from '../services/parity.js';
+import { countMismatches } from '../services/parity.js';
+
+const SOURCE_LABELS: Record<DesignSource, string> = {
+  figma: 'Figma',
+  storybook: 'Storybook',
+};
+
+const ISSUE_LABELS: Record<ParityMismatch['issue'], string> = {
+  'missing-in-design': 'missing in design',
+  'missing-in-code': 'missing in code',
+  'type-mismatch': 'type differs',
+};
+
+/**
+ * Format a parity report for the terminal
+ */
+export function formatParityReport(report: ParityReport): string {
+  const lines: string[] = [];
+
+  for (const source of report.sources) {
+    const label = SOURCE_LABELS[source.source];
+    lines.push(chalk.bold(`${label} ↔ Code`));
+    lines.push(
+      `  ${chalk.green(`${source.matched.length} matched`)}, ` +
+        `${chalk.yellow(`${source.codeOnly.length} code only`)}, ` +
+        `${chalk.yellow(`${source.designOnly.length} ${label} only`)} ` +
+        chalk.dim(`(${formatCoverage(source.coverage)} of ${label} components in code)`)
+    );
+    lines.push('');
+
+    const drifting = source.matched.filter((pair) => countMismatches(pair) > 0);
+    for (const pair of drifting) {
+      lines.push(`  ${chalk.cyan(formatPairName(pair))}`);
+      for (const mismatch of [...pair.props, ...pair.variants]) {
+        lines.push(`    ${formatMismatchLine(mismatch, pair.props.includes(mismatch))}`);
+      }
+      lines.push('');
+    }
+
+    const inSync = source.matched.length - drifting.length;
+    if (inSync > 0) {
+      lines.push(chalk.green(`  ✓ ${inSync} matched component${inSync === 1 ? '' : 's'} in sync`));
+      lines.push('');
+    }
+
+    if (source.codeOnly.length > 0) {
+      lines.push(`  ${chalk.dim('Only in code:')} ${source.codeOnly.join(', ')}`);
+    }
+    if (source.designOnly.length > 0) {
+      lines.push(`  ${chalk.dim(`Only in ${label}:`)} ${source.designOnly.join(', ')}`);
+    }
+    if (source.codeOnly.length > 0 || source.designOnly.length > 0) {
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+/**
+ * Format a parity report as markdown
+ */
+export function formatParityMarkdown(report: ParityReport): string {
+  const lines: string[] = [];
+
+  lines.push('# Design Parity Report');
+  lines.push('');
+  lines.push(`${report.codeComponents} code components compared against ${report.sources.map((s) => SOURCE_LABELS[s.source]).join(' and ')}.`);
+  lines.push('');
+
+  for (const source of report.sources) {
+    lines.push(...formatSourceMarkdown(source));
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+function formatSourceMarkdown(source: ParitySourceReport): string[] {
+  const label = SOURCE_LABELS[source.source];
+  const lines: string[] = [];
+
+  lines.push(`## ${label}`);
+  lines.push('');
+  lines.push(`| Matched | Code only | ${label} only | Coverage |`);
+  lines.push('|---|---|---|---|');
+  lines.push(`| ${source.matched.length} | ${source.codeOnly.length} | ${source.designOnly.length} | ${formatCoverage(source.coverage)} |`);
+  lines.push('');
+
+  const drifting = source.matched.filter((pair) => countMismatches(pair) > 0);
+  if (drifting.length > 0) {
+    lines.push('### Mismatches');
+    lines.push('');
+    for (const pair of drifting) {
+      lines.push(`#### ${formatPairName(pair)}`);
+      lines.push('');
+      lines.push(`| Kind | Name | Issue | Code | ${label} |`);
+      lines.push('|---|---|---|---|---|');
+      for (const mismatch of pair.props) {
+        lines.push(formatMismatchRow('Prop', mismatch));
+      }
+      for (const mismatch of pair.variants) {
+        lines.push(formatMismatchRow('Variant', mismatch));
+      }
+      lines.push('');
+    }
+  }
+
+  const inSync = source.matched.filter((pair) => countMismatches(pair) === 0);
+  if (inSync.length > 0) {
+    lines.push('### In sync');
+    lines.push('');
+    lines.push(inSync.map((pair) => formatPairName(pair)).join(', '));
+    lines.push('');
+  }
+
+  if (source.codeOnly.length > 0) {
+    lines.push('### Only in code');
+    lines.push('');
+    lines.push(...source.codeOnly.map((name) => `- ${name}`));
+    lines.push('');
+  }
+
+  if (source.designOnly.length > 0) {
+    lines.push(`### Only in ${label}`);
+    lines.push('');
+    lines.push(...source.designOnly.map((name) => `- ${name}`));
+    lines.push('');
+  }
+
+  return lines;
+}
+
+function formatPairName(pair: ParityPair): string {
+  return pair.component === pair.designComponent
+    ? pair.component
+    : `${pair.component} ↔ ${pair.designComponent}`;
+}
+
+function formatMismatchLine(mismatch: ParityMismatch, isProp: boolean): string {
+  const kind = isProp ? 'prop' : 'variant';
+  const issue = mismatch.issue === 'type-mismatch'
+    ? chalk.yellow(`${ISSUE_LABELS[mismatch.issue]}: ${mismatch.code} vs ${mismatch.design}`)
+    : chalk.yellow(ISSUE_LABELS[mismatch.issue]);
+  return `${chalk.dim(kind)} ${mismatch.name} ${issue}`;
+}
+
+function formatMismatchRow(kind: string, mismatch: ParityMismatch): string {
+  const cell = (value: string | undefined) =>
+    value ? `\`${value.replace(/\|/g, '\\|')}\`` : '—';
+  return `| ${kind} | ${mismatch.name} | ${ISSUE_LABELS[mismatch.issue]} | ${cell(mismatch.code)} | ${cell(mismatch.design)} |`;
+}
+
+function formatCoverage(coverage: number): string {
+  return `${Math.round(coverage * 100)}%`;
+}
@@ -0,0 +1,361 @@
+/**
+ * SARIF 2.1.0 output for drift results.
+ *
+ * Lets `buoy check` and `buoy drift` results be uploaded to code-scanning
+ * dashboards (GitHub code scanning, Azure DevOps, SonarQube, ...) next to linters.
+ * Spec: https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+ */
+
+import type { DriftSignal, DriftType, Severity } from "@buoy-design/core";
+import {
+  DRIFT_TYPE_LABELS,
+  DRIFT_TYPE_DESCRIPTIONS,
+  getDefaultSeverity,
+} from "@buoy-design/core";
+import { readFileSync } from "fs";
+import { isAbsolute, join } from "path";
+import pkg from "../../package.json" with { type: "json" };
+
+export const SARIF_SCHEMA =
+  "https://json.schemastore.org/sarif-2.1.0.json";
+export const SARIF_VERSION = "2.1.0";
+
+export type SarifLevel = "error" | "warning" | "note";
+
+export interface SarifRegion {
+  startLine: number;
+  startColumn?: number;
+  endColumn?: number;
+}
+
+export interface SarifPhysicalLocation {
+  artifactLocation: { uri: string; uriBaseId?: string };
+  region?: SarifRegion;
+}
+
+export interface SarifLocation {
+  physicalLocation?: SarifPhysicalLocation;
+  logicalLocations?: Array<{ name: string; kind?: string; fullyQualifiedName?: string }>;
+}
+
+export interface SarifFix {
+  description: { text: string };
+  artifactChanges: Array<{
+    artifactLocation: { uri: string; uriBaseId?: string };
+    replacements: Array<{
+      deletedRegion: SarifRegion;
+      insertedContent: { text: string };
+    }>;
+  }>;
+}
+
+export interface SarifResult {
+  ruleId: DriftType;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations?: SarifLocation[];
+  partialFingerprints: Record<string, string>;
+  fixes?: SarifFix[];
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifRule {
+  id: DriftType;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription: { text: string };
+  helpUri: string;
+  defaultConfiguration: { level: SarifLevel };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: typeof SARIF_VERSION;
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        version: string;
+        informationUri: string;
+        rules: SarifRule[];
+      };
+    };
+    originalUriBaseIds?: Record<string, { uri: string }>;
+    results: SarifResult[];
+  }>;
+}
+
+export interface SarifOptions {
+  /**
+   * Absolute project root. Recorded as %SRCROOT% so relative paths resolve.
+   */
+  projectRoot?: string;
+
+  /**
+   * Returns the text of a source line (1-based). Used to locate the exact
+   * column of a hardcoded value when the drift location only has a line.
+   */
+  getLineText?: (file: string, line: number) => string | undefined;
+}
+
+const SRCROOT = "%SRCROOT%";
+
+/**
+ * Map Buoy severity to SARIF result level
+ */
+export function severityToSarifLevel(severity: Severity): SarifLevel {
+  switch (severity) {
+    case "critical":
+      return "error";
+    case "warning":
+      return "warning";
+    case "info":
+      return "note";
+  }
+}
+
+/**
+ * Parse a drift location ("path/to/file.tsx:10:5", "file.css:3", "file.ts")
+ * into a file path and optional line/column. URLs (Figma, Storybook) return null.
+ */
+export function parseDriftLocation(
+  location: string | undefined,
+): { file: string; line?: number; column?: number } | null {
+  if (!location || location.includes("://")) return null;
+
+  const match = location.match(/^(.+?):(\d+)(?::(\d+))?$/);
+  if (!match) return { file: location };
+
+  return {
+    file: match[1]!,
+    line: parseInt(match[2]!, 10),
+    column: match[3] ? parseInt(match[3], 10) : undefined,
+  };
+}
+
+/**
+ * Parse a token suggestion ("#3b82f6 → --color-primary (95% match)")
+ */
+function parseTokenSuggestion(
+  suggestion: string,
+): { value: string; token: string } | null {
+  const match = suggestion.match(/^(.+?)\s*→\s*([^\s(]+)/);
+  if (!match) return null;
+  return { value: match[1]!.trim(), token: match[2]! };
+}
+
+/**
+ * Text to insert in place of a hardcoded value for a given token name
+ */
+function tokenReference(token: string): string {
+  return token.startsWith("--") ? `var(${token})` : token;
+}
+
+function toUri(file: string): string {
+  return file.replace(/\\/g, "/").replace(/^\.\//, "");
+}
+
+/**
+ * Find the line of a hardcoded value from affectedFiles entries
+ * ("backgroundColor: #3b82f6 (line 12)")
+ */
+function findValueLine(drift: DriftSignal, value: string): number | undefined {
+  for (const entry of drift.details.affectedFiles ?? []) {
+    if (!entry.includes(`: ${value} (`)) continue;
+    const match = entry.match(/\((?:line\s+|.*:)(\d+)(?::\d+)?\)$/);
+    if (match) return parseInt(match[1]!, 10);
+  }
+  return undefined;
+}
+
+function buildFixes(
+  drift: DriftSignal,
+  file: string,
+  line: number | undefined,
+  column: number | undefined,
+  options: SarifOptions,
+): SarifFix[] {
+  const suggestions = drift.details.tokenSuggestions ?? [];
+  if (suggestions.length === 0 || line === undefined) return [];
+
+  const fixes: SarifFix[] = [];
+
+  for (const raw of suggestions) {
+    const suggestion = parseTokenSuggestion(raw);
+    if (!suggestion) continue;
+
+    // Hardcoded values are recorded per property ("color: #fff (line 12)"),
+    // which is more precise than the component's own location
+    const valueLine = findValueLine(drift, suggestion.value) ?? line;
+    const lineText = options.getLineText?.(file, valueLine);
+
+    // Prefer the recorded column, otherwise find the value on the line
+    let startColumn = valueLine === line ? column : undefined;
+    if (lineText !== undefined) {
+      const index = lineText.indexOf(suggestion.value, startColumn ? startColumn - 1 : 0);
+      startColumn = index >= 0 ? index + 1 : undefined;
+    }
+    if (startColumn === undefined) continue;
+
+    fixes.push({
+      description: {
+        text: `Replace ${suggestion.value} with ${suggestion.token}`,
+      },
+      artifactChanges: [
+        {
+          artifactLocation: { uri: toUri(file), uriBaseId: SRCROOT },
+          replacements: [
+            {
+              deletedRegion: {
+                startLine: valueLine,
+                startColumn,
+                endColumn: startColumn + suggestion.value.length,
+              },
+              insertedContent: { text: tokenReference(suggestion.token) },
+            },
+          ],
+        },
+      ],
+    });
+  }
+
+  return fixes;
+}
+
+function buildRules(types: DriftType[]): SarifRule[] {
+  return types.map((type) => ({
+    id: type,
+    name: DRIFT_TYPE_LABELS[type].replace(/\s+/g, ""),
+    shortDescription: { text: DRIFT_TYPE_LABELS[type] },
+    fullDescription: { text: DRIFT_TYPE_DESCRIPTIONS[type] },
+    helpUri: `https://buoy.design/docs/drift-types#${type}`,
+    defaultConfiguration: { level: severityToSarifLevel(getDefaultSeverity(type)) },
+  }));
+}
+
+/**
+ * Create a cached line reader for SarifOptions.getLineText
+ */
+export function createLineReader(
+  projectRoot: string,
+): (file: string, line: number) => string | undefined {
+  const cache = new Map<string, string[] | null>();
+
+  return (file, line) => {
+    if (!cache.has(file)) {
+      try {
+        const path = isAbsolute(file) ? file : join(projectRoot, file);
+        cache.set(file, readFileSync(path, "utf-8").split("\n"));
+      } catch {
+        cache.set(file, null);
+      }
+    }
+    return cache.get(file)?.[line - 1];
+  };
+}
+
+/**
+ * Build a SARIF log from drift signals
+ */
+export function buildSarifLog(
+  drifts: DriftSignal[],
+  options: SarifOptions = {},
+): SarifLog {
+  const ruleIds = [...new Set(drifts.map((d) => d.type))].sort();
+  const rules = buildRules(ruleIds);
+  const ruleIndex = new Map(ruleIds.map((id, i) => [id, i]));
+
+  const results: SarifResult[] = drifts.map((drift) => {
+    const parsed = parseDriftLocation(drift.source.location);
+    const locations: SarifLocation[] = [];
+    let fixes: SarifFix[] = [];
+
+    if (parsed) {
+      const region: SarifRegion | undefined = parsed.line
+        ? { startLine: parsed.line, startColumn: parsed.column }
+        : undefined;
+
+      locations.push({
+        physicalLocation: {
+          artifactLocation: { uri: toUri(parsed.file), uriBaseId: SRCROOT },
+          ...(region && { region }),
+        },
+        logicalLocations: [
+          { name: drift.source.entityName, kind: drift.source.entityType === "token" ? "variable" : "type" },
+        ],
+      });
+
+      fixes = buildFixes(drift, parsed.file, parsed.line, parsed.column, options);
+    } else {
+      locations.push({
+        logicalLocations: [
+          {
+            name: drift.source.entityName,
+            kind: drift.source.entityType === "token" ? "variable" : "type",
+            fullyQualifiedName: drift.source.location || undefined,
+          },
+        ],
+      });
+    }
+
+    const result: SarifResult = {
+      ruleId: drift.type,
+      ruleIndex: ruleIndex.get(drift.type)!,
+      level: severityToSarifLevel(drift.severity),
+      message: { text: drift.message },
+      locations,
+      partialFingerprints: { "buoyDriftId/v1": drift.id },
+    };
+
+    if (fixes.length > 0) {
+      result.fixes = fixes;
+    }
+
+    const properties: Record<string, unknown> = { severity: drift.severity };
+    if (drift.details.suggestions?.length) {
+      properties.suggestions = drift.details.suggestions;
+    }
+    if (drift.details.tokenSuggestions?.length) {
+      properties.tokenSuggestions = drift.details.tokenSuggestions;
+    }
+    result.properties = properties;
+
+    return result;
+  });
+
+  const run: SarifLog["runs"][number] = {
+    tool: {
+      driver: {
+        name: "buoy",
+        version: pkg.version,
+        informationUri: "https://buoy.design",
+        rules,
+      },
+    },
+    results,
+  };
+
+  if (options.projectRoot) {
+    const root = options.projectRoot.replace(/\\/g, "/").replace(/\/?$/, "/");
+    run.originalUriBaseIds = {
+      [SRCROOT]: { uri: root.startsWith("/") ? `file://${root}` : `file:///${root}` },
+    };
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: [run],
+  };
+}
+
+/**
+ * Format drift signals as a SARIF 2.1.0 JSON log
+ */
+export function formatSarif(
+  drifts: DriftSignal[],
+  options: SarifOptions = {},
+): string {
+  return JSON.stringify(buildSarifLog(drifts, options), null, 2);
+}
@@ -50,7 +50,11 @@ vi.mock("@buoy-design/scanners/git", () => mockScanners);
 vi.mock("@buoy-design/scanners/figma", () => ({
   FigmaComponentScanner: class {
     scan() {
-      return Promise.resolve({ items: [], errors: [] });
+      return Promise.resolve({
+        items: [],
+        tokens: [{ id: "figma:abc:VariableID:1", name: "color.surface", value: { type: "color", hex: "#ffffff" } }],
+        errors: [],
+      });
     }
   },
 }));
@@ -350,6 +354,23 @@ describe("ScanOrchestrator", () => {
       expect(result.tokens[0]!.name).toBe("primary");
     });
 
+    it("collects tokens from Figma variables", async () => {
+      const config = createConfig({
+        sources: {
+          figma: {
+            enabled: true,
+            accessToken: "figd_test",
+            fileKeys: ["abc"],
+          },
+        },
+      });
+      const orchestrator = new ScanOrchestrator(config);
+
+      const result = await orchestrator.scan();
+
+      expect(result.tokens.map((t) => t.name)).toEqual(["color.surface"]);
+    });
+
     it("scans multiple sources and combines results", async () => {
       const config = createConfig({
         sources: {
@@ -175,6 +175,7 @@ const SCANNER_REGISTRY: ScannerDefinition[] = [
       projectRoot,
       files: cfg.files,
       cssVariablePrefix: cfg.cssVariablePrefix,
+      themes: cfg.themes,
       cache,
     }),
   },
@@ -421,6 +422,10 @@ export class ScanOrchestrator {
     // Collect results based on type
     if (definition.resultType === "components") {
       result.components.push(...scanResult.items);
+      // Figma also returns the files' variables as tokens
+      if (scanResult.tokens) {
+        result.tokens.push(...scanResult.tokens);
+      }
     } else {
       result.tokens.push(...scanResult.items);
     }
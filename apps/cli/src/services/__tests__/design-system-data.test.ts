@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import type { DesignToken } from "@buoy-design/core";
+import { BuoyConfigSchema } from "../../config/schema.js";
+import { analyzeSnippet, inferFixType, suggestFix } from "../design-system-data.js";
+
+const config = BuoyConfigSchema.parse({ project: { name: "test" } });
+
+function createToken(name: string, value: DesignToken["value"], category: DesignToken["category"]): DesignToken {
+  return {
+    id: `css:tokens.css:${name}`,
+    name,
+    category,
+    value,
+    source: { type: "css", path: "tokens.css" },
+    aliases: [],
+    usedBy: [],
+    metadata: {},
+    scannedAt: new Date("2025-01-01T00:00:00.000Z"),
+  };
+}
+
+const tokens = [
+  createToken("--color-primary", { type: "color", hex: "#3b82f6" }, "color"),
+  createToken("--spacing-md", { type: "spacing", value: 16, unit: "px" }, "spacing"),
+];
+
+const BUTTON_SNIPPET = `export function Button() {
+  return <button style={{ color: '#3b82f6' }}>Save</button>;
+}
+`;
+
+describe("analyzeSnippet", () => {
+  it("reports locations against the given filename", async () => {
+    const drifts = await analyzeSnippet(BUTTON_SNIPPET, "app/ui/Button.jsx", config, tokens);
+
+    expect(drifts[0]!.source.location).toBe("app/ui/Button.jsx:1");
+    expect(drifts[0]!.id).toContain("app/ui/Button.jsx");
+  });
+
+  it("applies ignore rules from config", async () => {
+    const ignoring = BuoyConfigSchema.parse({
+      project: { name: "test" },
+      drift: { ignore: [{ type: "hardcoded-value" }] },
+    });
+
+    expect(await analyzeSnippet(BUTTON_SNIPPET, "Button.tsx", ignoring, tokens)).toEqual([]);
+  });
+
+  it("rejects unsupported file types", async () => {
+    await expect(analyzeSnippet("a {}", "styles.css", config, tokens)).rejects.toThrow(
+      'Unsupported file type ".css"',
+    );
+  });
+});
+
+describe("inferFixType", () => {
+  it("prefers the CSS property", () => {
+    expect(inferFixType("4px", "border-radius")).toBe("hardcoded-radius");
+    expect(inferFixType("14px", "fontSize")).toBe("hardcoded-font-size");
+    expect(inferFixType("#fff", "backgroundColor")).toBe("hardcoded-color");
+    expect(inferFixType("8px", "padding")).toBe("hardcoded-spacing");
+  });
+
+  it("falls back to the value", () => {
+    expect(inferFixType("rgb(0, 0, 0)")).toBe("hardcoded-color");
+    expect(inferFixType("1rem")).toBe("hardcoded-spacing");
+  });
+});
+
+describe("suggestFix", () => {
+  it("records the given location and property on the fix", () => {
+    const fix = suggestFix("16px", tokens, { property: "margin", file: "src/Card.tsx", line: 4, column: 12 });
+
+    expect(fix).toMatchObject({
+      file: "src/Card.tsx",
+      line: 4,
+      column: 12,
+      property: "margin",
+      replacement: "var(--spacing-md)",
+    });
+  });
+});
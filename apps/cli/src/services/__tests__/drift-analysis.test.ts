@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BuoyConfigSchema } from "../../config/schema.js";
+import { DriftAnalysisService } from "../drift-analysis.js";
+
+const TOKENS = {
+  shadow: {
+    sm: {
+      $type: "shadow",
+      $value: {
+        color: "rgba(0, 0, 0, 0.05)",
+        offsetX: "0px",
+        offsetY: "1px",
+        blur: "2px",
+        spread: "0px",
+      },
+    },
+  },
+};
+
+const CARD = `export function Card() {
+  return <div style={{ boxShadow: '0 1px 2px rgba(0, 0, 0, 0.05)' }}>Card</div>;
+}
+`;
+
+describe("DriftAnalysisService", () => {
+  let projectRoot: string;
+  const config = BuoyConfigSchema.parse({
+    project: { name: "test" },
+    sources: {
+      react: { enabled: true, include: ["src/**/*.tsx"] },
+      tokens: { enabled: true, files: ["tokens.json"] },
+    },
+  });
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), "buoy-drift-test-"));
+    await mkdir(join(projectRoot, "src"));
+    await writeFile(join(projectRoot, "src", "Card.tsx"), CARD);
+    await writeFile(join(projectRoot, "tokens.json"), JSON.stringify(TOKENS));
+    vi.spyOn(process, "cwd").mockReturnValue(projectRoot);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it("suggests composite tokens for hardcoded shadows", async () => {
+    const { drifts } = await new DriftAnalysisService(config).analyze();
+
+    const shadow = drifts.find((d) => d.message.includes("0 1px 2px"));
+    expect(shadow?.type).toBe("hardcoded-value");
+    expect(shadow?.details.tokenSuggestions).toEqual([
+      expect.stringMatching(/^0 1px 2px rgba\(0, 0, 0, 0\.05\) → shadow\.sm/),
+    ]);
+  });
+
+  it("routes drift using the CODEOWNERS file at the repository root", async () => {
+    const repositoryRoot = await mkdtemp(join(tmpdir(), "buoy-drift-repo-"));
+    const packageRoot = join(repositoryRoot, "packages", "ui");
+    try {
+      await mkdir(join(repositoryRoot, ".git"));
+      await mkdir(join(repositoryRoot, ".github"));
+      await writeFile(
+        join(repositoryRoot, ".github", "CODEOWNERS"),
+        "* @acme/everyone\n/packages/ui/src/ @acme/ui\n",
+      );
+      await mkdir(join(packageRoot, "src"), { recursive: true });
+      await writeFile(join(packageRoot, "src", "Card.tsx"), CARD);
+      await writeFile(join(packageRoot, "tokens.json"), JSON.stringify(TOKENS));
+
+      const { drifts } = await new DriftAnalysisService(config).analyze({
+        projectRoot: packageRoot,
+      });
+
+      const shadow = drifts.find((d) => d.message.includes("0 1px 2px"));
+      expect(shadow?.details.owners).toEqual(["@acme/ui"]);
+    } finally {
+      await rm(repositoryRoot, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { DriftSignal, DriftType } from "@buoy-design/core";
+import {
+  evaluateBudgets,
+  getExceededBudgets,
+  ratchetBudgets,
+  saveBudgets,
+} from "../drift-budget.js";
+
+function createDrift(id: string, location: string, type: DriftType = "hardcoded-value"): DriftSignal {
+  return {
+    id,
+    type,
+    severity: "critical",
+    source: {
+      entityType: "component",
+      entityId: `component:${id}`,
+      entityName: "Button",
+      location,
+    },
+    message: `Drift ${id}`,
+    details: {},
+    detectedAt: new Date(),
+  };
+}
+
+const DRIFTS = [
+  createDrift("a", "src/legacy/Button.tsx:10"),
+  createDrift("b", "src/legacy/forms/Input.tsx:4:2"),
+  createDrift("c", "src/legacy/Card.tsx", "naming-inconsistency"),
+  createDrift("d", "src/components/Modal.tsx:8"),
+];
+
+describe("evaluateBudgets", () => {
+  it("counts drift per path and type", () => {
+    const { statuses, unbudgeted } = evaluateBudgets(DRIFTS, {
+      "src/legacy/**": { "hardcoded-value": 5, "naming-inconsistency": 0 },
+    });
+
+    expect(statuses).toEqual([
+      { path: "src/legacy/**", type: "hardcoded-value", budget: 5, count: 2 },
+      { path: "src/legacy/**", type: "naming-inconsistency", budget: 0, count: 1 },
+    ]);
+    expect(unbudgeted.map((d) => d.id)).toEqual(["d"]);
+    expect(getExceededBudgets(statuses)).toEqual([statuses[1]]);
+  });
+
+  it("counts every type for a '*' budget", () => {
+    const { statuses, unbudgeted } = evaluateBudgets(DRIFTS, {
+      "src/": { "*": 10 },
+    });
+
+    expect(statuses[0]!.count).toBe(4);
+    expect(unbudgeted).toEqual([]);
+  });
+
+  it("only matches one directory level for a single star", () => {
+    const { statuses } = evaluateBudgets(DRIFTS, {
+      "src/legacy/*.tsx": { "hardcoded-value": 5 },
+    });
+
+    expect(statuses[0]!.count).toBe(1);
+  });
+
+  it("counts all drift but only reports checked drift as unbudgeted", () => {
+    // As in `buoy check --staged` with only Input.tsx and Modal.tsx staged
+    const checked = [DRIFTS[1]!, DRIFTS[3]!];
+    const { statuses, unbudgeted } = evaluateBudgets(
+      DRIFTS,
+      { "src/legacy/": { "hardcoded-value": 1 } },
+      checked,
+    );
+
+    expect(statuses[0]!.count).toBe(2);
+    expect(getExceededBudgets(statuses)).toHaveLength(1);
+    expect(unbudgeted.map((d) => d.id)).toEqual(["d"]);
+  });
+});
+
+describe("ratchetBudgets", () => {
+  it("lowers budgets to the current count and never raises them", () => {
+    const budgets = { "src/legacy/**": { "hardcoded-value": 5, "naming-inconsistency": 0 } };
+    const { statuses } = evaluateBudgets(DRIFTS, budgets);
+
+    const result = ratchetBudgets(budgets, statuses);
+
+    expect(result.budgets).toEqual({
+      "src/legacy/**": { "hardcoded-value": 2, "naming-inconsistency": 0 },
+    });
+    expect(result.lowered).toEqual([
+      { path: "src/legacy/**", type: "hardcoded-value", budget: 2, count: 2, previous: 5 },
+    ]);
+    expect(budgets["src/legacy/**"]["hardcoded-value"]).toBe(5);
+  });
+});
+
+describe("saveBudgets", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "buoy-budget-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("updates budgets in .buoy.yaml and keeps comments", async () => {
+    const configPath = join(dir, ".buoy.yaml");
+    await writeFile(
+      configPath,
+      [
+        "project:",
+        "  name: app",
+        "drift:",
+        "  budgets:",
+        "    # Legacy code we are migrating off",
+        "    src/legacy/**:",
+        "      hardcoded-value: 120",
+        "",
+      ].join("\n"),
+    );
+
+    await saveBudgets(configPath, [
+      { path: "src/legacy/**", type: "hardcoded-value", budget: 98, count: 98, previous: 120 },
+    ]);
+
+    const content = await readFile(configPath, "utf-8");
+    expect(content).toContain("# Legacy code we are migrating off");
+    expect(content).toContain("hardcoded-value: 98");
+  });
+
+  it("refuses to rewrite non-YAML config files", async () => {
+    await expect(saveBudgets(join(dir, "buoy.config.js"), [])).rejects.toThrow(
+      "Ratcheting can only update .buoy.yaml",
+    );
+  });
+});
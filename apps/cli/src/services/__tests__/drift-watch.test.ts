@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ScanCache } from "@buoy-design/scanners";
+import type { DriftSignal } from "@buoy-design/core";
+import { BuoyConfigSchema } from "../../config/schema.js";
+import { DriftAnalysisService } from "../drift-analysis.js";
+import {
+  IncrementalDriftAnalyzer,
+  diffDrifts,
+  watchFiles,
+} from "../drift-watch.js";
+
+const CLEAN_BUTTON = `export function Button() {
+  return <button className="btn">Save</button>;
+}
+`;
+
+const HARDCODED_BUTTON = `export function Button() {
+  return <button style={{ color: '#ff0000' }}>Save</button>;
+}
+`;
+
+const HARDCODED_CARD = `export function Card() {
+  return <div style={{ padding: '13px' }}>Card</div>;
+}
+`;
+
+function createDrift(id: string): DriftSignal {
+  return {
+    id,
+    type: "hardcoded-value",
+    severity: "warning",
+    source: { entityType: "component", entityId: id, entityName: id },
+    message: `Drift ${id}`,
+    details: {},
+    detectedAt: new Date("2025-01-01T00:00:00.000Z"),
+  };
+}
+
+describe("diffDrifts", () => {
+  it("reports introduced and resolved signals by id", () => {
+    const { introduced, resolved } = diffDrifts(
+      [createDrift("a"), createDrift("b")],
+      [createDrift("b"), createDrift("c")],
+    );
+
+    expect(introduced.map((d) => d.id)).toEqual(["c"]);
+    expect(resolved.map((d) => d.id)).toEqual(["a"]);
+  });
+});
+
+describe("IncrementalDriftAnalyzer", () => {
+  let projectRoot: string;
+  let cache: ScanCache;
+  const config = BuoyConfigSchema.parse({
+    project: { name: "test" },
+    sources: { react: { enabled: true, include: ["src/**/*.tsx"] } },
+  });
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), "buoy-watch-test-"));
+    await mkdir(join(projectRoot, "src"));
+    await writeFile(join(projectRoot, "src", "Button.tsx"), CLEAN_BUTTON);
+    await writeFile(join(projectRoot, "src", "Card.tsx"), HARDCODED_CARD);
+    cache = new ScanCache(projectRoot);
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it("reports drift introduced and resolved by a changed file", async () => {
+    const analyzer = new IncrementalDriftAnalyzer(config, cache, { projectRoot });
+    const initial = await analyzer.initialize();
+    expect(initial.map((d) => d.source.entityName)).toEqual(["Card"]);
+
+    await writeFile(join(projectRoot, "src", "Button.tsx"), HARDCODED_BUTTON);
+    const added = await analyzer.update(["src/Button.tsx"]);
+
+    expect(added.changedFiles).toEqual(["src/Button.tsx"]);
+    expect(added.componentsAnalyzed).toBe(1);
+    expect(added.introduced.map((d) => d.source.entityName)).toEqual(["Button"]);
+    expect(added.resolved).toEqual([]);
+    expect(added.drifts).toHaveLength(2);
+
+    await writeFile(join(projectRoot, "src", "Button.tsx"), CLEAN_BUTTON);
+    const removed = await analyzer.update([join(projectRoot, "src", "Button.tsx")]);
+
+    expect(removed.introduced).toEqual([]);
+    expect(removed.resolved.map((d) => d.source.entityName)).toEqual(["Button"]);
+    expect(analyzer.getDrifts().map((d) => d.source.entityName)).toEqual(["Card"]);
+  });
+
+  it("resolves drift from deleted files", async () => {
+    const analyzer = new IncrementalDriftAnalyzer(config, cache, { projectRoot });
+    await analyzer.initialize();
+
+    await rm(join(projectRoot, "src", "Card.tsx"));
+    const delta = await analyzer.update(["src/Card.tsx"]);
+
+    expect(delta.resolved.map((d) => d.source.entityName)).toEqual(["Card"]);
+    expect(delta.drifts).toEqual([]);
+  });
+
+  it("matches a full drift run, including token suggestions", async () => {
+    const withTokens = BuoyConfigSchema.parse({
+      project: { name: "test" },
+      sources: {
+        react: { enabled: true, include: ["src/**/*.tsx"] },
+        tokens: { enabled: true, files: ["tokens.css"] },
+      },
+    });
+    await writeFile(join(projectRoot, "tokens.css"), ":root { --color-danger: #ff0000; }");
+
+    const analyzer = new IncrementalDriftAnalyzer(withTokens, cache, { projectRoot });
+    await analyzer.initialize();
+    await writeFile(join(projectRoot, "src", "Button.tsx"), HARDCODED_BUTTON);
+    const delta = await analyzer.update(["src/Button.tsx"]);
+
+    const full = await new DriftAnalysisService(withTokens).analyze({ projectRoot });
+    expect(delta.drifts.map((d) => d.id).sort()).toEqual(full.drifts.map((d) => d.id).sort());
+    const button = delta.introduced.find((d) => d.source.entityName === "Button");
+    expect(button?.details.tokenSuggestions?.[0]).toContain("--color-danger");
+  });
+
+  it("ignores changes outside scanned sources", async () => {
+    const analyzer = new IncrementalDriftAnalyzer(config, cache, { projectRoot });
+    await analyzer.initialize();
+
+    await writeFile(join(projectRoot, "README.md"), "# Hi");
+    const delta = await analyzer.update(["README.md"]);
+
+    expect(delta.componentsAnalyzed).toBe(0);
+    expect(delta.introduced).toEqual([]);
+    expect(delta.resolved).toEqual([]);
+  });
+});
+
+describe("watchFiles", () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), "buoy-watch-fs-"));
+    await mkdir(join(projectRoot, "src"));
+    await mkdir(join(projectRoot, "node_modules"));
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it("batches changed paths and skips ignored directories", async () => {
+    const onChange = vi.fn();
+    const stop = watchFiles(projectRoot, onChange, { debounceMs: 50 });
+
+    try {
+      await writeFile(join(projectRoot, "node_modules", "dep.js"), "");
+      await writeFile(join(projectRoot, "src", "Button.tsx"), CLEAN_BUTTON);
+
+      await vi.waitFor(() => expect(onChange).toHaveBeenCalled(), { timeout: 2000 });
+      const files = onChange.mock.calls.flatMap(([batch]) => batch as string[]);
+      expect(files).toContain("src/Button.tsx");
+      expect(files.some((f) => f.startsWith("node_modules"))).toBe(false);
+    } finally {
+      stop();
+    }
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execSync } from "child_process";
+import { mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import {
+  runGraphQuery,
+  type CommitNodeAttributes,
+  type Component,
+  type DesignToken,
+  type DeveloperNodeAttributes,
+} from "@buoy-design/core";
+import {
+  buildGraph,
+  getGraphPath,
+  getGraphSummary,
+  getTokenNodeId,
+  loadGraph,
+} from "../graph-store.js";
+
+const FILES: Record<string, string> = {
+  "src/App.tsx": `import { Button } from "./Button";
+export function App() {
+  return <Button />;
+}
+`,
+  "src/Button.tsx": `import "./button.css";
+export function Button() { return <button />; }
+`,
+  "src/button.css": `button { color: var(--color-primary); background: #fff; }\n`,
+};
+
+const FILES_ONLY = { git: false, usages: true, imports: true };
+
+function createComponent(name: string, path: string): Component {
+  return {
+    id: `react:${path}:${name}`,
+    name,
+    source: { type: "react", path, exportName: name },
+    props: [],
+    variants: [],
+    tokens: [],
+    dependencies: [],
+    metadata: {},
+    scannedAt: new Date(),
+  };
+}
+
+function createToken(name: string, token: Pick<DesignToken, "category" | "value">): DesignToken {
+  return {
+    id: `css:tokens.css:${name}`,
+    name,
+    ...token,
+    source: { type: "css", path: "tokens.css" },
+    aliases: [],
+    usedBy: [],
+    metadata: {},
+    scannedAt: new Date(),
+  };
+}
+
+async function writeFiles(root: string, files: Record<string, string>): Promise<void> {
+  for (const [file, content] of Object.entries(files)) {
+    await mkdir(dirname(join(root, file)), { recursive: true });
+    await writeFile(join(root, file), content);
+  }
+}
+
+function commit(root: string, message: string): void {
+  execSync("git add -A", { cwd: root });
+  execSync(`git commit -q -m "${message}"`, { cwd: root });
+}
+
+describe("graph store", () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), "buoy-graph-"));
+    await writeFiles(projectRoot, FILES);
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it("returns null when no graph is stored", async () => {
+    expect(await loadGraph(projectRoot)).toBeNull();
+  });
+
+  it("builds and stores the graph", async () => {
+    const result = await buildGraph(projectRoot, FILES_ONLY);
+
+    expect(result.path).toBe(getGraphPath(projectRoot));
+    expect(result.incremental).toBe(false);
+    expect(result.filesCollected).toBe(3);
+    expect(getGraphSummary(result.stored.graph)).toEqual({
+      commits: 0,
+      developers: 0,
+      files: 3,
+      imports: 2,
+      tokenUsages: 1,
+      componentUsages: 1,
+    });
+
+    const stored = await loadGraph(projectRoot);
+    expect(stored?.graph.order).toBe(result.stored.graph.order);
+    expect(stored?.graph.size).toBe(result.stored.graph.size);
+    expect(Object.keys(stored?.fileHashes ?? {}).sort()).toEqual(Object.keys(FILES).sort());
+  });
+
+  it("links files to the tokens they reference", async () => {
+    const { stored } = await buildGraph(projectRoot, FILES_ONLY);
+    const tokenId = getTokenNodeId("--color-primary");
+
+    expect(stored.graph.hasNode(tokenId)).toBe(true);
+    expect(stored.graph.inNeighbors(tokenId)).toEqual(["file:src/button.css"]);
+    expect(getTokenNodeId("color.primary")).toBe(tokenId);
+  });
+
+  it("links scanned components to the tokens their files use", async () => {
+    await writeFiles(projectRoot, {
+      "src/legacy/Card.tsx": `import "./card.css";
+export function Card() { return <div className="card" />; }
+`,
+      "src/legacy/card.css": `.card { color: var(--color-primary); border-color: var(--color-border); padding: var(--space-md); }\n`,
+    });
+
+    const { stored } = await buildGraph(projectRoot, {
+      ...FILES_ONLY,
+      scan: {
+        components: [
+          createComponent("Button", "src/Button.tsx"),
+          createComponent("Card", "src/legacy/Card.tsx"),
+        ],
+        tokens: [
+          createToken("--color-primary", { category: "color", value: { type: "color", hex: "#2563eb" } }),
+          createToken("--color-border", { category: "color", value: { type: "color", hex: "#e5e7eb" } }),
+          createToken("--space-md", { category: "spacing", value: { type: "spacing", value: 16, unit: "px" } }),
+        ],
+      },
+    });
+
+    const result = runGraphQuery(
+      stored.graph,
+      'MATCH (c:Component)-[:USES]->(t:Token {category:"color"}) WHERE c.file ~ "legacy/" RETURN c, count(t)',
+    );
+
+    expect(result.rows).toHaveLength(1);
+    expect(result.rows[0]?.["c"]).toMatchObject({
+      type: "Component",
+      name: "Card",
+      filePath: "src/legacy/Card.tsx",
+    });
+    expect(result.rows[0]?.["count(t)"]).toBe(2);
+    expect(stored.graph.getNodeAttributes(getTokenNodeId("--color-primary"))).toMatchObject({
+      category: "color",
+      value: "#2563eb",
+    });
+  });
+
+  it("prunes components and tokens the latest scan no longer finds", async () => {
+    const primary = createToken("--color-primary", { category: "color", value: { type: "color", hex: "#2563eb" } });
+    const unused = createToken("--color-unused", { category: "color", value: { type: "color", hex: "#000000" } });
+    await buildGraph(projectRoot, {
+      ...FILES_ONLY,
+      scan: {
+        components: [createComponent("Button", "src/Button.tsx"), createComponent("App", "src/App.tsx")],
+        tokens: [primary, unused],
+      },
+    });
+
+    const { stored } = await buildGraph(projectRoot, {
+      ...FILES_ONLY,
+      scan: { components: [createComponent("Button", "src/Button.tsx")], tokens: [] },
+    });
+
+    expect(stored.graph.hasNode("component:react:src/App.tsx:App")).toBe(false);
+    expect(stored.graph.hasNode("component:react:src/Button.tsx:Button")).toBe(true);
+    expect(stored.graph.hasNode(getTokenNodeId("--color-unused"))).toBe(false);
+    // Still referenced by button.css
+    expect(stored.graph.getNodeAttributes(getTokenNodeId("--color-primary"))).toMatchObject({
+      category: "",
+      value: "",
+      source: "usage",
+    });
+  });
+
+  it("only re-collects changed and removed files", async () => {
+    await buildGraph(projectRoot, FILES_ONLY);
+
+    await writeFile(
+      join(projectRoot, "src/App.tsx"),
+      `export function App() { return null; }\n`,
+    );
+    const updated = await buildGraph(projectRoot, FILES_ONLY);
+
+    expect(updated.incremental).toBe(true);
+    expect(updated.filesCollected).toBe(1);
+    expect(getGraphSummary(updated.stored.graph)).toMatchObject({
+      imports: 1,
+      componentUsages: 0,
+    });
+
+    await rm(join(projectRoot, "src/button.css"));
+    const removed = await buildGraph(projectRoot, FILES_ONLY);
+
+    expect(removed.filesCollected).toBe(0);
+    expect(removed.filesRemoved).toBe(1);
+    expect(getGraphSummary(removed.stored.graph)).toMatchObject({
+      imports: 1,
+      tokenUsages: 0,
+    });
+    expect(removed.stored.graph.hasNode(getTokenNodeId("--color-primary"))).toBe(false);
+  });
+
+  it("rebuilds when asked for a full build or different options", async () => {
+    await buildGraph(projectRoot, FILES_ONLY);
+
+    expect((await buildGraph(projectRoot, { ...FILES_ONLY, full: true })).incremental).toBe(false);
+    expect((await buildGraph(projectRoot, { ...FILES_ONLY, usages: false })).incremental).toBe(false);
+  });
+
+  it("adds only new commits to the stored history", async () => {
+    execSync("git init -q", { cwd: projectRoot });
+    execSync('git config user.email "test@test.com"', { cwd: projectRoot });
+    execSync('git config user.name "Test"', { cwd: projectRoot });
+    commit(projectRoot, "Add app");
+
+    const gitOnly = { git: true, usages: false, imports: false };
+    const first = await buildGraph(projectRoot, gitOnly);
+    expect(first.commitsAdded).toBe(1);
+
+    await writeFile(join(projectRoot, "src/Card.tsx"), "export function Card() {}\n");
+    commit(projectRoot, "Add card");
+    const second = await buildGraph(projectRoot, gitOnly);
+
+    expect(second.incremental).toBe(true);
+    expect(second.commitsAdded).toBe(1);
+
+    const stored = await loadGraph(projectRoot);
+    const graph = stored!.graph;
+    expect(getGraphSummary(graph)).toMatchObject({ commits: 2, developers: 1 });
+
+    const developer = graph.findNode(
+      (_node, attrs) => attrs.type === "Developer",
+    );
+    expect((graph.getNodeAttributes(developer!) as DeveloperNodeAttributes).commitCount).toBe(2);
+
+    const commitNode = graph.findNode((_node, attrs) => attrs.type === "Commit");
+    expect((graph.getNodeAttributes(commitNode!) as CommitNodeAttributes).timestamp).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { DriftSignal, Intent } from "@buoy-design/core";
+import {
+  findIntent,
+  getIntentFileName,
+  getIntentsDir,
+  loadIntents,
+  parseExpiry,
+  saveIntent,
+} from "../intent-store.js";
+import { applyIntents } from "../drift-analysis.js";
+
+function createIntent(overrides: Partial<Intent> = {}): Intent {
+  return {
+    id: "intent:component:Button:exception:1712345678901",
+    entityType: "component",
+    entityId: "Button",
+    entityName: "Button",
+    decision: {
+      type: "exception",
+      status: "active",
+      title: "Legacy brand colors",
+      description: "",
+      rationale: "Rebrand lands in Q3",
+    },
+    context: {},
+    createdAt: new Date("2025-01-01T00:00:00.000Z"),
+    ...overrides,
+  };
+}
+
+function createDrift(id: string, entityName: string): DriftSignal {
+  return {
+    id,
+    type: "hardcoded-value",
+    severity: "warning",
+    source: {
+      entityType: "component",
+      entityId: `react:src/${entityName}.tsx:${entityName}`,
+      entityName,
+      location: `src/${entityName}.tsx:3`,
+    },
+    message: `Drift ${id}`,
+    details: {},
+    detectedAt: new Date("2025-01-01T00:00:00.000Z"),
+  };
+}
+
+describe("intent store", () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), "buoy-intents-"));
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it("returns nothing when no intents are recorded", async () => {
+    expect(await loadIntents(projectRoot)).toEqual({ files: [], errors: [] });
+  });
+
+  it("round-trips intents through YAML files", async () => {
+    const intent = createIntent({ expiresAt: new Date("2025-06-30T00:00:00.000Z") });
+    const path = await saveIntent(intent, undefined, projectRoot);
+
+    expect(path).toBe(
+      join(getIntentsDir(projectRoot), "component-button-exception-1712345678901.yaml"),
+    );
+    expect(await readFile(path, "utf-8")).toContain("expiresAt: 2025-06-30T00:00:00.000Z");
+
+    const { files, errors } = await loadIntents(projectRoot);
+    expect(errors).toEqual([]);
+    expect(files).toEqual([{ path, intent }]);
+  });
+
+  it("reports invalid intent files without failing", async () => {
+    await saveIntent(createIntent(), undefined, projectRoot);
+    await writeFile(
+      join(getIntentsDir(projectRoot), "broken.yaml"),
+      "id: x\nentityType: widget\n",
+    );
+
+    const { files, errors } = await loadIntents(projectRoot);
+    expect(files).toHaveLength(1);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^broken\.yaml: /);
+  });
+
+  it("finds intents by id or file name prefix", async () => {
+    await saveIntent(createIntent(), undefined, projectRoot);
+    await saveIntent(
+      createIntent({ id: "intent:token:color-brand:deprecation:1712345678902", entityType: "token" }),
+      undefined,
+      projectRoot,
+    );
+    const { files } = await loadIntents(projectRoot);
+
+    expect(findIntent(files, "intent:component:Button:exception:1712345678901")?.intent.entityType).toBe("component");
+    expect(findIntent(files, "token-color")?.intent.entityType).toBe("token");
+    expect(findIntent(files, "component-button-exception-1712345678901.yaml")).toBeDefined();
+    expect(findIntent(files, "nope")).toBeUndefined();
+  });
+});
+
+describe("getIntentFileName", () => {
+  it("slugifies the intent id", () => {
+    expect(
+      getIntentFileName(createIntent({ id: "intent:pattern:hardcoded-value:exception:42" })),
+    ).toBe("pattern-hardcoded-value-exception-42.yaml");
+  });
+});
+
+describe("parseExpiry", () => {
+  const now = new Date("2025-01-15T12:00:00.000Z");
+
+  it("parses durations from now", () => {
+    expect(parseExpiry("30d", now).toISOString()).toBe("2025-02-14T12:00:00.000Z");
+    expect(parseExpiry("2w", now).toISOString()).toBe("2025-01-29T12:00:00.000Z");
+    expect(parseExpiry("3m", now).getUTCMonth()).toBe(3);
+  });
+
+  it("parses dates", () => {
+    expect(parseExpiry("2025-06-30", now).toISOString()).toBe("2025-06-30T00:00:00.000Z");
+  });
+
+  it("rejects anything else", () => {
+    expect(() => parseExpiry("soon", now)).toThrow(/Invalid expiry "soon"/);
+  });
+});
+
+describe("applyIntents", () => {
+  const drifts = [createDrift("drift:1", "Button"), createDrift("drift:2", "Card")];
+
+  it("suppresses drift covered by an active exception", () => {
+    const result = applyIntents(drifts, [createIntent()]);
+
+    expect(result.suppressedCount).toBe(1);
+    expect(result.drifts.map((d) => d.id)).toEqual(["drift:2"]);
+  });
+
+  it("re-raises drift once the exception expires, annotated", () => {
+    const expiresAt = new Date(Date.now() - 1000);
+    const result = applyIntents(drifts, [createIntent({ expiresAt })]);
+
+    expect(result.suppressedCount).toBe(0);
+    expect(result.drifts[0]?.details.intent).toEqual({
+      id: "intent:component:Button:exception:1712345678901",
+      type: "exception",
+      status: "expired",
+      title: "Legacy brand colors",
+      expiresAt,
+    });
+    expect(result.drifts[1]?.details.intent).toBeUndefined();
+  });
+
+  it("annotates drift covered by other active decisions", () => {
+    const migration = createIntent({
+      id: "intent:component:Card:migration:1",
+      entityId: "Card",
+      entityName: "Card",
+      decision: {
+        type: "migration",
+        status: "active",
+        title: "Move to Surface",
+        description: "",
+        rationale: "Card is being replaced",
+      },
+    });
+    const result = applyIntents(drifts, [migration]);
+
+    expect(result.drifts).toHaveLength(2);
+    expect(result.drifts[1]?.details.intent).toMatchObject({
+      type: "migration",
+      status: "active",
+    });
+  });
+
+  it("ignores archived decisions", () => {
+    const archived = createIntent({
+      decision: { ...createIntent().decision, status: "archived" },
+    });
+
+    expect(applyIntents(drifts, [archived])).toEqual({ drifts, suppressedCount: 0 });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import type { Component, PropDefinition } from "@buoy-design/core";
+import { BuoyConfigSchema } from "../../config/schema.js";
+import {
+  buildParityReport,
+  countMismatches,
+  getParitySources,
+} from "../parity.js";
+import {
+  formatParityMarkdown,
+  formatParityReport,
+} from "../../output/parity-formatters.js";
+
+function prop(name: string, type: string, required = false): PropDefinition {
+  return { name, type, required };
+}
+
+function codeComponent(name: string, props: PropDefinition[] = []): Component {
+  return {
+    id: `react:src/${name}.tsx:${name}`,
+    name,
+    source: { type: "react", path: `src/${name}.tsx`, exportName: name },
+    props,
+    variants: [],
+    tokens: [],
+    dependencies: [],
+    metadata: {},
+    scannedAt: new Date(),
+  };
+}
+
+function figmaComponent(
+  name: string,
+  props: PropDefinition[] = [],
+  variants: Component["variants"] = [],
+): Component {
+  return {
+    id: `figma:abc:${name}`,
+    name,
+    source: { type: "figma", fileKey: "abc", nodeId: `1:${name.length}` },
+    props,
+    variants,
+    tokens: [],
+    dependencies: [],
+    metadata: {},
+    scannedAt: new Date(),
+  };
+}
+
+describe("buildParityReport", () => {
+  const code = [
+    codeComponent("Button", [
+      prop("size", '"sm" | "md" | "lg"'),
+      prop("disabled", "boolean"),
+    ]),
+    codeComponent("Card", [prop("title", "string")]),
+    codeComponent("Tooltip"),
+  ];
+  const figma = [
+    figmaComponent(
+      "Button",
+      [prop("iconLeft", "boolean")],
+      [
+        { name: "Size=sm", props: { size: "sm" } },
+        { name: "Size=md", props: { size: "md" } },
+        { name: "Size=xl", props: { size: "xl" } },
+      ],
+    ),
+    figmaComponent("Card", [prop("title", "string")]),
+    figmaComponent("Avatar"),
+  ];
+
+  it("reports matched and orphaned components per design source", () => {
+    const report = buildParityReport(code, { figma });
+    const [source] = report.sources;
+
+    expect(report.codeComponents).toBe(3);
+    expect(source).toMatchObject({
+      source: "figma",
+      designComponents: 3,
+      codeOnly: ["Tooltip"],
+      designOnly: ["Avatar"],
+    });
+    expect(source?.matched.map((p) => p.component)).toEqual(["Button", "Card"]);
+    expect(source?.coverage).toBeCloseTo(2 / 3);
+  });
+
+  it("lists prop and variant mismatches for each pair", () => {
+    const report = buildParityReport(code, { figma });
+    const button = report.sources[0]?.matched.find((p) => p.component === "Button");
+
+    expect(button?.path).toBe("src/Button.tsx");
+    expect(button?.props).toEqual([
+      { name: "disabled", issue: "missing-in-design", code: "boolean" },
+      { name: "iconLeft", issue: "missing-in-code", design: "boolean" },
+    ]);
+    expect(button?.variants).toEqual([
+      { name: "size=lg", issue: "missing-in-design", code: "lg" },
+      { name: "size=xl", issue: "missing-in-code", design: "xl" },
+    ]);
+
+    const card = report.sources[0]?.matched.find((p) => p.component === "Card");
+    expect(card && countMismatches(card)).toBe(0);
+  });
+
+  it("reports type mismatches", () => {
+    const report = buildParityReport(
+      [codeComponent("Card", [prop("elevation", "number")])],
+      { storybook: [figmaComponent("Card", [prop("elevation", "string")])] },
+    );
+
+    expect(report.sources[0]?.source).toBe("storybook");
+    expect(report.sources[0]?.matched[0]?.props).toEqual([
+      { name: "elevation", issue: "type-mismatch", code: "number", design: "string" },
+    ]);
+  });
+
+  it("formats markdown for design reviews", () => {
+    const markdown = formatParityMarkdown(buildParityReport(code, { figma }));
+
+    expect(markdown).toContain("# Design Parity Report");
+    expect(markdown).toContain("| 2 | 1 | 1 | 67% |");
+    expect(markdown).toContain("| Prop | disabled | missing in design | `boolean` | — |");
+    expect(markdown).toContain("| Variant | size=xl | missing in code | — | `xl` |");
+    expect(markdown).toContain("### In sync\n\nCard");
+    expect(markdown).toContain("### Only in Figma\n\n- Avatar");
+  });
+
+  it("formats a terminal summary", () => {
+    const output = formatParityReport(buildParityReport(code, { figma }));
+
+    expect(output).toContain("Figma ↔ Code");
+    expect(output).toContain("size=lg");
+    expect(output).toContain("Only in code:");
+  });
+});
+
+describe("getParitySources", () => {
+  it("splits enabled sources into code and design sources", () => {
+    const config = BuoyConfigSchema.parse({
+      project: { name: "test" },
+      sources: {
+        react: { enabled: true },
+        tokens: { enabled: true },
+        storybook: { enabled: true, staticDir: "storybook-static" },
+      },
+    });
+
+    expect(getParitySources(config)).toEqual({
+      code: ["react"],
+      design: ["storybook"],
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import type { DesignToken } from "@buoy-design/core";
+import {
+  buildTokenContrastReport,
+  parseContrastPairs,
+} from "../token-contrast.js";
+import { formatContrastHtml } from "../../output/contrast-formatters.js";
+
+function colorToken(name: string, hex: string): DesignToken {
+  return {
+    id: `css:tokens.css:${name}`,
+    name,
+    category: "color",
+    value: { type: "color", hex },
+    source: { type: "css", path: "tokens.css" },
+    aliases: [],
+    usedBy: [],
+    metadata: {},
+    scannedAt: new Date(),
+  };
+}
+
+const TOKENS: DesignToken[] = [
+  colorToken("--primary", "#2563eb"),
+  colorToken("--primary-foreground", "#ffffff"),
+  colorToken("--surface", "#ffffff"),
+  colorToken("--text-muted", "#d4d4d8"),
+];
+
+describe("buildTokenContrastReport", () => {
+  it("checks documented and explicit pairings, failing first", () => {
+    const report = buildTokenContrastReport(TOKENS, {
+      pairs: [{ foreground: "text-muted", background: "surface" }],
+    });
+
+    expect(report.matrix.pairs).toHaveLength(12);
+    expect(report.pairings.map((p) => [p.foreground, p.background, p.source, p.wcag])).toEqual([
+      ["--text-muted", "--surface", "explicit", "fail"],
+      ["--primary-foreground", "--primary", "naming", "AA"],
+    ]);
+    expect(report.drifts).toHaveLength(1);
+    expect(report.drifts[0]!.source.entityName).toBe("--text-muted");
+  });
+
+  it("checks pairings in every mode and reports the failing mode", () => {
+    const report = buildTokenContrastReport([
+      colorToken("--primary", "#2563eb"),
+      {
+        ...colorToken("--primary-foreground", "#ffffff"),
+        modes: { dark: { type: "color", hex: "#3b82f6" } },
+      },
+    ]);
+
+    expect(report.pairings.map((p) => [p.mode, p.wcag])).toEqual([
+      ["dark", "fail"],
+      [undefined, "AA"],
+    ]);
+    expect(report.drifts).toHaveLength(1);
+    expect(report.drifts[0]!.message).toContain("in dark mode");
+  });
+
+  it("rejects self-pairings and unknown token names", () => {
+    expect(() =>
+      buildTokenContrastReport(TOKENS, { pairs: parseContrastPairs(["primary:primary"]) }),
+    ).toThrow("uses the same token as foreground and background");
+    expect(() =>
+      buildTokenContrastReport(TOKENS, { pairs: parseContrastPairs(["primery:surface"]) }),
+    ).toThrow('Unknown color token "primery"');
+  });
+});
+
+describe("parseContrastPairs", () => {
+  it("splits foreground and background on the last colon", () => {
+    expect(parseContrastPairs(["text-muted:surface", "a:b:c"])).toEqual([
+      { foreground: "text-muted", background: "surface" },
+      { foreground: "a:b", background: "c" },
+    ]);
+  });
+
+  it("rejects values without both sides", () => {
+    expect(() => parseContrastPairs(["surface"])).toThrow(
+      'Invalid pair "surface", expected foreground:background',
+    );
+    expect(() => parseContrastPairs([":surface"])).toThrow("Invalid pair");
+  });
+});
+
+describe("formatContrastHtml", () => {
+  it("renders the matrix with documented pairings outlined", () => {
+    const html = formatContrastHtml(buildTokenContrastReport(TOKENS));
+
+    expect(html).toContain("<h2>Documented pairings (1)</h2>");
+    expect(html).toContain('<td class="documented"');
+    expect(html).toContain('title="--primary-foreground on --primary"');
+    expect(html).toContain("Lc ");
+  });
+
+  it("escapes token names", () => {
+    const html = formatContrastHtml(
+      buildTokenContrastReport([colorToken("<b>", "#000000"), colorToken("x", "#ffffff")]),
+    );
+
+    expect(html).toContain("&lt;b&gt;");
+    expect(html).not.toContain("<b>");
+  });
+});
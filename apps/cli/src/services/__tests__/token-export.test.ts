@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import type { DesignToken } from "@buoy-design/core";
+import { BuoyConfigSchema } from "../../config/schema.js";
+import { buildTokenExports, getExportPlatforms } from "../token-export.js";
+
+const TOKENS: DesignToken[] = [
+  {
+    id: "json:tokens.json:color.primary",
+    name: "color.primary",
+    category: "color",
+    value: { type: "color", hex: "#2563eb" },
+    source: { type: "json", path: "tokens.json" },
+    aliases: [],
+    usedBy: [],
+    metadata: {},
+    scannedAt: new Date(),
+  },
+];
+
+const config = BuoyConfigSchema.parse({
+  project: { name: "app" },
+  sources: {
+    tokens: {
+      files: ["tokens.json"],
+      platforms: [
+        { format: "scss", output: "web/_tokens.scss", prefix: "ds" },
+        { format: "swift", output: "ios/Tokens.swift", name: "Tokens" },
+        { format: "kotlin", output: "android/Tokens.kt" },
+      ],
+    },
+  },
+});
+
+describe("getExportPlatforms", () => {
+  it("returns every configured platform by default", () => {
+    expect(getExportPlatforms(config).map((p) => p.output)).toEqual([
+      "web/_tokens.scss",
+      "ios/Tokens.swift",
+      "android/Tokens.kt",
+    ]);
+  });
+
+  it("filters by format, defaulting unconfigured formats", () => {
+    expect(getExportPlatforms(config, ["swift", "dtcg"])).toEqual([
+      { format: "swift", output: "ios/Tokens.swift", name: "Tokens" },
+      { format: "dtcg", output: "build/tokens/tokens.json" },
+    ]);
+    expect(() => getExportPlatforms(config, ["xml"])).toThrow('Unknown export format "xml"');
+  });
+});
+
+describe("buildTokenExports", () => {
+  it("formats the same tokens for each platform", () => {
+    const files = buildTokenExports(TOKENS, getExportPlatforms(config));
+
+    expect(files[0]!.content).toContain("$ds-color-primary: #2563eb;");
+    expect(files[1]!.content).toContain("public enum Tokens {");
+    expect(files[2]!.content).toContain("val colorPrimary = Color(0xFF2563EB)");
+  });
+});
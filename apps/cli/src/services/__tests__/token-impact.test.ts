@@ -0,0 +1,206 @@
+import { describe, it, expect } from "vitest";
+import {
+  createGraph,
+  addNode,
+  addEdge,
+  type Component,
+  type DesignSystemGraph,
+  type DesignToken,
+} from "@buoy-design/core";
+import {
+  buildTokenImpactReport,
+  estimateVisualRisk,
+} from "../token-impact.js";
+import { formatTokenImpactChecklist } from "../../output/impact-formatters.js";
+
+function file(graph: DesignSystemGraph, path: string): string {
+  return addNode(graph, "File", path, { name: path.split("/").pop()!, path, extension: "" });
+}
+
+function commit(graph: DesignSystemGraph, sha: string, author: string, files: string[]): void {
+  const id = addNode(graph, "Commit", sha, {
+    name: sha,
+    sha,
+    message: sha,
+    author,
+    timestamp: new Date(),
+  });
+  for (const path of files) {
+    addEdge(graph, "CHANGED", id, `file:${path}`);
+  }
+}
+
+function createTestGraph(): DesignSystemGraph {
+  const graph = createGraph();
+  const token = addNode(graph, "Token", "color-primary", {
+    name: "color-primary",
+    category: "",
+    value: "",
+    source: "usage",
+  });
+
+  const css = file(graph, "src/components/button.css");
+  const button = file(graph, "src/components/Button.tsx");
+  const story = file(graph, "src/components/Button.stories.tsx");
+  const app = file(graph, "src/App.tsx");
+  file(graph, "src/Unrelated.tsx");
+
+  addEdge(graph, "USES", css, token);
+  addEdge(graph, "IMPORTS", button, css);
+  addEdge(graph, "IMPORTS", story, button);
+  addEdge(graph, "IMPORTS", app, button);
+
+  commit(graph, "a1", "Alice", ["src/components/button.css", "src/components/Button.tsx"]);
+  commit(graph, "b1", "Bob", ["src/App.tsx"]);
+
+  return graph;
+}
+
+const TOKENS: DesignToken[] = [
+  {
+    id: "css:src/tokens.css:--color-primary",
+    name: "--color-primary",
+    category: "color",
+    value: { type: "color", hex: "#2563eb" },
+    source: { type: "css", path: "src/tokens.css" },
+    aliases: [],
+    usedBy: [],
+    metadata: {},
+    scannedAt: new Date(),
+  },
+];
+
+const COMPONENTS: Component[] = [
+  {
+    id: "react:src/components/Button.tsx:Button",
+    name: "Button",
+    source: { type: "react", path: "src/components/Button.tsx", exportName: "Button" },
+    props: [],
+    variants: [],
+    tokens: [],
+    dependencies: [],
+    metadata: {},
+    scannedAt: new Date(),
+  },
+];
+
+describe("buildTokenImpactReport", () => {
+  it("reports components, files, stories and owners touched by a change", () => {
+    const report = buildTokenImpactReport(createTestGraph(), "--color-primary", {
+      tokens: TOKENS,
+      components: COMPONENTS,
+      value: "#1d4ed8",
+    });
+
+    expect(report).toMatchObject({
+      token: "--color-primary",
+      category: "color",
+      change: "update",
+      currentValue: "#2563eb",
+      newValue: "#1d4ed8",
+      spreadRisk: "low",
+    });
+    expect(report.components).toEqual([
+      { name: "Button", path: "src/components/Button.tsx", owner: "Alice" },
+    ]);
+    expect(report.files).toEqual([
+      { path: "src/components/button.css", direct: true, owner: "Alice" },
+      { path: "src/App.tsx", direct: false, owner: "Bob" },
+      { path: "src/components/Button.tsx", direct: false, owner: "Alice" },
+    ]);
+    expect(report.stories).toEqual([
+      { path: "src/components/Button.stories.tsx", direct: false, owner: null },
+    ]);
+    expect(report.owners).toEqual([
+      { name: "Alice", files: 2 },
+      { name: "Bob", files: 1 },
+    ]);
+  });
+
+  it("finds the token by any spelling of its name", () => {
+    const report = buildTokenImpactReport(createTestGraph(), "color.primary", {
+      tokens: TOKENS,
+      components: [],
+    });
+
+    expect(report.token).toBe("--color-primary");
+    expect(report.change).toBe("delete");
+    expect(report.visualRisk).toEqual({
+      level: "high",
+      reason: "1 file would reference a missing token",
+    });
+  });
+
+  it("counts files, not the components defined in them, when rating a delete", () => {
+    const graph = createTestGraph();
+    for (const name of ["Button", "IconButton"]) {
+      const component = addNode(graph, "Component", name, {
+        name,
+        filePath: "src/components/Button.tsx",
+        framework: "react",
+      });
+      addEdge(graph, "USES", component, "token:color-primary");
+    }
+
+    const report = buildTokenImpactReport(graph, "--color-primary", {
+      tokens: TOKENS,
+      components: COMPONENTS,
+    });
+
+    expect(report.visualRisk.reason).toBe("1 file would reference a missing token");
+  });
+
+  it("reports nothing for tokens no file references", () => {
+    const report = buildTokenImpactReport(createTestGraph(), "--color-unused", {
+      tokens: [],
+      components: COMPONENTS,
+    });
+
+    expect(report.files).toEqual([]);
+    expect(report.components).toEqual([]);
+    expect(report.visualRisk.level).toBe("none");
+  });
+});
+
+describe("estimateVisualRisk", () => {
+  it("rates color changes by perceived difference", () => {
+    expect(estimateVisualRisk("#2563eb", "#2563EB").level).toBe("none");
+    expect(estimateVisualRisk("#2563eb", "#2564eb").level).toBe("low");
+    expect(estimateVisualRisk("#2563eb", "#1d4ed8").level).toBe("medium");
+    expect(estimateVisualRisk("#2563eb", "rgb(220, 38, 38)").level).toBe("high");
+  });
+
+  it("rates size changes by relative difference", () => {
+    expect(estimateVisualRisk("16px", "1rem").level).toBe("none");
+    expect(estimateVisualRisk("16px", "17px").level).toBe("low");
+    expect(estimateVisualRisk("16px", "1.25rem")).toEqual({
+      level: "medium",
+      reason: "Size changes by +4px, 25% (16px → 1.25rem)",
+    });
+    expect(estimateVisualRisk("16px", "4px").level).toBe("high");
+  });
+
+  it("can't rate values it doesn't understand", () => {
+    expect(estimateVisualRisk(null, "#fff").level).toBe("unknown");
+    expect(estimateVisualRisk("Inter", "Roboto").level).toBe("unknown");
+  });
+});
+
+describe("formatTokenImpactChecklist", () => {
+  it("renders a markdown checklist for the PR", () => {
+    const report = buildTokenImpactReport(createTestGraph(), "--color-primary", {
+      tokens: TOKENS,
+      components: COMPONENTS,
+      value: "#1d4ed8",
+    });
+
+    const checklist = formatTokenImpactChecklist(report);
+
+    expect(checklist).toContain("## Token change: `--color-primary`");
+    expect(checklist).toContain("`#2563eb` → `#1d4ed8`");
+    expect(checklist).toContain("- [ ] Button (`src/components/Button.tsx`) — Alice");
+    expect(checklist).toContain("- [ ] `src/components/Button.stories.tsx` (imports an affected file)");
+    expect(checklist).toContain("- [ ] `src/components/button.css` (uses the token) — Alice");
+    expect(checklist).toContain("- [ ] Bob (1 file)");
+  });
+});
@@ -0,0 +1,187 @@
+// apps/cli/src/services/design-system-data.ts
+/**
+ * Design system data shared by the MCP and language servers
+ *
+ * Lazily scanned project data, drift analysis of in-memory code and token
+ * fix suggestions for single hardcoded values.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { extname, join } from "path";
+import type { Component, DesignToken, DriftSignal, Fix } from "@buoy-design/core";
+import { generateFixes } from "@buoy-design/core";
+import type { BuoyConfig } from "../config/schema.js";
+import { ScanOrchestrator, type ScannerSource } from "../scan/orchestrator.js";
+import { applyIgnoreRules, applySeverityOverrides } from "./drift-analysis.js";
+
+/**
+ * Lazily scanned project data shared by all tools in a session
+ */
+export interface DesignSystemData {
+  config: BuoyConfig;
+  projectRoot: string;
+  getComponents(refresh?: boolean): Promise<Component[]>;
+  getTokens(refresh?: boolean): Promise<DesignToken[]>;
+}
+
+/**
+ * Create project data backed by the scan orchestrator. Results are cached for
+ * the lifetime of the server; tools accept `refresh` to rescan.
+ */
+export function createProjectData(
+  config: BuoyConfig,
+  projectRoot: string = process.cwd(),
+): DesignSystemData {
+  const orchestrator = new ScanOrchestrator(config, projectRoot);
+  let components: Promise<Component[]> | null = null;
+  let tokens: Promise<DesignToken[]> | null = null;
+
+  return {
+    config,
+    projectRoot,
+    getComponents(refresh = false) {
+      if (!components || refresh) {
+        components = orchestrator.scanComponents().then((r) => r.components);
+        components.catch(() => (components = null));
+      }
+      return components;
+    },
+    getTokens(refresh = false) {
+      if (!tokens || refresh) {
+        tokens = orchestrator.scanTokens().then((r) => r.tokens);
+        tokens.catch(() => (tokens = null));
+      }
+      return tokens;
+    },
+  };
+}
+
+// Snippet file extensions and the scanner that understands them
+const SNIPPET_SOURCES: Record<string, ScannerSource> = {
+  ".tsx": "react",
+  ".jsx": "react",
+  ".ts": "react",
+  ".js": "react",
+  ".vue": "vue",
+  ".svelte": "svelte",
+};
+
+/**
+ * Run drift analysis on an in-memory code string.
+ *
+ * The snippet is written to a scratch directory and scanned with the scanner
+ * for its file type, then diffed against the project's tokens. Locations are
+ * reported against `filename` so they line up with the agent's file.
+ */
+export async function analyzeSnippet(
+  code: string,
+  filename: string,
+  config: BuoyConfig,
+  tokens: DesignToken[],
+): Promise<DriftSignal[]> {
+  const ext = extname(filename).toLowerCase();
+  const source = SNIPPET_SOURCES[ext];
+  if (!source) {
+    throw new Error(
+      `Unsupported file type "${ext || filename}". Supported: ${Object.keys(SNIPPET_SOURCES).join(", ")}`,
+    );
+  }
+
+  const scratchDir = mkdtempSync(join(tmpdir(), "buoy-snippet-"));
+  const scratchFile = `snippet${ext}`;
+
+  try {
+    writeFileSync(join(scratchDir, scratchFile), code);
+
+    const snippetConfig: BuoyConfig = {
+      ...config,
+      sources: {
+        [source]: {
+          enabled: true,
+          include: [scratchFile],
+          exclude: [],
+          designSystemPackage: config.sources.react?.designSystemPackage,
+        },
+      },
+    };
+
+    const orchestrator = new ScanOrchestrator(snippetConfig, scratchDir);
+    const { components } = await orchestrator.scanComponents({ sources: [source] });
+
+    const { SemanticDiffEngine } = await import("@buoy-design/core/analysis");
+    const engine = new SemanticDiffEngine();
+    const { drifts } = engine.analyzeComponents(components, {
+      checkDeprecated: true,
+      checkNaming: true,
+      checkDocumentation: false,
+      availableTokens: tokens,
+    });
+
+    const relocate = (text: string) => text.split(scratchFile).join(filename);
+    const relocated = drifts.map((drift) => ({
+      ...drift,
+      id: relocate(drift.id),
+      source: {
+        ...drift.source,
+        entityId: relocate(drift.source.entityId),
+        location: relocate(drift.source.location),
+      },
+    }));
+
+    return applyIgnoreRules(
+      applySeverityOverrides(relocated, config.drift.severity),
+      config.drift.ignore,
+    );
+  } finally {
+    rmSync(scratchDir, { recursive: true, force: true });
+  }
+}
+
+type FixType = Fix["fixType"];
+
+const PROPERTY_FIX_TYPES: Array<[RegExp, FixType]> = [
+  [/radius/i, "hardcoded-radius"],
+  [/font-?size/i, "hardcoded-font-size"],
+  [/colou?r|background|fill|stroke|border-?color|outline-?color/i, "hardcoded-color"],
+  [/padding|margin|gap|inset|top|right|bottom|left|width|height/i, "hardcoded-spacing"],
+];
+
+/**
+ * Infer which kind of hardcoded value this is from the CSS property or the value itself
+ */
+export function inferFixType(value: string, property?: string): FixType {
+  if (property) {
+    const match = PROPERTY_FIX_TYPES.find(([pattern]) => pattern.test(property));
+    if (match) return match[1];
+  }
+  return /^(#|rgba?\(|hsla?\()/i.test(value.trim()) ? "hardcoded-color" : "hardcoded-spacing";
+}
+
+/**
+ * Suggest the token replacement for a hardcoded value using the fix generator
+ */
+export function suggestFix(
+  value: string,
+  tokens: DesignToken[],
+  options: { property?: string; file?: string; line?: number; column?: number } = {},
+): Fix | null {
+  const fixType = inferFixType(value, options.property);
+  const file = options.file || "snippet";
+  const drift: DriftSignal = {
+    id: `mcp:${fixType}:${value}`,
+    type: fixType as DriftSignal["type"],
+    severity: "warning",
+    source: {
+      entityType: "component",
+      entityId: file,
+      entityName: file,
+      location: `${file}:${options.line ?? 1}:${options.column ?? 1}`,
+    },
+    message: `Hardcoded value ${value}`,
+    details: { actual: value, ...(options.property && { property: options.property }) },
+    detectedAt: new Date(),
+  };
+
+  return generateFixes([drift], tokens, { minConfidence: "low" })[0] ?? null;
+}
@@ -6,13 +6,26 @@
  * 1. Scanning components via ScanOrchestrator
  * 2. Running SemanticDiffEngine analysis
  * 3. Applying ignore rules from config
- * 4. Filtering against baseline
+ * 4. Attaching CODEOWNERS owners
+ * 5. Applying design decisions recorded with `buoy intent`
+ * 6. Filtering against baseline
  */
 
-import type { DriftSignal, Severity, Component } from "@buoy-design/core";
+import type {
+  DriftSignal,
+  Severity,
+  Component,
+  DesignToken,
+  Intent,
+  UsageEvidence,
+} from "@buoy-design/core";
 import type { BuoyConfig } from "../config/schema.js";
 import { ScanOrchestrator } from "../scan/orchestrator.js";
-import { getSeverityWeight } from "@buoy-design/core";
+import {
+  getSeverityWeight,
+  getIntentStatus,
+  intentMatchesDrift,
+} from "@buoy-design/core";
 import { TailwindScanner, ScanCache, extractStaticClassStrings } from "@buoy-design/scanners";
 import {
   detectRepeatedPatterns,
@@ -20,12 +33,21 @@ import {
   checkExampleCompliance,
   detectTokenUtilities,
   checkTokenUtilityUsage,
+  buildUsageIndex,
+  parseCodeowners,
+  assignDriftOwners,
+  CODEOWNERS_PATHS,
   type ClassOccurrence,
+  type CodeownersRule,
 } from "@buoy-design/core";
 import { glob } from "glob";
+import { existsSync } from "fs";
 import { readFile } from "fs/promises";
+import { dirname, join, relative, resolve } from "path";
 
 export interface DriftAnalysisOptions {
+  /** Project root (default: process.cwd()) */
+  projectRoot?: string;
   /** Callback for progress updates */
   onProgress?: (message: string) => void;
   /** Include baselined drifts (default: false) */
@@ -44,6 +66,10 @@ export interface DriftAnalysisOptions {
   checkTokenUtilities?: boolean;
   /** Enable example compliance checking (Phase 4.3) */
   checkExamples?: boolean;
+  /** Enable unused component and token detection */
+  checkUnused?: boolean;
+  /** Only keep drift owned by this CODEOWNERS owner */
+  filterOwner?: string;
 }
 
 export interface DriftAnalysisResult {
@@ -51,8 +77,12 @@ export interface DriftAnalysisResult {
   drifts: DriftSignal[];
   /** Components that were scanned */
   components: Component[];
+  /** Tokens that were scanned (empty when no token source is enabled) */
+  tokens: DesignToken[];
   /** Number of drifts filtered out by baseline */
   baselinedCount: number;
+  /** Number of drifts suppressed by active exception intents */
+  intentSuppressedCount: number;
   /** Summary counts by severity */
   summary: {
     total: number;
@@ -72,6 +102,24 @@ const SEVERITY_ORDER: Record<Severity, number> = {
   critical: 2,
 };
 
+/**
+ * Safe-to-delete confidence order for unused drift (0 = lowest)
+ */
+const SAFE_TO_DELETE_ORDER: Record<UsageEvidence["safeToDelete"], number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+};
+
+/**
+ * SemanticDiffEngine checks run against scanned components
+ */
+export const COMPONENT_ANALYSIS_OPTIONS = {
+  checkDeprecated: true,
+  checkNaming: true,
+  checkDocumentation: true,
+};
+
 /**
  * Calculate summary counts for drift signals
  */
@@ -140,6 +188,65 @@ export function applyIgnoreRules(
   return filtered;
 }
 
+/**
+ * Apply design decisions recorded with `buoy intent`. Drift covered by an
+ * active exception is suppressed; once the exception expires the drift is
+ * reported again, annotated with the expired intent. Other active intents
+ * (deprecations, migrations, ...) annotate the drift they cover.
+ */
+export function applyIntents(
+  drifts: DriftSignal[],
+  intents: Intent[],
+): { drifts: DriftSignal[]; suppressedCount: number } {
+  if (intents.length === 0) return { drifts, suppressedCount: 0 };
+
+  const result: DriftSignal[] = [];
+  let suppressedCount = 0;
+
+  for (const drift of drifts) {
+    const covering = intents
+      .map((intent) => ({ intent, status: getIntentStatus(intent) }))
+      .filter(
+        ({ intent, status }) =>
+          status !== "archived" && intentMatchesDrift(intent, drift),
+      );
+
+    const excepted = covering.some(
+      ({ intent, status }) =>
+        status === "active" && intent.decision.type === "exception",
+    );
+    if (excepted) {
+      suppressedCount++;
+      continue;
+    }
+
+    const annotation =
+      covering.find(({ status }) => status === "active") ??
+      covering.find(({ intent }) => intent.decision.type === "exception");
+    if (!annotation) {
+      result.push(drift);
+      continue;
+    }
+
+    const { intent, status } = annotation;
+    result.push({
+      ...drift,
+      details: {
+        ...drift.details,
+        intent: {
+          id: intent.id,
+          type: intent.decision.type,
+          status,
+          title: intent.decision.title,
+          expiresAt: intent.expiresAt,
+        },
+      },
+    });
+  }
+
+  return { drifts: result, suppressedCount };
+}
+
 /**
  * Apply severity filter to drifts
  */
@@ -161,6 +268,53 @@ export function filterByType(
   return drifts.filter((d) => d.type === type);
 }
 
+/**
+ * Keep drift owned by the given CODEOWNERS owner ("@acme/web" or
+ * "acme/web", case-insensitive)
+ */
+export function filterByOwner(
+  drifts: DriftSignal[],
+  owner: string,
+): DriftSignal[] {
+  const wanted = owner.replace(/^@/, "").toLowerCase();
+  return drifts.filter((d) =>
+    d.details.owners?.some(
+      (o) => o.replace(/^@/, "").toLowerCase() === wanted,
+    ),
+  );
+}
+
+/**
+ * Find the root of the git repository containing the project, where
+ * CODEOWNERS lives. Falls back to the project root outside a repository.
+ */
+export function findRepositoryRoot(projectRoot: string = process.cwd()): string {
+  let dir = resolve(projectRoot);
+  while (!existsSync(join(dir, ".git"))) {
+    const parent = dirname(dir);
+    if (parent === dir) return resolve(projectRoot);
+    dir = parent;
+  }
+  return dir;
+}
+
+/**
+ * Load CODEOWNERS rules from the first location GitHub looks in.
+ * Returns no rules when the repository has no CODEOWNERS file.
+ */
+export async function loadCodeowners(
+  projectRoot: string = process.cwd(),
+): Promise<CodeownersRule[]> {
+  for (const path of CODEOWNERS_PATHS) {
+    try {
+      return parseCodeowners(await readFile(join(projectRoot, path), "utf-8"));
+    } catch {
+      // Not in this location, try the next one
+    }
+  }
+  return [];
+}
+
 /**
  * Apply per-type severity overrides from config
  */
@@ -188,6 +342,7 @@ export class DriftAnalysisService {
     options: DriftAnalysisOptions = {},
   ): Promise<DriftAnalysisResult> {
     const {
+      projectRoot = process.cwd(),
       onProgress,
       includeBaseline,
       minSeverity,
@@ -197,25 +352,31 @@ export class DriftAnalysisService {
       checkVariants,
       checkTokenUtilities,
       checkExamples,
+      checkUnused,
+      filterOwner,
     } = options;
 
     // Step 1: Scan components
     onProgress?.("Scanning components...");
-    const orchestrator = new ScanOrchestrator(this.config, process.cwd(), {
+    const orchestrator = new ScanOrchestrator(this.config, projectRoot, {
       cache,
     });
     const { components } = await orchestrator.scanComponents({
       onProgress,
     });
 
+    // Step 1.5: Scan tokens so hardcoded values get token suggestions
+    const tokens = this.config.sources.tokens?.enabled
+      ? (await orchestrator.scanTokens({ onProgress })).tokens
+      : [];
+
     // Step 2: Run semantic diff analysis
     onProgress?.("Analyzing drift...");
     const { SemanticDiffEngine } = await import("@buoy-design/core/analysis");
     const engine = new SemanticDiffEngine();
     const diffResult = engine.analyzeComponents(components, {
-      checkDeprecated: true,
-      checkNaming: true,
-      checkDocumentation: true,
+      ...COMPONENT_ANALYSIS_OPTIONS,
+      availableTokens: tokens,
     });
 
     let drifts: DriftSignal[] = applySeverityOverrides(
@@ -227,7 +388,7 @@ export class DriftAnalysisService {
     if (this.config.sources.tailwind?.enabled) {
       onProgress?.("Scanning for Tailwind arbitrary values...");
       const tailwindScanner = new TailwindScanner({
-        projectRoot: process.cwd(),
+        projectRoot,
         include: this.config.sources.tailwind.files,
         exclude: this.config.sources.tailwind.exclude,
         detectArbitraryValues: true,
@@ -258,7 +419,10 @@ export class DriftAnalysisService {
       };
       if (patternConfig.enabled !== false) {
         onProgress?.("Detecting repeated patterns (experimental)...");
-        const patternDrifts = await this.detectRepeatedPatterns(patternConfig);
+        const patternDrifts = await this.detectRepeatedPatterns(
+          projectRoot,
+          patternConfig,
+        );
         drifts.push(...patternDrifts);
         if (patternDrifts.length > 0) {
           onProgress?.(
@@ -313,6 +477,27 @@ export class DriftAnalysisService {
       }
     }
 
+    // Step 2.10: Unused components and tokens
+    const unusedTypes = this.config.drift?.types ?? {};
+    const checkUnusedComponents =
+      checkUnused ?? unusedTypes["unused-component"]?.enabled ?? false;
+    const checkUnusedTokens =
+      checkUnused ?? unusedTypes["unused-token"]?.enabled ?? false;
+    if (checkUnusedComponents || checkUnusedTokens) {
+      onProgress?.("Checking for unused components and tokens...");
+      const unusedDrifts = await this.detectUnused(
+        projectRoot,
+        checkUnusedComponents ? components : [],
+        checkUnusedTokens ? tokens : [],
+      );
+      if (unusedDrifts.length > 0) {
+        drifts.push(
+          ...applySeverityOverrides(unusedDrifts, this.config.drift.severity),
+        );
+        onProgress?.(`Found ${unusedDrifts.length} unused components and tokens`);
+      }
+    }
+
     // Step 3: Apply severity filter (before other filters for efficiency)
     if (minSeverity) {
       drifts = filterBySeverity(drifts, minSeverity);
@@ -328,12 +513,44 @@ export class DriftAnalysisService {
       onProgress?.(`Warning: ${msg}`);
     });
 
-    // Step 6: Apply baseline filtering
+    // Step 5.5: Route drift to its CODEOWNERS owners. CODEOWNERS paths are
+    // relative to the repository root, which may sit above the project
+    const repositoryRoot = findRepositoryRoot(projectRoot);
+    const codeowners = await loadCodeowners(repositoryRoot);
+    drifts = assignDriftOwners(
+      drifts,
+      codeowners,
+      relative(repositoryRoot, resolve(projectRoot)),
+    );
+    if (filterOwner) {
+      drifts = filterByOwner(drifts, filterOwner);
+    }
+
+    // Step 6: Apply design decisions (exceptions, deprecations, migrations)
+    const { loadIntents } = await import("./intent-store.js");
+    const { files: intentFiles, errors: intentErrors } =
+      await loadIntents(projectRoot);
+    for (const message of intentErrors) {
+      onProgress?.(`Warning: skipping intent ${message}`);
+    }
+    const intentResult = applyIntents(
+      drifts,
+      intentFiles.map((f) => f.intent),
+    );
+    drifts = intentResult.drifts;
+    const intentSuppressedCount = intentResult.suppressedCount;
+    if (intentSuppressedCount > 0) {
+      onProgress?.(
+        `Suppressed ${intentSuppressedCount} drift signals covered by exception intents.`,
+      );
+    }
+
+    // Step 7: Apply baseline filtering
     let baselinedCount = 0;
     if (!includeBaseline) {
       const { loadBaseline, filterBaseline } =
         await import("../commands/baseline.js");
-      const baseline = await loadBaseline();
+      const baseline = await loadBaseline(projectRoot);
       const filtered = filterBaseline(drifts, baseline);
       drifts = filtered.newDrifts;
       baselinedCount = filtered.baselinedCount;
@@ -346,20 +563,59 @@ export class DriftAnalysisService {
     return {
       drifts,
       components,
+      tokens,
       baselinedCount,
+      intentSuppressedCount,
       summary: calculateDriftSummary(drifts),
     };
   }
 
+  /**
+   * Find components and tokens with no usages in product code. Each
+   * drift type can require a minimum safe-to-delete confidence through
+   * `drift.types[type].minConfidence` (high, medium or low).
+   */
+  private async detectUnused(
+    projectRoot: string,
+    components: Component[],
+    tokens: DesignToken[],
+  ): Promise<DriftSignal[]> {
+    const index = await buildUsageIndex(components, tokens, { projectRoot });
+    const { SemanticDiffEngine } = await import("@buoy-design/core/analysis");
+    const engine = new SemanticDiffEngine();
+
+    const drifts = [
+      ...engine.checkUnusedComponents(
+        components.filter((c) => index.components.has(c.id)),
+        index.components,
+        index.evidence,
+      ),
+      ...engine.checkUnusedTokens(
+        tokens.filter((t) => index.tokens.has(t.id)),
+        index.tokens,
+        index.evidence,
+      ),
+    ];
+
+    return drifts.filter((d) => {
+      const minConfidence = this.config.drift.types[d.type]?.minConfidence;
+      const confidence = d.details.usage?.safeToDelete;
+      if (!minConfidence || !confidence) return true;
+      return SAFE_TO_DELETE_ORDER[confidence] >= SAFE_TO_DELETE_ORDER[minConfidence];
+    });
+  }
+
   /**
    * Detect repeated class patterns across source files (experimental)
    */
-  private async detectRepeatedPatterns(config: {
-    minOccurrences?: number;
-    matching?: "exact" | "tight" | "loose";
-  }): Promise<DriftSignal[]> {
+  private async detectRepeatedPatterns(
+    cwd: string,
+    config: {
+      minOccurrences?: number;
+      matching?: "exact" | "tight" | "loose";
+    },
+  ): Promise<DriftSignal[]> {
     const occurrences: ClassOccurrence[] = [];
-    const cwd = process.cwd();
 
     // Find all source files
     const patterns = ["**/*.tsx", "**/*.jsx", "**/*.vue", "**/*.svelte"];
@@ -0,0 +1,144 @@
+// apps/cli/src/services/drift-budget.ts
+/**
+ * Drift budgets - per-directory, per-type drift limits for `buoy check`
+ *
+ * Budgets live under `drift.budgets` in .buoy.yaml, keyed by a path glob and
+ * then by drift type ("*" counts every type). Drift covered by a budget only
+ * fails the check once its count goes over the budget. Ratcheting lowers each
+ * budget to the current count, so drift can only go down over time.
+ */
+
+import { readFile, writeFile } from "fs/promises";
+import { parseDocument } from "yaml";
+import type { DriftSignal } from "@buoy-design/core";
+import type { DriftBudgets, DriftBudgetType } from "../config/schema.js";
+
+/** Budget key that covers every drift type */
+export const ALL_DRIFT_TYPES: DriftBudgetType = "*";
+
+export interface BudgetStatus {
+  /** Path glob the budget applies to */
+  path: string;
+  /** Drift type, or "*" for all types */
+  type: DriftBudgetType;
+  budget: number;
+  count: number;
+}
+
+export interface BudgetEvaluation {
+  statuses: BudgetStatus[];
+  /** Drift not covered by any budget */
+  unbudgeted: DriftSignal[];
+}
+
+export interface RatchetResult {
+  budgets: DriftBudgets;
+  /** Budgets that were lowered, with their new value as `budget` */
+  lowered: Array<BudgetStatus & { previous: number }>;
+}
+
+/**
+ * Count drift against each budget. Drift matching several budgets counts
+ * toward all of them. When a check only reports some of the drift
+ * (`--staged`, `--diff-base`), pass that part as `checked`: budgets still
+ * count all drift, so they mean the same in a hook as in a full check, and
+ * only checked drift is returned as unbudgeted.
+ */
+export function evaluateBudgets(
+  drifts: DriftSignal[],
+  budgets: DriftBudgets,
+  checked: DriftSignal[] = drifts,
+): BudgetEvaluation {
+  const statuses: BudgetStatus[] = [];
+  const covered = new Set<DriftSignal>();
+
+  for (const [path, types] of Object.entries(budgets)) {
+    const regex = globToRegex(path);
+    const inPath = drifts.filter((drift) => {
+      const file = getDriftFile(drift);
+      return file !== null && regex.test(file);
+    });
+
+    for (const [type, budget] of Object.entries(types) as Array<[DriftBudgetType, number]>) {
+      const matching = inPath.filter(
+        (drift) => type === ALL_DRIFT_TYPES || drift.type === type,
+      );
+      for (const drift of matching) covered.add(drift);
+      statuses.push({ path, type, budget, count: matching.length });
+    }
+  }
+
+  return {
+    statuses,
+    unbudgeted: checked.filter((drift) => !covered.has(drift)),
+  };
+}
+
+/**
+ * Budgets whose drift count is over the limit
+ */
+export function getExceededBudgets(statuses: BudgetStatus[]): BudgetStatus[] {
+  return statuses.filter((status) => status.count > status.budget);
+}
+
+/**
+ * Lower every budget to its current count. Budgets are never raised.
+ */
+export function ratchetBudgets(
+  budgets: DriftBudgets,
+  statuses: BudgetStatus[],
+): RatchetResult {
+  const ratcheted: DriftBudgets = Object.fromEntries(
+    Object.entries(budgets).map(([path, types]) => [path, { ...types }]),
+  );
+  const lowered: RatchetResult["lowered"] = [];
+
+  for (const status of statuses) {
+    if (status.count >= status.budget) continue;
+    ratcheted[status.path]![status.type] = status.count;
+    lowered.push({ ...status, budget: status.count, previous: status.budget });
+  }
+
+  return { budgets: ratcheted, lowered };
+}
+
+/**
+ * Write ratcheted budgets back to a YAML config file, keeping its comments
+ * and formatting
+ */
+export async function saveBudgets(
+  configPath: string,
+  lowered: RatchetResult["lowered"],
+): Promise<void> {
+  if (!/\.ya?ml$/.test(configPath)) {
+    throw new Error(
+      `Ratcheting can only update .buoy.yaml; lower the budgets in ${configPath} by hand`,
+    );
+  }
+
+  const doc = parseDocument(await readFile(configPath, "utf-8"));
+  for (const { path, type, budget } of lowered) {
+    doc.setIn(["drift", "budgets", path, type], budget);
+  }
+  await writeFile(configPath, doc.toString(), "utf-8");
+}
+
+function getDriftFile(drift: DriftSignal): string | null {
+  const location = drift.source.location?.replace(/:\d+(?::\d+)?$/, "");
+  return location ? location.replace(/\\/g, "/").replace(/^\.\//, "") : null;
+}
+
+function globToRegex(pattern: string): RegExp {
+  // A trailing slash covers everything in the directory; "**/" matches
+  // zero or more directories
+  const source = pattern
+    .replace(/\/$/, "/**")
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*\*\//g, "<<<GLOBSTAR_DIR>>>")
+    .replace(/\*\*/g, "<<<GLOBSTAR>>>")
+    .replace(/\*/g, "[^/]*")
+    .replace(/\?/g, "[^/]")
+    .replace(/<<<GLOBSTAR_DIR>>>/g, "(?:.*/)?")
+    .replace(/<<<GLOBSTAR>>>/g, ".*");
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,272 @@
+// apps/cli/src/services/drift-watch.ts
+/**
+ * Incremental drift analysis for watch mode
+ *
+ * Keeps one ScanCache for the whole session. When files change they are
+ * invalidated in the cache, so ScanOrchestrator re-parses only those files,
+ * and the result runs through the same DriftAnalysisService pipeline as
+ * `buoy drift` (token suggestions, Tailwind, unused, variant, utility and
+ * example checks included). Results match a full run with the same options.
+ */
+
+import { watch, type FSWatcher } from "fs";
+import { isAbsolute, relative, sep } from "path";
+import type { Component, DriftSignal, Severity } from "@buoy-design/core";
+import { ScanCache } from "@buoy-design/scanners";
+import type { BuoyConfig } from "../config/schema.js";
+import { DriftAnalysisService } from "./drift-analysis.js";
+
+export interface IncrementalDriftOptions {
+  /** Project root (default: process.cwd()) */
+  projectRoot?: string;
+  /** Include baselined drifts (default: false) */
+  includeBaseline?: boolean;
+  /** Filter by minimum severity */
+  minSeverity?: Severity;
+  /** Filter by drift type */
+  filterType?: string;
+  /** Only keep drift owned by this CODEOWNERS owner */
+  filterOwner?: string;
+  /** Callback for progress updates */
+  onProgress?: (message: string) => void;
+}
+
+export interface DriftDelta {
+  /** Drift signals that were not present before the change */
+  introduced: DriftSignal[];
+  /** Drift signals that went away with the change */
+  resolved: DriftSignal[];
+  /** All drift signals after the change */
+  drifts: DriftSignal[];
+  /** Changed files, relative to the project root */
+  changedFiles: string[];
+  /** Number of components re-analyzed */
+  componentsAnalyzed: number;
+}
+
+/**
+ * Compare two drift sets by signal ID
+ */
+export function diffDrifts(
+  before: DriftSignal[],
+  after: DriftSignal[],
+): { introduced: DriftSignal[]; resolved: DriftSignal[] } {
+  const beforeIds = new Set(before.map((d) => d.id));
+  const afterIds = new Set(after.map((d) => d.id));
+
+  return {
+    introduced: after.filter((d) => !beforeIds.has(d.id)),
+    resolved: before.filter((d) => !afterIds.has(d.id)),
+  };
+}
+
+/**
+ * Drift analysis that can be updated file by file
+ */
+export class IncrementalDriftAnalyzer {
+  private projectRoot: string;
+  private service: DriftAnalysisService;
+  private components: Component[] = [];
+  /** Drift after filters, as last reported */
+  private drifts: DriftSignal[] = [];
+
+  constructor(
+    config: BuoyConfig,
+    private cache: ScanCache,
+    private options: IncrementalDriftOptions = {},
+  ) {
+    this.projectRoot = options.projectRoot ?? process.cwd();
+    this.service = new DriftAnalysisService(config);
+  }
+
+  /**
+   * Run the initial full analysis
+   */
+  async initialize(): Promise<DriftSignal[]> {
+    await this.analyze();
+    return this.drifts;
+  }
+
+  /**
+   * Re-analyze after files changed and report what drift came and went
+   */
+  async update(files: string[]): Promise<DriftDelta> {
+    const changedFiles = [...new Set(files.map((f) => this.toRelative(f)))];
+    const changed = new Set(changedFiles);
+
+    const inChangedFile = (c: Component) => {
+      const path = this.componentPath(c);
+      return path !== null && changed.has(path);
+    };
+    const before = this.components.filter(inChangedFile);
+    const previous = this.drifts;
+
+    this.cache.invalidate(changedFiles);
+    await this.analyze();
+
+    const after = this.components.filter(inChangedFile);
+    const { introduced, resolved } = diffDrifts(previous, this.drifts);
+
+    return {
+      introduced,
+      resolved,
+      drifts: this.drifts,
+      changedFiles,
+      componentsAnalyzed: new Set([...before, ...after].map((c) => c.id)).size,
+    };
+  }
+
+  /**
+   * Current drift signals
+   */
+  getDrifts(): DriftSignal[] {
+    return this.drifts;
+  }
+
+  private async analyze(): Promise<void> {
+    const { drifts, components } = await this.service.analyze({
+      projectRoot: this.projectRoot,
+      cache: this.cache,
+      includeBaseline: this.options.includeBaseline,
+      minSeverity: this.options.minSeverity,
+      filterType: this.options.filterType,
+      filterOwner: this.options.filterOwner,
+      onProgress: this.options.onProgress,
+    });
+    this.components = components;
+    this.drifts = drifts;
+  }
+
+  private componentPath(component: Component): string | null {
+    return "path" in component.source
+      ? this.toRelative(component.source.path)
+      : null;
+  }
+
+  private toRelative(path: string): string {
+    const rel = isAbsolute(path) ? relative(this.projectRoot, path) : path;
+    return rel.split(sep).join("/");
+  }
+}
+
+/**
+ * Directories that never contain scannable source
+ */
+const IGNORED_DIRS = new Set([
+  "node_modules",
+  ".git",
+  ".buoy",
+  "dist",
+  "build",
+  ".next",
+  ".turbo",
+  "coverage",
+]);
+
+export interface WatchFilesOptions {
+  /** Quiet period before a batch of changes is reported, in ms */
+  debounceMs?: number;
+}
+
+/**
+ * Watch a project for file changes, reporting batches of changed paths
+ * (relative to root). Returns a function that stops watching.
+ */
+export function watchFiles(
+  root: string,
+  onChange: (files: string[]) => void,
+  options: WatchFilesOptions = {},
+): () => void {
+  const { debounceMs = 200 } = options;
+  let pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const watcher: FSWatcher = watch(
+    root,
+    { recursive: true },
+    (_event, filename) => {
+      if (!filename) return;
+      const file = filename.toString().split(sep).join("/");
+      if (file.split("/").some((part) => IGNORED_DIRS.has(part))) return;
+
+      pending.add(file);
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        const files = [...pending];
+        pending = new Set();
+        onChange(files);
+      }, debounceMs);
+    },
+  );
+
+  return () => {
+    clearTimeout(timer);
+    watcher.close();
+  };
+}
+
+export interface DriftWatchOptions extends IncrementalDriftOptions {
+  /** Clear the scan cache before the initial analysis */
+  clearCache?: boolean;
+  /** Called once the initial analysis is done */
+  onReady: (drifts: DriftSignal[]) => void;
+  /** Called after each batch of file changes is re-analyzed */
+  onChange: (delta: DriftDelta) => void;
+  /** Called when re-analysis fails; watching continues */
+  onError: (err: unknown) => void;
+  /** Quiet period before re-analyzing, in ms */
+  debounceMs?: number;
+}
+
+/**
+ * Analyze drift, then keep re-analyzing as files change until stopped.
+ * Batches that arrive while an update is running are queued, so updates
+ * never overlap. Returns a function that stops watching and saves the cache.
+ */
+export async function startDriftWatch(
+  config: BuoyConfig,
+  options: DriftWatchOptions,
+): Promise<() => Promise<void>> {
+  const projectRoot = options.projectRoot ?? process.cwd();
+  const cache = new ScanCache(projectRoot);
+  await cache.load();
+  if (options.clearCache) cache.clear();
+
+  const analyzer = new IncrementalDriftAnalyzer(config, cache, {
+    ...options,
+    projectRoot,
+  });
+  options.onReady(await analyzer.initialize());
+  await cache.save();
+
+  let queue: string[] = [];
+  let running: Promise<void> | null = null;
+
+  const flush = async () => {
+    while (queue.length > 0) {
+      const files = queue;
+      queue = [];
+      try {
+        options.onChange(await analyzer.update(files));
+      } catch (err) {
+        options.onError(err);
+      }
+    }
+    running = null;
+  };
+
+  const stopWatching = watchFiles(
+    projectRoot,
+    (files) => {
+      queue.push(...files);
+      running ??= flush();
+    },
+    { debounceMs: options.debounceMs },
+  );
+
+  return async () => {
+    stopWatching();
+    await running;
+    await cache.save();
+  };
+}
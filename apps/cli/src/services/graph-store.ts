@@ -0,0 +1,560 @@
+// apps/cli/src/services/graph-store.ts
+/**
+ * Graph store - the knowledge graph built by `buoy analyze graph build`
+ *
+ * The graph is saved to .buoy/graph.json together with the newest collected
+ * commit and a content hash per collected file, so the next build only
+ * collects commits made since and files that changed. `graph query` and
+ * `graph export` read the stored graph instead of rebuilding it.
+ */
+
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { existsSync } from "fs";
+import { createHash } from "crypto";
+import { dirname, join } from "path";
+import {
+  GraphBuilder,
+  nodeId,
+  updateNode,
+  importFromJSON,
+  exportToJSON,
+  getNodesByType,
+  getEdgesByType,
+  getOutEdgesByType,
+  collectGitHistory,
+  collectUsages,
+  collectImports,
+  findUsageFiles,
+  findImportFiles,
+  getHeadCommit,
+  isAncestorOfHead,
+  tokenValueToCss,
+  type Component,
+  type DesignToken,
+  type DesignSystemGraph,
+  type DeveloperNodeAttributes,
+  type FileNodeAttributes,
+  type TokenNodeAttributes,
+  type GitCollectorResult,
+  type UsageCollectorResult,
+  type ImportCollectorResult,
+} from "@buoy-design/core";
+
+const GRAPH_FILE = join(".buoy", "graph.json");
+
+const STYLESHEET_PATTERN = /\.(css|scss|sass|less)$/;
+
+/** Bump when the stored format changes; older files are rebuilt */
+const GRAPH_STORE_VERSION = 2;
+
+type SerializedGraph = ReturnType<DesignSystemGraph["export"]>;
+
+type UsageCounts = Required<
+  Pick<FileNodeAttributes, "tokenUsages" | "componentUsages" | "hardcodedValues">
+>;
+
+export interface GraphCollectOptions {
+  git: boolean;
+  usages: boolean;
+  imports: boolean;
+  /** Only include commits since this date (ISO format) */
+  since?: string;
+}
+
+export interface StoredGraph {
+  graph: DesignSystemGraph;
+  builtAt: Date;
+  /** What was collected; a build with different options starts over */
+  options: GraphCollectOptions;
+  /** Newest commit in the graph */
+  lastCommit: string | null;
+  /** Content hash of every collected file, by path relative to the project root */
+  fileHashes: Record<string, string>;
+}
+
+interface GraphFile {
+  version: number;
+  builtAt: string;
+  options: GraphCollectOptions;
+  lastCommit: string | null;
+  fileHashes: Record<string, string>;
+  graph: SerializedGraph;
+}
+
+/**
+ * Components and tokens from a project scan
+ */
+export interface GraphScan {
+  components: Component[];
+  tokens: DesignToken[];
+}
+
+export interface BuildGraphOptions extends GraphCollectOptions {
+  /** Ignore the stored graph and collect everything again */
+  full?: boolean;
+  /** Adds Component nodes and token categories and values */
+  scan?: GraphScan;
+  onProgress?: (message: string) => void;
+}
+
+export interface BuildGraphResult {
+  stored: StoredGraph;
+  path: string;
+  /** False when the graph was built from scratch */
+  incremental: boolean;
+  commitsAdded: number;
+  filesCollected: number;
+  filesRemoved: number;
+}
+
+export interface GraphSummary {
+  commits: number;
+  developers: number;
+  files: number;
+  imports: number;
+  tokenUsages: number;
+  componentUsages: number;
+}
+
+export const DEFAULT_GRAPH_OPTIONS: GraphCollectOptions = {
+  git: true,
+  usages: true,
+  imports: true,
+};
+
+/**
+ * Get the path the graph is stored at
+ */
+export function getGraphPath(projectRoot: string = process.cwd()): string {
+  return join(projectRoot, GRAPH_FILE);
+}
+
+/**
+ * Load the stored graph. Returns null when there is none, or it was
+ * written by an incompatible version of Buoy.
+ */
+export async function loadGraph(
+  projectRoot: string = process.cwd(),
+): Promise<StoredGraph | null> {
+  const path = getGraphPath(projectRoot);
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  const file = JSON.parse(await readFile(path, "utf-8")) as GraphFile;
+  if (file.version !== GRAPH_STORE_VERSION) {
+    return null;
+  }
+
+  // Dates were written as ISO strings
+  for (const node of file.graph.nodes) {
+    reviveDates(node.attributes, ["createdAt", "timestamp"]);
+  }
+  for (const edge of file.graph.edges) {
+    reviveDates(edge.attributes, ["createdAt"]);
+  }
+
+  return {
+    graph: importFromJSON(file.graph),
+    builtAt: new Date(file.builtAt),
+    options: file.options,
+    lastCommit: file.lastCommit,
+    fileHashes: file.fileHashes,
+  };
+}
+
+/**
+ * Get the graph node id for a token, by its name as defined (`--color-primary`,
+ * `$spacing-md`, `color.primary`) or as referenced in styles
+ */
+export function getTokenNodeId(name: string): string {
+  return nodeId("Token", tokenKey(name));
+}
+
+/**
+ * Write the graph to .buoy/graph.json. Returns the path written.
+ */
+export async function saveGraph(
+  stored: StoredGraph,
+  projectRoot: string = process.cwd(),
+): Promise<string> {
+  const path = getGraphPath(projectRoot);
+  await mkdir(dirname(path), { recursive: true });
+
+  const file: GraphFile = {
+    version: GRAPH_STORE_VERSION,
+    builtAt: stored.builtAt.toISOString(),
+    options: stored.options,
+    lastCommit: stored.lastCommit,
+    fileHashes: stored.fileHashes,
+    graph: exportToJSON(stored.graph) as SerializedGraph,
+  };
+
+  await writeFile(path, JSON.stringify(file), "utf-8");
+  return path;
+}
+
+/**
+ * Build the graph and store it. Starts from the stored graph when it was
+ * collected with the same options, collecting only commits made since and
+ * files whose content changed.
+ */
+export async function buildGraph(
+  projectRoot: string,
+  options: BuildGraphOptions,
+): Promise<BuildGraphResult> {
+  const { full, scan, onProgress, ...collect } = options;
+  const progress = onProgress ?? (() => {});
+
+  let previous = full ? null : await loadGraph(projectRoot);
+  if (previous && !isSameCollection(previous.options, collect)) {
+    previous = null;
+  }
+  // History was rewritten (rebase, reset): commits in the graph may be gone
+  if (
+    previous?.lastCommit &&
+    collect.git &&
+    !(await isAncestorOfHead(projectRoot, previous.lastCommit))
+  ) {
+    previous = null;
+  }
+
+  const builder = new GraphBuilder({ projectId: "default" }, previous?.graph);
+  const graph = builder.build();
+  // Components come from the latest scan only
+  if (scan) {
+    for (const id of getNodesByType(graph, "Component")) {
+      graph.dropNode(id);
+    }
+  }
+  let lastCommit = previous?.lastCommit ?? null;
+  let commitsAdded = 0;
+
+  if (collect.git) {
+    progress("Collecting git history...");
+    const head = await getHeadCommit(projectRoot);
+    if (head && head !== lastCommit) {
+      const gitResult = await collectGitHistory(projectRoot, {
+        since: collect.since ? new Date(collect.since) : undefined,
+        from: lastCommit ?? undefined,
+        includeStats: true,
+      });
+      addHistory(builder, graph, gitResult);
+      commitsAdded = gitResult.commits.length;
+    }
+    lastCommit = head;
+  }
+
+  const fileHashes: Record<string, string> = {};
+  let filesCollected = 0;
+  let filesRemoved = 0;
+
+  if (collect.usages || collect.imports) {
+    progress("Checking files for changes...");
+    const usageFiles = collect.usages ? await findUsageFiles({ projectRoot }) : [];
+    const importFiles = collect.imports ? await findImportFiles({ projectRoot }) : [];
+    for (const file of new Set([...usageFiles, ...importFiles])) {
+      const hash = await hashFile(join(projectRoot, file));
+      if (hash) {
+        fileHashes[file] = hash;
+      }
+    }
+
+    const previousHashes = previous?.fileHashes ?? {};
+    const changed = Object.keys(fileHashes).filter(
+      (file) => previousHashes[file] !== fileHashes[file],
+    );
+    const removed = Object.keys(previousHashes).filter((file) => !(file in fileHashes));
+    for (const file of [...changed, ...removed]) {
+      clearFile(graph, file);
+    }
+    const isChanged = new Set(changed);
+
+    if (collect.usages) {
+      progress("Collecting token and component usages...");
+      const files = usageFiles.filter((file) => isChanged.has(file));
+      addUsages(builder, graph, await collectUsages({ projectRoot, files }));
+    }
+
+    if (collect.imports) {
+      progress("Collecting import relationships...");
+      const files = importFiles.filter((file) => isChanged.has(file));
+      addImports(builder, await collectImports({ projectRoot, files }));
+    }
+
+    filesCollected = changed.length;
+    filesRemoved = removed.length;
+  }
+
+  if (scan) {
+    progress("Adding components and tokens...");
+    pruneScannedTokens(graph, scan);
+    addScan(builder, graph, scan);
+  }
+
+  const stored: StoredGraph = {
+    graph,
+    builtAt: new Date(),
+    options: collect,
+    lastCommit,
+    fileHashes,
+  };
+  const path = await saveGraph(stored, projectRoot);
+
+  return {
+    stored,
+    path,
+    incremental: previous !== null,
+    commitsAdded,
+    filesCollected,
+    filesRemoved,
+  };
+}
+
+/**
+ * Count what the graph holds
+ */
+export function getGraphSummary(graph: DesignSystemGraph): GraphSummary {
+  const files = getNodesByType(graph, "File");
+  let tokenUsages = 0;
+  let componentUsages = 0;
+  for (const id of files) {
+    const attrs = graph.getNodeAttributes(id) as FileNodeAttributes;
+    tokenUsages += attrs.tokenUsages ?? 0;
+    componentUsages += attrs.componentUsages ?? 0;
+  }
+
+  return {
+    commits: getNodesByType(graph, "Commit").length,
+    developers: getNodesByType(graph, "Developer").length,
+    files: files.length,
+    imports: getEdgesByType(graph, "IMPORTS").length,
+    tokenUsages,
+    componentUsages,
+  };
+}
+
+function addHistory(
+  builder: GraphBuilder,
+  graph: DesignSystemGraph,
+  gitResult: GitCollectorResult,
+): void {
+  for (const commit of gitResult.commits) {
+    const commitId = builder.addCommit(
+      commit.sha,
+      commit.message,
+      commit.author,
+      commit.authorEmail,
+      commit.timestamp,
+    );
+
+    for (const file of commit.filesChanged) {
+      const fileId = builder.addFile(file.path, file.path);
+      builder.addEdge("CHANGED", commitId, fileId, {
+        createdAt: commit.timestamp,
+      });
+    }
+  }
+
+  for (const dev of gitResult.developers) {
+    const existingId = nodeId("Developer", dev.id);
+    const devId = graph.hasNode(existingId)
+      ? existingId
+      : builder.addDeveloper(dev.id, dev.name, dev.email);
+    const { commitCount = 0 } = graph.getNodeAttributes(devId) as DeveloperNodeAttributes;
+    updateNode(graph, devId, { commitCount: commitCount + dev.commitCount });
+
+    for (const commit of gitResult.commits) {
+      if (commit.authorEmail === dev.email) {
+        builder.addEdge("AUTHORED", devId, nodeId("Commit", commit.sha));
+      }
+    }
+  }
+}
+
+function addUsages(
+  builder: GraphBuilder,
+  graph: DesignSystemGraph,
+  usageResult: UsageCollectorResult,
+): void {
+  const counts = new Map<string, UsageCounts>();
+  const countFor = (file: string): UsageCounts => {
+    let entry = counts.get(file);
+    if (!entry) {
+      entry = { tokenUsages: 0, componentUsages: 0, hardcodedValues: 0 };
+      counts.set(file, entry);
+    }
+    return entry;
+  };
+
+  for (const usage of usageResult.tokenUsages) {
+    countFor(usage.filePath).tokenUsages++;
+
+    const fileId = builder.addFile(usage.filePath, usage.filePath);
+    const tokenId = builder.addToken(tokenKey(usage.tokenName), usage.tokenName, "", "", "usage");
+    builder.addEdge("USES", fileId, tokenId, {
+      createdAt: new Date(),
+    });
+  }
+  for (const usage of usageResult.componentUsages) countFor(usage.filePath).componentUsages++;
+  for (const usage of usageResult.hardcodedValues) countFor(usage.filePath).hardcodedValues++;
+
+  for (const [file, count] of counts) {
+    updateNode(graph, builder.addFile(file, file), count);
+  }
+}
+
+/**
+ * Add scanned tokens and components. A component uses the tokens used in
+ * the file it is defined in and in the stylesheets that file imports.
+ */
+function addScan(builder: GraphBuilder, graph: DesignSystemGraph, scan: GraphScan): void {
+  for (const token of scan.tokens) {
+    const attributes = {
+      category: token.category,
+      value: tokenValueToCss(token.value),
+      source: token.source.type,
+    };
+    const id = builder.addToken(
+      tokenKey(token.name),
+      token.name,
+      attributes.category,
+      attributes.value,
+      attributes.source,
+    );
+    // Tokens added from usages have no category or value yet
+    updateNode(graph, id, attributes);
+  }
+
+  for (const component of scan.components) {
+    if (!("path" in component.source)) continue;
+    const file = component.source.path;
+    const componentId = builder.addComponent(
+      component.id,
+      component.name,
+      file,
+      component.source.type,
+      component.props.map((prop) => prop.name),
+      component.variants.map((variant) => variant.name),
+    );
+
+    const fileId = nodeId("File", file);
+    if (!graph.hasNode(fileId)) continue;
+    const stylesheets = getOutEdgesByType(graph, fileId, "IMPORTS")
+      .map((edge) => graph.target(edge))
+      .filter((id) => STYLESHEET_PATTERN.test(id));
+
+    for (const id of [fileId, ...stylesheets]) {
+      for (const edge of getOutEdgesByType(graph, id, "USES")) {
+        builder.addEdge("USES", componentId, graph.target(edge), {
+          createdAt: new Date(),
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Remove tokens an earlier scan found that the latest scan no longer does.
+ * Tokens still referenced by files keep their node, as a fresh build from
+ * usages would create it.
+ */
+function pruneScannedTokens(graph: DesignSystemGraph, scan: GraphScan): void {
+  const scanned = new Set(scan.tokens.map((token) => getTokenNodeId(token.name)));
+
+  for (const id of getNodesByType(graph, "Token")) {
+    const attrs = graph.getNodeAttributes(id) as TokenNodeAttributes;
+    if (attrs.source === "usage" || scanned.has(id)) continue;
+
+    if (graph.degree(id) === 0) {
+      graph.dropNode(id);
+    } else {
+      updateNode(graph, id, { category: "", value: "", source: "usage" });
+    }
+  }
+}
+
+function tokenKey(name: string): string {
+  return name
+    .replace(/^(--|\$|@)/, "")
+    .replace(/[./]/g, "-")
+    .toLowerCase();
+}
+
+function addImports(builder: GraphBuilder, importResult: ImportCollectorResult): void {
+  for (const imp of importResult.imports) {
+    if (!imp.isExternal) {
+      const sourceId = builder.addFile(imp.sourceFile, imp.sourceFile);
+      const targetId = builder.addFile(imp.targetFile, imp.targetFile);
+      builder.addEdge("IMPORTS", sourceId, targetId, {
+        createdAt: new Date(),
+      });
+    }
+  }
+}
+
+/**
+ * Remove what was collected from a file before it is collected again.
+ * Nodes left without edges or usages are dropped.
+ */
+function clearFile(graph: DesignSystemGraph, file: string): void {
+  const id = nodeId("File", file);
+  if (!graph.hasNode(id)) return;
+
+  const targets = new Set<string>();
+  for (const edge of [
+    ...getOutEdgesByType(graph, id, "IMPORTS"),
+    ...getOutEdgesByType(graph, id, "USES"),
+  ]) {
+    targets.add(graph.target(edge));
+    graph.dropEdge(edge);
+  }
+  updateNode(graph, id, {
+    tokenUsages: undefined,
+    componentUsages: undefined,
+    hardcodedValues: undefined,
+  });
+
+  for (const node of [id, ...targets]) {
+    if (graph.degree(node) === 0 && !hasUsages(graph, node)) {
+      graph.dropNode(node);
+    }
+  }
+}
+
+function hasUsages(graph: DesignSystemGraph, id: string): boolean {
+  const attrs = graph.getNodeAttributes(id) as FileNodeAttributes;
+  return (
+    attrs.tokenUsages !== undefined ||
+    attrs.componentUsages !== undefined ||
+    attrs.hardcodedValues !== undefined
+  );
+}
+
+function isSameCollection(a: GraphCollectOptions, b: GraphCollectOptions): boolean {
+  return (
+    a.git === b.git &&
+    a.usages === b.usages &&
+    a.imports === b.imports &&
+    (a.since ?? null) === (b.since ?? null)
+  );
+}
+
+async function hashFile(path: string): Promise<string | null> {
+  try {
+    return createHash("sha1").update(await readFile(path)).digest("hex");
+  } catch {
+    return null;
+  }
+}
+
+function reviveDates(attributes: object | undefined, keys: string[]): void {
+  if (!attributes) return;
+  const record = attributes as Record<string, unknown>;
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "string") {
+      record[key] = new Date(value);
+    }
+  }
+}
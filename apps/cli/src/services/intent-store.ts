@@ -0,0 +1,180 @@
+// apps/cli/src/services/intent-store.ts
+/**
+ * Intent store - design decisions recorded with `buoy intent`
+ *
+ * Each intent lives in its own YAML file under .buoy/intents/ so decisions
+ * can be reviewed and committed alongside the code they cover.
+ */
+
+import { readFile, writeFile, mkdir, readdir } from "fs/promises";
+import { existsSync } from "fs";
+import { join } from "path";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { z } from "zod";
+import { IntentSchema, IntentContextSchema, type Intent } from "@buoy-design/core";
+
+const INTENTS_DIR = join(".buoy", "intents");
+
+/**
+ * Dates are stored as ISO strings; the context block may be omitted
+ */
+const IntentFileSchema = IntentSchema.extend({
+  context: IntentContextSchema.default({}),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date().optional(),
+  expiresAt: z.coerce.date().optional(),
+});
+
+export interface IntentFile {
+  path: string;
+  intent: Intent;
+}
+
+export interface LoadIntentsResult {
+  files: IntentFile[];
+  /** Files that could not be read or are not valid intents */
+  errors: string[];
+}
+
+/**
+ * Get the directory intents are stored in
+ */
+export function getIntentsDir(projectRoot: string = process.cwd()): string {
+  return join(projectRoot, INTENTS_DIR);
+}
+
+/**
+ * Load every intent file, oldest first
+ */
+export async function loadIntents(
+  projectRoot: string = process.cwd(),
+): Promise<LoadIntentsResult> {
+  const dir = getIntentsDir(projectRoot);
+  const result: LoadIntentsResult = { files: [], errors: [] };
+
+  if (!existsSync(dir)) {
+    return result;
+  }
+
+  const names = (await readdir(dir))
+    .filter((name) => name.endsWith(".yaml") || name.endsWith(".yml"))
+    .sort();
+
+  for (const name of names) {
+    const path = join(dir, name);
+    try {
+      const parsed = IntentFileSchema.safeParse(
+        parseYaml(await readFile(path, "utf-8")),
+      );
+      if (parsed.success) {
+        result.files.push({ path, intent: parsed.data });
+      } else {
+        const issue = parsed.error.issues[0];
+        result.errors.push(
+          `${name}: ${issue ? `${issue.path.join(".")} ${issue.message}` : "invalid intent"}`,
+        );
+      }
+    } catch (err) {
+      result.errors.push(
+        `${name}: ${err instanceof Error ? err.message : "cannot read file"}`,
+      );
+    }
+  }
+
+  result.files.sort(
+    (a, b) => a.intent.createdAt.getTime() - b.intent.createdAt.getTime(),
+  );
+  return result;
+}
+
+/**
+ * Write an intent to its file, creating .buoy/intents/ if needed.
+ * Returns the path written.
+ */
+export async function saveIntent(
+  intent: Intent,
+  path?: string,
+  projectRoot: string = process.cwd(),
+): Promise<string> {
+  const dir = getIntentsDir(projectRoot);
+  if (!existsSync(dir)) {
+    await mkdir(dir, { recursive: true });
+  }
+
+  const target = path ?? join(dir, getIntentFileName(intent));
+  const { createdAt, updatedAt, expiresAt, ...rest } = intent;
+  const content = stringifyYaml({
+    ...rest,
+    createdAt: createdAt.toISOString(),
+    ...(updatedAt && { updatedAt: updatedAt.toISOString() }),
+    ...(expiresAt && { expiresAt: expiresAt.toISOString() }),
+  });
+
+  await writeFile(target, content, "utf-8");
+  return target;
+}
+
+/**
+ * Find an intent by its full ID or a unique prefix of its file name
+ */
+export function findIntent(
+  files: IntentFile[],
+  query: string,
+): IntentFile | undefined {
+  const exact = files.find((f) => f.intent.id === query);
+  if (exact) return exact;
+
+  const matches = files.filter((f) =>
+    getBaseName(f.path).startsWith(query.replace(/\.ya?ml$/, "")),
+  );
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+/**
+ * "intent:component:Button:exception:1712345678901" ->
+ * "component-button-exception-1712345678901.yaml"
+ */
+export function getIntentFileName(intent: Intent): string {
+  const slug = intent.id
+    .replace(/^intent:/, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug}.yaml`;
+}
+
+/**
+ * Parse an expiry: an ISO date (2025-06-30) or a duration from now
+ * in days, weeks or months (30d, 6w, 3m)
+ */
+export function parseExpiry(value: string, now: Date = new Date()): Date {
+  const duration = value.trim().match(/^(\d+)\s*([dwm])$/i);
+  if (duration) {
+    const amount = Number(duration[1]);
+    const date = new Date(now);
+    switch (duration[2]!.toLowerCase()) {
+      case "d":
+        date.setDate(date.getDate() + amount);
+        break;
+      case "w":
+        date.setDate(date.getDate() + amount * 7);
+        break;
+      case "m":
+        date.setMonth(date.getMonth() + amount);
+        break;
+    }
+    return date;
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(
+      `Invalid expiry "${value}". Use a date (2025-06-30) or a duration (30d, 6w, 3m)`,
+    );
+  }
+  return date;
+}
+
+function getBaseName(path: string): string {
+  return path.split(/[\\/]/).pop() ?? path;
+}
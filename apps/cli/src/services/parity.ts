@@ -0,0 +1,244 @@
+// apps/cli/src/services/parity.ts
+/**
+ * Design parity - compares code components against design sources
+ *
+ * Code components (React, Vue, ...) are matched against each design source
+ * (Figma, Storybook) with SemanticDiffEngine.compareComponents. For every
+ * matched pair the prop and variant differences are summarized so design
+ * reviews can walk through what each side is missing.
+ */
+
+import type { Component, PropDefinition } from "@buoy-design/core";
+import {
+  SemanticDiffEngine,
+  type ComponentDifference,
+  type ComponentMatch,
+} from "@buoy-design/core/analysis";
+import type { BuoyConfig } from "../config/schema.js";
+import {
+  ScanOrchestrator,
+  type ScanError,
+  type ScannerSource,
+} from "../scan/orchestrator.js";
+
+export type DesignSource = "figma" | "storybook";
+
+export const DESIGN_SOURCES: DesignSource[] = ["figma", "storybook"];
+
+export type ParityIssue = "missing-in-design" | "missing-in-code" | "type-mismatch";
+
+export interface ParityMismatch {
+  /** Prop name, variant axis ("size") or axis option ("size=lg") */
+  name: string;
+  issue: ParityIssue;
+  /** What the code side has (prop type or variant options) */
+  code?: string;
+  /** What the design side has */
+  design?: string;
+}
+
+export interface ParityPair {
+  component: string;
+  designComponent: string;
+  path?: string;
+  matchType: ComponentMatch["matchType"];
+  confidence: number;
+  props: ParityMismatch[];
+  variants: ParityMismatch[];
+}
+
+export interface ParitySourceReport {
+  source: DesignSource;
+  designComponents: number;
+  matched: ParityPair[];
+  /** Code components with no counterpart in this source */
+  codeOnly: string[];
+  /** Design components with no counterpart in code */
+  designOnly: string[];
+  /** Share of design components implemented in code (0-1) */
+  coverage: number;
+}
+
+export interface ParityReport {
+  codeComponents: number;
+  sources: ParitySourceReport[];
+}
+
+export interface ParityOptions {
+  /** Callback for progress updates */
+  onProgress?: (message: string) => void;
+  /** Minimum confidence for fuzzy name matches (0-1) */
+  minMatchConfidence?: number;
+}
+
+export interface ParityResult {
+  report: ParityReport;
+  errors: ScanError[];
+}
+
+/**
+ * Split the enabled sources into code sources and design sources
+ */
+export function getParitySources(config: BuoyConfig): {
+  code: ScannerSource[];
+  design: DesignSource[];
+} {
+  const enabled = new ScanOrchestrator(config).getEnabledSources();
+  return {
+    code: enabled.filter(
+      (s) => s !== "tokens" && !DESIGN_SOURCES.includes(s as DesignSource),
+    ),
+    design: DESIGN_SOURCES.filter((s) => enabled.includes(s)),
+  };
+}
+
+/**
+ * Scan code and design sources and build a parity report
+ */
+export async function analyzeParity(
+  config: BuoyConfig,
+  projectRoot: string = process.cwd(),
+  options: ParityOptions = {},
+): Promise<ParityResult> {
+  const { code, design } = getParitySources(config);
+  if (design.length === 0) {
+    throw new Error(
+      "No design source enabled. Configure sources.figma or sources.storybook in .buoy.yaml",
+    );
+  }
+  if (code.length === 0) {
+    throw new Error("No code source enabled to compare against");
+  }
+
+  const orchestrator = new ScanOrchestrator(config, projectRoot);
+  const errors: ScanError[] = [];
+
+  const codeResult = await orchestrator.scan({
+    sources: code,
+    onProgress: options.onProgress,
+  });
+  errors.push(...codeResult.errors);
+
+  // Scan design sources one at a time so their components stay apart
+  const designBySource: Partial<Record<DesignSource, Component[]>> = {};
+  for (const source of design) {
+    const result = await orchestrator.scan({
+      sources: [source],
+      onProgress: options.onProgress,
+    });
+    designBySource[source] = result.components;
+    errors.push(...result.errors);
+  }
+
+  return {
+    report: buildParityReport(codeResult.components, designBySource, options),
+    errors,
+  };
+}
+
+/**
+ * Compare code components against the components of each design source
+ */
+export function buildParityReport(
+  codeComponents: Component[],
+  designBySource: Partial<Record<DesignSource, Component[]>>,
+  options: Pick<ParityOptions, "minMatchConfidence"> = {},
+): ParityReport {
+  const engine = new SemanticDiffEngine();
+  const sources: ParitySourceReport[] = [];
+
+  for (const source of DESIGN_SOURCES) {
+    const designComponents = designBySource[source];
+    if (!designComponents) continue;
+
+    const result = engine.compareComponents(codeComponents, designComponents, {
+      minMatchConfidence: options.minMatchConfidence,
+    });
+
+    const matched = result.matches
+      .map((match) => toParityPair(match))
+      .sort((a, b) => a.component.localeCompare(b.component));
+
+    sources.push({
+      source,
+      designComponents: designComponents.length,
+      matched,
+      codeOnly: result.orphanedSource.map((c) => c.name).sort(),
+      designOnly: result.orphanedTarget.map((c) => c.name).sort(),
+      coverage:
+        designComponents.length > 0
+          ? (designComponents.length - result.orphanedTarget.length) /
+            designComponents.length
+          : 1,
+    });
+  }
+
+  return { codeComponents: codeComponents.length, sources };
+}
+
+/**
+ * Number of prop and variant mismatches in a pair
+ */
+export function countMismatches(pair: ParityPair): number {
+  return pair.props.length + pair.variants.length;
+}
+
+function toParityPair(match: ComponentMatch): ParityPair {
+  const props: ParityMismatch[] = [];
+  const variants: ParityMismatch[] = [];
+
+  for (const difference of match.differences) {
+    if (difference.field.startsWith("props.")) {
+      props.push(toPropMismatch(difference));
+    } else if (difference.field.startsWith("variants.")) {
+      variants.push(toVariantMismatch(difference));
+    }
+  }
+
+  return {
+    component: match.source.name,
+    designComponent: match.target.name,
+    path: "path" in match.source.source ? match.source.source.path : undefined,
+    matchType: match.matchType,
+    confidence: match.confidence,
+    props,
+    variants,
+  };
+}
+
+/**
+ * props.<name> (missing on one side) or props.<name>.type
+ */
+function toPropMismatch(difference: ComponentDifference): ParityMismatch {
+  const [, name = "", detail] = difference.field.split(".");
+
+  if (detail === "type") {
+    return {
+      name,
+      issue: "type-mismatch",
+      code: String(difference.sourceValue),
+      design: String(difference.targetValue),
+    };
+  }
+
+  const codeProp = difference.sourceValue as PropDefinition | undefined;
+  const designProp = difference.targetValue as PropDefinition | undefined;
+  return codeProp
+    ? { name, issue: "missing-in-design", code: codeProp.type }
+    : { name, issue: "missing-in-code", design: designProp?.type };
+}
+
+/**
+ * variants.<axis> (axis on one side only) or variants.<axis>.<option>
+ */
+function toVariantMismatch(difference: ComponentDifference): ParityMismatch {
+  const [, axis = "", ...rest] = difference.field.split(".");
+  const option = rest.join(".");
+  const name = option ? `${axis}=${option}` : axis;
+  const format = (value: unknown) =>
+    Array.isArray(value) ? value.join(" | ") : String(value);
+
+  return difference.sourceValue !== undefined
+    ? { name, issue: "missing-in-design", code: format(difference.sourceValue) }
+    : { name, issue: "missing-in-code", design: format(difference.targetValue) };
+}
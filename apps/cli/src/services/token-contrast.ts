@@ -0,0 +1,89 @@
+// apps/cli/src/services/token-contrast.ts
+/**
+ * Token contrast - palette-wide WCAG 2.x and APCA contrast audit
+ *
+ * Scans the project's tokens, measures every color token against every
+ * other and checks the foreground/background pairings the palette
+ * documents in each of the tokens' modes, reporting failing pairings as
+ * color-contrast drift.
+ */
+
+import {
+  buildContrastMatrix,
+  measureContrastPairings,
+  checkTokenContrast,
+  type ContrastMatrix,
+  type DesignToken,
+  type DriftSignal,
+  type PairingContrast,
+  type TokenContrastOptions,
+} from "@buoy-design/core";
+import type { BuoyConfig } from "../config/schema.js";
+import { ScanOrchestrator } from "../scan/orchestrator.js";
+
+export type CheckedPairing = PairingContrast;
+
+export interface TokenContrastReport {
+  matrix: ContrastMatrix;
+  /** Documented pairings with their contrast in each mode, failing first */
+  pairings: CheckedPairing[];
+  drifts: DriftSignal[];
+}
+
+export interface TokenContrastResult {
+  report: TokenContrastReport;
+  tokenCount: number;
+}
+
+/**
+ * Scan tokens and audit the contrast of the color palette
+ */
+export async function analyzeTokenContrast(
+  config: BuoyConfig,
+  projectRoot: string = process.cwd(),
+  options: TokenContrastOptions = {},
+): Promise<TokenContrastResult> {
+  const orchestrator = new ScanOrchestrator(config, projectRoot);
+  const { tokens } = await orchestrator.scanTokens({});
+
+  return {
+    report: buildTokenContrastReport(tokens, options),
+    tokenCount: tokens.length,
+  };
+}
+
+/**
+ * Build the contrast matrix of the default values and check documented
+ * pairings in every mode
+ */
+export function buildTokenContrastReport(
+  tokens: DesignToken[],
+  options: TokenContrastOptions = {},
+): TokenContrastReport {
+  const pairings = measureContrastPairings(tokens, options).sort(
+    (a, b) => a.ratio - b.ratio,
+  );
+
+  return {
+    matrix: buildContrastMatrix(tokens),
+    pairings,
+    drifts: checkTokenContrast(tokens, options),
+  };
+}
+
+/**
+ * Parse `--pair foreground:background` values
+ */
+export function parseContrastPairs(
+  values: string[],
+): Array<{ foreground: string; background: string }> {
+  return values.map((value) => {
+    const separator = value.lastIndexOf(":");
+    const foreground = value.slice(0, separator).trim();
+    const background = value.slice(separator + 1).trim();
+    if (separator === -1 || !foreground || !background) {
+      throw new Error(`Invalid pair "${value}", expected foreground:background`);
+    }
+    return { foreground, background };
+  });
+}
@@ -0,0 +1,98 @@
+// apps/cli/src/services/token-export.ts
+/**
+ * Token export - multi-platform token output
+ *
+ * Scans the project's tokens once and formats them for every platform
+ * target in `sources.tokens.platforms` (SCSS, Less, TypeScript, Swift,
+ * Kotlin, DTCG JSON...), like a Style Dictionary build.
+ */
+
+import {
+  exportTokens,
+  TOKEN_EXPORT_FORMATS,
+  type DesignToken,
+  type TokenExportFormat,
+} from "@buoy-design/core";
+import type { BuoyConfig, TokenPlatform } from "../config/schema.js";
+import { ScanOrchestrator } from "../scan/orchestrator.js";
+
+/** Output paths for formats requested without a configured target */
+const DEFAULT_OUTPUTS: Record<TokenExportFormat, string> = {
+  css: "build/tokens/tokens.css",
+  scss: "build/tokens/_tokens.scss",
+  less: "build/tokens/tokens.less",
+  typescript: "build/tokens/tokens.ts",
+  swift: "build/tokens/DesignTokens.swift",
+  kotlin: "build/tokens/DesignTokens.kt",
+  dtcg: "build/tokens/tokens.json",
+};
+
+export interface TokenExportFile {
+  platform: TokenPlatform;
+  content: string;
+}
+
+export interface TokenExportResult {
+  files: TokenExportFile[];
+  tokenCount: number;
+}
+
+/**
+ * The platform targets to write: every configured target, or only the
+ * requested formats (using the default output for unconfigured ones)
+ */
+export function getExportPlatforms(
+  config: BuoyConfig,
+  formats: string[] = [],
+): TokenPlatform[] {
+  const configured = config.sources.tokens?.platforms ?? [];
+  if (formats.length === 0) return configured;
+
+  return formats.flatMap((format) => {
+    if (!isExportFormat(format)) {
+      throw new Error(
+        `Unknown export format "${format}". Available: ${TOKEN_EXPORT_FORMATS.join(", ")}`,
+      );
+    }
+    const targets = configured.filter((platform) => platform.format === format);
+    return targets.length > 0 ? targets : [{ format, output: DEFAULT_OUTPUTS[format] }];
+  });
+}
+
+/**
+ * Scan tokens and format them for each platform target
+ */
+export async function generateTokenExports(
+  config: BuoyConfig,
+  platforms: TokenPlatform[],
+  projectRoot: string = process.cwd(),
+): Promise<TokenExportResult> {
+  const orchestrator = new ScanOrchestrator(config, projectRoot);
+  const { tokens } = await orchestrator.scanTokens({});
+
+  return {
+    files: buildTokenExports(tokens, platforms),
+    tokenCount: tokens.length,
+  };
+}
+
+/**
+ * Format the same tokens for each platform target
+ */
+export function buildTokenExports(
+  tokens: DesignToken[],
+  platforms: TokenPlatform[],
+): TokenExportFile[] {
+  return platforms.map((platform) => ({
+    platform,
+    content: exportTokens(tokens, platform.format, {
+      prefix: platform.prefix,
+      name: platform.name,
+      packageName: platform.packageName,
+    }),
+  }));
+}
+
+function isExportFormat(format: string): format is TokenExportFormat {
+  return (TOKEN_EXPORT_FORMATS as readonly string[]).includes(format);
+}
@@ -0,0 +1,295 @@
+// apps/cli/src/services/token-impact.ts
+/**
+ * Token impact - what changing or deleting a token touches
+ *
+ * The files that reference the token, and the files importing them, come
+ * from analyzeImpact over the knowledge graph, updated incrementally first. Files are mapped to
+ * the scanned components defined in them, stories are split out, and each
+ * file's primary git author is reported as its owner. The visual risk is
+ * estimated from the color or size difference between the current and the
+ * proposed value.
+ */
+
+import {
+  analyzeImpact,
+  findOwnership,
+  hexToRgb,
+  spacingToPx,
+  isExampleFile,
+  type Component,
+  type DesignSystemGraph,
+  type DesignToken,
+  type FileNodeAttributes,
+  type TokenValue,
+} from "@buoy-design/core";
+import type { BuoyConfig } from "../config/schema.js";
+import { ScanOrchestrator, type ScanError } from "../scan/orchestrator.js";
+import {
+  buildGraph,
+  loadGraph,
+  getTokenNodeId,
+  DEFAULT_GRAPH_OPTIONS,
+} from "./graph-store.js";
+
+export type VisualRiskLevel = "none" | "low" | "medium" | "high" | "unknown";
+
+export interface VisualRisk {
+  level: VisualRiskLevel;
+  reason: string;
+}
+
+export interface ImpactedFile {
+  path: string;
+  /** True when the file references the token itself, not through an import */
+  direct: boolean;
+  owner: string | null;
+}
+
+export interface ImpactedComponent {
+  name: string;
+  path: string;
+  owner: string | null;
+}
+
+export interface TokenOwner {
+  name: string;
+  /** Impacted files this developer is the primary author of */
+  files: number;
+}
+
+export interface TokenImpactReport {
+  token: string;
+  category: string | null;
+  change: "update" | "delete";
+  currentValue: string | null;
+  /** Null when the token is deleted */
+  newValue: string | null;
+  visualRisk: VisualRisk;
+  /** How far the change spreads, from the number of dependents */
+  spreadRisk: "low" | "medium" | "high";
+  components: ImpactedComponent[];
+  /** Impacted files other than stories */
+  files: ImpactedFile[];
+  stories: ImpactedFile[];
+  owners: TokenOwner[];
+}
+
+export interface TokenImpactOptions {
+  /** Proposed value; without one the token is treated as deleted */
+  value?: string;
+  /** Callback for progress updates */
+  onProgress?: (message: string) => void;
+}
+
+export interface TokenImpactResult {
+  report: TokenImpactReport;
+  errors: ScanError[];
+}
+
+/**
+ * Scan tokens and components, load the graph and report the impact of
+ * changing a token
+ */
+export async function analyzeTokenImpact(
+  config: BuoyConfig,
+  tokenName: string,
+  projectRoot: string = process.cwd(),
+  options: TokenImpactOptions = {},
+): Promise<TokenImpactResult> {
+  const orchestrator = new ScanOrchestrator(config, projectRoot);
+  const scan = await orchestrator.scan({ onProgress: options.onProgress });
+
+  // Usages and ownership must match the working tree, so bring the stored
+  // graph up to date with the options it was built with; this only
+  // collects what changed since the last build
+  const previous = await loadGraph(projectRoot);
+  const { stored } = await buildGraph(projectRoot, {
+    ...(previous?.options ?? DEFAULT_GRAPH_OPTIONS),
+    scan: { components: scan.components, tokens: scan.tokens },
+    onProgress: options.onProgress,
+  });
+
+  return {
+    report: buildTokenImpactReport(stored.graph, tokenName, {
+      tokens: scan.tokens,
+      components: scan.components,
+      value: options.value,
+    }),
+    errors: scan.errors,
+  };
+}
+
+/**
+ * Report everything touched by changing a token in the graph
+ */
+export function buildTokenImpactReport(
+  graph: DesignSystemGraph,
+  tokenName: string,
+  options: { tokens: DesignToken[]; components: Component[]; value?: string },
+): TokenImpactReport {
+  const tokenId = getTokenNodeId(tokenName);
+  const token = options.tokens.find((t) => getTokenNodeId(t.name) === tokenId);
+  const currentValue = token ? formatValue(token.value) : null;
+  const newValue = options.value ?? null;
+
+  const impact = analyzeImpact(graph, tokenId);
+  const direct = new Set(impact.directDependents);
+
+  const impacted: ImpactedFile[] = impact.affectedFiles
+    .map((id) => ({
+      path: (graph.getNodeAttributes(id) as FileNodeAttributes).path,
+      direct: direct.has(id),
+      owner: findOwnership(graph, id)?.primaryAuthor ?? null,
+    }))
+    .sort((a, b) => Number(b.direct) - Number(a.direct) || a.path.localeCompare(b.path));
+
+  const byPath = new Map(impacted.map((file) => [file.path, file]));
+  const components = options.components
+    .flatMap((component) => {
+      const path = getComponentPath(component);
+      const file = path ? byPath.get(path) : undefined;
+      return file ? [{ name: component.name, path: file.path, owner: file.owner }] : [];
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const owners = new Map<string, number>();
+  for (const file of impacted) {
+    if (file.owner) owners.set(file.owner, (owners.get(file.owner) ?? 0) + 1);
+  }
+
+  return {
+    token: token?.name ?? tokenName,
+    category: token?.category ?? null,
+    change: newValue === null ? "delete" : "update",
+    currentValue,
+    newValue,
+    visualRisk:
+      newValue === null
+        ? estimateDeleteRisk(impacted.filter((file) => file.direct).length)
+        : estimateVisualRisk(currentValue, newValue),
+    spreadRisk: impact.riskLevel,
+    components,
+    files: impacted.filter((file) => !isExampleFile(file.path)),
+    stories: impacted.filter((file) => isExampleFile(file.path)),
+    owners: [...owners]
+      .map(([name, files]) => ({ name, files }))
+      .sort((a, b) => b.files - a.files || a.name.localeCompare(b.name)),
+  };
+}
+
+/**
+ * Estimate how visible a value change is: CIE76 color difference for
+ * colors, relative size difference for lengths
+ */
+export function estimateVisualRisk(from: string | null, to: string): VisualRisk {
+  if (from === null) {
+    return { level: "unknown", reason: "Current value is unknown" };
+  }
+  if (from.trim().toLowerCase() === to.trim().toLowerCase()) {
+    return { level: "none", reason: "Value is unchanged" };
+  }
+
+  const fromColor = parseColor(from);
+  const toColor = parseColor(to);
+  if (fromColor && toColor) {
+    const deltaE = colorDifference(fromColor, toColor);
+    if (deltaE === 0) {
+      return { level: "none", reason: `Same color (${from} → ${to})` };
+    }
+    const level = deltaE < 2.3 ? "low" : deltaE < 10 ? "medium" : "high";
+    return { level, reason: `Color difference ΔE ${deltaE.toFixed(1)} (${from} → ${to})` };
+  }
+
+  const fromPx = spacingToPx(from.trim());
+  const toPx = spacingToPx(to.trim());
+  if (fromPx !== null && toPx !== null) {
+    const delta = toPx - fromPx;
+    if (delta === 0) {
+      return { level: "none", reason: `Same size (${from} → ${to})` };
+    }
+    const ratio = Math.abs(delta) / Math.max(Math.abs(fromPx), 1);
+    const level = ratio < 0.1 ? "low" : ratio < 0.5 ? "medium" : "high";
+    const sign = delta > 0 ? "+" : "-";
+    return {
+      level,
+      reason: `Size changes by ${sign}${round(Math.abs(delta))}px, ${Math.round(ratio * 100)}% (${from} → ${to})`,
+    };
+  }
+
+  return { level: "unknown", reason: `Can't compare ${from} and ${to}` };
+}
+
+function estimateDeleteRisk(references: number): VisualRisk {
+  if (references === 0) {
+    return { level: "none", reason: "No file references the token" };
+  }
+  return {
+    level: "high",
+    reason: `${references} file${references === 1 ? "" : "s"} would reference a missing token`,
+  };
+}
+
+function getComponentPath(component: Component): string | null {
+  return "path" in component.source ? component.source.path : null;
+}
+
+function formatValue(value: TokenValue): string | null {
+  switch (value.type) {
+    case "color":
+      return value.hex;
+    case "spacing":
+      return `${value.value}${value.unit}`;
+    case "raw":
+      return value.value;
+    default:
+      return null;
+  }
+}
+
+interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+function parseColor(value: string): RGB | null {
+  const trimmed = value.trim();
+  if (/^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(trimmed)) {
+    return hexToRgb(trimmed);
+  }
+  const rgb = /^rgba?\(\s*(\d+)\s*,?\s*(\d+)\s*,?\s*(\d+)/i.exec(trimmed);
+  if (rgb) {
+    return { r: Number(rgb[1]), g: Number(rgb[2]), b: Number(rgb[3]) };
+  }
+  return null;
+}
+
+/**
+ * CIE76 difference; about 2.3 is the smallest difference people notice
+ */
+function colorDifference(a: RGB, b: RGB): number {
+  const [l1, a1, b1] = toLab(a);
+  const [l2, a2, b2] = toLab(b);
+  return Math.sqrt((l1 - l2) ** 2 + (a1 - a2) ** 2 + (b1 - b2) ** 2);
+}
+
+function toLab({ r, g, b }: RGB): [number, number, number] {
+  const linear = (c: number) => {
+    const s = c / 255;
+    return s <= 0.04045 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  };
+  const [lr, lg, lb] = [linear(r), linear(g), linear(b)];
+
+  // sRGB to XYZ (D65), relative to the reference white
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  const [fx, fy, fz] = [f(x), f(y), f(z)];
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Component, DesignToken, DriftSignal } from '@buoy-design/core';
+import { LocalScanStore } from '../local-store.js';
+
+function createComponent(name: string, overrides: Partial<Component> = {}): Component {
+  return {
+    id: `react:src/${name}.tsx:${name}`,
+    name,
+    source: { type: 'react', path: `src/${name}.tsx`, exportName: name },
+    props: [],
+    variants: [],
+    tokens: [],
+    dependencies: [],
+    metadata: {},
+    scannedAt: new Date('2025-01-01T00:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+function createToken(name: string, hex: string): DesignToken {
+  return {
+    id: `css:tokens.css:${name}`,
+    name,
+    category: 'color',
+    value: { type: 'color', hex },
+    source: { type: 'css', path: 'tokens.css' },
+    aliases: [],
+    usedBy: [],
+    metadata: {},
+    scannedAt: new Date('2025-01-01T00:00:00.000Z'),
+  };
+}
+
+function createDrift(id: string, severity: DriftSignal['severity'] = 'warning'): DriftSignal {
+  return {
+    id,
+    type: 'hardcoded-value',
+    severity,
+    source: {
+      entityType: 'component',
+      entityId: 'react:src/Button.tsx:Button',
+      entityName: 'Button',
+      location: 'src/Button.tsx:10',
+    },
+    message: `Drift ${id}`,
+    details: {},
+    detectedAt: new Date('2025-01-02T12:00:00.000Z'),
+  };
+}
+
+describe('LocalScanStore', () => {
+  let store: LocalScanStore;
+
+  beforeEach(() => {
+    store = new LocalScanStore({ inMemory: true });
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('reuses existing projects by name', async () => {
+    const first = await store.getOrCreateProject('web');
+    const second = await store.getOrCreateProject('web');
+
+    expect(second.id).toBe(first.id);
+    expect(await store.getProject(first.id)).toMatchObject({ name: 'web' });
+  });
+
+  it('persists scan results and restores dates', async () => {
+    const project = await store.getOrCreateProject('web');
+    const scan = await store.startScan(project.id, ['react', 'tokens']);
+
+    await store.completeScan(scan.id, {
+      components: [createComponent('Button')],
+      tokens: [createToken('primary', '#3b82f6')],
+      drifts: [createDrift('drift:1', 'critical'), createDrift('drift:2')],
+    });
+
+    const stored = await store.getScan(scan.id);
+    expect(stored?.status).toBe('completed');
+    expect(stored?.sources).toEqual(['react', 'tokens']);
+    expect(stored?.stats).toMatchObject({ componentCount: 1, tokenCount: 1, driftCount: 2 });
+
+    const components = await store.getComponents(scan.id);
+    expect(components[0]?.name).toBe('Button');
+    expect(components[0]?.scannedAt).toBeInstanceOf(Date);
+
+    const drifts = await store.getDriftSignals(scan.id);
+    expect(drifts).toHaveLength(2);
+    expect(drifts[0]?.detectedAt).toBeInstanceOf(Date);
+
+    expect(await store.getTokens(scan.id)).toHaveLength(1);
+  });
+
+  it('records a snapshot for each completed scan', async () => {
+    const project = await store.getOrCreateProject('web');
+    const scan = await store.startScan(project.id, ['react']);
+    await store.completeScan(scan.id, {
+      components: [createComponent('Button')],
+      tokens: [],
+      drifts: [createDrift('drift:1', 'critical'), createDrift('drift:2', 'info')],
+    });
+
+    const [snapshot] = await store.getSnapshots(project.id);
+    expect(snapshot).toMatchObject({
+      scanId: scan.id,
+      componentCount: 1,
+      driftCount: 2,
+      summary: { critical: 1, warning: 0, info: 1, frameworks: ['react'] },
+    });
+  });
+
+  it('returns scans newest first and tracks the latest completed scan', async () => {
+    const project = await store.getOrCreateProject('web');
+    const first = await store.startScan(project.id, ['react']);
+    await store.completeScan(first.id, { components: [], tokens: [], drifts: [] });
+    const second = await store.startScan(project.id, ['react']);
+    await store.failScan(second.id, 'boom');
+
+    const scans = await store.getScans(project.id);
+    expect(scans.map((s) => s.id)).toEqual([second.id, first.id]);
+    expect(scans[0]?.errors).toEqual(['boom']);
+    expect((await store.getLatestScan(project.id))?.id).toBe(first.id);
+  });
+
+  it('diffs two scans', async () => {
+    const project = await store.getOrCreateProject('web');
+
+    const previous = await store.startScan(project.id, ['react']);
+    await store.completeScan(previous.id, {
+      components: [createComponent('Button'), createComponent('Card')],
+      tokens: [createToken('primary', '#3b82f6')],
+      drifts: [createDrift('drift:old'), createDrift('drift:kept')],
+    });
+
+    const current = await store.startScan(project.id, ['react']);
+    await store.completeScan(current.id, {
+      components: [
+        createComponent('Button', { dependencies: ['Icon'] }),
+        createComponent('Modal'),
+      ],
+      tokens: [createToken('primary', '#2563eb')],
+      drifts: [createDrift('drift:kept'), createDrift('drift:new')],
+    });
+
+    const diff = await store.compareScan(current.id, previous.id);
+
+    expect(diff.added.components.map((c) => c.name)).toEqual(['Modal']);
+    expect(diff.removed.components.map((c) => c.name)).toEqual(['Card']);
+    expect(diff.modified.components.map((m) => m.after.name)).toEqual(['Button']);
+    expect(diff.modified.tokens).toHaveLength(1);
+    expect(diff.added.drifts.map((d) => d.id)).toEqual(['drift:new']);
+    expect(diff.removed.drifts.map((d) => d.id)).toEqual(['drift:old']);
+  });
+
+  it('throws when comparing unknown scans', async () => {
+    await expect(store.compareScan('scan_missing', 'scan_other')).rejects.toThrow(
+      'Scan not found',
+    );
+  });
+
+  describe('on disk', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'buoy-store-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('persists history across store instances', async () => {
+      const dbPath = join(dir, '.buoy', 'history.db');
+
+      const writer = new LocalScanStore({ dbPath });
+      const project = await writer.getOrCreateProject('web');
+      const scan = await writer.startScan(project.id, ['react']);
+      await writer.completeScan(scan.id, {
+        components: [createComponent('Button')],
+        tokens: [],
+        drifts: [],
+      });
+      writer.close();
+
+      expect(existsSync(dbPath)).toBe(true);
+
+      const reader = new LocalScanStore({ dbPath });
+      const reopened = await reader.getOrCreateProject('web');
+      expect(reopened.id).toBe(project.id);
+      expect(await reader.getScans(project.id)).toHaveLength(1);
+      expect(await reader.getComponents(scan.id)).toHaveLength(1);
+      reader.close();
+    });
+  });
+});
@@ -21,9 +21,12 @@ export type {
 export { LocalScanStore, type LocalStoreConfig } from './local-store.js';
 export { CloudScanStore, type CloudStoreConfig } from './cloud-store.js';
 
+import { readFileSync } from 'fs';
+import { join, basename } from 'path';
 import { LocalScanStore, type LocalStoreConfig } from './local-store.js';
 import { CloudScanStore, type CloudStoreConfig } from './cloud-store.js';
-import type { ScanStore } from './types.js';
+import type { ScanStore, ScanResults } from './types.js';
+import type { BuoyConfig } from '../config/schema.js';
 import { isLoggedIn, getApiToken } from '../cloud/index.js';
 
 export interface StoreConfig {
@@ -112,9 +115,6 @@ export function wouldUseCloud(config: StoreConfig = {}): boolean {
  */
 export function getProjectName(cwd: string = process.cwd()): string {
   try {
-    const { readFileSync } = require('fs');
-    const { join, basename } = require('path');
-
     const pkgPath = join(cwd, 'package.json');
     const pkg = JSON.parse(readFileSync(pkgPath, 'utf-8'));
 
@@ -127,7 +127,31 @@ export function getProjectName(cwd: string = process.cwd()): string {
     return basename(cwd);
   } catch {
     // No package.json or invalid JSON - use directory name
-    const { basename } = require('path');
     return basename(cwd);
   }
 }
+
+/**
+ * Save a completed scan to the local history database so `buoy history` and
+ * `buoy show history` can chart it. Persistence failures never fail the
+ * command that computed the results.
+ */
+export async function recordScanHistory(
+  config: BuoyConfig,
+  results: ScanResults,
+): Promise<void> {
+  let store: ScanStore | undefined;
+  try {
+    store = createStore({ forceLocal: true });
+    const project = await store.getOrCreateProject(config.project?.name || getProjectName());
+    const sources = Object.entries(config.sources ?? {})
+      .filter(([, source]) => source?.enabled)
+      .map(([name]) => name);
+    const scan = await store.startScan(project.id, sources);
+    await store.completeScan(scan.id, results);
+  } catch {
+    // History is best-effort
+  } finally {
+    store?.close();
+  }
+}
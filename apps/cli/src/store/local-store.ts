@@ -1,10 +1,17 @@
 /**
- * LocalScanStore - Stub implementation.
+ * LocalScanStore - SQLite implementation of ScanStore.
  *
- * Local history has been removed in favor of cloud storage.
- * This stub exists for API compatibility - use `buoy ahoy login` for persistent history.
+ * Persists projects, scans, components, tokens, drift signals and snapshots
+ * to `.buoy/history.db` so history and trend commands work offline
+ * (air-gapped CI, no `buoy ahoy login` required).
  */
 
+import { existsSync, mkdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { randomUUID } from 'crypto';
+import Database from 'better-sqlite3';
+import { drizzle, type BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { and, eq, desc, sql } from 'drizzle-orm';
 import type { Component, DesignToken, DriftSignal } from '@buoy-design/core';
 import type {
   ScanStore,
@@ -15,120 +22,451 @@ import type {
   ScanSnapshot,
   ProjectConfig,
 } from './types.js';
+import * as schema from './schema.js';
 
 export interface LocalStoreConfig {
+  /**
+   * Path to the database file. Defaults to `.buoy/history.db` in the cwd.
+   */
   dbPath?: string;
+
+  /**
+   * Keep the database in memory (nothing is written to disk). Useful for tests.
+   */
   inMemory?: boolean;
 }
 
 /**
- * Stub implementation that doesn't persist data.
- * Use CloudScanStore (via `buoy ahoy login`) for persistent history.
+ * Default location of the local history database, relative to the project root.
+ */
+const DEFAULT_DB_PATH = join('.buoy', 'history.db');
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z$/;
+
+/**
+ * Restore Date objects (scannedAt, detectedAt, ...) lost when serializing to JSON.
+ */
+function reviveDates(_key: string, value: unknown): unknown {
+  if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+    return new Date(value);
+  }
+  return value;
+}
+
+function parseData<T>(data: string): T {
+  return JSON.parse(data, reviveDates) as T;
+}
+
+/**
+ * Fingerprint an entity for change detection, ignoring scan timestamps.
  */
+function fingerprint(entity: Component | DesignToken): string {
+  const { scannedAt: _scannedAt, ...rest } = entity;
+  return JSON.stringify(rest);
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${randomUUID().replace(/-/g, '').slice(0, 8)}`;
+}
+
+function toStoredProject(row: typeof schema.projects.$inferSelect): StoredProject {
+  return {
+    id: row.id,
+    name: row.name,
+    repoUrl: row.repoUrl ?? undefined,
+    figmaFileKeys: row.figmaFileKeys ?? undefined,
+    storybookUrl: row.storybookUrl ?? undefined,
+    config: row.config ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function toStoredScan(row: typeof schema.scans.$inferSelect): StoredScan {
+  return {
+    id: row.id,
+    projectId: row.projectId,
+    status: row.status,
+    sources: row.sources,
+    stats: row.stats ?? undefined,
+    errors: row.errors ?? undefined,
+    startedAt: row.startedAt ?? undefined,
+    completedAt: row.completedAt ?? undefined,
+    createdAt: row.createdAt,
+  };
+}
+
+function toScanSnapshot(row: typeof schema.snapshots.$inferSelect): ScanSnapshot {
+  return {
+    id: row.id,
+    projectId: row.projectId,
+    scanId: row.scanId,
+    componentCount: row.componentCount,
+    tokenCount: row.tokenCount,
+    driftCount: row.driftCount,
+    coverageScore: row.coverageScore ?? undefined,
+    summary: row.summary,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Diff two keyed entity lists into added/removed/modified buckets.
+ */
+function diffEntities<T extends Component | DesignToken>(
+  current: T[],
+  previous: T[],
+): { added: T[]; removed: T[]; modified: Array<{ before: T; after: T }> } {
+  const previousById = new Map(previous.map((e) => [e.id, e]));
+  const currentIds = new Set(current.map((e) => e.id));
+
+  const added: T[] = [];
+  const modified: Array<{ before: T; after: T }> = [];
+
+  for (const entity of current) {
+    const before = previousById.get(entity.id);
+    if (!before) {
+      added.push(entity);
+    } else if (fingerprint(before) !== fingerprint(entity)) {
+      modified.push({ before, after: entity });
+    }
+  }
+
+  const removed = previous.filter((e) => !currentIds.has(e.id));
+
+  return { added, removed, modified };
+}
+
 export class LocalScanStore implements ScanStore {
-  private projects = new Map<string, StoredProject>();
-  private scansData = new Map<string, StoredScan>();
+  private sqlite: Database.Database;
+  private db: BetterSQLite3Database<typeof schema>;
+
+  constructor(config: LocalStoreConfig = {}) {
+    let filename = ':memory:';
+
+    if (!config.inMemory) {
+      filename = config.dbPath ?? join(process.cwd(), DEFAULT_DB_PATH);
+      const dir = dirname(filename);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+    }
 
-  constructor(_config: LocalStoreConfig = {}) {
-    // No-op - no local persistence
+    this.sqlite = new Database(filename);
+    this.sqlite.pragma('journal_mode = WAL');
+    this.sqlite.pragma('foreign_keys = ON');
+    this.migrate();
+
+    this.db = drizzle(this.sqlite, { schema });
+  }
+
+  private migrate(): void {
+    const version = this.sqlite.pragma('user_version', { simple: true }) as number;
+    if (version > schema.SCHEMA_VERSION) {
+      throw new Error(
+        `Local history database was created by a newer version of Buoy (schema v${version}). ` +
+          'Upgrade Buoy or delete .buoy/history.db.',
+      );
+    }
+    this.sqlite.exec(schema.SCHEMA_SQL);
+    this.sqlite.pragma(`user_version = ${schema.SCHEMA_VERSION}`);
   }
 
   async getOrCreateProject(name: string, config?: ProjectConfig): Promise<StoredProject> {
-    const existing = this.projects.get(name);
-    if (existing) return existing;
+    const existing = this.db
+      .select()
+      .from(schema.projects)
+      .where(eq(schema.projects.name, name))
+      .get();
+
+    if (existing) {
+      if (!config) return toStoredProject(existing);
+
+      const updated = this.db
+        .update(schema.projects)
+        .set({
+          repoUrl: config.repoUrl ?? existing.repoUrl,
+          figmaFileKeys: config.figmaFileKeys ?? existing.figmaFileKeys,
+          storybookUrl: config.storybookUrl ?? existing.storybookUrl,
+          config: config.config ?? existing.config,
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.projects.id, existing.id))
+        .returning()
+        .get();
+      return toStoredProject(updated);
+    }
 
     const now = new Date();
-    const project: StoredProject = {
-      id: `proj_${Math.random().toString(36).slice(2, 10)}`,
-      name,
-      repoUrl: config?.repoUrl,
-      figmaFileKeys: config?.figmaFileKeys,
-      storybookUrl: config?.storybookUrl,
-      config: config?.config,
-      createdAt: now,
-      updatedAt: now,
-    };
+    const row = this.db
+      .insert(schema.projects)
+      .values({
+        id: generateId('proj'),
+        name,
+        repoUrl: config?.repoUrl,
+        figmaFileKeys: config?.figmaFileKeys,
+        storybookUrl: config?.storybookUrl,
+        config: config?.config,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning()
+      .get();
 
-    this.projects.set(name, project);
-    return project;
+    return toStoredProject(row);
   }
 
   async getProject(projectId: string): Promise<StoredProject | null> {
-    for (const project of this.projects.values()) {
-      if (project.id === projectId) return project;
-    }
-    return null;
+    const row = this.db
+      .select()
+      .from(schema.projects)
+      .where(eq(schema.projects.id, projectId))
+      .get();
+    return row ? toStoredProject(row) : null;
   }
 
   async startScan(projectId: string, sources: string[]): Promise<StoredScan> {
     const now = new Date();
-    const scan: StoredScan = {
-      id: `scan_${Math.random().toString(36).slice(2, 10)}`,
-      projectId,
-      status: 'running',
-      sources,
-      startedAt: now,
-      createdAt: now,
-    };
+    const row = this.db
+      .insert(schema.scans)
+      .values({
+        id: generateId('scan'),
+        projectId,
+        status: 'running',
+        sources,
+        startedAt: now,
+        createdAt: now,
+      })
+      .returning()
+      .get();
 
-    this.scansData.set(scan.id, scan);
-    return scan;
+    return toStoredScan(row);
   }
 
-  async completeScan(scanId: string, _results: ScanResults): Promise<void> {
-    const scan = this.scansData.get(scanId);
-    if (scan) {
-      scan.status = 'completed';
-      scan.completedAt = new Date();
+  async completeScan(scanId: string, results: ScanResults): Promise<void> {
+    const scan = this.db
+      .select()
+      .from(schema.scans)
+      .where(eq(schema.scans.id, scanId))
+      .get();
+
+    if (!scan) {
+      throw new Error(`Scan not found: ${scanId}`);
     }
+
+    const completedAt = new Date();
+    const duration = scan.startedAt
+      ? completedAt.getTime() - scan.startedAt.getTime()
+      : undefined;
+
+    const frameworks = [...new Set(results.components.map((c) => c.source.type))];
+    const summary = {
+      critical: results.drifts.filter((d) => d.severity === 'critical').length,
+      warning: results.drifts.filter((d) => d.severity === 'warning').length,
+      info: results.drifts.filter((d) => d.severity === 'info').length,
+      frameworks,
+    };
+
+    this.db.transaction((tx) => {
+      // Re-completing a scan replaces its previous results
+      tx.delete(schema.components).where(eq(schema.components.scanId, scanId)).run();
+      tx.delete(schema.tokens).where(eq(schema.tokens.scanId, scanId)).run();
+      tx.delete(schema.driftSignals).where(eq(schema.driftSignals.scanId, scanId)).run();
+      tx.delete(schema.snapshots).where(eq(schema.snapshots.scanId, scanId)).run();
+
+      for (const component of results.components) {
+        tx.insert(schema.components)
+          .values({
+            scanId,
+            componentId: component.id,
+            name: component.name,
+            data: JSON.stringify(component),
+          })
+          .run();
+      }
+
+      for (const token of results.tokens) {
+        tx.insert(schema.tokens)
+          .values({
+            scanId,
+            tokenId: token.id,
+            name: token.name,
+            category: token.category,
+            data: JSON.stringify(token),
+          })
+          .run();
+      }
+
+      for (const drift of results.drifts) {
+        tx.insert(schema.driftSignals)
+          .values({
+            scanId,
+            driftId: drift.id,
+            type: drift.type,
+            severity: drift.severity,
+            data: JSON.stringify(drift),
+          })
+          .run();
+      }
+
+      tx.update(schema.scans)
+        .set({
+          status: 'completed',
+          completedAt,
+          errors: results.errors?.length ? results.errors : null,
+          stats: {
+            componentCount: results.components.length,
+            tokenCount: results.tokens.length,
+            driftCount: results.drifts.length,
+            duration,
+          },
+        })
+        .where(eq(schema.scans.id, scanId))
+        .run();
+
+      tx.insert(schema.snapshots)
+        .values({
+          id: generateId('snap'),
+          projectId: scan.projectId,
+          scanId,
+          componentCount: results.components.length,
+          tokenCount: results.tokens.length,
+          driftCount: results.drifts.length,
+          summary,
+          createdAt: completedAt,
+        })
+        .run();
+    });
   }
 
   async failScan(scanId: string, error: string): Promise<void> {
-    const scan = this.scansData.get(scanId);
-    if (scan) {
-      scan.status = 'failed';
-      scan.errors = [error];
-      scan.completedAt = new Date();
-    }
+    this.db
+      .update(schema.scans)
+      .set({
+        status: 'failed',
+        errors: [error],
+        completedAt: new Date(),
+      })
+      .where(eq(schema.scans.id, scanId))
+      .run();
   }
 
-  async getLatestScan(_projectId: string): Promise<StoredScan | null> {
-    return null; // No persistence
+  async getLatestScan(projectId: string): Promise<StoredScan | null> {
+    const row = this.db
+      .select()
+      .from(schema.scans)
+      .where(and(eq(schema.scans.projectId, projectId), eq(schema.scans.status, 'completed')))
+      .orderBy(desc(schema.scans.completedAt), desc(sql`rowid`))
+      .limit(1)
+      .get();
+    return row ? toStoredScan(row) : null;
   }
 
-  async getScans(_projectId: string, _limit?: number): Promise<StoredScan[]> {
-    return []; // No persistence
+  async getScans(projectId: string, limit = 10): Promise<StoredScan[]> {
+    return this.db
+      .select()
+      .from(schema.scans)
+      .where(eq(schema.scans.projectId, projectId))
+      .orderBy(desc(schema.scans.createdAt), desc(sql`rowid`))
+      .limit(limit)
+      .all()
+      .map(toStoredScan);
   }
 
   async getScan(scanId: string): Promise<StoredScan | null> {
-    return this.scansData.get(scanId) || null;
+    const row = this.db
+      .select()
+      .from(schema.scans)
+      .where(eq(schema.scans.id, scanId))
+      .get();
+    return row ? toStoredScan(row) : null;
   }
 
-  async getComponents(_scanId: string): Promise<Component[]> {
-    return []; // No persistence
+  async getComponents(scanId: string): Promise<Component[]> {
+    return this.db
+      .select({ data: schema.components.data })
+      .from(schema.components)
+      .where(eq(schema.components.scanId, scanId))
+      .all()
+      .map((row) => parseData<Component>(row.data));
   }
 
-  async getTokens(_scanId: string): Promise<DesignToken[]> {
-    return []; // No persistence
+  async getTokens(scanId: string): Promise<DesignToken[]> {
+    return this.db
+      .select({ data: schema.tokens.data })
+      .from(schema.tokens)
+      .where(eq(schema.tokens.scanId, scanId))
+      .all()
+      .map((row) => parseData<DesignToken>(row.data));
   }
 
-  async getDriftSignals(_scanId: string): Promise<DriftSignal[]> {
-    return []; // No persistence
+  async getDriftSignals(scanId: string): Promise<DriftSignal[]> {
+    return this.db
+      .select({ data: schema.driftSignals.data })
+      .from(schema.driftSignals)
+      .where(eq(schema.driftSignals.scanId, scanId))
+      .all()
+      .map((row) => parseData<DriftSignal>(row.data));
   }
 
-  async getSnapshots(_projectId: string, _limit?: number): Promise<ScanSnapshot[]> {
-    return []; // No persistence
+  async getSnapshots(projectId: string, limit = 10): Promise<ScanSnapshot[]> {
+    return this.db
+      .select()
+      .from(schema.snapshots)
+      .where(eq(schema.snapshots.projectId, projectId))
+      .orderBy(desc(schema.snapshots.createdAt), desc(sql`rowid`))
+      .limit(limit)
+      .all()
+      .map(toScanSnapshot);
   }
 
-  async compareScan(_currentScanId: string, _previousScanId: string): Promise<ScanDiff> {
+  async compareScan(currentScanId: string, previousScanId: string): Promise<ScanDiff> {
+    for (const id of [currentScanId, previousScanId]) {
+      if (!(await this.getScan(id))) {
+        throw new Error(`Scan not found: ${id}`);
+      }
+    }
+
+    const [currentComponents, previousComponents] = await Promise.all([
+      this.getComponents(currentScanId),
+      this.getComponents(previousScanId),
+    ]);
+    const [currentTokens, previousTokens] = await Promise.all([
+      this.getTokens(currentScanId),
+      this.getTokens(previousScanId),
+    ]);
+    const [currentDrifts, previousDrifts] = await Promise.all([
+      this.getDriftSignals(currentScanId),
+      this.getDriftSignals(previousScanId),
+    ]);
+
+    const componentDiff = diffEntities(currentComponents, previousComponents);
+    const tokenDiff = diffEntities(currentTokens, previousTokens);
+
+    const previousDriftIds = new Set(previousDrifts.map((d) => d.id));
+    const currentDriftIds = new Set(currentDrifts.map((d) => d.id));
+
     return {
-      added: { components: [], tokens: [], drifts: [] },
-      removed: { components: [], tokens: [], drifts: [] },
-      modified: { components: [], tokens: [] },
+      added: {
+        components: componentDiff.added,
+        tokens: tokenDiff.added,
+        drifts: currentDrifts.filter((d) => !previousDriftIds.has(d.id)),
+      },
+      removed: {
+        components: componentDiff.removed,
+        tokens: tokenDiff.removed,
+        drifts: previousDrifts.filter((d) => !currentDriftIds.has(d.id)),
+      },
+      modified: {
+        components: componentDiff.modified,
+        tokens: tokenDiff.modified,
+      },
     };
   }
 
   close(): void {
-    // No-op
+    if (this.sqlite.open) {
+      this.sqlite.close();
+    }
   }
 }
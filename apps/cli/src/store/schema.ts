@@ -0,0 +1,175 @@
+/**
+ * SQLite schema for the local scan history database (.buoy/history.db).
+ *
+ * Entity payloads (components, tokens, drift signals) are stored as JSON
+ * so the schema doesn't need to track every model change in @buoy-design/core.
+ */
+
+import { sqliteTable, text, integer, real, index } from 'drizzle-orm/sqlite-core';
+import type { ScanStats, ScanStatus } from './types.js';
+
+export const projects = sqliteTable('projects', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  repoUrl: text('repo_url'),
+  figmaFileKeys: text('figma_file_keys', { mode: 'json' }).$type<string[]>(),
+  storybookUrl: text('storybook_url'),
+  config: text('config', { mode: 'json' }).$type<Record<string, unknown>>(),
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull(),
+});
+
+export const scans = sqliteTable(
+  'scans',
+  {
+    id: text('id').primaryKey(),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id, { onDelete: 'cascade' }),
+    status: text('status').$type<ScanStatus>().notNull(),
+    sources: text('sources', { mode: 'json' }).$type<string[]>().notNull(),
+    stats: text('stats', { mode: 'json' }).$type<ScanStats>(),
+    errors: text('errors', { mode: 'json' }).$type<string[]>(),
+    startedAt: integer('started_at', { mode: 'timestamp_ms' }),
+    completedAt: integer('completed_at', { mode: 'timestamp_ms' }),
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
+  },
+  (table) => [index('scans_project_idx').on(table.projectId, table.createdAt)],
+);
+
+export const components = sqliteTable(
+  'components',
+  {
+    scanId: text('scan_id')
+      .notNull()
+      .references(() => scans.id, { onDelete: 'cascade' }),
+    componentId: text('component_id').notNull(),
+    name: text('name').notNull(),
+    data: text('data').notNull(),
+  },
+  (table) => [index('components_scan_idx').on(table.scanId)],
+);
+
+export const tokens = sqliteTable(
+  'tokens',
+  {
+    scanId: text('scan_id')
+      .notNull()
+      .references(() => scans.id, { onDelete: 'cascade' }),
+    tokenId: text('token_id').notNull(),
+    name: text('name').notNull(),
+    category: text('category').notNull(),
+    data: text('data').notNull(),
+  },
+  (table) => [index('tokens_scan_idx').on(table.scanId)],
+);
+
+export const driftSignals = sqliteTable(
+  'drift_signals',
+  {
+    scanId: text('scan_id')
+      .notNull()
+      .references(() => scans.id, { onDelete: 'cascade' }),
+    driftId: text('drift_id').notNull(),
+    type: text('type').notNull(),
+    severity: text('severity').notNull(),
+    data: text('data').notNull(),
+  },
+  (table) => [index('drift_signals_scan_idx').on(table.scanId)],
+);
+
+export const snapshots = sqliteTable(
+  'snapshots',
+  {
+    id: text('id').primaryKey(),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id, { onDelete: 'cascade' }),
+    scanId: text('scan_id')
+      .notNull()
+      .references(() => scans.id, { onDelete: 'cascade' }),
+    componentCount: integer('component_count').notNull(),
+    tokenCount: integer('token_count').notNull(),
+    driftCount: integer('drift_count').notNull(),
+    coverageScore: real('coverage_score'),
+    summary: text('summary', { mode: 'json' })
+      .$type<{ critical: number; warning: number; info: number; frameworks: string[] }>()
+      .notNull(),
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
+  },
+  (table) => [index('snapshots_project_idx').on(table.projectId, table.createdAt)],
+);
+
+/**
+ * Bumped whenever the DDL below changes. Stored in `PRAGMA user_version`.
+ */
+export const SCHEMA_VERSION = 1;
+
+/**
+ * DDL matching the table definitions above. Applied on open with
+ * IF NOT EXISTS so existing databases are left untouched.
+ */
+export const SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS projects (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  repo_url TEXT,
+  figma_file_keys TEXT,
+  storybook_url TEXT,
+  config TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS scans (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  status TEXT NOT NULL,
+  sources TEXT NOT NULL,
+  stats TEXT,
+  errors TEXT,
+  started_at INTEGER,
+  completed_at INTEGER,
+  created_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS scans_project_idx ON scans(project_id, created_at);
+
+CREATE TABLE IF NOT EXISTS components (
+  scan_id TEXT NOT NULL REFERENCES scans(id) ON DELETE CASCADE,
+  component_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS components_scan_idx ON components(scan_id);
+
+CREATE TABLE IF NOT EXISTS tokens (
+  scan_id TEXT NOT NULL REFERENCES scans(id) ON DELETE CASCADE,
+  token_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  category TEXT NOT NULL,
+  data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS tokens_scan_idx ON tokens(scan_id);
+
+CREATE TABLE IF NOT EXISTS drift_signals (
+  scan_id TEXT NOT NULL REFERENCES scans(id) ON DELETE CASCADE,
+  drift_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  severity TEXT NOT NULL,
+  data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS drift_signals_scan_idx ON drift_signals(scan_id);
+
+CREATE TABLE IF NOT EXISTS snapshots (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  scan_id TEXT NOT NULL REFERENCES scans(id) ON DELETE CASCADE,
+  component_count INTEGER NOT NULL,
+  token_count INTEGER NOT NULL,
+  drift_count INTEGER NOT NULL,
+  coverage_score REAL,
+  summary TEXT NOT NULL,
+  created_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS snapshots_project_idx ON snapshots(project_id, created_at);
+`;
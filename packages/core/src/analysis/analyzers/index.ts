@@ -2,6 +2,7 @@ export * from "./naming-analyzer.js";
 export * from "./duplicate-detector.js";
 export * from "./prop-analyzer.js";
 export * from "./accessibility-analyzer.js";
+export * from "./token-contrast-analyzer.js";
 export * from "./pattern-analyzer.js";
 
 // Phase 4 analyzers
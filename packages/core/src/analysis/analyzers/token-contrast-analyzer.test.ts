@@ -0,0 +1,169 @@
+// packages/core/src/analysis/analyzers/token-contrast-analyzer.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  buildContrastMatrix,
+  findContrastPairings,
+  checkTokenContrast,
+  measureContrastPairings,
+  getWcagContrastLevel,
+  getApcaContrastLevel,
+} from "./token-contrast-analyzer.js";
+import { getAPCAContrast } from "../utils/color-contrast.js";
+import type { DesignToken } from "../../models/index.js";
+
+function colorToken(name: string, hex: string, line?: number): DesignToken {
+  return {
+    id: `css:src/tokens.css:${name}`,
+    name,
+    category: "color",
+    value: { type: "color", hex },
+    source: { type: "css", path: "src/tokens.css", line },
+    aliases: [],
+    usedBy: [],
+    metadata: {},
+    scannedAt: new Date(),
+  };
+}
+
+const PALETTE: DesignToken[] = [
+  colorToken("--color-primary", "#2563eb", 3),
+  colorToken("--color-text-on-primary", "#ffffff", 4),
+  colorToken("--color-warning", "#facc15", 5),
+  colorToken("--color-on-warning", "#ffffff", 6),
+  colorToken("--muted", "#f4f4f5"),
+  colorToken("--muted-foreground", "#a1a1aa"),
+  {
+    ...colorToken("--spacing-md", ""),
+    category: "spacing",
+    value: { type: "spacing", value: 16, unit: "px" },
+  },
+];
+
+describe("getAPCAContrast", () => {
+  it("measures polarity-aware lightness contrast", () => {
+    const black = { r: 0, g: 0, b: 0 };
+    const white = { r: 255, g: 255, b: 255 };
+
+    expect(getAPCAContrast(black, white)).toBeCloseTo(106.04, 1);
+    expect(getAPCAContrast(white, black)).toBeCloseTo(-107.88, 1);
+    expect(getAPCAContrast(white, white)).toBe(0);
+  });
+});
+
+describe("getWcagContrastLevel", () => {
+  it("maps ratios to the best WCAG level met", () => {
+    expect(getWcagContrastLevel(21)).toBe("AAA");
+    expect(getWcagContrastLevel(4.5)).toBe("AA");
+    expect(getWcagContrastLevel(3.2)).toBe("AA-large");
+    expect(getWcagContrastLevel(1.5)).toBe("fail");
+  });
+});
+
+describe("getApcaContrastLevel", () => {
+  it("maps lightness contrast of either polarity to the best APCA level met", () => {
+    expect(getApcaContrastLevel(90)).toBe("body");
+    expect(getApcaContrastLevel(-62)).toBe("content");
+    expect(getApcaContrastLevel(45)).toBe("large");
+    expect(getApcaContrastLevel(-30)).toBe("non-text");
+    expect(getApcaContrastLevel(12)).toBe("fail");
+  });
+});
+
+describe("buildContrastMatrix", () => {
+  it("measures every pair of color tokens", () => {
+    const matrix = buildContrastMatrix(PALETTE);
+
+    expect(matrix.colors).toHaveLength(6);
+    expect(matrix.pairs).toHaveLength(30);
+
+    const pair = matrix.pairs.find(
+      (p) => p.foreground === "--color-text-on-primary" && p.background === "--color-primary",
+    );
+    expect(pair!.ratio).toBeCloseTo(5.17, 2);
+    expect(pair!.wcag).toBe("AA");
+    expect(pair!.apca).toBeLessThan(0);
+  });
+});
+
+describe("findContrastPairings", () => {
+  it("pairs tokens by naming convention", () => {
+    expect(findContrastPairings(PALETTE)).toEqual([
+      { foreground: "--color-text-on-primary", background: "--color-primary", source: "naming" },
+      { foreground: "--color-on-warning", background: "--color-warning", source: "naming" },
+      { foreground: "--muted-foreground", background: "--muted", source: "naming" },
+    ]);
+  });
+
+  it("accepts explicit pairs by any spelling of the names", () => {
+    const pairings = findContrastPairings(PALETTE, {
+      pairs: [{ foreground: "color.warning", background: "muted" }],
+    });
+
+    expect(pairings[0]).toEqual({
+      foreground: "--color-warning",
+      background: "--muted",
+      source: "explicit",
+    });
+  });
+
+  it("rejects explicit pairs with unknown or identical tokens", () => {
+    expect(() =>
+      findContrastPairings(PALETTE, { pairs: [{ foreground: "color.warnign", background: "muted" }] }),
+    ).toThrow('Unknown color token "color.warnign" in pair "color.warnign:muted"');
+    expect(() =>
+      findContrastPairings(PALETTE, { pairs: [{ foreground: "muted", background: "--muted" }] }),
+    ).toThrow('Pair "muted:--muted" uses the same token as foreground and background');
+  });
+});
+
+describe("checkTokenContrast", () => {
+  it("reports documented pairings that fail WCAG AA", () => {
+    const drifts = checkTokenContrast(PALETTE);
+
+    expect(drifts.map((d) => [d.source.entityName, d.target?.entityName, d.severity])).toEqual([
+      ["--color-on-warning", "--color-warning", "critical"],
+      ["--muted-foreground", "--muted", "critical"],
+    ]);
+    expect(drifts[0]).toMatchObject({
+      type: "color-contrast",
+      source: { entityType: "token", location: "src/tokens.css:6" },
+      details: { expected: "Minimum 4.5:1 for WCAG AA" },
+    });
+    expect(drifts[0]!.message).toContain("APCA Lc");
+  });
+
+  it("checks every mode either token defines", () => {
+    const tokens: DesignToken[] = [
+      {
+        ...colorToken("--surface", "#ffffff"),
+        modes: { light: { type: "color", hex: "#ffffff" }, dark: { type: "color", hex: "#18181b" } },
+      },
+      {
+        ...colorToken("--on-surface", "#18181b"),
+        modes: { dark: { type: "color", hex: "#27272a" } },
+      },
+    ];
+
+    expect(measureContrastPairings(tokens).map((p) => [p.mode, p.wcag, p.apcaLevel])).toEqual([
+      [undefined, "AAA", "body"],
+      ["dark", "fail", "fail"],
+    ]);
+
+    const drifts = checkTokenContrast(tokens);
+    expect(drifts).toHaveLength(1);
+    expect(drifts[0]!.id).toBe(
+      "drift:color-contrast:css:src/tokens.css:--on-surface:css:src/tokens.css:--surface:dark",
+    );
+    expect(drifts[0]!.message).toContain("in dark mode: #27272a on #18181b");
+  });
+
+  it("warns when a pairing only passes for large text", () => {
+    const drifts = checkTokenContrast([
+      colorToken("--primary", "#3b82f6"),
+      colorToken("--primary-foreground", "#ffffff"),
+    ]);
+
+    expect(drifts).toHaveLength(1);
+    expect(drifts[0]!.severity).toBe("warning");
+  });
+});
@@ -0,0 +1,381 @@
+/**
+ * Token Contrast Analyzer
+ *
+ * Audits contrast across the whole color palette rather than inside a
+ * single component:
+ * - Builds the WCAG 2.x ratio and APCA lightness contrast matrix of every
+ *   pair of color tokens
+ * - Finds the foreground/background pairings the palette documents through
+ *   its naming (on-primary / primary, primary-foreground / primary,
+ *   fg-muted / bg-muted, ...)
+ * - Reports color-contrast drift for pairings that fail WCAG AA, in the
+ *   default values and in every mode (light, dark, ...) the tokens define
+ */
+
+import type {
+  DesignToken,
+  DriftSignal,
+  DriftSource,
+} from "../../models/index.js";
+import {
+  createDriftId,
+  getTokenModeValues,
+  getTokenValue,
+} from "../../models/index.js";
+import {
+  colorToRgb,
+  getAPCAContrast,
+  getContrastRatio,
+  APCA_THRESHOLDS,
+  WCAG_THRESHOLDS,
+  type RGB,
+} from "../utils/color-contrast.js";
+
+export type WcagContrastLevel = "AAA" | "AA" | "AA-large" | "fail";
+
+/** Most demanding use an APCA lightness contrast is enough for */
+export type ApcaContrastLevel = "body" | "content" | "large" | "non-text" | "fail";
+
+export interface TokenContrast {
+  /** Foreground (text) token name */
+  foreground: string;
+  /** Background token name */
+  background: string;
+  /** WCAG 2.x contrast ratio, 1-21 */
+  ratio: number;
+  /** APCA lightness contrast of the foreground on the background */
+  apca: number;
+  /** Best APCA level met */
+  apcaLevel: ApcaContrastLevel;
+  /** Best WCAG 2.x level met for text */
+  wcag: WcagContrastLevel;
+  /** Mode the values come from; absent for the default values */
+  mode?: string;
+}
+
+export interface ContrastMatrix {
+  /** Color tokens on both axes, in palette order */
+  colors: Array<{ name: string; hex: string }>;
+  /** Every foreground/background combination of two different tokens */
+  pairs: TokenContrast[];
+}
+
+export interface ContrastPairing {
+  foreground: string;
+  background: string;
+  /** Where the pairing comes from */
+  source: "naming" | "explicit";
+}
+
+/**
+ * A documented pairing measured in one mode
+ */
+export type PairingContrast = TokenContrast & Pick<ContrastPairing, "source">;
+
+export interface TokenContrastOptions {
+  /** Extra pairings to check, by token name */
+  pairs?: Array<{ foreground: string; background: string }>;
+}
+
+/**
+ * WCAG 2.x level a contrast ratio meets for text
+ */
+export function getWcagContrastLevel(ratio: number): WcagContrastLevel {
+  if (ratio >= WCAG_THRESHOLDS.AAA_NORMAL_TEXT) return "AAA";
+  if (ratio >= WCAG_THRESHOLDS.AA_NORMAL_TEXT) return "AA";
+  if (ratio >= WCAG_THRESHOLDS.AA_LARGE_TEXT) return "AA-large";
+  return "fail";
+}
+
+/**
+ * APCA level a lightness contrast meets. Polarity doesn't matter, so light
+ * text on dark backgrounds is rated by its absolute Lc.
+ */
+export function getApcaContrastLevel(apca: number): ApcaContrastLevel {
+  const lc = Math.abs(apca);
+  if (lc >= APCA_THRESHOLDS.BODY_TEXT) return "body";
+  if (lc >= APCA_THRESHOLDS.CONTENT_TEXT) return "content";
+  if (lc >= APCA_THRESHOLDS.LARGE_TEXT) return "large";
+  if (lc >= APCA_THRESHOLDS.NON_TEXT) return "non-text";
+  return "fail";
+}
+
+/**
+ * Build the contrast matrix of every color token against every other
+ */
+export function buildContrastMatrix(tokens: DesignToken[]): ContrastMatrix {
+  const colors = getColorTokens(tokens);
+  const pairs: TokenContrast[] = [];
+
+  for (const fg of colors) {
+    for (const bg of colors) {
+      if (fg.token === bg.token) continue;
+      pairs.push(measureContrast(fg, bg));
+    }
+  }
+
+  return {
+    colors: colors.map(({ token, hex }) => ({ name: token.name, hex })),
+    pairs,
+  };
+}
+
+/**
+ * Find documented foreground/background pairings. Explicit pairs come
+ * first; naming conventions fill in the rest. Throws if an explicit pair
+ * names an unknown color token or pairs a token with itself.
+ */
+export function findContrastPairings(
+  tokens: DesignToken[],
+  options: TokenContrastOptions = {},
+): ContrastPairing[] {
+  const colors = getColorTokens(tokens);
+  const byKey = new Map(colors.map((c) => [pairingKey(c.token.name), c.token]));
+  const pairings: ContrastPairing[] = [];
+  const seen = new Set<string>();
+
+  const add = (foreground: string, background: string, source: ContrastPairing["source"]) => {
+    const id = `${foreground}\0${background}`;
+    if (seen.has(id)) return;
+    seen.add(id);
+    pairings.push({ foreground, background, source });
+  };
+
+  for (const pair of options.pairs ?? []) {
+    const fg = byKey.get(pairingKey(pair.foreground));
+    const bg = byKey.get(pairingKey(pair.background));
+    const label = `${pair.foreground}:${pair.background}`;
+    if (!fg || !bg) {
+      const unknown = fg ? pair.background : pair.foreground;
+      throw new Error(`Unknown color token "${unknown}" in pair "${label}"`);
+    }
+    if (fg === bg) {
+      throw new Error(`Pair "${label}" uses the same token as foreground and background`);
+    }
+    add(fg.name, bg.name, "explicit");
+  }
+
+  for (const { token } of colors) {
+    for (const candidate of getBackgroundCandidates(pairingKey(token.name))) {
+      const bg = byKey.get(candidate);
+      if (bg && bg !== token) {
+        add(token.name, bg.name, "naming");
+        break;
+      }
+    }
+  }
+
+  return pairings;
+}
+
+/**
+ * Measure documented pairings with the default values, then in each mode
+ * where either token takes a different value
+ */
+export function measureContrastPairings(
+  tokens: DesignToken[],
+  options: TokenContrastOptions = {},
+): PairingContrast[] {
+  return measurePairingModes(tokens, options).map(({ pairing, contrast }) => ({
+    ...contrast,
+    source: pairing.source,
+  }));
+}
+
+/**
+ * Check documented token pairings against WCAG AA for normal text, in the
+ * default values and every mode. Pairings that only pass for large text
+ * are warnings; pairings that fail even for large text are critical.
+ */
+export function checkTokenContrast(
+  tokens: DesignToken[],
+  options: TokenContrastOptions = {},
+): DriftSignal[] {
+  const drifts: DriftSignal[] = [];
+
+  for (const { fg, bg, contrast } of measurePairingModes(tokens, options)) {
+    if (contrast.ratio >= WCAG_THRESHOLDS.AA_NORMAL_TEXT) continue;
+
+    const largeTextOnly = contrast.wcag === "AA-large";
+    const inMode = contrast.mode ? ` in ${contrast.mode} mode` : "";
+    drifts.push({
+      id: createDriftId(
+        "color-contrast",
+        fg.token.id,
+        contrast.mode ? `${bg.token.id}:${contrast.mode}` : bg.token.id,
+      ),
+      type: "color-contrast",
+      severity: largeTextOnly ? "warning" : "critical",
+      source: tokenToDriftSource(fg.token),
+      target: tokenToDriftSource(bg.token),
+      message: `Token "${fg.token.name}" on "${bg.token.name}" has insufficient color contrast${inMode}: ${fg.hex} on ${bg.hex} (ratio: ${contrast.ratio.toFixed(2)}:1, APCA Lc ${contrast.apca.toFixed(1)})`,
+      details: {
+        expected: `Minimum ${WCAG_THRESHOLDS.AA_NORMAL_TEXT}:1 for WCAG AA`,
+        actual: `${contrast.ratio.toFixed(2)}:1`,
+        suggestions: [
+          largeTextOnly
+            ? `Passes WCAG AA for large text only (${WCAG_THRESHOLDS.AA_LARGE_TEXT}:1) - don't use this pairing for body text`
+            : `Fails WCAG AA for all text sizes - adjust one of the tokens to reach ${WCAG_THRESHOLDS.AA_NORMAL_TEXT}:1`,
+        ],
+      },
+      detectedAt: new Date(),
+    });
+  }
+
+  return drifts;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+interface ColorToken {
+  token: DesignToken;
+  hex: string;
+  rgb: RGB;
+}
+
+interface MeasuredPairing {
+  pairing: ContrastPairing;
+  /** Foreground and background with their values in the measured mode */
+  fg: ColorToken;
+  bg: ColorToken;
+  contrast: TokenContrast;
+}
+
+function getColorTokens(tokens: DesignToken[]): ColorToken[] {
+  const colors: ColorToken[] = [];
+  const names = new Set<string>();
+
+  for (const token of tokens) {
+    if (names.has(token.name)) continue;
+    const color = toColorToken(token);
+    if (!color) continue;
+
+    names.add(token.name);
+    colors.push(color);
+  }
+
+  return colors;
+}
+
+function toColorToken(token: DesignToken, mode?: string): ColorToken | null {
+  const value = getTokenValue(token, mode);
+  if (value.type !== "color") return null;
+  // Contrast ignores alpha, so #rrggbbaa is measured as #rrggbb
+  const hex = value.hex.length === 9 ? value.hex.slice(0, 7) : value.hex;
+  const rgb = colorToRgb(hex);
+  return rgb ? { token, hex, rgb } : null;
+}
+
+function measurePairingModes(
+  tokens: DesignToken[],
+  options: TokenContrastOptions,
+): MeasuredPairing[] {
+  const colors = new Map(getColorTokens(tokens).map((c) => [c.token.name, c]));
+  const measured: MeasuredPairing[] = [];
+
+  for (const pairing of findContrastPairings(tokens, options)) {
+    const fg = colors.get(pairing.foreground)!;
+    const bg = colors.get(pairing.background)!;
+    measured.push({ pairing, fg, bg, contrast: measureContrast(fg, bg) });
+
+    const modes = new Set(
+      [fg.token, bg.token].flatMap((token) =>
+        getTokenModeValues(token).flatMap(({ mode }) => (mode ? [mode] : [])),
+      ),
+    );
+    for (const mode of modes) {
+      const fgInMode = toColorToken(fg.token, mode);
+      const bgInMode = toColorToken(bg.token, mode);
+      if (!fgInMode || !bgInMode) continue;
+      measured.push({
+        pairing,
+        fg: fgInMode,
+        bg: bgInMode,
+        contrast: measureContrast(fgInMode, bgInMode, mode),
+      });
+    }
+  }
+
+  return measured;
+}
+
+function measureContrast(fg: ColorToken, bg: ColorToken, mode?: string): TokenContrast {
+  const ratio = getContrastRatio(fg.rgb, bg.rgb);
+  const apca = getAPCAContrast(fg.rgb, bg.rgb);
+  return {
+    foreground: fg.token.name,
+    background: bg.token.name,
+    ratio,
+    apca,
+    apcaLevel: getApcaContrastLevel(apca),
+    wcag: getWcagContrastLevel(ratio),
+    ...(mode && { mode }),
+  };
+}
+
+/**
+ * Normalize a token name for pairing: "--color-text-on-primary",
+ * "color.text-on-primary" and "$colors-text-on-primary" all become
+ * "text-on-primary"
+ */
+function pairingKey(name: string): string {
+  return name
+    .replace(/^(--|\$|@)/, "")
+    .replace(/[./_\s]+/g, "-")
+    .toLowerCase()
+    .replace(/^colou?rs?-/, "");
+}
+
+/**
+ * Background token names a foreground token name pairs with, most
+ * specific first
+ */
+function getBackgroundCandidates(key: string): string[] {
+  const onMatch = /^(?:.+-)?on-(.+)$/.exec(key);
+  if (onMatch) {
+    const bg = onMatch[1]!;
+    return [bg, `bg-${bg}`, `${bg}-bg`, `background-${bg}`, `${bg}-background`];
+  }
+
+  const foregroundMatch = /^(.+)-foreground$/.exec(key);
+  if (foregroundMatch) {
+    const bg = foregroundMatch[1]!;
+    return [`${bg}-background`, `${bg}-bg`, bg];
+  }
+
+  const fgSuffixMatch = /^(.+)-fg$/.exec(key);
+  if (fgSuffixMatch) {
+    const bg = fgSuffixMatch[1]!;
+    return [`${bg}-bg`, `${bg}-background`, bg];
+  }
+
+  const fgPrefixMatch = /^(?:fg|foreground)-(.+)$/.exec(key);
+  if (fgPrefixMatch) {
+    const bg = fgPrefixMatch[1]!;
+    return [`bg-${bg}`, `background-${bg}`];
+  }
+
+  return [];
+}
+
+function tokenToDriftSource(token: DesignToken): DriftSource {
+  let location = "";
+  if (token.source.type === "css" || token.source.type === "scss") {
+    location = token.source.line
+      ? `${token.source.path}:${token.source.line}`
+      : token.source.path;
+  } else if (token.source.type === "json" || token.source.type === "typescript") {
+    location = token.source.path;
+  } else if (token.source.type === "figma") {
+    location = token.source.fileKey;
+  }
+
+  return {
+    entityType: "token",
+    entityId: token.id,
+    entityName: token.name,
+    location,
+  };
+}
@@ -0,0 +1,160 @@
+// packages/core/src/analysis/analyzers/usage-analyzer.test.ts
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { buildUsageIndex } from "./usage-analyzer.js";
+import { SemanticDiffEngine } from "../semantic-diff.js";
+import type { Component, DesignToken } from "../../models/index.js";
+
+const FILES: Record<string, string> = {
+  "src/App.tsx": `import { Button } from "./components/Button";
+import Card from "./components/Card";
+export function App() {
+  return <Card><Button /></Card>;
+}
+`,
+  "src/components/Button.tsx": `export function Button() { return <button />; }\n`,
+  "src/components/Card.tsx": `export default function Card() { return <div />; }\n`,
+  "src/components/Legacy.tsx": `export function Legacy() { return <div />; }\n`,
+  "src/components/Badge.tsx": `export function Badge() { return <span />; }\n`,
+  "src/components/Badge.stories.tsx": `import { Badge } from "./Badge";
+export const Default = () => <Badge />;
+`,
+  "src/components/Tag.tsx": `export function Tag() { return <span />; }\n`,
+  "src/index.ts": `export { Tag } from "./components/Tag";\n`,
+  "src/styles/tokens.css": `:root {
+  --color-primary: #2563eb;
+  --color-unused: #f00;
+  --color-link: var(--color-primary);
+}
+`,
+  "src/styles/app.css": `a { color: var(--color-link); }\n`,
+  "src/styles/_vars.scss": `$spacing-md: 16px;
+$spacing-lg: 24px;
+.card { padding: $spacing-md; }
+`,
+};
+
+function component(name: string, path: string): Component {
+  return {
+    id: `react:${path}:${name}`,
+    name,
+    source: { type: "react", path, exportName: name },
+    props: [],
+    variants: [],
+    tokens: [],
+    dependencies: [],
+    metadata: {},
+    scannedAt: new Date(),
+  };
+}
+
+function token(name: string, source: DesignToken["source"]): DesignToken {
+  return {
+    id: `${source.type}:${name}`,
+    name,
+    category: "color",
+    value: { type: "raw", value: "x" },
+    source,
+    aliases: [],
+    usedBy: [],
+    metadata: {},
+    scannedAt: new Date(),
+  };
+}
+
+describe("buildUsageIndex", () => {
+  let projectRoot: string;
+
+  const components = [
+    component("Button", "src/components/Button.tsx"),
+    component("Card", "src/components/Card.tsx"),
+    component("Legacy", "src/components/Legacy.tsx"),
+    component("Badge", "src/components/Badge.tsx"),
+    component("Tag", "src/components/Tag.tsx"),
+  ];
+  const tokens = [
+    token("--color-primary", { type: "css", path: "src/styles/tokens.css" }),
+    token("--color-unused", { type: "css", path: "src/styles/tokens.css" }),
+    token("--color-link", { type: "css", path: "src/styles/tokens.css" }),
+    token("$spacing-md", { type: "scss", path: "src/styles/_vars.scss", variableName: "spacing-md", line: 1 }),
+    token("$spacing-lg", { type: "scss", path: "src/styles/_vars.scss", variableName: "spacing-lg" }),
+    token("color.brand", { type: "figma", fileKey: "abc" }),
+  ];
+
+  beforeAll(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), "buoy-usage-"));
+    for (const [file, content] of Object.entries(FILES)) {
+      await mkdir(dirname(join(projectRoot, file)), { recursive: true });
+      await writeFile(join(projectRoot, file), content);
+    }
+  });
+
+  afterAll(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it("counts JSX usages and imports of components", async () => {
+    const index = await buildUsageIndex(components, tokens, { projectRoot });
+
+    expect(index.components.get("react:src/components/Button.tsx:Button")).toBeGreaterThan(0);
+    expect(index.components.get("react:src/components/Card.tsx:Card")).toBeGreaterThan(0);
+    expect(index.components.get("react:src/components/Legacy.tsx:Legacy")).toBe(0);
+  });
+
+  it("rates how safe unused components are to delete", async () => {
+    const index = await buildUsageIndex(components, tokens, { projectRoot });
+    const files = Object.keys(FILES).length;
+
+    expect(index.evidence.get("react:src/components/Legacy.tsx:Legacy")).toEqual({
+      definedIn: "src/components/Legacy.tsx",
+      filesScanned: files,
+      referencedFrom: [],
+      safeToDelete: "high",
+    });
+    expect(index.evidence.get("react:src/components/Badge.tsx:Badge")).toMatchObject({
+      referencedFrom: ["src/components/Badge.stories.tsx"],
+      safeToDelete: "medium",
+    });
+    expect(index.evidence.get("react:src/components/Tag.tsx:Tag")).toMatchObject({
+      referencedFrom: ["src/index.ts"],
+      safeToDelete: "low",
+    });
+    expect(index.evidence.has("react:src/components/Button.tsx:Button")).toBe(false);
+  });
+
+  it("counts CSS and SCSS variable references to tokens", async () => {
+    const index = await buildUsageIndex(components, tokens, { projectRoot });
+
+    expect(index.tokens.get("css:--color-primary")).toBe(1);
+    expect(index.tokens.get("css:--color-link")).toBe(1);
+    expect(index.tokens.get("css:--color-unused")).toBe(0);
+    expect(index.tokens.get("scss:$spacing-md")).toBe(1);
+    expect(index.tokens.get("scss:$spacing-lg")).toBe(0);
+    expect(index.tokens.has("figma:color.brand")).toBe(false);
+    expect(index.evidence.get("css:--color-unused")).toMatchObject({
+      definedIn: "src/styles/tokens.css",
+      safeToDelete: "high",
+    });
+  });
+
+  it("feeds unused drift with evidence", async () => {
+    const index = await buildUsageIndex(components, tokens, { projectRoot });
+    const engine = new SemanticDiffEngine();
+
+    const drifts = engine.checkUnusedComponents(
+      components.filter((c) => index.components.has(c.id)),
+      index.components,
+      index.evidence,
+    );
+
+    expect(drifts.map((d) => [d.source.entityName, d.severity])).toEqual([
+      ["Legacy", "warning"],
+      ["Badge", "warning"],
+      ["Tag", "info"],
+    ]);
+    expect(drifts[0]?.details.usage?.safeToDelete).toBe("high");
+    expect(drifts[0]?.details.suggestions?.[0]).toContain("Safe to delete");
+  });
+});
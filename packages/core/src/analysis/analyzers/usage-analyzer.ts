@@ -0,0 +1,251 @@
+/**
+ * Usage Analyzer - Unused Component and Token Detection
+ *
+ * Counts where components and tokens are used with the graph collectors
+ * (JSX usages, CSS/SCSS variable references, imports) and records why each
+ * entity without usages looks unused, so unused-component and unused-token
+ * drift can say how safe the entity is to delete.
+ *
+ * Only React components are checked, since template usage in Vue, Svelte
+ * and Angular isn't collected. Tokens are checked when they are defined in
+ * a file (CSS, SCSS, JSON, TypeScript), except Tailwind theme tokens, which
+ * are used through utility classes.
+ */
+
+import { isAbsolute, relative, sep } from "path";
+import type { Component, DesignToken, UsageEvidence } from "../../models/index.js";
+import { collectUsages, type TokenUsage } from "../../graph/collectors/usages.js";
+import { collectImports, type FileImport } from "../../graph/collectors/imports.js";
+import { isExampleFile, isTestFile } from "./example-analyzer.js";
+
+export interface UsageAnalysisOptions {
+  /** Root directory to scan */
+  projectRoot: string;
+  /** File patterns to include */
+  include?: string[];
+  /** File patterns to exclude */
+  exclude?: string[];
+}
+
+export interface UsageIndex {
+  /** Product usages by component ID, for every checked component */
+  components: Map<string, number>;
+  /** Product usages by token ID, for every checked token */
+  tokens: Map<string, number>;
+  /** Evidence for each checked component or token without usages, by ID */
+  evidence: Map<string, UsageEvidence>;
+}
+
+const BARREL_FILE = /(^|\/)index\.[mc]?[jt]sx?$/;
+
+const SOURCE_EXTENSION = /\.[mc]?[jt]sx?$/;
+
+/**
+ * Count product usages of components and tokens across the codebase.
+ * Usages from tests, stories and barrel re-exports don't count; they are
+ * recorded as evidence instead.
+ */
+export async function buildUsageIndex(
+  components: Component[],
+  tokens: DesignToken[],
+  options: UsageAnalysisOptions,
+): Promise<UsageIndex> {
+  const { projectRoot, include, exclude } = options;
+  const toRelative = (path: string) => toRelativePath(path, projectRoot);
+
+  const checkedComponents = components.filter(
+    (c) => c.source.type === "react" && !isSupportFile(toRelative(c.source.path)),
+  );
+  const checkedTokens = tokens.filter((t) => {
+    const path = getTokenPath(t);
+    return path !== null && !/tailwind\.config\.[mc]?[jt]s$/.test(path);
+  });
+
+  const usageResult = await collectUsages({
+    projectRoot,
+    include,
+    exclude,
+    knownComponents: checkedComponents.map((c) => c.name),
+  });
+  const importResult = await collectImports({ projectRoot, include, exclude });
+  const filesScanned = Math.max(
+    usageResult.stats.filesScanned,
+    importResult.stats.filesScanned,
+  );
+
+  const index: UsageIndex = {
+    components: new Map(),
+    tokens: new Map(),
+    evidence: new Map(),
+  };
+
+  for (const component of checkedComponents) {
+    if (component.source.type !== "react") continue;
+    const definedIn = toRelative(component.source.path);
+    const tally = new UsageTally();
+
+    for (const usage of usageResult.componentUsages) {
+      if (usage.componentName === component.name) {
+        tally.add(usage.filePath);
+      }
+    }
+    for (const imp of importResult.imports) {
+      if (imp.sourceFile !== definedIn && importsComponent(imp, component.name, definedIn)) {
+        tally.addImport(imp.sourceFile);
+      }
+    }
+
+    index.components.set(component.id, tally.count);
+    if (tally.count === 0) {
+      index.evidence.set(component.id, tally.toEvidence(definedIn, filesScanned));
+    }
+  }
+
+  const tokenUsages = groupTokenUsages(usageResult.tokenUsages);
+  for (const token of checkedTokens) {
+    const definedIn = toRelative(getTokenPath(token)!);
+    const key = toVariableName(token.name);
+    const tally = new UsageTally();
+
+    // SCSS variable references also match the definition itself
+    const definitionLine = token.source.type === "scss" ? token.source.line : undefined;
+    let definitionSkipped = token.source.type !== "scss";
+    for (const usage of tokenUsages.get(key) ?? []) {
+      const isDefinition =
+        !definitionSkipped &&
+        usage.usageType === "scss-var" &&
+        usage.filePath === definedIn &&
+        (definitionLine === undefined || usage.lineNumber === definitionLine);
+      if (isDefinition) {
+        definitionSkipped = true;
+        continue;
+      }
+      tally.add(usage.filePath);
+    }
+
+    // JS/TS consumers import tokens by their camelCase name
+    const jsName = toCamelCase(key);
+    for (const imp of importResult.imports) {
+      if (imp.importedNames.includes(jsName)) {
+        tally.addImport(imp.sourceFile);
+      }
+    }
+
+    // Tokens aliasing this one keep it alive, but only as evidence
+    for (const other of tokens) {
+      if (
+        other !== token &&
+        (other.aliases?.includes(token.name) ||
+          JSON.stringify(other.value).includes(`{${token.name}}`))
+      ) {
+        tally.reference(`${other.name} (alias)`);
+      }
+    }
+
+    index.tokens.set(token.id, tally.count);
+    if (tally.count === 0) {
+      index.evidence.set(token.id, tally.toEvidence(definedIn, filesScanned));
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Normalize a token name so "--color-primary", "$color-primary" and
+ * "color.primary" all match a var(--color-primary) reference
+ */
+function toVariableName(name: string): string {
+  return name
+    .replace(/^(--|\$)/, "")
+    .replace(/[./\s]+/g, "-")
+    .toLowerCase();
+}
+
+/**
+ * Product usages plus the non-product files that reference an entity
+ */
+class UsageTally {
+  count = 0;
+  private referencedFrom = new Set<string>();
+  private reexported = false;
+
+  add(file: string): void {
+    if (isSupportFile(file)) {
+      this.referencedFrom.add(file);
+    } else {
+      this.count++;
+    }
+  }
+
+  /** Imports in index files are treated as barrel re-exports */
+  addImport(file: string): void {
+    if (BARREL_FILE.test(file)) {
+      this.reexported = true;
+      this.referencedFrom.add(file);
+    } else {
+      this.add(file);
+    }
+  }
+
+  reference(label: string): void {
+    this.referencedFrom.add(label);
+  }
+
+  toEvidence(definedIn: string, filesScanned: number): UsageEvidence {
+    return {
+      definedIn,
+      filesScanned,
+      referencedFrom: [...this.referencedFrom].sort(),
+      safeToDelete: this.reexported
+        ? "low"
+        : this.referencedFrom.size > 0
+          ? "medium"
+          : "high",
+    };
+  }
+}
+
+/**
+ * An import uses a component when it imports it by name, or imports the
+ * defining file as a whole (default, namespace, dynamic or export *)
+ */
+function importsComponent(imp: FileImport, name: string, definedIn: string): boolean {
+  if (imp.importedNames.includes(name)) return true;
+  if (imp.importType === "named" || imp.importType === "side-effect") return false;
+  return stripExtension(imp.targetFile) === stripExtension(definedIn);
+}
+
+function groupTokenUsages(usages: TokenUsage[]): Map<string, TokenUsage[]> {
+  const grouped = new Map<string, TokenUsage[]>();
+  for (const usage of usages) {
+    const key = toVariableName(usage.tokenName);
+    const list = grouped.get(key) ?? [];
+    list.push(usage);
+    grouped.set(key, list);
+  }
+  return grouped;
+}
+
+function getTokenPath(token: DesignToken): string | null {
+  return "path" in token.source ? token.source.path : null;
+}
+
+function isSupportFile(path: string): boolean {
+  // Directory patterns expect a leading slash
+  const normalized = `/${path}`;
+  return isTestFile(normalized) || isExampleFile(normalized);
+}
+
+function toRelativePath(path: string, projectRoot: string): string {
+  const rel = isAbsolute(path) ? relative(projectRoot, path) : path;
+  return rel.split(sep).join("/").replace(/^\.\//, "");
+}
+
+function stripExtension(path: string): string {
+  return path.replace(SOURCE_EXTENSION, "").replace(/\/index$/, "");
+}
+
+function toCamelCase(name: string): string {
+  return name.replace(/-([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
@@ -0,0 +1,144 @@
+// packages/core/src/analysis/codeowners.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  parseCodeowners,
+  findCodeowners,
+  assignDriftOwners,
+} from "./codeowners.js";
+import type { DriftSignal } from "../models/index.js";
+
+const CODEOWNERS = `
+# Default owners
+*                       @acme/design-system
+
+*.css                   @acme/styles
+/src/components/        @acme/web @alice
+src/legacy/**/*.tsx     @acme/legacy
+docs/*                  docs@acme.com
+apps/                   @acme/apps
+/src/components/generated/
+src/\\#private/          @acme/security # inline comment
+`;
+
+function createDrift(location?: string): DriftSignal {
+  return {
+    id: `drift-${location}`,
+    type: "hardcoded-value",
+    severity: "warning",
+    source: {
+      entityType: "component",
+      entityId: `component:${location}`,
+      entityName: "Button",
+      location,
+    },
+    message: "Hardcoded color",
+    details: {},
+    detectedAt: new Date(),
+  };
+}
+
+describe("parseCodeowners", () => {
+  it("parses rules and skips comments and blank lines", () => {
+    const rules = parseCodeowners(CODEOWNERS);
+
+    expect(rules.map((r) => r.pattern)).toEqual([
+      "*",
+      "*.css",
+      "/src/components/",
+      "src/legacy/**/*.tsx",
+      "docs/*",
+      "apps/",
+      "/src/components/generated/",
+      "src/#private/",
+    ]);
+    expect(rules[2]).toMatchObject({ owners: ["@acme/web", "@alice"], line: 6 });
+    expect(rules[7]!.owners).toEqual(["@acme/security"]);
+  });
+
+  it("skips GitLab section headers", () => {
+    const rules = parseCodeowners("[Frontend] @acme/web\n*.tsx @acme/web\n");
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0]!.pattern).toBe("*.tsx");
+  });
+
+  it("gives rules without owners their GitLab section's default owners", () => {
+    const rules = parseCodeowners(
+      "[Frontend] @acme/web\n*.tsx\n*.css @acme/styles\n^[Docs][2] @acme/docs @bob\ndocs/\n[Misc]\n*.md\n",
+    );
+
+    expect(rules.map((r) => r.owners)).toEqual([
+      ["@acme/web"],
+      ["@acme/styles"],
+      ["@acme/docs", "@bob"],
+      [],
+    ]);
+  });
+});
+
+describe("findCodeowners", () => {
+  const rules = parseCodeowners(CODEOWNERS);
+
+  it("lets the last matching rule win", () => {
+    expect(findCodeowners(rules, "src/components/Button.tsx")).toEqual(["@acme/web", "@alice"]);
+    expect(findCodeowners(rules, "src/components/button.css")).toEqual(["@acme/web", "@alice"]);
+    expect(findCodeowners(rules, "src/styles/base.css")).toEqual(["@acme/styles"]);
+    expect(findCodeowners(rules, "README.md")).toEqual(["@acme/design-system"]);
+  });
+
+  it("anchors patterns with a leading or inner slash", () => {
+    expect(findCodeowners(rules, "packages/ui/src/components/Button.tsx")).toEqual([
+      "@acme/design-system",
+    ]);
+    expect(findCodeowners(rules, "src/legacy/forms/Input.tsx")).toEqual(["@acme/legacy"]);
+    expect(findCodeowners(rules, "src/legacy/Input.tsx")).toEqual(["@acme/legacy"]);
+  });
+
+  it("matches unanchored directories at any depth", () => {
+    expect(findCodeowners(rules, "apps/web/App.tsx")).toEqual(["@acme/apps"]);
+    expect(findCodeowners(rules, "packages/apps/index.ts")).toEqual(["@acme/apps"]);
+  });
+
+  it("only matches direct children for a trailing star", () => {
+    expect(findCodeowners(rules, "docs/intro.md")).toEqual(["docs@acme.com"]);
+    expect(findCodeowners(rules, "docs/guides/intro.md")).toEqual(["@acme/design-system"]);
+  });
+
+  it("leaves paths unowned when the last match has no owners", () => {
+    expect(findCodeowners(rules, "src/components/generated/Icon.tsx")).toEqual([]);
+  });
+
+  it("normalizes relative paths", () => {
+    expect(findCodeowners(rules, "./src/#private/keys.ts")).toEqual(["@acme/security"]);
+    expect(findCodeowners(rules, "src\\components\\Card.tsx")).toEqual(["@acme/web", "@alice"]);
+  });
+
+  it("returns no owners without rules", () => {
+    expect(findCodeowners([], "src/components/Button.tsx")).toEqual([]);
+  });
+});
+
+describe("assignDriftOwners", () => {
+  it("attaches the owners of each drift's file", () => {
+    const rules = parseCodeowners(CODEOWNERS);
+    const [component, generated, unlocated] = assignDriftOwners(
+      [
+        createDrift("src/components/Button.tsx:12:4"),
+        createDrift("src/components/generated/Icon.tsx"),
+        createDrift(),
+      ],
+      rules,
+    );
+
+    expect(component!.details.owners).toEqual(["@acme/web", "@alice"]);
+    expect(generated!.details.owners).toBeUndefined();
+    expect(unlocated!.details.owners).toBeUndefined();
+  });
+
+  it("matches drift locations from the project's path in the repository", () => {
+    const rules = parseCodeowners("/apps/web/src/ @acme/web\n");
+    const [drift] = assignDriftOwners([createDrift("src/Button.tsx:3")], rules, "apps/web");
+
+    expect(drift!.details.owners).toEqual(["@acme/web"]);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * CODEOWNERS
+ *
+ * Parses a GitHub/GitLab style CODEOWNERS file, including GitLab section
+ * default owners, and resolves the owners of a path, so drift can be
+ * routed to the team that owns the code instead of whoever happened to
+ * author it.
+ */
+
+import type { DriftSignal } from "../models/index.js";
+
+export interface CodeownersRule {
+  /** Pattern as written in the CODEOWNERS file */
+  pattern: string;
+  /** Owners (@user, @org/team or email); empty when the rule clears ownership */
+  owners: string[];
+  /** 1-based line number in the CODEOWNERS file */
+  line: number;
+  regex: RegExp;
+}
+
+/** Locations GitHub looks for a CODEOWNERS file, in precedence order */
+export const CODEOWNERS_PATHS = [
+  ".github/CODEOWNERS",
+  "CODEOWNERS",
+  "docs/CODEOWNERS",
+];
+
+/**
+ * Parse CODEOWNERS content into rules, in file order
+ */
+export function parseCodeowners(content: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+  const lines = content.split(/\r?\n/);
+  // Default owners of the current GitLab section, for rules that list none
+  let sectionOwners: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = stripComment(lines[i]!).trim();
+    if (!line) continue;
+
+    // GitLab section headers ("[Section] @owner", "^[Optional][2]") carry no pattern
+    const section = /^\^?\[[^\]]*\](?:\[\d+\])?(.*)$/.exec(line);
+    if (section) {
+      sectionOwners = section[1]!.trim().split(/\s+/).filter(Boolean);
+      continue;
+    }
+
+    const [pattern, ...owners] = line.split(/\s+/);
+    if (!pattern) continue;
+
+    rules.push({
+      pattern: pattern.replace(/\\#/g, "#"),
+      owners: owners.length > 0 ? owners : sectionOwners,
+      line: i + 1,
+      regex: compilePattern(pattern.replace(/\\#/g, "#")),
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Owners of a repository-relative path. The last matching rule wins, as on
+ * GitHub; a matching rule without owners leaves the path unowned.
+ */
+export function findCodeowners(rules: CodeownersRule[], path: string): string[] {
+  const normalized = normalizePath(path);
+  for (let i = rules.length - 1; i >= 0; i--) {
+    const rule = rules[i]!;
+    if (rule.regex.test(normalized)) {
+      return rule.owners;
+    }
+  }
+  return [];
+}
+
+/**
+ * Attach the CODEOWNERS owners of each drift's source file to
+ * `details.owners`. Drift without a file location, or in unowned files,
+ * is returned unchanged. `basePath` is where the scanned project sits in
+ * the repository, since drift locations are relative to the project.
+ */
+export function assignDriftOwners(
+  drifts: DriftSignal[],
+  rules: CodeownersRule[],
+  basePath = "",
+): DriftSignal[] {
+  if (rules.length === 0) return drifts;
+  const prefix = normalizePath(basePath).replace(/\/*$/, "");
+
+  return drifts.map((drift) => {
+    const file = drift.source.location?.replace(/:\d+(?::\d+)?$/, "");
+    if (!file) return drift;
+
+    const owners = findCodeowners(rules, prefix ? `${prefix}/${normalizePath(file)}` : file);
+    if (owners.length === 0) return drift;
+
+    return { ...drift, details: { ...drift.details, owners } };
+  });
+}
+
+function stripComment(line: string): string {
+  // "#" starts a comment unless escaped as "\#"
+  const match = /(^|[^\\])#/.exec(line);
+  return match ? line.slice(0, match.index + match[1]!.length) : line;
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, "/").replace(/^\.\//, "").replace(/^\/+/, "");
+}
+
+/**
+ * Compile a CODEOWNERS pattern with gitignore semantics: a slash at the
+ * start or in the middle anchors it to the repository root, a trailing
+ * slash only matches directories, and a pattern matching a directory
+ * matches everything inside it - except a trailing "*", which like on
+ * GitHub only matches direct children.
+ */
+function compilePattern(pattern: string): RegExp {
+  const anchored = pattern.slice(0, -1).includes("/");
+  const directory = pattern.endsWith("/");
+  const body = pattern.replace(/^\//, "").replace(/\/$/, "");
+
+  let source = "";
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i]!;
+    if (char === "*" && body[i + 1] === "*") {
+      // "**/" matches zero or more directories
+      if (body[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  const prefix = anchored ? "^" : "^(?:.*/)?";
+  const suffix = directory
+    ? "/"
+    : /(^|[^*])\*$/.test(body)
+      ? "$"
+      : "(?:/|$)";
+  return new RegExp(prefix + source + suffix);
+}
@@ -56,6 +56,9 @@ export const TOKEN_SUGGESTION_CONFIG = {
   /** Minimum similarity (0-1) for spacing token suggestions */
   spacingSimilarityThreshold: 0.9,
 
+  /** Minimum similarity (0-1) for composite (shadow, typography, ...) token suggestions */
+  compositeSimilarityThreshold: 0.9,
+
   /** Default number of suggestions to return */
   maxSuggestions: 3,
 
@@ -14,6 +14,7 @@ function createDriftSignal(
     location: string;
     actual: unknown;
     tokenSuggestions: string[];
+    owners: string[];
   }> = {}
 ): DriftSignal {
   const id = overrides.id ?? `drift-${Math.random().toString(36).slice(2)}`;
@@ -33,6 +34,7 @@ function createDriftSignal(
     details: {
       actual: overrides.actual,
       tokenSuggestions: overrides.tokenSuggestions,
+      owners: overrides.owners,
     },
     detectedAt: new Date(),
   };
@@ -205,6 +207,43 @@ describe("DriftAggregator", () => {
     });
   });
 
+  describe("owner strategy", () => {
+    it("groups signals owned by the same teams", () => {
+      const aggregator = new DriftAggregator({
+        strategies: ["owner"],
+      });
+      const signals = [
+        createDriftSignal({ owners: ["@acme/web"] }),
+        createDriftSignal({ owners: ["@acme/web"] }),
+        createDriftSignal({ owners: ["@acme/mobile", "@alice"] }),
+        createDriftSignal({ owners: ["@acme/mobile", "@alice"] }),
+        createDriftSignal(),
+      ];
+      const result = aggregator.aggregate(signals);
+
+      expect(result.groups).toHaveLength(2);
+      expect(result.groups.map((g) => g.groupingKey.value)).toEqual([
+        "@acme/web",
+        "@acme/mobile @alice",
+      ]);
+      expect(result.groups[1]!.summary).toBe(
+        "2 issues owned by @acme/mobile, @alice",
+      );
+      expect(result.ungrouped).toHaveLength(1);
+    });
+
+    it("is not applied by default", () => {
+      const aggregator = new DriftAggregator();
+      const signals = [
+        createDriftSignal({ type: "naming-inconsistency", location: "a.tsx", owners: ["@acme/web"] }),
+        createDriftSignal({ type: "naming-inconsistency", location: "b.tsx", owners: ["@acme/web"] }),
+      ];
+      const result = aggregator.aggregate(signals);
+
+      expect(result.groups).toHaveLength(0);
+    });
+  });
+
   describe("priority order", () => {
     it("applies value strategy before path strategy", () => {
       const aggregator = new DriftAggregator();
@@ -63,7 +63,12 @@ export interface GroupingStrategy {
   summarize(signals: DriftSignal[], key: string): string;
 }
 
-export type BuiltInStrategyType = "value" | "suggestion" | "path" | "entity";
+export type BuiltInStrategyType =
+  | "value"
+  | "suggestion"
+  | "path"
+  | "entity"
+  | "owner";
 
 export interface AggregatorOptions {
   /** Strategies to apply, in priority order. First match wins. */
@@ -172,6 +177,22 @@ const entityStrategy: GroupingStrategy = {
   },
 };
 
+const ownerStrategy: GroupingStrategy = {
+  type: "owner",
+
+  getKey(signal: DriftSignal): string | null {
+    const owners = signal.details.owners;
+    if (!owners?.length) return null;
+
+    return `owner:${owners.join(" ")}`;
+  },
+
+  summarize(signals: DriftSignal[], key: string): string {
+    const owners = key.replace("owner:", "").split(" ");
+    return `${signals.length} issues owned by ${owners.join(", ")}`;
+  },
+};
+
 // ============================================================================
 // Helpers
 // ============================================================================
@@ -254,6 +275,8 @@ export class DriftAggregator {
         return createPathStrategy(this.options.pathPatterns);
       case "entity":
         return entityStrategy;
+      case "owner":
+        return ownerStrategy;
       default:
         throw new Error(`Unknown strategy: ${strategy}`);
     }
@@ -358,6 +381,7 @@ export const builtInStrategies = {
   suggestion: suggestionStrategy,
   path: createPathStrategy([]),
   entity: entityStrategy,
+  owner: ownerStrategy,
 } as const;
 
 export function createStrategy(config: GroupingStrategy): GroupingStrategy {
@@ -12,6 +12,7 @@ export {
 export {
   TokenSuggestionService,
   type TokenSuggestion,
+  type CompositeValueType,
 } from "./token-suggestions.js";
 
 // String utilities
@@ -54,6 +55,15 @@ export {
   type BuiltInStrategyType,
 } from "./drift-aggregator.js";
 
+// CODEOWNERS
+export {
+  parseCodeowners,
+  findCodeowners,
+  assignDriftOwners,
+  CODEOWNERS_PATHS,
+  type CodeownersRule,
+} from "./codeowners.js";
+
 // Pattern analyzer (experimental)
 export {
   detectRepeatedPatterns,
@@ -94,3 +104,35 @@ export {
   type ComponentContext,
   type ComponentWithContext,
 } from "./analyzers/example-analyzer.js";
+
+// Token contrast analyzer (palette-wide WCAG / APCA audit)
+export {
+  buildContrastMatrix,
+  findContrastPairings,
+  checkTokenContrast,
+  measureContrastPairings,
+  getWcagContrastLevel,
+  getApcaContrastLevel,
+  type ApcaContrastLevel,
+  type ContrastMatrix,
+  type ContrastPairing,
+  type PairingContrast,
+  type TokenContrast,
+  type TokenContrastOptions,
+  type WcagContrastLevel,
+} from "./analyzers/token-contrast-analyzer.js";
+
+// Color contrast utilities
+export {
+  getContrastRatio,
+  getAPCAContrast,
+  WCAG_THRESHOLDS,
+  APCA_THRESHOLDS,
+} from "./utils/color-contrast.js";
+
+// Usage analyzer (unused components and tokens)
+export {
+  buildUsageIndex,
+  type UsageIndex,
+  type UsageAnalysisOptions,
+} from "./analyzers/usage-analyzer.js";
@@ -102,6 +102,37 @@ describe("SemanticDiffEngine", () => {
       expect(result.drifts).toHaveLength(1);
       expect(result.drifts[0]!.type).toBe("orphaned-component");
     });
+
+    it("compares code union props with design variant options", () => {
+      const code: Component = {
+        ...createMockComponent("Button", "react"),
+        props: [
+          { name: "size", type: "'sm' | 'md' | undefined", required: false },
+          { name: "tone", type: '"neutral" | "danger"', required: false },
+        ],
+      };
+      const design: Component = {
+        ...createMockComponent("Button", "figma"),
+        variants: [
+          { name: "Size=SM", props: { Size: "SM" } },
+          { name: "Size=LG", props: { Size: "LG" } },
+          { name: "State=Hover", props: { State: "Hover" } },
+        ],
+      };
+
+      const [match] = engine.compareComponents([code], [design]).matches;
+
+      expect(match!.differences.map((d) => d.field)).toEqual([
+        "props.tone",
+        "variants.size.md",
+        "variants.size.lg",
+        "variants.state",
+      ]);
+      expect(match!.differences.find((d) => d.field === "variants.size.lg")).toMatchObject({
+        sourceValue: undefined,
+        targetValue: "lg",
+      });
+    });
   });
 
   describe("analyzeComponents", () => {
@@ -205,6 +236,42 @@ describe("SemanticDiffEngine", () => {
           "--color-primary",
         );
       });
+
+      it("reports shadows only when they match a composite token", () => {
+        const components = [
+          createMockComponentWithMetadata("Card", {
+            hardcodedValues: [
+              {
+                type: "shadow",
+                value: "0 1px 2px rgba(0, 0, 0, 0.05)",
+                property: "boxShadow",
+                location: "line 3",
+              },
+              {
+                type: "shadow",
+                value: "0 20px 40px #ff0000",
+                property: "boxShadow",
+                location: "line 4",
+              },
+            ],
+          }),
+        ];
+        const shadowToken: DesignToken = {
+          ...createMockToken("--shadow-sm", "", "css"),
+          category: "shadow",
+          value: { type: "shadow", x: 0, y: 1, blur: 2, spread: 0, color: "#0000000d" },
+        };
+
+        expect(engine.analyzeComponents(components, {}).drifts).toEqual([]);
+
+        const result = engine.analyzeComponents(components, {
+          availableTokens: [shadowToken],
+        });
+
+        expect(result.drifts).toHaveLength(1);
+        expect(result.drifts[0]?.message).toContain("1 hardcoded value matching design tokens");
+        expect(result.drifts[0]?.details.tokenSuggestions?.[0]).toContain("--shadow-sm");
+      });
     });
   });
 
@@ -305,6 +372,24 @@ describe("SemanticDiffEngine", () => {
       expect(result.drifts[0]!.type).toBe("value-divergence");
     });
 
+    it("detects value divergence in a shared mode", () => {
+      const withModes = (token: ReturnType<typeof createMockToken>, dark: string) => ({
+        ...token,
+        modes: {
+          light: { type: "color" as const, hex: "#0066cc" },
+          dark: { type: "color" as const, hex: dark },
+        },
+      });
+      const source = [withModes(createMockToken("--primary-color", "#0066cc", "css"), "#66aaff")];
+      const target = [withModes(createMockToken("--primary-color", "#0066cc", "figma"), "#3388ee")];
+
+      const result = engine.compareTokens(source, target);
+
+      expect(result.drifts).toHaveLength(1);
+      expect(result.drifts[0]!.message).toContain("dark mode");
+      expect(result.drifts[0]!.details.actual).toEqual({ type: "color", hex: "#3388ee" });
+    });
+
     it("identifies orphaned tokens", () => {
       const source = [
         createMockToken("--primary-color", "#0066cc", "css"),
@@ -11,12 +11,14 @@ import type {
   DriftSignal,
   Severity,
   DriftSource,
+  UsageEvidence,
 } from "../models/index.js";
 import {
   createDriftId,
   normalizeComponentName,
   normalizeTokenName,
   tokensMatch,
+  getDivergentModes,
 } from "../models/index.js";
 import {
   TokenSuggestionService,
@@ -287,6 +289,25 @@ export class SemanticDiffEngine {
           },
           detectedAt: new Date(),
         });
+        continue;
+      }
+
+      const [mode] = getDivergentModes(source, target);
+      if (mode) {
+        drifts.push({
+          id: createDriftId("value-divergence", source.id, target.id),
+          type: "value-divergence",
+          severity: "warning",
+          source: this.tokenToDriftSource(source),
+          target: this.tokenToDriftSource(target),
+          message: `Token "${source.name}" has different ${mode} mode values between sources`,
+          details: {
+            expected: source.modes![mode],
+            actual: target.modes![mode],
+            suggestions: [`Align the ${mode} mode value between design and code`],
+          },
+          detectedAt: new Date(),
+        });
       }
     }
 
@@ -416,29 +437,35 @@ export class SemanticDiffEngine {
   }
 
   /**
-   * Check for unused components
+   * Check for unused components. Evidence from the usage pass, keyed by
+   * component ID, is attached to each drift.
    */
   checkUnusedComponents(
     components: Component[],
     usageMap: Map<string, number>,
+    evidence?: Map<string, UsageEvidence>,
   ): DriftSignal[] {
     const drifts: DriftSignal[] = [];
 
     for (const component of components) {
       const usageCount = usageMap.get(component.id) || usageMap.get(component.name) || 0;
       if (usageCount === 0) {
+        const usage = evidence?.get(component.id);
         drifts.push({
           id: createDriftId("unused-component", component.id),
           type: "unused-component",
-          severity: "warning",
+          severity: usage?.safeToDelete === "low" ? "info" : "warning",
           source: this.componentToDriftSource(component),
           message: `Component "${component.name}" is defined but never used`,
           details: {
-            suggestions: [
-              "Remove component if no longer needed",
-              "Export component if it's part of the public API",
-              "Add usage in tests or documentation",
-            ],
+            suggestions: usage
+              ? getUnusedSuggestions("component", usage)
+              : [
+                  "Remove component if no longer needed",
+                  "Export component if it's part of the public API",
+                  "Add usage in tests or documentation",
+                ],
+            ...(usage && { usage }),
           },
           detectedAt: new Date(),
         });
@@ -449,17 +476,20 @@ export class SemanticDiffEngine {
   }
 
   /**
-   * Check for unused tokens
+   * Check for unused tokens. Evidence from the usage pass, keyed by token
+   * ID, is attached to each drift.
    */
   checkUnusedTokens(
     tokens: DesignToken[],
     usageMap: Map<string, number>,
+    evidence?: Map<string, UsageEvidence>,
   ): DriftSignal[] {
     const drifts: DriftSignal[] = [];
 
     for (const token of tokens) {
       const usageCount = usageMap.get(token.id) || usageMap.get(token.name) || 0;
       if (usageCount === 0) {
+        const usage = evidence?.get(token.id);
         drifts.push({
           id: createDriftId("unused-token", token.id),
           type: "unused-token",
@@ -467,11 +497,14 @@ export class SemanticDiffEngine {
           source: this.tokenToDriftSource(token),
           message: `Token "${token.name}" is defined but never used`,
           details: {
-            suggestions: [
-              "Remove token if no longer needed",
-              "Document token for future use",
-              "Check if token is referenced by name in CSS/JS",
-            ],
+            suggestions: usage
+              ? getUnusedSuggestions("token", usage)
+              : [
+                  "Remove token if no longer needed",
+                  "Document token for future use",
+                  "Check if token is referenced by name in CSS/JS",
+                ],
+            ...(usage && { usage }),
           },
           detectedAt: new Date(),
         });
@@ -527,7 +560,7 @@ export class SemanticDiffEngine {
         const suggs = tokenSuggestions.get(cv.value);
         if (suggs?.length) {
           const best = suggs[0]!;
-          tokenReplacements.push(`${cv.value} → ${best.suggestedToken} (${Math.round(best.confidence * 100)}% match)`);
+          tokenReplacements.push(formatTokenReplacement(cv.value, best));
         }
       }
 
@@ -561,7 +594,7 @@ export class SemanticDiffEngine {
         const suggs = tokenSuggestions.get(sv.value);
         if (suggs?.length) {
           const best = suggs[0]!;
-          tokenReplacements.push(`${sv.value} → ${best.suggestedToken} (${Math.round(best.confidence * 100)}% match)`);
+          tokenReplacements.push(formatTokenReplacement(sv.value, best));
         }
       }
 
@@ -586,6 +619,33 @@ export class SemanticDiffEngine {
       });
     }
 
+    // Shadows, borders, font shorthands... are only reported when they
+    // match a composite token, since there is no scale to check them against
+    const compositeValues = hardcoded.filter(
+      (h) => h.type !== "color" && h.type !== "spacing" && h.type !== "fontSize" && tokenSuggestions.has(h.value),
+    );
+
+    if (compositeValues.length > 0) {
+      const tokenReplacements = compositeValues.map((h) =>
+        formatTokenReplacement(h.value, tokenSuggestions.get(h.value)![0]!),
+      );
+      const count = compositeValues.length;
+
+      drifts.push({
+        id: createDriftId("hardcoded-value", component.id, "composite"),
+        type: "hardcoded-value",
+        severity: "info",
+        source: this.componentToDriftSource(component),
+        message: `Component "${component.name}" has ${count} hardcoded value${count > 1 ? "s" : ""} matching design tokens: ${compositeValues.map((h) => h.value).join(", ")}`,
+        details: {
+          suggestions: [`Suggested replacements:\n  ${tokenReplacements.join("\n  ")}`],
+          affectedFiles: compositeValues.map((h) => `${h.property}: ${h.value} (${h.location})`),
+          tokenSuggestions: tokenReplacements,
+        },
+        detectedAt: new Date(),
+      });
+    }
+
     return drifts;
   }
 
@@ -704,9 +764,13 @@ export class SemanticDiffEngine {
 
     const sourceProps = new Map(source.props.map((p) => [p.name.toLowerCase(), p]));
     const targetProps = new Map(target.props.map((p) => [p.name.toLowerCase(), p]));
+    const sourceAxes = getVariantAxes(source);
+    const targetAxes = getVariantAxes(target);
 
     for (const [name, prop] of sourceProps) {
       const targetProp = targetProps.get(name);
+      // A prop the other side models as a variant axis is compared below
+      if (!targetProp && targetAxes.has(name)) continue;
       if (!targetProp) {
         differences.push({
           field: `props.${prop.name}`,
@@ -725,7 +789,7 @@ export class SemanticDiffEngine {
     }
 
     for (const [name, prop] of targetProps) {
-      if (!sourceProps.has(name)) {
+      if (!sourceProps.has(name) && !sourceAxes.has(name)) {
         differences.push({
           field: `props.${prop.name}`,
           sourceValue: undefined,
@@ -735,6 +799,73 @@ export class SemanticDiffEngine {
       }
     }
 
+    differences.push(
+      ...this.findVariantDifferences(sourceAxes, targetAxes, sourceProps, targetProps),
+    );
+
+    return differences;
+  }
+
+  /**
+   * Compare variant axes (e.g. size: sm | md | lg) option by option. An axis
+   * only one side has is reported here unless either side has a prop of that
+   * name, in which case the prop comparison already covers it.
+   */
+  private findVariantDifferences(
+    sourceAxes: Map<string, Set<string>>,
+    targetAxes: Map<string, Set<string>>,
+    sourceProps: Map<string, unknown>,
+    targetProps: Map<string, unknown>,
+  ): ComponentDifference[] {
+    const differences: ComponentDifference[] = [];
+
+    for (const [axis, options] of sourceAxes) {
+      const targetOptions = targetAxes.get(axis);
+      if (!targetOptions) {
+        if (!sourceProps.has(axis) && !targetProps.has(axis)) {
+          differences.push({
+            field: `variants.${axis}`,
+            sourceValue: [...options],
+            targetValue: undefined,
+            severity: "info",
+          });
+        }
+        continue;
+      }
+
+      for (const option of options) {
+        if (!targetOptions.has(option)) {
+          differences.push({
+            field: `variants.${axis}.${option}`,
+            sourceValue: option,
+            targetValue: undefined,
+            severity: "info",
+          });
+        }
+      }
+      for (const option of targetOptions) {
+        if (!options.has(option)) {
+          differences.push({
+            field: `variants.${axis}.${option}`,
+            sourceValue: undefined,
+            targetValue: option,
+            severity: "info",
+          });
+        }
+      }
+    }
+
+    for (const [axis, options] of targetAxes) {
+      if (!sourceAxes.has(axis) && !sourceProps.has(axis) && !targetProps.has(axis)) {
+        differences.push({
+          field: `variants.${axis}`,
+          sourceValue: undefined,
+          targetValue: [...options],
+          severity: "info",
+        });
+      }
+    }
+
     return differences;
   }
 
@@ -834,3 +965,90 @@ export class SemanticDiffEngine {
     return "info";
   }
 }
+
+/**
+ * Variant props added by the Storybook extractor that are not story args
+ */
+const VARIANT_META_PROPS = new Set(["description"]);
+
+/**
+ * Variant axes of a component, e.g. size -> {sm, md, lg}, with names and
+ * options lowercased. Design sources carry them as variant props ("Size=Large"
+ * in Figma, story args in Storybook); code carries them as props typed with a
+ * string literal union.
+ */
+function getVariantAxes(component: Component): Map<string, Set<string>> {
+  const axes = new Map<string, Set<string>>();
+  const add = (axis: string, option: string) => {
+    const key = axis.toLowerCase();
+    let options = axes.get(key);
+    if (!options) {
+      options = new Set();
+      axes.set(key, options);
+    }
+    options.add(option.toLowerCase());
+  };
+
+  for (const variant of component.variants) {
+    for (const [axis, option] of Object.entries(variant.props)) {
+      if (typeof option === "string" && !VARIANT_META_PROPS.has(axis)) {
+        add(axis, option);
+      }
+    }
+  }
+
+  for (const prop of component.props) {
+    for (const option of parseStringUnion(prop.type)) {
+      add(prop.name, option);
+    }
+  }
+
+  return axes;
+}
+
+/**
+ * Options of a string literal union type ("'sm' | 'md'"), or none if the
+ * type is anything else
+ */
+function parseStringUnion(type: string): string[] {
+  const options: string[] = [];
+
+  for (const member of type.split("|").map((m) => m.trim())) {
+    if (member === "undefined" || member === "null") continue;
+    const literal = member.match(/^(['"`])(.*)\1$/);
+    if (!literal) return [];
+    options.push(literal[2]!);
+  }
+
+  return options;
+}
+
+/**
+ * Format a suggested replacement, noting the mode when a token matched
+ * through a non-default mode value (e.g. a dark-only color)
+ */
+function formatTokenReplacement(value: string, suggestion: TokenSuggestion): string {
+  const match = `${Math.round(suggestion.confidence * 100)}% match`;
+  return `${value} → ${suggestion.suggestedToken} (${suggestion.mode ? `${match}, ${suggestion.mode} mode` : match})`;
+}
+
+/**
+ * Suggestions for an unused component or token, based on how safe the
+ * usage pass judged it to delete
+ */
+function getUnusedSuggestions(kind: "component" | "token", usage: UsageEvidence): string[] {
+  const where = usage.definedIn ? ` from ${usage.definedIn}` : "";
+  switch (usage.safeToDelete) {
+    case "high":
+      return [`Safe to delete: no references in ${usage.filesScanned} scanned files. Remove the ${kind}${where}`];
+    case "medium":
+      return [
+        `Only referenced from ${usage.referencedFrom.join(", ")}. Remove those references with the ${kind}`,
+      ];
+    case "low":
+      return [
+        `Re-exported from ${usage.referencedFrom.join(", ")}, so it may be used outside this repo`,
+        `Deprecate the ${kind} before removing it`,
+      ];
+  }
+}
@@ -222,6 +222,41 @@ describe("TokenSuggestionService", () => {
     });
   });
 
+  describe("mode-aware suggestions", () => {
+    const themedTokens: DesignToken[] = [
+      {
+        id: "token:surface",
+        name: "surface",
+        value: { type: "color", hex: "#ffffff" },
+        modes: {
+          light: { type: "color", hex: "#ffffff" },
+          dark: { type: "color", hex: "#18181b" },
+        },
+        source: { type: "css", path: "tokens.css" },
+        metadata: {},
+        scannedAt: new Date(),
+      } as DesignToken,
+    ];
+
+    it("suggests a token whose dark mode value matches", () => {
+      const suggestions = service.findColorTokenSuggestions("#18181b", themedTokens);
+
+      expect(suggestions).toHaveLength(1);
+      expect(suggestions[0]).toMatchObject({
+        suggestedToken: "surface",
+        tokenValue: "#18181b",
+        confidence: 1,
+        mode: "dark",
+      });
+    });
+
+    it("omits the mode when the default value matches", () => {
+      const [suggestion] = service.findColorTokenSuggestions("#ffffff", themedTokens);
+
+      expect(suggestion?.mode).toBeUndefined();
+    });
+  });
+
   describe("findSpacingTokenSuggestions", () => {
     const spacingTokens: DesignToken[] = [
       {
@@ -307,6 +342,92 @@ describe("TokenSuggestionService", () => {
     });
   });
 
+  describe("findCompositeTokenSuggestions", () => {
+    const compositeTokens: DesignToken[] = [
+      {
+        id: "json:tokens.json:shadow.sm",
+        name: "shadow.sm",
+        category: "shadow",
+        value: { type: "shadow", x: 0, y: 1, blur: 2, spread: 0, color: "#0000000d" },
+        source: { type: "json", path: "tokens.json" },
+        aliases: [],
+        usedBy: [],
+        metadata: {},
+        scannedAt: new Date(),
+      },
+      {
+        id: "json:tokens.json:shadow.lg",
+        name: "shadow.lg",
+        category: "shadow",
+        value: { type: "shadow", x: 0, y: 10, blur: 15, spread: -3, color: "#0000001a" },
+        source: { type: "json", path: "tokens.json" },
+        aliases: [],
+        usedBy: [],
+        metadata: {},
+        scannedAt: new Date(),
+      },
+      {
+        id: "json:tokens.json:type.body",
+        name: "type.body",
+        category: "typography",
+        value: { type: "typography", fontFamily: "Inter, sans-serif", fontSize: 16, fontWeight: 400, lineHeight: 1.5 },
+        source: { type: "json", path: "tokens.json" },
+        aliases: [],
+        usedBy: [],
+        metadata: {},
+        scannedAt: new Date(),
+      },
+    ];
+
+    it("matches a hardcoded box-shadow against shadow tokens", () => {
+      const suggestions = service.findCompositeTokenSuggestions(
+        "0 1px 2px rgba(0, 0, 0, 0.05)",
+        "shadow",
+        compositeTokens,
+      );
+
+      expect(suggestions).toHaveLength(1);
+      expect(suggestions[0]).toMatchObject({
+        suggestedToken: "shadow.sm",
+        tokenValue: "0px 1px 2px 0px #0000000d",
+        confidence: 1,
+      });
+    });
+
+    it("matches a font shorthand against typography tokens", () => {
+      const [suggestion] = service.findCompositeTokenSuggestions(
+        "400 1rem/1.5 Inter, system-ui",
+        "typography",
+        compositeTokens,
+      );
+
+      expect(suggestion!.suggestedToken).toBe("type.body");
+    });
+
+    it("does not match a different font family", () => {
+      const suggestions = service.findCompositeTokenSuggestions(
+        "400 16px/1.5 Georgia, serif",
+        "typography",
+        compositeTokens,
+      );
+
+      expect(suggestions).toEqual([]);
+    });
+
+    it("is used by generateTokenSuggestions for shadows and fonts", () => {
+      const suggestions = service.generateTokenSuggestions(
+        [
+          { type: "shadow", value: "0 10px 15px -3px rgba(0,0,0,0.1)", property: "boxShadow", location: "1:1" },
+          { type: "other", value: "16px Inter", property: "font", location: "2:1" },
+        ],
+        compositeTokens,
+      );
+
+      expect(suggestions.get("0 10px 15px -3px rgba(0,0,0,0.1)")![0]!.suggestedToken).toBe("shadow.lg");
+      expect(suggestions.get("16px Inter")![0]!.suggestedToken).toBe("type.body");
+    });
+  });
+
   describe("generateTokenSuggestions", () => {
     const tokens: DesignToken[] = [
       {
@@ -555,6 +676,39 @@ describe("TokenSuggestionService", () => {
         expect(suggestions[0]!.suggestedToken).toBe("spacing-a");
         expect(suggestions[1]!.suggestedToken).toBe("spacing-z");
       });
+
+      it("prefers a semantic alias over the primitive it points to", () => {
+        const tokens: DesignToken[] = [
+          {
+            id: "token:color.blue.500",
+            name: "color.blue.500",
+            category: "color",
+            value: { type: "color", hex: "#3b82f6" },
+            source: { type: "json", path: "tokens.json" },
+            aliases: [],
+            usedBy: [],
+            metadata: {},
+            scannedAt: new Date(),
+          },
+          {
+            id: "token:semantic.primary",
+            name: "semantic.primary",
+            category: "color",
+            value: { type: "color", hex: "#3b82f6" },
+            source: { type: "json", path: "tokens.json" },
+            aliases: ["color.blue.500"],
+            usedBy: [],
+            metadata: {},
+            scannedAt: new Date(),
+          },
+        ];
+
+        const suggestions = service.findColorTokenSuggestions("#3b82f6", tokens);
+        expect(suggestions.map((s) => s.suggestedToken)).toEqual([
+          "semantic.primary",
+          "color.blue.500",
+        ]);
+      });
     });
   });
 });
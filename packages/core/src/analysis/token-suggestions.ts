@@ -2,7 +2,16 @@
  * Token suggestion utilities for finding design token replacements
  * for hardcoded values in components.
  */
-import type { DesignToken } from "../models/index.js";
+import type {
+  DesignToken,
+  GradientValue,
+  ShadowValue,
+  TokenValue,
+  TransitionValue,
+  TypographyValue,
+} from "../models/index.js";
+import { getTokenModeValues } from "../models/index.js";
+import { parseCompositeValue, tokenValueToCss } from "../tokens/composite.js";
 import { TOKEN_SUGGESTION_CONFIG } from "./config.js";
 
 export interface TokenSuggestion {
@@ -10,8 +19,13 @@ export interface TokenSuggestion {
   suggestedToken: string;
   tokenValue: string;
   confidence: number;
+  /** Token mode whose value matched, when it was not the default value */
+  mode?: string;
 }
 
+/** Token value types matched as a whole rather than a single number or color */
+export type CompositeValueType = "typography" | "shadow" | "border" | "transition" | "gradient";
+
 /**
  * Service for finding design token suggestions to replace hardcoded values
  */
@@ -30,29 +44,33 @@ export class TokenSuggestionService {
     if (!normalizedInput) return suggestions;
 
     for (const token of tokens) {
-      if (token.value.type !== "color") continue;
-
-      const tokenHex = token.value.hex.toLowerCase();
-      const similarity = this.colorSimilarity(normalizedInput, tokenHex);
-
-      if (similarity >= TOKEN_SUGGESTION_CONFIG.colorSimilarityThreshold) {
-        // Only suggest tokens with >= 80% similarity
-        suggestions.push({
-          hardcodedValue,
-          suggestedToken: token.name,
-          tokenValue: token.value.hex,
-          confidence: similarity,
-        });
+      // Match against every mode, so a dark-only color finds its token
+      let best: TokenSuggestion | null = null;
+
+      for (const { mode, value } of getTokenModeValues(token)) {
+        if (value.type !== "color") continue;
+
+        const tokenHex = value.hex.toLowerCase();
+        const similarity = this.colorSimilarity(normalizedInput, tokenHex);
+
+        if (!best || similarity > best.confidence) {
+          best = {
+            hardcodedValue,
+            suggestedToken: token.name,
+            tokenValue: value.hex,
+            confidence: similarity,
+            ...(mode && { mode }),
+          };
+        }
+      }
+
+      // Only suggest tokens with >= 80% similarity
+      if (best && best.confidence >= TOKEN_SUGGESTION_CONFIG.colorSimilarityThreshold) {
+        suggestions.push(best);
       }
     }
 
-    // Sort by confidence (stable: alphabetical tiebreaker) and return top suggestions
-    return suggestions
-      .sort((a, b) => {
-        const diff = b.confidence - a.confidence;
-        return diff !== 0 ? diff : a.suggestedToken.localeCompare(b.suggestedToken);
-      })
-      .slice(0, maxSuggestions);
+    return this.rankSuggestions(suggestions, tokens).slice(0, maxSuggestions);
   }
 
   /**
@@ -69,36 +87,79 @@ export class TokenSuggestionService {
     if (normalizedInput === null) return suggestions;
 
     for (const token of tokens) {
-      if (token.value.type !== "spacing") continue;
-
-      const tokenValue = token.value.value;
-      const tokenUnit = token.value.unit;
-
-      // Convert to comparable units (px)
-      const tokenPx = this.toPx(tokenValue, tokenUnit);
-      const similarity =
-        1 -
-        Math.abs(normalizedInput - tokenPx) /
-          Math.max(normalizedInput, tokenPx, 1);
-
-      if (similarity >= TOKEN_SUGGESTION_CONFIG.spacingSimilarityThreshold) {
-        // Only suggest tokens with >= 90% similarity for spacing
-        suggestions.push({
-          hardcodedValue,
-          suggestedToken: token.name,
-          tokenValue: `${tokenValue}${tokenUnit}`,
-          confidence: similarity,
-        });
+      let best: TokenSuggestion | null = null;
+
+      for (const { mode, value } of getTokenModeValues(token)) {
+        if (value.type !== "spacing") continue;
+
+        // Convert to comparable units (px)
+        const tokenPx = this.toPx(value.value, value.unit);
+        const similarity =
+          1 -
+          Math.abs(normalizedInput - tokenPx) /
+            Math.max(normalizedInput, tokenPx, 1);
+
+        if (!best || similarity > best.confidence) {
+          best = {
+            hardcodedValue,
+            suggestedToken: token.name,
+            tokenValue: `${value.value}${value.unit}`,
+            confidence: similarity,
+            ...(mode && { mode }),
+          };
+        }
+      }
+
+      // Only suggest tokens with >= 90% similarity for spacing
+      if (best && best.confidence >= TOKEN_SUGGESTION_CONFIG.spacingSimilarityThreshold) {
+        suggestions.push(best);
       }
     }
 
-    // Sort by confidence (stable: alphabetical tiebreaker) and return top suggestions
-    return suggestions
-      .sort((a, b) => {
-        const diff = b.confidence - a.confidence;
-        return diff !== 0 ? diff : a.suggestedToken.localeCompare(b.suggestedToken);
-      })
-      .slice(0, maxSuggestions);
+    return this.rankSuggestions(suggestions, tokens).slice(0, maxSuggestions);
+  }
+
+  /**
+   * Find token suggestions for a hardcoded composite value - a box-shadow,
+   * font shorthand, border, transition or gradient - by comparing it with
+   * composite tokens of the same type
+   */
+  findCompositeTokenSuggestions(
+    hardcodedValue: string,
+    type: CompositeValueType,
+    tokens: DesignToken[],
+    maxSuggestions: number = TOKEN_SUGGESTION_CONFIG.maxSuggestions,
+  ): TokenSuggestion[] {
+    const suggestions: TokenSuggestion[] = [];
+    const parsedInput = parseCompositeValue(hardcodedValue, type);
+
+    if (!parsedInput) return suggestions;
+
+    for (const token of tokens) {
+      let best: TokenSuggestion | null = null;
+
+      for (const { mode, value } of getTokenModeValues(token)) {
+        if (value.type !== type) continue;
+
+        const similarity = this.compositeSimilarity(parsedInput, value);
+
+        if (!best || similarity > best.confidence) {
+          best = {
+            hardcodedValue,
+            suggestedToken: token.name,
+            tokenValue: tokenValueToCss(value),
+            confidence: similarity,
+            ...(mode && { mode }),
+          };
+        }
+      }
+
+      if (best && best.confidence >= TOKEN_SUGGESTION_CONFIG.compositeSimilarityThreshold) {
+        suggestions.push(best);
+      }
+    }
+
+    return this.rankSuggestions(suggestions, tokens).slice(0, maxSuggestions);
   }
 
   /**
@@ -122,6 +183,11 @@ export class TokenSuggestionService {
         tokenSuggestions = this.findColorTokenSuggestions(hv.value, tokens);
       } else if (hv.type === "spacing" || hv.type === "fontSize") {
         tokenSuggestions = this.findSpacingTokenSuggestions(hv.value, tokens);
+      } else {
+        const compositeType = this.getCompositeValueType(hv);
+        if (compositeType) {
+          tokenSuggestions = this.findCompositeTokenSuggestions(hv.value, compositeType, tokens);
+        }
       }
 
       if (tokenSuggestions.length > 0) {
@@ -132,6 +198,157 @@ export class TokenSuggestionService {
     return suggestions;
   }
 
+  /**
+   * Which composite token type a hardcoded value should be matched against
+   */
+  private getCompositeValueType(hv: {
+    type: string;
+    value: string;
+    property: string;
+  }): CompositeValueType | null {
+    const property = hv.property.replace(/-/g, "").toLowerCase();
+
+    if (/-gradient\(/i.test(hv.value)) return "gradient";
+    if (hv.type === "shadow" || property === "boxshadow") return "shadow";
+    if (hv.type === "border" || property === "border") return "border";
+    if (property === "font") return "typography";
+    if (property === "transition") return "transition";
+    return null;
+  }
+
+  /**
+   * Similarity (0-1) of two composite values of the same type
+   */
+  private compositeSimilarity(a: TokenValue, b: TokenValue): number {
+    if (a.type === "shadow" && b.type === "shadow") {
+      return this.shadowSimilarity(a, b);
+    }
+    if (a.type === "typography" && b.type === "typography") {
+      return this.typographySimilarity(a, b);
+    }
+    if (a.type === "border" && b.type === "border") {
+      return (
+        0.3 * this.numberSimilarity(a.width, b.width) +
+        0.2 * (a.style === b.style ? 1 : 0) +
+        0.5 * this.cssColorSimilarity(a.color, b.color)
+      );
+    }
+    if (a.type === "transition" && b.type === "transition") {
+      return this.transitionSimilarity(a, b);
+    }
+    if (a.type === "gradient" && b.type === "gradient") {
+      return this.gradientSimilarity(a, b);
+    }
+    return 0;
+  }
+
+  private shadowSimilarity(a: ShadowValue, b: ShadowValue): number {
+    const layersA = a.layers ?? [a];
+    const layersB = b.layers ?? [b];
+    if (layersA.length !== layersB.length) return 0;
+
+    let total = 0;
+    layersA.forEach((layerA, i) => {
+      const layerB = layersB[i]!;
+      if (Boolean(layerA.inset) !== Boolean(layerB.inset)) return;
+
+      const lengthsA = [layerA.x, layerA.y, layerA.blur, layerA.spread];
+      const lengthsB = [layerB.x, layerB.y, layerB.blur, layerB.spread];
+      const difference = lengthsA.reduce((sum, n, j) => sum + Math.abs(n - lengthsB[j]!), 0);
+      const scale = Math.max(
+        lengthsA.reduce((sum, n) => sum + Math.abs(n), 0),
+        lengthsB.reduce((sum, n) => sum + Math.abs(n), 0),
+        1,
+      );
+      const geometry = Math.max(0, 1 - difference / scale);
+
+      total += 0.6 * geometry + 0.4 * this.cssColorSimilarity(layerA.color, layerB.color);
+    });
+
+    return total / layersA.length;
+  }
+
+  private typographySimilarity(a: TypographyValue, b: TypographyValue): number {
+    const primaryFamily = (family: string) =>
+      family.split(",")[0]!.trim().toLowerCase();
+    const lineHeight =
+      a.lineHeight !== undefined && b.lineHeight !== undefined
+        ? this.numberSimilarity(a.lineHeight, b.lineHeight)
+        : 1;
+
+    return (
+      0.4 * this.numberSimilarity(a.fontSize, b.fontSize) +
+      0.25 * (a.fontWeight === b.fontWeight ? 1 : 0) +
+      0.25 * (primaryFamily(a.fontFamily) === primaryFamily(b.fontFamily) ? 1 : 0) +
+      0.1 * lineHeight
+    );
+  }
+
+  private transitionSimilarity(a: TransitionValue, b: TransitionValue): number {
+    return (
+      0.5 * this.numberSimilarity(a.duration, b.duration) +
+      0.3 * (a.timingFunction === b.timingFunction ? 1 : 0) +
+      0.2 * this.numberSimilarity(a.delay, b.delay)
+    );
+  }
+
+  private gradientSimilarity(a: GradientValue, b: GradientValue): number {
+    if (a.stops.length !== b.stops.length) return 0;
+
+    const stops =
+      a.stops.reduce((sum, stop, i) => {
+        const other = b.stops[i]!;
+        return (
+          sum +
+          0.8 * this.cssColorSimilarity(stop.color, other.color) +
+          0.2 * (1 - Math.min(1, Math.abs(stop.position - other.position)))
+        );
+      }, 0) / a.stops.length;
+
+    const angleMatches =
+      a.angle === undefined || b.angle === undefined || a.angle === b.angle;
+    return angleMatches ? stops : stops * 0.5;
+  }
+
+  /**
+   * Similarity of two normalized CSS colors, including alpha (#rrggbbaa)
+   */
+  private cssColorSimilarity(a: string, b: string): number {
+    if (a === b) return 1;
+    if (!a.startsWith("#") || !b.startsWith("#")) return 0;
+
+    const alpha = (hex: string) =>
+      hex.length === 9 ? parseInt(hex.slice(7), 16) / 255 : 1;
+    return (
+      this.colorSimilarity(a.slice(0, 7), b.slice(0, 7)) *
+      (1 - Math.abs(alpha(a) - alpha(b)))
+    );
+  }
+
+  private numberSimilarity(a: number, b: number): number {
+    return 1 - Math.abs(a - b) / Math.max(Math.abs(a), Math.abs(b), 1);
+  }
+
+  /**
+   * Sort by confidence. Ties go to semantic aliases over the primitives
+   * they point to, then alphabetically.
+   */
+  private rankSuggestions(
+    suggestions: TokenSuggestion[],
+    tokens: DesignToken[],
+  ): TokenSuggestion[] {
+    const aliasNames = new Set(
+      tokens.filter((t) => t.aliases?.length).map((t) => t.name),
+    );
+    const isAlias = (s: TokenSuggestion) => (aliasNames.has(s.suggestedToken) ? 0 : 1);
+
+    return suggestions.sort((a, b) => {
+      const diff = b.confidence - a.confidence;
+      if (diff !== 0) return diff;
+      return isAlias(a) - isAlias(b) || a.suggestedToken.localeCompare(b.suggestedToken);
+    });
+  }
+
   /**
    * Normalize a color string to hex format
    */
@@ -2,7 +2,8 @@
  * WCAG Color Contrast Utilities
  *
  * Provides functions for calculating color contrast ratios according to
- * WCAG 2.0 guidelines for accessibility compliance.
+ * WCAG 2.0 guidelines for accessibility compliance, and APCA lightness
+ * contrast (the WCAG 3 candidate) for perceptual contrast.
  */
 
 export interface RGB {
@@ -127,3 +128,43 @@ export function meetsWCAG_AA(ratio: number, isLargeText = false): boolean {
 export function meetsWCAG_AAA(ratio: number, isLargeText = false): boolean {
   return ratio >= (isLargeText ? WCAG_THRESHOLDS.AAA_LARGE_TEXT : WCAG_THRESHOLDS.AAA_NORMAL_TEXT);
 }
+
+/**
+ * APCA lightness contrast (Lc) thresholds, absolute values
+ * https://readtech.org/ARC/tests/bronze-simple-mode/
+ */
+export const APCA_THRESHOLDS = {
+  BODY_TEXT: 75,
+  CONTENT_TEXT: 60,
+  LARGE_TEXT: 45,
+  NON_TEXT: 30,
+} as const;
+
+/**
+ * Calculate APCA lightness contrast (APCA-W3 0.0.98G-4g) of text on a
+ * background. Unlike the WCAG ratio it depends on polarity: positive for
+ * dark text on a light background, negative for light text on dark,
+ * roughly within -108..106.
+ * https://github.com/Myndex/apca-w3
+ */
+export function getAPCAContrast(text: RGB, background: RGB): number {
+  const luminance = ({ r, g, b }: RGB) => {
+    const y =
+      0.2126729 * Math.pow(r / 255, 2.4) +
+      0.7151522 * Math.pow(g / 255, 2.4) +
+      0.072175 * Math.pow(b / 255, 2.4);
+    // Soft clamp near black
+    return y > 0.022 ? y : y + Math.pow(0.022 - y, 1.414);
+  };
+
+  const yText = luminance(text);
+  const yBackground = luminance(background);
+  if (Math.abs(yBackground - yText) < 0.0005) return 0;
+
+  if (yBackground > yText) {
+    const sapc = (Math.pow(yBackground, 0.56) - Math.pow(yText, 0.57)) * 1.14;
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+  }
+  const sapc = (Math.pow(yBackground, 0.65) - Math.pow(yText, 0.62)) * 1.14;
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
+}
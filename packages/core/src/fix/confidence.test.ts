@@ -124,6 +124,31 @@ describe("scoreColorConfidence", () => {
   });
 });
 
+describe("mode-aware scoring", () => {
+  const themed: DesignToken = {
+    ...createColorToken("--background", "#ffffff"),
+    modes: {
+      light: { type: "color", hex: "#ffffff" },
+      dark: { type: "color", hex: "#0a0a0a" },
+    },
+  };
+
+  it("matches a dark-only color against the dark mode value", () => {
+    const result = scoreColorConfidence("#0a0a0a", themed);
+
+    expect(result.level).toBe("exact");
+    expect(result.mode).toBe("dark");
+    expect(result.reason).toContain("--background (dark)");
+  });
+
+  it("prefers the default value when it matches", () => {
+    const result = scoreColorConfidence("#ffffff", themed);
+
+    expect(result.level).toBe("exact");
+    expect(result.mode).toBeUndefined();
+  });
+});
+
 describe("scoreSpacingConfidence", () => {
   it("returns 100% for exact px match", () => {
     const token = createSpacingToken("--spacing-4", 16);
@@ -4,35 +4,49 @@
  * Determines how confident we are that a fix is correct and safe to apply.
  */
 
-import type { DesignToken } from '../models/index.js';
+import type { DesignToken, TokenValue } from '../models/index.js';
+import { getTokenModeValues } from '../models/index.js';
 import type { ConfidenceLevel } from '../models/fix.js';
 
 export interface ConfidenceResult {
   level: ConfidenceLevel;
   score: number;
   reason: string;
+  /** Token mode whose value matched, when it was not the default value */
+  mode?: string;
 }
 
 /**
- * Score confidence for a color replacement
+ * Score confidence for a color replacement. Every mode value of the token is
+ * considered, so a dark-only color matches the token's dark value.
  */
 export function scoreColorConfidence(
   original: string,
   token: DesignToken
 ): ConfidenceResult {
-  if (token.value.type !== 'color') {
+  return scoreBestMode(token, (value, label) =>
+    scoreColorValue(original, value, label)
+  );
+}
+
+function scoreColorValue(
+  original: string,
+  value: TokenValue,
+  name: string
+): ConfidenceResult {
+  if (value.type !== 'color') {
     return { level: 'low', score: 0, reason: 'Token is not a color' };
   }
 
   const normalizedOriginal = normalizeColor(original);
-  const tokenHex = token.value.hex.toLowerCase();
+  const tokenHex = value.hex.toLowerCase();
 
   // Exact match
   if (normalizedOriginal === tokenHex) {
     return {
       level: 'exact',
       score: 100,
-      reason: `Exact match to ${token.name}`,
+      reason: `Exact match to ${name}`,
     };
   }
 
@@ -43,7 +57,7 @@ export function scoreColorConfidence(
     return {
       level: 'exact',
       score: 100,
-      reason: `Exact match to ${token.name}`,
+      reason: `Exact match to ${name}`,
     };
   }
 
@@ -53,7 +67,7 @@ export function scoreColorConfidence(
     return {
       level: 'high',
       score,
-      reason: `Near-exact match to ${token.name} (deltaE: ${distance.toFixed(1)})`,
+      reason: `Near-exact match to ${name} (deltaE: ${distance.toFixed(1)})`,
     };
   }
 
@@ -63,7 +77,7 @@ export function scoreColorConfidence(
     return {
       level: 'medium',
       score: Math.max(70, score),
-      reason: `Close match to ${token.name} (deltaE: ${distance.toFixed(1)})`,
+      reason: `Close match to ${name} (deltaE: ${distance.toFixed(1)})`,
     };
   }
 
@@ -73,25 +87,35 @@ export function scoreColorConfidence(
     return {
       level: 'low',
       score: Math.max(40, score),
-      reason: `Possible match to ${token.name} (deltaE: ${distance.toFixed(1)})`,
+      reason: `Possible match to ${name} (deltaE: ${distance.toFixed(1)})`,
     };
   }
 
   return {
     level: 'low',
     score: 20,
-    reason: `Weak match to ${token.name} (deltaE: ${distance.toFixed(1)})`,
+    reason: `Weak match to ${name} (deltaE: ${distance.toFixed(1)})`,
   };
 }
 
 /**
- * Score confidence for a spacing replacement
+ * Score confidence for a spacing replacement, considering every mode value
  */
 export function scoreSpacingConfidence(
   original: string,
   token: DesignToken
 ): ConfidenceResult {
-  if (token.value.type !== 'spacing') {
+  return scoreBestMode(token, (value, label) =>
+    scoreSpacingValue(original, value, label)
+  );
+}
+
+function scoreSpacingValue(
+  original: string,
+  value: TokenValue,
+  name: string
+): ConfidenceResult {
+  if (value.type !== 'spacing') {
     return { level: 'low', score: 0, reason: 'Token is not a spacing value' };
   }
 
@@ -100,14 +124,14 @@ export function scoreSpacingConfidence(
     return { level: 'low', score: 0, reason: 'Could not parse original spacing' };
   }
 
-  const tokenPx = convertToPx(token.value.value, token.value.unit);
+  const tokenPx = convertToPx(value.value, value.unit);
 
   // Exact match
   if (originalPx === tokenPx) {
     return {
       level: 'exact',
       score: 100,
-      reason: `Exact match to ${token.name}`,
+      reason: `Exact match to ${name}`,
     };
   }
 
@@ -119,7 +143,7 @@ export function scoreSpacingConfidence(
     return {
       level: 'high',
       score: 98,
-      reason: `Near-exact match to ${token.name} (${diff}px difference)`,
+      reason: `Near-exact match to ${name} (${diff}px difference)`,
     };
   }
 
@@ -128,7 +152,7 @@ export function scoreSpacingConfidence(
     return {
       level: 'high',
       score: 95,
-      reason: `Close match to ${token.name} (${diff}px difference)`,
+      reason: `Close match to ${name} (${diff}px difference)`,
     };
   }
 
@@ -138,7 +162,7 @@ export function scoreSpacingConfidence(
     return {
       level: 'medium',
       score: Math.max(70, score),
-      reason: `Approximate match to ${token.name} (${diff}px / ${percentDiff.toFixed(0)}% difference)`,
+      reason: `Approximate match to ${name} (${diff}px / ${percentDiff.toFixed(0)}% difference)`,
     };
   }
 
@@ -148,14 +172,14 @@ export function scoreSpacingConfidence(
     return {
       level: 'low',
       score: Math.max(40, score),
-      reason: `Possible match to ${token.name} (${diff}px / ${percentDiff.toFixed(0)}% difference)`,
+      reason: `Possible match to ${name} (${diff}px / ${percentDiff.toFixed(0)}% difference)`,
     };
   }
 
   return {
     level: 'low',
     score: 20,
-    reason: `Weak match to ${token.name} (${diff}px difference)`,
+    reason: `Weak match to ${name} (${diff}px difference)`,
   };
 }
 
@@ -181,6 +205,27 @@ export function scoreConfidence(
 
 // Helper functions
 
+/**
+ * Score each of a token's mode values and keep the best; the default value
+ * wins ties
+ */
+function scoreBestMode(
+  token: DesignToken,
+  score: (value: TokenValue, name: string) => ConfidenceResult
+): ConfidenceResult {
+  let best: ConfidenceResult | undefined;
+
+  for (const { mode, value } of getTokenModeValues(token)) {
+    const name = mode ? `${token.name} (${mode})` : token.name;
+    const result = score(value, name);
+    if (!best || result.score > best.score) {
+      best = mode ? { ...result, mode } : result;
+    }
+  }
+
+  return best!;
+}
+
 /**
  * Normalize color to lowercase hex
  */
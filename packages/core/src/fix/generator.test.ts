@@ -87,6 +87,35 @@ describe("generateFixes", () => {
       expect(fixes[0]!.tokenName).toBe("--color-danger");
     });
 
+    it("matches dark-only colors against a token's dark mode", () => {
+      const drifts = [createMockDrift("hardcoded-color", "#0a0a0a")];
+      const tokens = [
+        {
+          ...createColorToken("--background", "#ffffff"),
+          modes: {
+            light: { type: "color" as const, hex: "#ffffff" },
+            dark: { type: "color" as const, hex: "#0a0a0a" },
+          },
+        },
+      ];
+
+      const fixes = generateFixes(drifts, tokens);
+
+      expect(fixes[0]!.confidence).toBe("exact");
+      expect(fixes[0]!.replacement).toBe("var(--background)");
+      expect(fixes[0]!.tokenMode).toBe("dark");
+    });
+
+    it("carries the drift's property onto the fix", () => {
+      const drift = createMockDrift("hardcoded-color", "#ff0000");
+      drift.details.property = "backgroundColor";
+      const tokens = [createColorToken("--color-danger", "#ff0000")];
+
+      const fixes = generateFixes([drift], tokens);
+
+      expect(fixes[0]!.property).toBe("backgroundColor");
+    });
+
     it("generates fix for close color match", () => {
       const drifts = [createMockDrift("hardcoded-color", "#ff0001")]; // Very close to red
       const tokens = [createColorToken("--color-danger", "#ff0000")];
@@ -223,6 +252,20 @@ describe("generateFixes", () => {
     });
   });
 
+  describe("semantic aliases", () => {
+    it("prefers a semantic alias over the primitive it points to", () => {
+      const drifts = [createMockDrift("hardcoded-color", "#3b82f6")];
+      const tokens = [
+        createColorToken("--color-blue-500", "#3b82f6"),
+        { ...createColorToken("--color-primary", "#3b82f6"), aliases: ["--color-blue-500"] },
+      ];
+
+      const fixes = generateFixes(drifts, tokens);
+
+      expect(fixes[0]!.replacement).toBe("var(--color-primary)");
+    });
+  });
+
   describe("sorting", () => {
     it("sorts fixes by confidence (high first)", () => {
       const drifts = [
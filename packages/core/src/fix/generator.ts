@@ -98,10 +98,12 @@ function generateFixForDrift(
     line: location.line,
     column: location.column,
     original: hardcodedValue,
+    ...(drift.details?.property && { property: drift.details.property }),
     replacement,
     reason: match.confidence.reason,
     fixType: drift.type as Fix['fixType'],
     tokenName: match.token.name,
+    ...(match.confidence.mode && { tokenMode: match.confidence.mode }),
   };
 }
 
@@ -115,7 +117,7 @@ function isSupportedFixType(type: string): type is SupportedFixType {
 /**
  * Check if file matches include/exclude patterns
  */
-function matchesFilePatterns(
+export function matchesFilePatterns(
   file: string,
   includePatterns: string[],
   excludePatterns: string[]
@@ -196,7 +198,14 @@ function findBestTokenMatch(
 
   for (const token of relevantTokens) {
     const confidence = scoreConfidence(value, token, driftType);
-    if (!bestMatch || confidence.score > bestMatch.confidence.score) {
+    // On a tie, prefer a semantic alias over the primitive it points to
+    if (
+      !bestMatch ||
+      confidence.score > bestMatch.confidence.score ||
+      (confidence.score === bestMatch.confidence.score &&
+        token.aliases?.length &&
+        !bestMatch.token.aliases?.length)
+    ) {
       bestMatch = { token, confidence };
     }
   }
@@ -7,4 +7,4 @@ export { scoreConfidence, scoreColorConfidence, scoreSpacingConfidence } from '.
 export type { ConfidenceResult } from './confidence.js';
 
 // Re-export fix generator
-export { generateFixes, summarizeFixes } from './generator.js';
+export { generateFixes, summarizeFixes, matchesFilePatterns } from './generator.js';
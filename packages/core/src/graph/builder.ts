@@ -317,8 +317,11 @@ export class GraphBuilder {
   private graph: DesignSystemGraph;
   public readonly projectId: string;
 
-  constructor(options: GraphBuildOptions) {
-    this.graph = createGraph();
+  /**
+   * Pass a graph to keep building on it, e.g. one loaded from disk
+   */
+  constructor(options: GraphBuildOptions, graph: DesignSystemGraph = createGraph()) {
+    this.graph = graph;
     this.projectId = options.projectId;
   }
 
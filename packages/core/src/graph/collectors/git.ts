@@ -44,6 +44,8 @@ export interface GitCollectorOptions {
   since?: Date;
   /** Only collect commits before this date */
   until?: Date;
+  /** Only collect commits made after this commit, up to HEAD */
+  from?: string;
   /** Only collect commits touching these file patterns */
   paths?: string[];
   /** Maximum number of commits to collect */
@@ -89,6 +91,11 @@ export async function collectGitHistory(
   if (options.maxCount) {
     logOptions['--max-count'] = options.maxCount;
   }
+  if (options.from) {
+    logOptions.from = options.from;
+    logOptions.to = 'HEAD';
+    logOptions.symmetric = false;
+  }
 
   // Get commit log
   let log: LogResult<DefaultLogFields>;
@@ -315,6 +322,32 @@ export async function getCurrentBranch(projectRoot: string): Promise<string | nu
   }
 }
 
+/**
+ * Get the SHA of the commit HEAD points to
+ */
+export async function getHeadCommit(projectRoot: string): Promise<string | null> {
+  const git: SimpleGit = simpleGit(projectRoot);
+  try {
+    const sha = await git.revparse(['HEAD']);
+    return sha.trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check if a commit is still in HEAD's history (false after a rebase or reset)
+ */
+export async function isAncestorOfHead(projectRoot: string, sha: string): Promise<boolean> {
+  const git: SimpleGit = simpleGit(projectRoot);
+  try {
+    await git.raw(['merge-base', '--is-ancestor', sha, 'HEAD']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Get the remote URL
  */
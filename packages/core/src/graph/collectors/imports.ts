@@ -30,6 +30,8 @@ export interface ImportCollectorOptions {
   projectRoot: string;
   include?: string[];
   exclude?: string[];
+  /** Scan exactly these files (relative to projectRoot) instead of matching include/exclude */
+  files?: string[];
   /** Resolve paths to actual files (slower but more accurate) */
   resolvePaths?: boolean;
   /** Include node_modules imports */
@@ -91,24 +93,37 @@ const REEXPORT_PATTERNS = {
 // ============================================================================
 
 /**
- * Collect import relationships from the codebase
+ * List the files collectImports scans, relative to the project root
  */
-export async function collectImports(
-  options: ImportCollectorOptions
-): Promise<ImportCollectorResult> {
+export async function findImportFiles(
+  options: Pick<ImportCollectorOptions, 'projectRoot' | 'include' | 'exclude'>
+): Promise<string[]> {
   const {
     projectRoot,
     include = ['**/*.{ts,tsx,js,jsx,mjs,cjs}'],
     exclude = ['**/node_modules/**', '**/dist/**', '**/build/**'],
-    resolvePaths = true,
-    includeExternal = false,
   } = options;
 
-  const files = await glob(include, {
+  return glob(include, {
     cwd: projectRoot,
     ignore: exclude,
     absolute: false,
   });
+}
+
+/**
+ * Collect import relationships from the codebase
+ */
+export async function collectImports(
+  options: ImportCollectorOptions
+): Promise<ImportCollectorResult> {
+  const {
+    projectRoot,
+    resolvePaths = true,
+    includeExternal = false,
+  } = options;
+
+  const files = options.files ?? (await findImportFiles(options));
 
   const imports: FileImport[] = [];
   const externalDependencies = new Set<string>();
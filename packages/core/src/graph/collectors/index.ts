@@ -12,6 +12,8 @@ export {
   getFileBlame,
   isGitRepository,
   getCurrentBranch,
+  getHeadCommit,
+  isAncestorOfHead,
   getRemoteUrl,
   type CollectedCommit,
   type CollectedDeveloper,
@@ -23,6 +25,7 @@ export {
 // Token and component usages
 export {
   collectUsages,
+  findUsageFiles,
   findHardcodedColors,
   findCSSVariableUsages,
   findTokenUsagesInFiles,
@@ -37,6 +40,7 @@ export {
 // Import relationships
 export {
   collectImports,
+  findImportFiles,
   findImportersOf,
   findImportsOf,
   buildDependencyGraph,
@@ -41,6 +41,8 @@ export interface UsageCollectorOptions {
   include?: string[];
   /** File patterns to exclude */
   exclude?: string[];
+  /** Scan exactly these files (relative to projectRoot) instead of matching include/exclude */
+  files?: string[];
   /** Known token names to match against */
   knownTokens?: string[];
   /** Known component names to match against */
@@ -89,23 +91,34 @@ const JSX_COMPONENT_PATTERN = /<([A-Z][a-zA-Z0-9]*)\s*(?:[^>]*?)(?:\/>|>)/g;
 // ============================================================================
 
 /**
- * Collect token and component usages from the codebase
+ * List the files collectUsages scans, relative to the project root
  */
-export async function collectUsages(
-  options: UsageCollectorOptions
-): Promise<UsageCollectorResult> {
+export async function findUsageFiles(
+  options: Pick<UsageCollectorOptions, 'projectRoot' | 'include' | 'exclude'>
+): Promise<string[]> {
   const {
     projectRoot,
     include = ['**/*.{ts,tsx,js,jsx,vue,svelte,css,scss,sass,less}'],
     exclude = ['**/node_modules/**', '**/dist/**', '**/build/**', '**/.next/**'],
   } = options;
 
-  // Find all matching files
-  const files = await glob(include, {
+  return glob(include, {
     cwd: projectRoot,
     ignore: exclude,
     absolute: false,
   });
+}
+
+/**
+ * Collect token and component usages from the codebase
+ */
+export async function collectUsages(
+  options: UsageCollectorOptions
+): Promise<UsageCollectorResult> {
+  const { projectRoot } = options;
+
+  // Find all matching files
+  const files = options.files ?? (await findUsageFiles(options));
 
   const tokenUsages: TokenUsage[] = [];
   const componentUsages: ComponentUsage[] = [];
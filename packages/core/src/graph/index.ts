@@ -54,5 +54,22 @@ export {
   calculateCoverage,
 } from './queries.js';
 
+// Query language
+export {
+  parseGraphQuery,
+  runGraphQuery,
+  type GraphQuery,
+  type GraphQueryPath,
+  type GraphQueryNodePattern,
+  type GraphQueryRelationshipPattern,
+  type GraphQueryExpression,
+  type GraphQueryComparisonOperator,
+  type GraphQueryReturnItem,
+  type GraphQueryLiteral,
+  type GraphQueryEntity,
+  type GraphQueryValue,
+  type GraphQueryResult,
+} from './query-language.js';
+
 // Collectors
 export * from './collectors/index.js';
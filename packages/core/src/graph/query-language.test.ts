@@ -0,0 +1,194 @@
+// packages/core/src/graph/query-language.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  createGraph,
+  addNode,
+  addEdge,
+  type DesignSystemGraph,
+} from './builder.js';
+import { parseGraphQuery, runGraphQuery } from './query-language.js';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+function createTestGraph(): DesignSystemGraph {
+  const graph = createGraph();
+  const now = new Date('2026-01-01T00:00:00.000Z');
+
+  addNode(graph, 'Token', 'primary', { name: 'color.primary', category: 'color', value: '#2563eb' });
+  addNode(graph, 'Token', 'danger', { name: 'color.danger', category: 'color', value: '#dc2626' });
+  addNode(graph, 'Token', 'space-md', { name: 'space.md', category: 'spacing', value: '16px' });
+
+  addNode(graph, 'Component', 'Button', {
+    name: 'Button',
+    filePath: 'src/legacy/Button.tsx',
+    framework: 'react',
+    props: ['variant', 'size'],
+  });
+  addNode(graph, 'Component', 'Card', { name: 'Card', filePath: 'src/components/Card.tsx' });
+  addNode(graph, 'Component', 'Modal', { name: 'Modal', filePath: 'src/legacy/Modal.tsx' });
+
+  addNode(graph, 'Commit', 'abc123', { name: 'abc123', timestamp: now });
+
+  addEdge(graph, 'USES', 'component:Button', 'token:primary', { createdAt: now });
+  addEdge(graph, 'USES', 'component:Button', 'token:danger', { createdAt: now });
+  addEdge(graph, 'USES', 'component:Button', 'token:space-md', { createdAt: now });
+  addEdge(graph, 'USES', 'component:Card', 'token:primary', { createdAt: now });
+  addEdge(graph, 'RENDERS', 'component:Modal', 'component:Button', { createdAt: now });
+
+  return graph;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+describe('parseGraphQuery', () => {
+  it('parses patterns, filters and return items', () => {
+    const query = parseGraphQuery(
+      'MATCH (c:Component)-[:USES]->(t:Token {category: "color"}) WHERE c.file ~ "legacy/" RETURN c, count(t)'
+    );
+
+    expect(query.patterns).toEqual([
+      {
+        nodes: [
+          { variable: 'c', label: 'Component', properties: {} },
+          { variable: 't', label: 'Token', properties: { category: 'color' } },
+        ],
+        relationships: [{ types: ['USES'], direction: 'out' }],
+      },
+    ]);
+    expect(query.where).toEqual({
+      kind: 'comparison',
+      operator: '~',
+      left: { kind: 'property', variable: 'c', property: 'file' },
+      right: { kind: 'literal', value: 'legacy/' },
+    });
+    expect(query.returns.map((r) => r.alias)).toEqual(['c', 'count(t)']);
+  });
+
+  it('accepts lowercase keywords and either edge direction', () => {
+    const query = parseGraphQuery('match (t:Token)<-[u:uses|renders]-(c) return t.name as token');
+
+    expect(query.patterns[0]?.relationships).toEqual([
+      { variable: 'u', types: ['USES', 'RENDERS'], direction: 'in' },
+    ]);
+    expect(query.returns[0]?.alias).toBe('token');
+  });
+
+  it('reports syntax errors with their position', () => {
+    expect(() => parseGraphQuery('MATCH (c:Component RETURN c')).toThrow(
+      'Expected ")" but found "RETURN" at position 19'
+    );
+    expect(() => parseGraphQuery('MATCH (c) RETURN x')).toThrow('Unknown variable "x" at position 17');
+    expect(() => parseGraphQuery('MATCH (c) WHERE count(c) > 1 RETURN c')).toThrow(
+      'count() is only allowed in RETURN and ORDER BY'
+    );
+    expect(() => parseGraphQuery('MATCH (c) WHERE c.name ~ "(" RETURN c')).toThrow(
+      'Invalid regular expression'
+    );
+    expect(() => parseGraphQuery('MATCH (c) RETURN c.name ORDER BY c.id')).toThrow(
+      'ORDER BY c.id must name a RETURN column'
+    );
+  });
+});
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+describe('runGraphQuery', () => {
+  it('counts matches grouped by the other columns', () => {
+    const graph = createTestGraph();
+
+    const result = runGraphQuery(
+      graph,
+      'MATCH (c:Component)-[:USES]->(t:Token {category: "color"}) WHERE c.file ~ "legacy/" RETURN c, count(t)'
+    );
+
+    expect(result.columns).toEqual(['c', 'count(t)']);
+    expect(result.rows).toHaveLength(1);
+    expect(result.rows[0]?.['c']).toMatchObject({
+      id: 'component:Button',
+      type: 'Component',
+      name: 'Button',
+      filePath: 'src/legacy/Button.tsx',
+    });
+    expect(result.rows[0]?.['count(t)']).toBe(2);
+  });
+
+  it('returns properties with ordering and limits', () => {
+    const graph = createTestGraph();
+
+    const result = runGraphQuery(
+      graph,
+      'MATCH (c:Component)-[:USES]->(t:Token) RETURN t.name AS token, count(c) AS users ORDER BY users DESC, token LIMIT 2'
+    );
+
+    expect(result.rows).toEqual([
+      { token: 'color.primary', users: 2 },
+      { token: 'color.danger', users: 1 },
+    ]);
+  });
+
+  it('joins comma-separated patterns on shared variables', () => {
+    const graph = createTestGraph();
+
+    const result = runGraphQuery(
+      graph,
+      'MATCH (m:Component)-[:RENDERS]->(c), (c)-[:USES]->(t:Token) RETURN m.name, count(DISTINCT t)'
+    );
+
+    expect(result.rows).toEqual([{ 'm.name': 'Modal', 'count(DISTINCT t)': 3 }]);
+  });
+
+  it('matches undirected relationships and binds edges', () => {
+    const graph = createTestGraph();
+
+    const result = runGraphQuery(
+      graph,
+      'MATCH (b:Component {name: "Button"})-[r:RENDERS]-(other) RETURN other.name, r.type, r.source'
+    );
+
+    expect(result.rows).toEqual([
+      { 'other.name': 'Modal', 'r.type': 'RENDERS', 'r.source': 'component:Modal' },
+    ]);
+  });
+
+  it('supports boolean logic, null checks and string operators', () => {
+    const graph = createTestGraph();
+    const names = (query: string) =>
+      runGraphQuery(graph, query).rows.map((row) => row['c.name']);
+
+    expect(
+      names('MATCH (c:Component) WHERE c.framework IS NULL AND NOT c.name STARTS WITH "M" RETURN c.name')
+    ).toEqual(['Card']);
+    expect(
+      names('MATCH (c:Component) WHERE c.props CONTAINS "size" OR c.file ENDS WITH "Modal.tsx" RETURN c.name')
+    ).toEqual(['Button', 'Modal']);
+    expect(names('MATCH (c:Component) WHERE c.id = "component:Card" RETURN c.name')).toEqual(['Card']);
+  });
+
+  it('compares dates as ISO strings', () => {
+    const graph = createTestGraph();
+
+    const result = runGraphQuery(
+      graph,
+      'MATCH (c:Commit) WHERE c.timestamp >= "2026-01-01" RETURN c.name, c.timestamp'
+    );
+
+    expect(result.rows).toEqual([
+      { 'c.name': 'abc123', 'c.timestamp': '2026-01-01T00:00:00.000Z' },
+    ]);
+  });
+
+  it('returns a zero count when nothing matches', () => {
+    const graph = createTestGraph();
+
+    expect(runGraphQuery(graph, 'MATCH (d:DriftSignal) RETURN count(*)').rows).toEqual([
+      { 'count(*)': 0 },
+    ]);
+    expect(runGraphQuery(graph, 'MATCH (d:DriftSignal) RETURN d').rows).toEqual([]);
+  });
+});
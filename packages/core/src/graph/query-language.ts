@@ -0,0 +1,926 @@
+/**
+ * Graph Query Language
+ *
+ * A small declarative language for one-off questions about the design
+ * system graph, modelled on Cypher:
+ *
+ *   MATCH (c:Component)-[:USES]->(t:Token {category: "color"})
+ *   WHERE c.file ~ "legacy/"
+ *   RETURN c, count(t) AS colors
+ *   ORDER BY colors DESC
+ *   LIMIT 10
+ *
+ * Supported:
+ * - Node patterns `(var:Label {prop: value})`, every part optional
+ * - Relationships `-[var:TYPE|OTHER]->`, `<-[...]-` and `-[...]-` (either way)
+ * - Several comma-separated patterns, joined on shared variables
+ * - WHERE with AND, OR, NOT, =, !=, <, <=, >, >=, ~ (regex), CONTAINS,
+ *   STARTS WITH, ENDS WITH, IS [NOT] NULL
+ * - RETURN variables, properties and count(var) / count(*) / count(DISTINCT var);
+ *   rows are grouped by the non-count columns
+ * - ORDER BY a returned column, LIMIT
+ *
+ * Labels and keywords are case-insensitive. `id` is the node or edge key,
+ * edges also expose `source` and `target`, and `file` falls back to
+ * `filePath` or `path`.
+ */
+
+import type { Attributes } from 'graphology-types';
+import type { DesignSystemGraph } from './builder.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GraphQueryLiteral = string | number | boolean | null;
+
+export interface GraphQueryNodePattern {
+  variable?: string;
+  label?: string;
+  properties: Record<string, GraphQueryLiteral>;
+}
+
+export interface GraphQueryRelationshipPattern {
+  variable?: string;
+  /** Matches any edge type when empty */
+  types: string[];
+  direction: 'out' | 'in' | 'both';
+}
+
+export interface GraphQueryPath {
+  nodes: GraphQueryNodePattern[];
+  /** relationships[i] connects nodes[i] and nodes[i + 1] */
+  relationships: GraphQueryRelationshipPattern[];
+}
+
+export type GraphQueryComparisonOperator =
+  | '='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | '~'
+  | 'CONTAINS'
+  | 'STARTS WITH'
+  | 'ENDS WITH';
+
+export type GraphQueryExpression =
+  | { kind: 'literal'; value: GraphQueryLiteral }
+  | { kind: 'variable'; name: string }
+  | { kind: 'property'; variable: string; property: string }
+  | {
+      kind: 'comparison';
+      operator: GraphQueryComparisonOperator;
+      left: GraphQueryExpression;
+      right: GraphQueryExpression;
+    }
+  | { kind: 'isNull'; operand: GraphQueryExpression; negated: boolean }
+  | { kind: 'and' | 'or'; left: GraphQueryExpression; right: GraphQueryExpression }
+  | { kind: 'not'; operand: GraphQueryExpression }
+  | { kind: 'count'; argument: GraphQueryExpression | null; distinct: boolean };
+
+export interface GraphQueryReturnItem {
+  expression: GraphQueryExpression;
+  /** Column name: the AS alias, or the expression as written */
+  alias: string;
+}
+
+export interface GraphQuery {
+  patterns: GraphQueryPath[];
+  where?: GraphQueryExpression;
+  returns: GraphQueryReturnItem[];
+  orderBy: Array<{ column: string; descending: boolean }>;
+  limit?: number;
+}
+
+/**
+ * A matched node or edge: its key plus its attributes
+ */
+export interface GraphQueryEntity {
+  id: string;
+  type: string;
+  name?: string;
+  [attribute: string]: unknown;
+}
+
+export type GraphQueryValue = GraphQueryLiteral | GraphQueryEntity | GraphQueryLiteral[];
+
+export interface GraphQueryResult {
+  columns: string[];
+  rows: Array<Record<string, GraphQueryValue>>;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Parse a query. Throws with the position of the first syntax error.
+ */
+export function parseGraphQuery(source: string): GraphQuery {
+  return new QueryParser(tokenize(source)).parseQuery();
+}
+
+/**
+ * Run a query (or query source) against the graph
+ */
+export function runGraphQuery(
+  graph: DesignSystemGraph,
+  query: GraphQuery | string
+): GraphQueryResult {
+  const parsed = typeof query === 'string' ? parseGraphQuery(query) : query;
+  const evaluator = new Evaluator(graph);
+
+  let bindings: Binding[] = [new Map()];
+  for (const path of parsed.patterns) {
+    bindings = bindings.flatMap((binding) => evaluator.matchPath(path, binding));
+  }
+  if (parsed.where) {
+    const where = parsed.where;
+    bindings = bindings.filter((binding) => evaluator.evaluate(where, binding) === true);
+  }
+
+  let rows = project(evaluator, parsed.returns, bindings);
+
+  if (parsed.orderBy.length > 0) {
+    rows = [...rows].sort((a, b) => {
+      for (const { column, descending } of parsed.orderBy) {
+        const order = compareForSort(a[column] ?? null, b[column] ?? null);
+        if (order !== 0) return descending ? -order : order;
+      }
+      return 0;
+    });
+  }
+  if (parsed.limit !== undefined) {
+    rows = rows.slice(0, parsed.limit);
+  }
+
+  return { columns: parsed.returns.map((item) => item.alias), rows };
+}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+interface QueryToken {
+  kind: 'identifier' | 'string' | 'number' | 'punct' | 'eof';
+  value: string;
+  position: number;
+}
+
+const PUNCTUATION = [
+  '->', '<-', '<=', '>=', '!=', '<>',
+  '(', ')', '[', ']', '{', '}', ':', ',', '.', '|', '-', '<', '>', '=', '~', '*',
+];
+
+function tokenize(source: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i]!;
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          const next = source[i + 1]!;
+          value += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+          i += 2;
+        } else {
+          value += source[i];
+          i++;
+        }
+      }
+      if (i >= source.length) {
+        throw new Error(`Unterminated string at position ${start}`);
+      }
+      i++;
+      tokens.push({ kind: 'string', value, position: start });
+      continue;
+    }
+
+    const number = /^\d+(\.\d+)?/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ kind: 'number', value: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (identifier) {
+      tokens.push({ kind: 'identifier', value: identifier[0], position: i });
+      i += identifier[0].length;
+      continue;
+    }
+
+    const punct = PUNCTUATION.find((p) => source.startsWith(p, i));
+    if (punct) {
+      tokens.push({ kind: 'punct', value: punct, position: i });
+      i += punct.length;
+      continue;
+    }
+
+    throw new Error(`Unexpected character "${char}" at position ${i}`);
+  }
+
+  tokens.push({ kind: 'eof', value: '', position: source.length });
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+class QueryParser {
+  private index = 0;
+  private variables = new Set<string>();
+
+  constructor(private readonly tokens: QueryToken[]) {}
+
+  parseQuery(): GraphQuery {
+    this.expectKeyword('MATCH');
+    const patterns = [this.parsePath()];
+    while (this.acceptPunct(',')) {
+      patterns.push(this.parsePath());
+    }
+
+    let where: GraphQueryExpression | undefined;
+    if (this.acceptKeyword('WHERE')) {
+      where = this.parseExpression(false);
+    }
+
+    this.expectKeyword('RETURN');
+    const returns = [this.parseReturnItem()];
+    while (this.acceptPunct(',')) {
+      returns.push(this.parseReturnItem());
+    }
+
+    const orderBy: GraphQuery['orderBy'] = [];
+    if (this.acceptKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      do {
+        orderBy.push(this.parseOrderItem(returns));
+      } while (this.acceptPunct(','));
+    }
+
+    let limit: number | undefined;
+    if (this.acceptKeyword('LIMIT')) {
+      const token = this.next();
+      if (token.kind !== 'number' || token.value.includes('.')) {
+        throw this.error('Expected a whole number after LIMIT', token);
+      }
+      limit = Number(token.value);
+    }
+
+    const end = this.peek();
+    if (end.kind !== 'eof') {
+      throw this.error(`Unexpected "${end.value}"`, end);
+    }
+
+    return { patterns, where, returns, orderBy, limit };
+  }
+
+  private parsePath(): GraphQueryPath {
+    const nodes = [this.parseNode()];
+    const relationships: GraphQueryRelationshipPattern[] = [];
+
+    while (this.isPunct('-') || this.isPunct('<-')) {
+      relationships.push(this.parseRelationship());
+      nodes.push(this.parseNode());
+    }
+
+    return { nodes, relationships };
+  }
+
+  private parseNode(): GraphQueryNodePattern {
+    this.expectPunct('(');
+    const node: GraphQueryNodePattern = { properties: {} };
+
+    if (this.peek().kind === 'identifier') {
+      node.variable = this.declare(this.next().value);
+    }
+    if (this.acceptPunct(':')) {
+      node.label = this.expectIdentifier('label');
+    }
+    if (this.isPunct('{')) {
+      node.properties = this.parseProperties();
+    }
+
+    this.expectPunct(')');
+    return node;
+  }
+
+  private parseRelationship(): GraphQueryRelationshipPattern {
+    const incoming = this.acceptPunct('<-');
+    if (!incoming) {
+      this.expectPunct('-');
+    }
+
+    const relationship: GraphQueryRelationshipPattern = {
+      types: [],
+      direction: 'both',
+    };
+
+    if (this.acceptPunct('[')) {
+      if (this.peek().kind === 'identifier') {
+        relationship.variable = this.declare(this.next().value);
+      }
+      if (this.acceptPunct(':')) {
+        do {
+          relationship.types.push(this.expectIdentifier('relationship type').toUpperCase());
+        } while (this.acceptPunct('|'));
+      }
+      this.expectPunct(']');
+    }
+
+    if (incoming) {
+      this.expectPunct('-');
+      relationship.direction = 'in';
+    } else if (this.acceptPunct('->')) {
+      relationship.direction = 'out';
+    } else {
+      this.expectPunct('-');
+    }
+
+    return relationship;
+  }
+
+  private parseProperties(): Record<string, GraphQueryLiteral> {
+    this.expectPunct('{');
+    const properties: Record<string, GraphQueryLiteral> = {};
+
+    if (!this.isPunct('}')) {
+      do {
+        const key = this.expectIdentifier('property name');
+        this.expectPunct(':');
+        properties[key] = this.parseLiteral();
+      } while (this.acceptPunct(','));
+    }
+
+    this.expectPunct('}');
+    return properties;
+  }
+
+  private parseReturnItem(): GraphQueryReturnItem {
+    const start = this.peek().position;
+    const expression = this.parseExpression(true);
+    const alias = this.acceptKeyword('AS')
+      ? this.expectIdentifier('column name')
+      : this.sourceSince(start);
+    return { expression, alias };
+  }
+
+  private parseOrderItem(returns: GraphQueryReturnItem[]): GraphQuery['orderBy'][number] {
+    const startToken = this.peek();
+    const isAlias =
+      startToken.kind === 'identifier' &&
+      !['.', '('].includes(this.peek(1).value) &&
+      returns.some((r) => r.alias === startToken.value);
+    if (isAlias) {
+      this.next();
+    } else {
+      this.parseExpression(true);
+    }
+    const text = this.sourceSince(startToken.position);
+    const item = returns.find((r) => r.alias === text);
+    if (!item) {
+      throw this.error(`ORDER BY ${text} must name a RETURN column`, startToken);
+    }
+
+    const descending = this.acceptKeyword('DESC');
+    if (!descending) {
+      this.acceptKeyword('ASC');
+    }
+    return { column: item.alias, descending };
+  }
+
+  private parseExpression(allowCount: boolean): GraphQueryExpression {
+    let left = this.parseAnd(allowCount);
+    while (this.acceptKeyword('OR')) {
+      left = { kind: 'or', left, right: this.parseAnd(allowCount) };
+    }
+    return left;
+  }
+
+  private parseAnd(allowCount: boolean): GraphQueryExpression {
+    let left = this.parseNot(allowCount);
+    while (this.acceptKeyword('AND')) {
+      left = { kind: 'and', left, right: this.parseNot(allowCount) };
+    }
+    return left;
+  }
+
+  private parseNot(allowCount: boolean): GraphQueryExpression {
+    if (this.acceptKeyword('NOT')) {
+      return { kind: 'not', operand: this.parseNot(allowCount) };
+    }
+    return this.parseComparison(allowCount);
+  }
+
+  private parseComparison(allowCount: boolean): GraphQueryExpression {
+    const left = this.parseOperand(allowCount);
+
+    if (this.acceptKeyword('IS')) {
+      const negated = this.acceptKeyword('NOT');
+      this.expectKeyword('NULL');
+      return { kind: 'isNull', operand: left, negated };
+    }
+
+    let operator: GraphQueryComparisonOperator | null = null;
+    const token = this.peek();
+    if (token.kind === 'punct' && ['=', '!=', '<>', '<', '<=', '>', '>=', '~'].includes(token.value)) {
+      this.next();
+      operator = token.value === '<>' ? '!=' : (token.value as GraphQueryComparisonOperator);
+    } else if (this.acceptKeyword('CONTAINS')) {
+      operator = 'CONTAINS';
+    } else if (this.acceptKeyword('STARTS')) {
+      this.expectKeyword('WITH');
+      operator = 'STARTS WITH';
+    } else if (this.acceptKeyword('ENDS')) {
+      this.expectKeyword('WITH');
+      operator = 'ENDS WITH';
+    }
+
+    if (!operator) {
+      return left;
+    }
+
+    const rightToken = this.peek();
+    const right = this.parseOperand(allowCount);
+    if (operator === '~' && right.kind === 'literal' && typeof right.value === 'string') {
+      try {
+        new RegExp(right.value);
+      } catch {
+        throw this.error(`Invalid regular expression "${right.value}"`, rightToken);
+      }
+    }
+    return { kind: 'comparison', operator, left, right };
+  }
+
+  private parseOperand(allowCount: boolean): GraphQueryExpression {
+    const token = this.peek();
+
+    if (this.acceptPunct('(')) {
+      const inner = this.parseExpression(allowCount);
+      this.expectPunct(')');
+      return inner;
+    }
+
+    if (token.kind === 'identifier' && token.value.toUpperCase() === 'COUNT' && this.peek(1).value === '(') {
+      if (!allowCount) {
+        throw this.error('count() is only allowed in RETURN and ORDER BY', token);
+      }
+      this.next();
+      this.expectPunct('(');
+      if (this.acceptPunct('*')) {
+        this.expectPunct(')');
+        return { kind: 'count', argument: null, distinct: false };
+      }
+      const distinct = this.acceptKeyword('DISTINCT');
+      const argument = this.parseOperand(false);
+      this.expectPunct(')');
+      return { kind: 'count', argument, distinct };
+    }
+
+    if (
+      token.kind === 'identifier' &&
+      !['TRUE', 'FALSE', 'NULL'].includes(token.value.toUpperCase())
+    ) {
+      this.next();
+      const variable = this.reference(token);
+      if (this.acceptPunct('.')) {
+        return { kind: 'property', variable, property: this.expectIdentifier('property name') };
+      }
+      return { kind: 'variable', name: variable };
+    }
+
+    return { kind: 'literal', value: this.parseLiteral() };
+  }
+
+  private parseLiteral(): GraphQueryLiteral {
+    const token = this.next();
+
+    if (token.kind === 'string') return token.value;
+    if (token.kind === 'number') return Number(token.value);
+    if (token.kind === 'punct' && token.value === '-' && this.peek().kind === 'number') {
+      return -Number(this.next().value);
+    }
+    if (token.kind === 'identifier') {
+      switch (token.value.toUpperCase()) {
+        case 'TRUE':
+          return true;
+        case 'FALSE':
+          return false;
+        case 'NULL':
+          return null;
+      }
+    }
+
+    throw this.error(`Expected a value but found "${token.value || 'end of query'}"`, token);
+  }
+
+  private declare(name: string): string {
+    this.variables.add(name);
+    return name;
+  }
+
+  private reference(token: QueryToken): string {
+    if (!this.variables.has(token.value)) {
+      throw this.error(`Unknown variable "${token.value}"`, token);
+    }
+    return token.value;
+  }
+
+  private sourceSince(position: number): string {
+    const tokens = this.tokens.slice(0, this.index).filter((t) => t.position >= position);
+    let text = '';
+    for (const [i, token] of tokens.entries()) {
+      const previous = tokens[i - 1];
+      const spaced =
+        previous &&
+        (previous.kind !== 'punct' || previous.value === ',') &&
+        token.kind !== 'punct';
+      text += (spaced ? ' ' : '') + (token.kind === 'string' ? JSON.stringify(token.value) : token.value);
+    }
+    return text;
+  }
+
+  private peek(offset = 0): QueryToken {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)]!;
+  }
+
+  private next(): QueryToken {
+    const token = this.peek();
+    if (token.kind !== 'eof') this.index++;
+    return token;
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'punct' && token.value === value;
+  }
+
+  private acceptPunct(value: string): boolean {
+    if (!this.isPunct(value)) return false;
+    this.next();
+    return true;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.acceptPunct(value)) {
+      const token = this.peek();
+      throw this.error(`Expected "${value}" but found "${token.value || 'end of query'}"`, token);
+    }
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.kind !== 'identifier' || token.value.toUpperCase() !== keyword) return false;
+    this.next();
+    return true;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      const token = this.peek();
+      throw this.error(`Expected ${keyword} but found "${token.value || 'end of query'}"`, token);
+    }
+  }
+
+  private expectIdentifier(what: string): string {
+    const token = this.next();
+    if (token.kind !== 'identifier') {
+      throw this.error(`Expected ${what} but found "${token.value || 'end of query'}"`, token);
+    }
+    return token.value;
+  }
+
+  private error(message: string, token: QueryToken): Error {
+    return new Error(`${message} at position ${token.position}`);
+  }
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+type Binding = Map<string, { kind: 'node' | 'edge'; id: string }>;
+
+/** Properties that fall back to other attribute names */
+const PROPERTY_FALLBACKS: Record<string, string[]> = {
+  file: ['filePath', 'path'],
+};
+
+class Evaluator {
+  private regexes = new Map<string, RegExp>();
+
+  constructor(private readonly graph: DesignSystemGraph) {}
+
+  /**
+   * Extend a binding with every way the path matches
+   */
+  matchPath(path: GraphQueryPath, binding: Binding): Binding[] {
+    const [first, ...rest] = path.nodes;
+    if (!first) return [];
+
+    let partial = this.candidates(first, binding).map((id) => ({
+      binding: this.bind(binding, first.variable, 'node', id),
+      current: id,
+    }));
+
+    rest.forEach((nodePattern, i) => {
+      const relationship = path.relationships[i]!;
+      partial = partial.flatMap(({ binding: b, current }) =>
+        this.step(current, relationship, nodePattern, b)
+      );
+    });
+
+    return partial.map((p) => p.binding);
+  }
+
+  evaluate(expression: GraphQueryExpression, binding: Binding): GraphQueryValue {
+    switch (expression.kind) {
+      case 'literal':
+        return expression.value;
+      case 'variable':
+        return this.entity(binding, expression.name);
+      case 'property':
+        return this.property(binding, expression.variable, expression.property);
+      case 'isNull': {
+        const isNull = this.evaluate(expression.operand, binding) === null;
+        return expression.negated ? !isNull : isNull;
+      }
+      case 'not':
+        return this.evaluate(expression.operand, binding) !== true;
+      case 'and':
+        return (
+          this.evaluate(expression.left, binding) === true &&
+          this.evaluate(expression.right, binding) === true
+        );
+      case 'or':
+        return (
+          this.evaluate(expression.left, binding) === true ||
+          this.evaluate(expression.right, binding) === true
+        );
+      case 'comparison':
+        return this.compare(
+          expression.operator,
+          this.evaluate(expression.left, binding),
+          this.evaluate(expression.right, binding)
+        );
+      case 'count':
+        throw new Error('count() cannot be evaluated per row');
+    }
+  }
+
+  private step(
+    from: string,
+    relationship: GraphQueryRelationshipPattern,
+    nodePattern: GraphQueryNodePattern,
+    binding: Binding
+  ): Array<{ binding: Binding; current: string }> {
+    const edges: Array<{ edge: string; other: string }> = [];
+    if (relationship.direction !== 'in') {
+      for (const edge of this.graph.outEdges(from)) {
+        edges.push({ edge, other: this.graph.target(edge) });
+      }
+    }
+    if (relationship.direction !== 'out') {
+      for (const edge of this.graph.inEdges(from)) {
+        edges.push({ edge, other: this.graph.source(edge) });
+      }
+    }
+
+    const results: Array<{ binding: Binding; current: string }> = [];
+    for (const { edge, other } of edges) {
+      const attrs = this.graph.getEdgeAttributes(edge) as Attributes;
+      if (relationship.types.length > 0 && !relationship.types.includes(String(attrs.type))) continue;
+      if (!this.fits(binding, relationship.variable, edge)) continue;
+      if (!this.fits(binding, nodePattern.variable, other)) continue;
+      if (!this.nodeMatches(other, nodePattern)) continue;
+
+      const withEdge = this.bind(binding, relationship.variable, 'edge', edge);
+      results.push({ binding: this.bind(withEdge, nodePattern.variable, 'node', other), current: other });
+    }
+    return results;
+  }
+
+  private candidates(pattern: GraphQueryNodePattern, binding: Binding): string[] {
+    const bound = pattern.variable ? binding.get(pattern.variable) : undefined;
+    if (bound) {
+      return bound.kind === 'node' && this.nodeMatches(bound.id, pattern) ? [bound.id] : [];
+    }
+    return this.graph.filterNodes((id: string) => this.nodeMatches(id, pattern));
+  }
+
+  private nodeMatches(id: string, pattern: GraphQueryNodePattern): boolean {
+    const attrs = this.graph.getNodeAttributes(id) as Attributes;
+    if (pattern.label && String(attrs.type).toLowerCase() !== pattern.label.toLowerCase()) {
+      return false;
+    }
+    return Object.entries(pattern.properties).every(([key, value]) =>
+      valuesEqual(readProperty(id, attrs, key), value)
+    );
+  }
+
+  private fits(binding: Binding, variable: string | undefined, id: string): boolean {
+    if (!variable) return true;
+    const bound = binding.get(variable);
+    return !bound || bound.id === id;
+  }
+
+  private bind(binding: Binding, variable: string | undefined, kind: 'node' | 'edge', id: string): Binding {
+    if (!variable || binding.has(variable)) return binding;
+    const next: Binding = new Map(binding);
+    next.set(variable, { kind, id });
+    return next;
+  }
+
+  private attributes(binding: Binding, variable: string): { id: string; attrs: Attributes } | null {
+    const bound = binding.get(variable);
+    if (!bound) return null;
+    const attrs =
+      bound.kind === 'node'
+        ? this.graph.getNodeAttributes(bound.id)
+        : this.graph.getEdgeAttributes(bound.id);
+    return { id: bound.id, attrs: attrs as Attributes };
+  }
+
+  private entity(binding: Binding, variable: string): GraphQueryEntity | null {
+    const found = this.attributes(binding, variable);
+    if (!found) return null;
+
+    const entity: GraphQueryEntity = { id: found.id, type: String(found.attrs.type) };
+    for (const [key, value] of Object.entries(found.attrs)) {
+      entity[key] = normalize(value);
+    }
+    const bound = binding.get(variable)!;
+    if (bound.kind === 'edge') {
+      entity.source = this.graph.source(bound.id);
+      entity.target = this.graph.target(bound.id);
+    }
+    return entity;
+  }
+
+  private property(binding: Binding, variable: string, property: string): GraphQueryValue {
+    const bound = binding.get(variable);
+    if (bound?.kind === 'edge' && (property === 'source' || property === 'target')) {
+      return property === 'source' ? this.graph.source(bound.id) : this.graph.target(bound.id);
+    }
+    const found = this.attributes(binding, variable);
+    return found ? readProperty(found.id, found.attrs, property) : null;
+  }
+
+  private compare(
+    operator: GraphQueryComparisonOperator,
+    left: GraphQueryValue,
+    right: GraphQueryValue
+  ): boolean {
+    if (operator === '=') return valuesEqual(left, right);
+    if (operator === '!=') return left !== null && right !== null && !valuesEqual(left, right);
+    if (left === null || right === null) return false;
+
+    switch (operator) {
+      case '~':
+        return this.regex(String(right)).test(toText(left));
+      case 'CONTAINS':
+        return Array.isArray(left)
+          ? left.some((item) => valuesEqual(item, right))
+          : toText(left).includes(toText(right));
+      case 'STARTS WITH':
+        return toText(left).startsWith(toText(right));
+      case 'ENDS WITH':
+        return toText(left).endsWith(toText(right));
+    }
+
+    const order = compareForSort(left, right);
+    switch (operator) {
+      case '<':
+        return order < 0;
+      case '<=':
+        return order <= 0;
+      case '>':
+        return order > 0;
+      case '>=':
+        return order >= 0;
+    }
+  }
+
+  private regex(pattern: string): RegExp {
+    let regex = this.regexes.get(pattern);
+    if (!regex) {
+      try {
+        regex = new RegExp(pattern);
+      } catch {
+        throw new Error(`Invalid regular expression "${pattern}"`);
+      }
+      this.regexes.set(pattern, regex);
+    }
+    return regex;
+  }
+}
+
+/**
+ * Build result rows, grouping by the non-count columns when any column counts
+ */
+function project(
+  evaluator: Evaluator,
+  returns: GraphQueryReturnItem[],
+  bindings: Binding[]
+): Array<Record<string, GraphQueryValue>> {
+  const counts = returns.filter((item) => item.expression.kind === 'count');
+  const keys = returns.filter((item) => item.expression.kind !== 'count');
+
+  if (counts.length === 0) {
+    return bindings.map((binding) =>
+      Object.fromEntries(returns.map((item) => [item.alias, evaluator.evaluate(item.expression, binding)]))
+    );
+  }
+
+  const groups = new Map<string, { row: Record<string, GraphQueryValue>; bindings: Binding[] }>();
+  for (const binding of bindings) {
+    const row = Object.fromEntries(
+      keys.map((item) => [item.alias, evaluator.evaluate(item.expression, binding)])
+    );
+    const key = JSON.stringify(keys.map((item) => identity(row[item.alias] ?? null)));
+    const group = groups.get(key) ?? { row, bindings: [] };
+    group.bindings.push(binding);
+    groups.set(key, group);
+  }
+
+  // count(*) over no matches is still one row of zeroes
+  if (groups.size === 0 && keys.length === 0) {
+    groups.set('[]', { row: {}, bindings: [] });
+  }
+
+  return [...groups.values()].map(({ row, bindings: grouped }) => {
+    const result: Record<string, GraphQueryValue> = {};
+    for (const item of returns) {
+      const expression = item.expression;
+      if (expression.kind !== 'count') {
+        result[item.alias] = row[item.alias] ?? null;
+        continue;
+      }
+      if (!expression.argument) {
+        result[item.alias] = grouped.length;
+        continue;
+      }
+      const argument = expression.argument;
+      const values = grouped
+        .map((binding) => evaluator.evaluate(argument, binding))
+        .filter((value) => value !== null);
+      result[item.alias] = expression.distinct
+        ? new Set(values.map((value) => JSON.stringify(identity(value)))).size
+        : values.length;
+    }
+    return result;
+  });
+}
+
+function readProperty(id: string, attrs: Attributes, property: string): GraphQueryValue {
+  if (property === 'id') return id;
+
+  for (const key of [property, ...(PROPERTY_FALLBACKS[property] ?? [])]) {
+    if (attrs[key] !== undefined) {
+      return normalize(attrs[key]) as GraphQueryValue;
+    }
+  }
+  return null;
+}
+
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined) return null;
+  return value;
+}
+
+function identity(value: GraphQueryValue): unknown {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) ? value.id : value;
+}
+
+function valuesEqual(a: GraphQueryValue, b: GraphQueryValue): boolean {
+  if (a === null || b === null) return false;
+  return JSON.stringify(identity(a)) === JSON.stringify(identity(b));
+}
+
+function toText(value: GraphQueryValue): string {
+  if (value === null) return '';
+  if (typeof value === 'object' && !Array.isArray(value)) return value.name ?? value.id;
+  return String(value);
+}
+
+function compareForSort(a: GraphQueryValue, b: GraphQueryValue): number {
+  // Nulls sort last
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return toText(a).localeCompare(toText(b));
+}
@@ -135,6 +135,10 @@ export interface FileNodeAttributes extends BaseNodeAttributes {
   path: string;
   extension: string;
   lineCount?: number;
+  /** Usage counts from the last time the file was collected */
+  tokenUsages?: number;
+  componentUsages?: number;
+  hardcodedValues?: number;
 }
 
 export interface CommitNodeAttributes extends BaseNodeAttributes {
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { IntentDecisionTypeSchema, IntentStatusSchema } from "./intent.js";
 
 // Drift types
 export const DriftTypeSchema = z.enum([
@@ -91,9 +92,36 @@ export const DriftDetailsSchema = z.object({
   // Actionable token suggestions for hardcoded values
   // Format: "hardcodedValue → tokenName (confidence% match)"
   tokenSuggestions: z.array(z.string()).optional(),
+  // For hardcoded values: the CSS property or attribute holding the value
+  property: z.string().optional(),
   // For repeated-pattern drift type
   occurrences: z.number().optional(),
   locations: z.array(z.string()).optional(),
+  // For unused-component / unused-token: what the usage pass found
+  usage: z
+    .object({
+      // File the component or token is defined in
+      definedIn: z.string().optional(),
+      filesScanned: z.number(),
+      // Files that still mention the entity without using it in product
+      // code (tests, stories, barrel re-exports, aliasing tokens)
+      referencedFrom: z.array(z.string()),
+      // How safe it is to delete the entity
+      safeToDelete: z.enum(["high", "medium", "low"]),
+    })
+    .optional(),
+  // Design decision recorded with `buoy intent` that covers this drift
+  intent: z
+    .object({
+      id: z.string(),
+      type: IntentDecisionTypeSchema,
+      status: IntentStatusSchema,
+      title: z.string(),
+      expiresAt: z.date().optional(),
+    })
+    .optional(),
+  // CODEOWNERS owners of the file the drift is in
+  owners: z.array(z.string()).optional(),
 });
 
 // Drift resolution
@@ -130,6 +158,7 @@ export type Severity = z.infer<typeof SeveritySchema>;
 export type DriftSource = z.infer<typeof DriftSourceSchema>;
 export type GitContext = z.infer<typeof GitContextSchema>;
 export type DriftDetails = z.infer<typeof DriftDetailsSchema>;
+export type UsageEvidence = NonNullable<DriftDetails["usage"]>;
 export type DriftResolutionType = z.infer<typeof DriftResolutionTypeSchema>;
 export type DriftResolution = z.infer<typeof DriftResolutionSchema>;
 export type DriftSignal = z.infer<typeof DriftSignalSchema>;
@@ -34,6 +34,9 @@ export const FixSchema = z.object({
   /** Original text to replace */
   original: z.string(),
 
+  /** CSS property, JSX attribute or object key holding the original value (if known) */
+  property: z.string().optional(),
+
   /** Replacement text */
   replacement: z.string(),
 
@@ -50,6 +53,9 @@ export const FixSchema = z.object({
 
   /** Token name being applied (if applicable) */
   tokenName: z.string().optional(),
+
+  /** Token mode whose value matched (e.g. "dark"), if not the default */
+  tokenMode: z.string().optional(),
 });
 
 export type Fix = z.infer<typeof FixSchema>;
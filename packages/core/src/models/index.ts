@@ -40,8 +40,11 @@ export {
   ColorValueSchema,
   SpacingValueSchema,
   TypographyValueSchema,
+  ShadowLayerSchema,
   ShadowValueSchema,
   BorderValueSchema,
+  TransitionValueSchema,
+  GradientValueSchema,
   RawValueSchema,
   TokenSourceSchema,
   CssTokenSourceSchema,
@@ -51,9 +54,13 @@ export {
   TypeScriptTokenSourceSchema,
   TokenCategorySchema,
   TokenMetadataSchema,
+  TokenModesSchema,
   createTokenId,
   normalizeTokenName,
   tokensMatch,
+  getDivergentModes,
+  getTokenValue,
+  getTokenModeValues,
 } from './token.js';
 
 export type {
@@ -62,8 +69,11 @@ export type {
   ColorValue,
   SpacingValue,
   TypographyValue,
+  ShadowLayer,
   ShadowValue,
   BorderValue,
+  TransitionValue,
+  GradientValue,
   RawValue,
   TokenSource,
   CssTokenSource,
@@ -73,6 +83,7 @@ export type {
   TypeScriptTokenSource,
   TokenCategory,
   TokenMetadata,
+  TokenModes,
 } from './token.js';
 
 // Drift models
@@ -101,6 +112,7 @@ export type {
   DriftSource,
   GitContext,
   DriftDetails,
+  UsageEvidence,
   DriftResolution,
   DriftResolutionType,
 } from './drift.js';
@@ -117,6 +129,8 @@ export {
   createIntentId,
   isIntentExpired,
   intentApplies,
+  getIntentStatus,
+  intentMatchesDrift,
   DECISION_TYPE_LABELS,
   STATUS_LABELS,
 } from './intent.js';
@@ -0,0 +1,93 @@
+// packages/core/src/models/intent.test.ts
+import { describe, it, expect } from 'vitest';
+import { getIntentStatus, intentMatchesDrift, type Intent } from './intent.js';
+import type { DriftSignal } from './drift.js';
+
+function createIntent(overrides: Partial<Intent> = {}): Intent {
+  return {
+    id: 'intent:component:Button:exception:1',
+    entityType: 'component',
+    entityId: 'Button',
+    entityName: 'Button',
+    decision: {
+      type: 'exception',
+      status: 'active',
+      title: 'Legacy button',
+      description: '',
+      rationale: 'Replaced next quarter',
+    },
+    context: {},
+    createdAt: new Date('2025-01-01'),
+    ...overrides,
+  };
+}
+
+function createDrift(overrides: Partial<DriftSignal> = {}): DriftSignal {
+  return {
+    id: 'drift:hardcoded-value:react:src/Button.tsx:Button',
+    type: 'hardcoded-value',
+    severity: 'warning',
+    source: {
+      entityType: 'component',
+      entityId: 'react:src/Button.tsx:Button',
+      entityName: 'Button',
+      location: 'src/Button.tsx:4',
+    },
+    message: 'Hardcoded color',
+    details: {},
+    detectedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('intent model helpers', () => {
+  describe('getIntentStatus', () => {
+    it('returns the stored status while not expired', () => {
+      expect(getIntentStatus(createIntent())).toBe('active');
+      expect(
+        getIntentStatus(createIntent({ expiresAt: new Date(Date.now() + 60_000) }))
+      ).toBe('active');
+    });
+
+    it('returns expired once expiresAt has passed', () => {
+      expect(
+        getIntentStatus(createIntent({ expiresAt: new Date(Date.now() - 60_000) }))
+      ).toBe('expired');
+    });
+  });
+
+  describe('intentMatchesDrift', () => {
+    it('matches drift on the same entity by name or id', () => {
+      expect(intentMatchesDrift(createIntent(), createDrift())).toBe(true);
+      expect(
+        intentMatchesDrift(
+          createIntent({ entityId: 'react:src/Button.tsx:Button', entityName: 'PrimaryButton' }),
+          createDrift()
+        )
+      ).toBe(true);
+      expect(
+        intentMatchesDrift(createIntent({ entityType: 'token' }), createDrift())
+      ).toBe(false);
+    });
+
+    it('matches only the related drift when one is set', () => {
+      const intent = createIntent({ context: { relatedDriftId: 'drift:other' } });
+
+      expect(intentMatchesDrift(intent, createDrift())).toBe(false);
+      expect(intentMatchesDrift(intent, createDrift({ id: 'drift:other' }))).toBe(true);
+    });
+
+    it('matches pattern intents by drift type', () => {
+      const intent = createIntent({
+        entityType: 'pattern',
+        entityId: 'hardcoded-value',
+        entityName: 'hardcoded-value',
+      });
+
+      expect(intentMatchesDrift(intent, createDrift())).toBe(true);
+      expect(
+        intentMatchesDrift(intent, createDrift({ type: 'naming-inconsistency' }))
+      ).toBe(false);
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { DriftSignal } from './drift.js';
 
 // Intent decision types
 export const IntentDecisionTypeSchema = z.enum([
@@ -87,6 +88,29 @@ export function intentApplies(intent: Intent, driftId: string): boolean {
   return false;
 }
 
+// Status with expiry applied: an active intent past expiresAt is expired
+export function getIntentStatus(intent: Intent): IntentStatus {
+  if (intent.decision.status === 'active' && isIntentExpired(intent)) return 'expired';
+  return intent.decision.status;
+}
+
+// Helper to check if intent is about a drift, ignoring status and expiry.
+// An intent with a related drift covers only that drift; otherwise it covers
+// every drift on its entity (a pattern intent's entityId is a drift type).
+export function intentMatchesDrift(intent: Intent, drift: DriftSignal): boolean {
+  if (intent.context.relatedDriftId) {
+    return intent.context.relatedDriftId === drift.id;
+  }
+  if (intent.entityType === 'pattern') {
+    return intent.entityId === drift.type;
+  }
+  if (intent.entityType !== drift.source.entityType) return false;
+  return (
+    intent.entityId === drift.source.entityId ||
+    intent.entityName === drift.source.entityName
+  );
+}
+
 // Human-readable decision type labels
 export const DECISION_TYPE_LABELS: Record<IntentDecisionType, string> = {
   deprecation: 'Deprecation',
@@ -4,6 +4,10 @@ import {
   createTokenId,
   normalizeTokenName,
   tokensMatch,
+  getTokenValue,
+  getTokenModeValues,
+  getDivergentModes,
+  type DesignToken,
   type TokenSource,
   type ColorValue,
   type SpacingValue,
@@ -205,4 +209,49 @@ describe('token model helpers', () => {
       });
     });
   });
+
+  describe('token modes', () => {
+    const token: DesignToken = {
+      id: 'css:tokens.css:background',
+      name: 'background',
+      category: 'color',
+      value: { type: 'color', hex: '#ffffff' },
+      modes: {
+        light: { type: 'color', hex: '#ffffff' },
+        dark: { type: 'color', hex: '#0a0a0a' },
+      },
+      source: { type: 'css', path: 'tokens.css' },
+      aliases: [],
+      usedBy: [],
+      metadata: {},
+      scannedAt: new Date(),
+    };
+
+    it('returns the value for a mode, falling back to the default', () => {
+      expect(getTokenValue(token, 'dark')).toEqual({ type: 'color', hex: '#0a0a0a' });
+      expect(getTokenValue(token, 'brand')).toEqual({ type: 'color', hex: '#ffffff' });
+      expect(getTokenValue(token)).toEqual({ type: 'color', hex: '#ffffff' });
+    });
+
+    it('lists the default value then modes that differ from it', () => {
+      expect(getTokenModeValues(token)).toEqual([
+        { value: { type: 'color', hex: '#ffffff' } },
+        { mode: 'dark', value: { type: 'color', hex: '#0a0a0a' } },
+      ]);
+    });
+
+    it('finds shared modes with different values', () => {
+      const other: DesignToken = {
+        ...token,
+        modes: {
+          light: { type: 'color', hex: '#ffffff' },
+          dark: { type: 'color', hex: '#111111' },
+          brand: { type: 'color', hex: '#ff0000' },
+        },
+      };
+
+      expect(getDivergentModes(token, other)).toEqual(['dark']);
+      expect(getDivergentModes(token, { ...token, modes: undefined })).toEqual([]);
+    });
+  });
 });
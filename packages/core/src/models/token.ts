@@ -27,23 +27,48 @@ export const TypographyValueSchema = z.object({
   letterSpacing: z.number().optional(),
 });
 
-export const ShadowValueSchema = z.object({
-  type: z.literal('shadow'),
+export const ShadowLayerSchema = z.object({
   x: z.number(),
   y: z.number(),
   blur: z.number(),
   spread: z.number(),
   color: z.string(),
+  inset: z.boolean().optional(),
+});
+
+// x/y/blur/spread/color describe the first layer; `layers` lists every
+// layer of a multi-layer shadow
+export const ShadowValueSchema = ShadowLayerSchema.extend({
+  type: z.literal('shadow'),
+  layers: z.array(ShadowLayerSchema).optional(),
 });
 
 export const BorderValueSchema = z.object({
   type: z.literal('border'),
   width: z.number(),
-  style: z.enum(['solid', 'dashed', 'dotted', 'none']),
+  style: z.enum(['solid', 'dashed', 'dotted', 'double', 'groove', 'ridge', 'inset', 'outset', 'hidden', 'none']),
   color: z.string(),
   radius: z.number().optional(),
 });
 
+// Durations in milliseconds
+export const TransitionValueSchema = z.object({
+  type: z.literal('transition'),
+  duration: z.number(),
+  delay: z.number(),
+  timingFunction: z.string(),
+});
+
+// Stop positions run from 0 to 1
+export const GradientValueSchema = z.object({
+  type: z.literal('gradient'),
+  stops: z.array(z.object({
+    color: z.string(),
+    position: z.number(),
+  })),
+  angle: z.number().optional(),
+});
+
 export const RawValueSchema = z.object({
   type: z.literal('raw'),
   value: z.string(),
@@ -55,6 +80,8 @@ export const TokenValueSchema = z.discriminatedUnion('type', [
   TypographyValueSchema,
   ShadowValueSchema,
   BorderValueSchema,
+  TransitionValueSchema,
+  GradientValueSchema,
   RawValueSchema,
 ]);
 
@@ -121,13 +148,19 @@ export const TokenMetadataSchema = z.object({
   tags: z.array(z.string()).optional(),
 });
 
+// Per-mode values (light/dark themes, brands), keyed by mode name.
+// `value` always holds the default mode's value.
+export const TokenModesSchema = z.record(z.string(), TokenValueSchema);
+
 // Main Token schema
 export const DesignTokenSchema = z.object({
   id: z.string(),
   name: z.string(),
   category: TokenCategorySchema,
   value: TokenValueSchema,
+  modes: TokenModesSchema.optional(),
   source: TokenSourceSchema,
+  // Tokens this token references ({color.blue.500}), nearest first
   aliases: z.array(z.string()),
   usedBy: z.array(z.string()),
   metadata: TokenMetadataSchema,
@@ -138,8 +171,11 @@ export const DesignTokenSchema = z.object({
 export type ColorValue = z.infer<typeof ColorValueSchema>;
 export type SpacingValue = z.infer<typeof SpacingValueSchema>;
 export type TypographyValue = z.infer<typeof TypographyValueSchema>;
+export type ShadowLayer = z.infer<typeof ShadowLayerSchema>;
 export type ShadowValue = z.infer<typeof ShadowValueSchema>;
 export type BorderValue = z.infer<typeof BorderValueSchema>;
+export type TransitionValue = z.infer<typeof TransitionValueSchema>;
+export type GradientValue = z.infer<typeof GradientValueSchema>;
 export type RawValue = z.infer<typeof RawValueSchema>;
 export type TokenValue = z.infer<typeof TokenValueSchema>;
 export type CssTokenSource = z.infer<typeof CssTokenSourceSchema>;
@@ -150,6 +186,7 @@ export type TypeScriptTokenSource = z.infer<typeof TypeScriptTokenSourceSchema>;
 export type TokenSource = z.infer<typeof TokenSourceSchema>;
 export type TokenCategory = z.infer<typeof TokenCategorySchema>;
 export type TokenMetadata = z.infer<typeof TokenMetadataSchema>;
+export type TokenModes = z.infer<typeof TokenModesSchema>;
 export type DesignToken = z.infer<typeof DesignTokenSchema>;
 
 // Helper to create token ID
@@ -168,6 +205,37 @@ export function createTokenId(source: TokenSource, name: string): string {
   }
 }
 
+// Helper to get a token's value in a mode, falling back to the default value
+export function getTokenValue(token: DesignToken, mode?: string): TokenValue {
+  return (mode && token.modes?.[mode]) || token.value;
+}
+
+// Helper to list every value a token can take: the default value first,
+// then each mode whose value differs from it
+export function getTokenModeValues(
+  token: DesignToken
+): Array<{ mode?: string; value: TokenValue }> {
+  const values: Array<{ mode?: string; value: TokenValue }> = [{ value: token.value }];
+  for (const [mode, value] of Object.entries(token.modes ?? {})) {
+    if (!tokensMatch(value, token.value)) {
+      values.push({ mode, value });
+    }
+  }
+  return values;
+}
+
+// Helper to list the modes both tokens define with different values
+export function getDivergentModes(a: DesignToken, b: DesignToken): string[] {
+  if (!a.modes || !b.modes) return [];
+
+  return Object.entries(a.modes)
+    .filter(([mode, value]) => {
+      const other = b.modes![mode];
+      return other !== undefined && !tokensMatch(value, other);
+    })
+    .map(([mode]) => mode);
+}
+
 // Helper to normalize token name for matching
 export function normalizeTokenName(name: string): string {
   return name
@@ -198,7 +266,9 @@ export function tokensMatch(a: TokenValue, b: TokenValue): boolean {
         a.y === bShadow.y &&
         a.blur === bShadow.blur &&
         a.spread === bShadow.spread &&
-        a.color.toLowerCase() === bShadow.color.toLowerCase()
+        a.color.toLowerCase() === bShadow.color.toLowerCase() &&
+        Boolean(a.inset) === Boolean(bShadow.inset) &&
+        JSON.stringify(a.layers) === JSON.stringify(bShadow.layers)
       );
     case 'border':
       const bBorder = b as BorderValue;
@@ -207,6 +277,15 @@ export function tokensMatch(a: TokenValue, b: TokenValue): boolean {
         a.style === bBorder.style &&
         a.color.toLowerCase() === bBorder.color.toLowerCase()
       );
+    case 'transition':
+      const bTransition = b as TransitionValue;
+      return (
+        a.duration === bTransition.duration &&
+        a.delay === bTransition.delay &&
+        a.timingFunction === bTransition.timingFunction
+      );
+    case 'gradient':
+      return JSON.stringify(a) === JSON.stringify(b);
     case 'raw':
       return a.value === (b as RawValue).value;
     default:
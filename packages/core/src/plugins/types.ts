@@ -40,6 +40,8 @@ export interface DriftResult {
     file?: string;
     line?: number;
     suggestion?: string;
+    /** CODEOWNERS owners of the file */
+    owners?: string[];
   }>;
   summary: { total: number; critical: number; warning: number; info: number };
 }
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeCssColor,
+  parseBorderValue,
+  parseGradientValue,
+  parseShadowValue,
+  parseTransitionValue,
+  parseTypographyValue,
+  tokenValueToCss,
+} from './composite.js';
+
+describe('normalizeCssColor', () => {
+  it('normalizes hex and rgb colors, keeping alpha below 1', () => {
+    expect(normalizeCssColor('#FFF')).toBe('#ffffff');
+    expect(normalizeCssColor('#000000ff')).toBe('#000000');
+    expect(normalizeCssColor('rgba(0, 0, 0, 0.05)')).toBe('#0000000d');
+    expect(normalizeCssColor('rgb(0 0 0 / 50%)')).toBe('#00000080');
+    expect(normalizeCssColor('currentColor')).toBe('currentcolor');
+  });
+});
+
+describe('parseShadowValue', () => {
+  it('parses a CSS box-shadow with several layers', () => {
+    const shadow = parseShadowValue('0 1px 3px rgba(0, 0, 0, 0.1), inset 0 1px 2px -1px #000');
+
+    expect(shadow).toMatchObject({ type: 'shadow', x: 0, y: 1, blur: 3, spread: 0, color: '#0000001a' });
+    expect(shadow!.layers).toEqual([
+      { x: 0, y: 1, blur: 3, spread: 0, color: '#0000001a' },
+      { x: 0, y: 1, blur: 2, spread: -1, color: '#000000', inset: true },
+    ]);
+  });
+
+  it('parses DTCG and Tokens Studio shadow objects', () => {
+    expect(
+      parseShadowValue({ color: '#00000026', offsetX: '0px', offsetY: '4px', blur: '8px', spread: '0px' })
+    ).toEqual({ type: 'shadow', x: 0, y: 4, blur: 8, spread: 0, color: '#00000026' });
+
+    expect(
+      parseShadowValue({ x: '0', y: '2', blur: '4', spread: '0', color: '#000', type: 'innerShadow' })
+    ).toMatchObject({ y: 2, blur: 4, inset: true });
+  });
+
+  it('rejects values that are not shadows', () => {
+    expect(parseShadowValue('none')).toBeNull();
+    expect(parseShadowValue(12)).toBeNull();
+  });
+});
+
+describe('parseTypographyValue', () => {
+  it('parses a CSS font shorthand', () => {
+    expect(parseTypographyValue('italic 600 1rem/24px "Inter", sans-serif')).toEqual({
+      type: 'typography',
+      fontFamily: 'Inter, sans-serif',
+      fontSize: 16,
+      fontWeight: 600,
+      lineHeight: 1.5,
+    });
+  });
+
+  it('parses DTCG typography objects', () => {
+    expect(
+      parseTypographyValue({
+        fontFamily: ['Inter', 'sans-serif'],
+        fontSize: { value: 14, unit: 'px' },
+        fontWeight: 'semi-bold',
+        lineHeight: 1.4,
+        letterSpacing: '0px',
+      })
+    ).toEqual({
+      type: 'typography',
+      fontFamily: 'Inter, sans-serif',
+      fontSize: 14,
+      fontWeight: 600,
+      lineHeight: 1.4,
+      letterSpacing: 0,
+    });
+  });
+});
+
+describe('parseBorderValue', () => {
+  it('parses CSS and DTCG borders', () => {
+    expect(parseBorderValue('1px solid #E5E7EB')).toEqual({
+      type: 'border',
+      width: 1,
+      style: 'solid',
+      color: '#e5e7eb',
+    });
+    expect(parseBorderValue({ color: '#000', width: '2px', style: { dashArray: ['4px'], lineCap: 'round' } }))
+      .toMatchObject({ width: 2, style: 'dashed' });
+  });
+});
+
+describe('parseTransitionValue', () => {
+  it('parses CSS and DTCG transitions', () => {
+    expect(parseTransitionValue('opacity 0.2s ease-in-out 50ms')).toEqual({
+      type: 'transition',
+      duration: 200,
+      delay: 50,
+      timingFunction: 'cubic-bezier(0.42, 0, 0.58, 1)',
+    });
+    expect(parseTransitionValue({ duration: '200ms', delay: '0ms', timingFunction: [0.42, 0, 0.58, 1] }))
+      .toEqual(parseTransitionValue('200ms ease-in-out'));
+  });
+});
+
+describe('parseGradientValue', () => {
+  it('parses CSS gradients and DTCG stop lists', () => {
+    expect(parseGradientValue('linear-gradient(to right, #fff, rgba(0, 0, 0, 0.5) 100%)')).toEqual({
+      type: 'gradient',
+      angle: 90,
+      stops: [
+        { color: '#ffffff', position: 0 },
+        { color: '#00000080', position: 1 },
+      ],
+    });
+    expect(parseGradientValue([{ color: '#FFF', position: 0 }, { color: '#000', position: 1 }])).toEqual({
+      type: 'gradient',
+      stops: [
+        { color: '#ffffff', position: 0 },
+        { color: '#000000', position: 1 },
+      ],
+    });
+  });
+});
+
+describe('tokenValueToCss', () => {
+  it('formats composite values as CSS', () => {
+    expect(tokenValueToCss(parseShadowValue('0 1px 2px #0000000d')!)).toBe('0px 1px 2px 0px #0000000d');
+    expect(tokenValueToCss(parseTypographyValue('600 16px/1.5 Inter')!)).toBe('600 16px/1.5 Inter');
+    expect(tokenValueToCss(parseTransitionValue('150ms linear')!)).toBe('150ms linear');
+  });
+});
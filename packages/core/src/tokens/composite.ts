@@ -0,0 +1,554 @@
+// Composite token values - typography, shadow, border, transition, gradient
+//
+// Parses composite values from DTCG objects, Tokens Studio objects and CSS
+// strings (box-shadow, font shorthand, border, transition, gradients) into
+// TokenValues, and formats them back as CSS.
+
+import type {
+  BorderValue,
+  GradientValue,
+  ShadowLayer,
+  ShadowValue,
+  TokenValue,
+  TransitionValue,
+  TypographyValue,
+} from '../models/token.js';
+
+const BASE_FONT_SIZE_PX = 16;
+
+const BORDER_STYLES = new Set<BorderValue['style']>([
+  'solid', 'dashed', 'dotted', 'double', 'groove', 'ridge', 'inset', 'outset', 'hidden', 'none',
+]);
+
+const FONT_WEIGHTS: Record<string, number> = {
+  thin: 100,
+  hairline: 100,
+  extralight: 200,
+  ultralight: 200,
+  light: 300,
+  normal: 400,
+  regular: 400,
+  book: 400,
+  medium: 500,
+  semibold: 600,
+  demibold: 600,
+  bold: 700,
+  extrabold: 800,
+  ultrabold: 800,
+  black: 900,
+  heavy: 900,
+};
+
+const TIMING_FUNCTIONS: Record<string, string> = {
+  linear: 'linear',
+  ease: 'cubic-bezier(0.25, 0.1, 0.25, 1)',
+  'ease-in': 'cubic-bezier(0.42, 0, 1, 1)',
+  'ease-out': 'cubic-bezier(0, 0, 0.58, 1)',
+  'ease-in-out': 'cubic-bezier(0.42, 0, 0.58, 1)',
+  'step-start': 'steps(1, start)',
+  'step-end': 'steps(1, end)',
+};
+
+const NAMED_COLORS: Record<string, string> = {
+  transparent: '#00000000',
+  black: '#000000',
+  white: '#ffffff',
+};
+
+/**
+ * Parse a composite token value for a DTCG / Tokens Studio type.
+ * Returns null for non-composite types and values that don't parse.
+ */
+export function parseCompositeValue(rawValue: unknown, type: string | undefined): TokenValue | null {
+  switch (type) {
+    case 'typography':
+      return parseTypographyValue(rawValue);
+    case 'shadow':
+    case 'boxShadow':
+      return parseShadowValue(rawValue);
+    case 'border':
+      return parseBorderValue(rawValue);
+    case 'transition':
+      return parseTransitionValue(rawValue);
+    case 'gradient':
+      return parseGradientValue(rawValue);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a typography value from a DTCG/Tokens Studio object or a CSS font
+ * shorthand like `italic 600 16px/1.5 Inter, sans-serif`
+ */
+export function parseTypographyValue(rawValue: unknown): TypographyValue | null {
+  if (isObject(rawValue)) {
+    const fontSize = parseLength(rawValue.fontSize);
+    const fontFamily = parseFontFamily(rawValue.fontFamily);
+    if (fontSize === null || !fontFamily) return null;
+
+    const lineHeight = parseLineHeight(rawValue.lineHeight, fontSize);
+    const letterSpacing = parseLength(rawValue.letterSpacing);
+    return {
+      type: 'typography',
+      fontFamily,
+      fontSize,
+      fontWeight: parseFontWeight(rawValue.fontWeight) ?? 400,
+      ...(lineHeight !== undefined && { lineHeight }),
+      ...(letterSpacing !== null && { letterSpacing }),
+    };
+  }
+
+  if (typeof rawValue !== 'string') return null;
+
+  // [style] [variant] [weight] size[/line-height] family
+  const match = /^(.*?)(-?[\d.]+(?:px|rem|em|pt))(?:\s*\/\s*(\S+))?\s+(.+)$/i.exec(rawValue.trim());
+  if (!match) return null;
+
+  const fontSize = parseLength(match[2]);
+  const fontFamily = parseFontFamily(match[4]);
+  if (fontSize === null || !fontFamily) return null;
+
+  let fontWeight = 400;
+  for (const keyword of match[1]!.trim().split(/\s+/)) {
+    fontWeight = parseFontWeight(keyword) ?? fontWeight;
+  }
+
+  const lineHeight = parseLineHeight(match[3], fontSize);
+  return {
+    type: 'typography',
+    fontFamily,
+    fontSize,
+    fontWeight,
+    ...(lineHeight !== undefined && { lineHeight }),
+  };
+}
+
+/**
+ * Parse a shadow from a DTCG object (offsetX/offsetY), a Tokens Studio
+ * object (x/y, type: innerShadow), an array of either, or a CSS
+ * box-shadow like `0 1px 2px rgba(0, 0, 0, 0.05)`
+ */
+export function parseShadowValue(rawValue: unknown): ShadowValue | null {
+  let layers: Array<ShadowLayer | null>;
+
+  if (Array.isArray(rawValue)) {
+    layers = rawValue.map(parseShadowObject);
+  } else if (isObject(rawValue)) {
+    layers = [parseShadowObject(rawValue)];
+  } else if (typeof rawValue === 'string') {
+    layers = splitTopLevel(rawValue, ',').map(parseCssShadowLayer);
+  } else {
+    return null;
+  }
+
+  if (layers.length === 0 || layers.some((layer) => layer === null)) return null;
+
+  const [first, ...rest] = layers as ShadowLayer[];
+  return {
+    type: 'shadow',
+    ...first!,
+    ...(rest.length > 0 && { layers: [first!, ...rest] }),
+  };
+}
+
+/**
+ * Parse a border from a DTCG object or a CSS shorthand like
+ * `1px solid #e5e7eb`
+ */
+export function parseBorderValue(rawValue: unknown): BorderValue | null {
+  if (isObject(rawValue)) {
+    const width = parseLength(rawValue.width);
+    if (width === null || typeof rawValue.color !== 'string') return null;
+    return {
+      type: 'border',
+      width,
+      // DTCG stroke style objects ({ dashArray, lineCap }) are dashes
+      style: typeof rawValue.style === 'string' ? parseBorderStyle(rawValue.style) : 'dashed',
+      color: normalizeCssColor(rawValue.color),
+    };
+  }
+
+  if (typeof rawValue !== 'string') return null;
+
+  let width: number | null = null;
+  let style: BorderValue['style'] = 'solid';
+  let color: string | null = null;
+
+  for (const part of splitTopLevel(rawValue, ' ')) {
+    const length = parseLength(part);
+    if (length !== null && width === null) {
+      width = length;
+    } else if (BORDER_STYLES.has(part.toLowerCase() as BorderValue['style'])) {
+      style = part.toLowerCase() as BorderValue['style'];
+    } else {
+      color = normalizeCssColor(part);
+    }
+  }
+
+  if (width === null || color === null) return null;
+  return { type: 'border', width, style, color };
+}
+
+/**
+ * Parse a transition from a DTCG object or a CSS transition like
+ * `opacity 200ms ease-in-out 50ms`. Only the first transition of a list
+ * is kept.
+ */
+export function parseTransitionValue(rawValue: unknown): TransitionValue | null {
+  if (isObject(rawValue)) {
+    const duration = parseDuration(rawValue.duration);
+    if (duration === null) return null;
+    return {
+      type: 'transition',
+      duration,
+      delay: parseDuration(rawValue.delay) ?? 0,
+      timingFunction: parseTimingFunction(rawValue.timingFunction) ?? 'cubic-bezier(0.25, 0.1, 0.25, 1)',
+    };
+  }
+
+  if (typeof rawValue !== 'string') return null;
+
+  const [first] = splitTopLevel(rawValue, ',');
+  const times: number[] = [];
+  let timingFunction = TIMING_FUNCTIONS.ease!;
+
+  for (const part of splitTopLevel(first ?? '', ' ')) {
+    const time = parseDuration(part);
+    if (time !== null) {
+      times.push(time);
+      continue;
+    }
+    timingFunction = parseTimingFunction(part) ?? timingFunction;
+  }
+
+  if (times.length === 0) return null;
+  return {
+    type: 'transition',
+    duration: times[0]!,
+    delay: times[1] ?? 0,
+    timingFunction,
+  };
+}
+
+/**
+ * Parse a gradient from a DTCG stop list (`[{ color, position }]`) or a
+ * CSS `linear-gradient(...)` / `radial-gradient(...)`
+ */
+export function parseGradientValue(rawValue: unknown): GradientValue | null {
+  if (Array.isArray(rawValue)) {
+    const stops = rawValue.map((stop) =>
+      isObject(stop) && typeof stop.color === 'string' && typeof stop.position === 'number'
+        ? { color: normalizeCssColor(stop.color), position: stop.position }
+        : null
+    );
+    if (stops.length === 0 || stops.some((stop) => stop === null)) return null;
+    return { type: 'gradient', stops: stops as GradientValue['stops'] };
+  }
+
+  if (typeof rawValue !== 'string') return null;
+
+  const match = /^(?:repeating-)?(linear|radial|conic)-gradient\((.*)\)$/i.exec(rawValue.trim());
+  if (!match) return null;
+
+  const args = splitTopLevel(match[2]!, ',');
+  let angle: number | undefined;
+  if (match[1]!.toLowerCase() === 'linear') {
+    angle = parseGradientAngle(args[0]!);
+    if (angle !== undefined) args.shift();
+  } else if (args[0] && !isColorStop(args[0])) {
+    // Radial/conic shape and position
+    args.shift();
+  }
+
+  const parsed = args.map((arg) => {
+    const [color, position] = splitTopLevel(arg, ' ');
+    return {
+      color: normalizeCssColor(color ?? ''),
+      position: position?.endsWith('%') ? parseFloat(position) / 100 : undefined,
+    };
+  });
+  if (parsed.length < 2) return null;
+
+  // Stops without a position are spread evenly
+  const stops = parsed.map((stop, index) => ({
+    color: stop.color,
+    position: stop.position ?? index / (parsed.length - 1),
+  }));
+
+  return {
+    type: 'gradient',
+    stops,
+    ...(angle !== undefined && { angle }),
+  };
+}
+
+/**
+ * Format a token value as a CSS value
+ */
+export function tokenValueToCss(value: TokenValue): string {
+  switch (value.type) {
+    case 'color':
+      return value.hex;
+    case 'spacing':
+      return `${value.value}${value.unit}`;
+    case 'typography': {
+      const lineHeight = value.lineHeight !== undefined ? `/${value.lineHeight}` : '';
+      return `${value.fontWeight} ${value.fontSize}px${lineHeight} ${value.fontFamily}`;
+    }
+    case 'shadow':
+      return (value.layers ?? [value])
+        .map((layer) =>
+          `${layer.inset ? 'inset ' : ''}${layer.x}px ${layer.y}px ${layer.blur}px ${layer.spread}px ${layer.color}`
+        )
+        .join(', ');
+    case 'border':
+      return `${value.width}px ${value.style} ${value.color}`;
+    case 'transition':
+      return `${value.duration}ms ${value.timingFunction}${value.delay ? ` ${value.delay}ms` : ''}`;
+    case 'gradient': {
+      const stops = value.stops.map((stop) => `${stop.color} ${Math.round(stop.position * 100)}%`);
+      return `linear-gradient(${value.angle ?? 180}deg, ${stops.join(', ')})`;
+    }
+    case 'raw':
+      return value.value;
+  }
+}
+
+/**
+ * Normalize a CSS color to lowercase hex, keeping alpha as #rrggbbaa when
+ * it is below 1. Colors it can't convert are returned lowercased.
+ */
+export function normalizeCssColor(color: string): string {
+  const trimmed = color.trim().toLowerCase();
+
+  const named = NAMED_COLORS[trimmed];
+  if (named) return named;
+
+  const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(trimmed);
+  if (hex) {
+    const digits = hex[1]!.length <= 4
+      ? hex[1]!.split('').map((d) => d + d).join('')
+      : hex[1]!;
+    return digits.endsWith('ff') && digits.length === 8 ? `#${digits.slice(0, 6)}` : `#${digits}`;
+  }
+
+  const rgb = /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/.exec(trimmed);
+  if (rgb) {
+    const channels = [rgb[1], rgb[2], rgb[3]].map((c) => toHexByte(Number(c)));
+    const alpha = rgb[4] === undefined
+      ? 1
+      : rgb[4].endsWith('%') ? parseFloat(rgb[4]) / 100 : Number(rgb[4]);
+    return `#${channels.join('')}${alpha < 1 ? toHexByte(alpha * 255) : ''}`;
+  }
+
+  return trimmed;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toHexByte(value: number): string {
+  return Math.round(Math.min(255, Math.max(0, value))).toString(16).padStart(2, '0');
+}
+
+/**
+ * Split a CSS value on a separator, ignoring separators inside parentheses
+ */
+function splitTopLevel(value: string, separator: ',' | ' '): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    const isSeparator = separator === ' ' ? /\s/.test(char) : char === separator;
+    if (isSeparator && depth === 0) {
+      if (current.trim()) parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+
+  return parts;
+}
+
+/**
+ * Parse a length to px: numbers, "16px", "1rem", "0", or a DTCG dimension
+ * object `{ value, unit }`
+ */
+function parseLength(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (isObject(value) && typeof value.value === 'number') {
+    return toPx(value.value, typeof value.unit === 'string' ? value.unit : 'px');
+  }
+  if (typeof value !== 'string') return null;
+
+  const match = /^(-?[\d.]+)(px|rem|em|pt)?$/i.exec(value.trim());
+  if (!match) return null;
+  return toPx(parseFloat(match[1]!), match[2] ?? 'px');
+}
+
+function toPx(value: number, unit: string): number {
+  switch (unit.toLowerCase()) {
+    case 'rem':
+    case 'em':
+      return value * BASE_FONT_SIZE_PX;
+    case 'pt':
+      return (value * 4) / 3;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Parse a duration to milliseconds: "200ms", "0.2s", a number of ms, or a
+ * DTCG duration object `{ value, unit }`
+ */
+function parseDuration(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (isObject(value) && typeof value.value === 'number') {
+    return value.unit === 's' ? value.value * 1000 : value.value;
+  }
+  if (typeof value !== 'string') return null;
+
+  const match = /^([\d.]+)(ms|s)$/i.exec(value.trim());
+  if (!match) return null;
+  const amount = parseFloat(match[1]!);
+  return match[2]!.toLowerCase() === 's' ? amount * 1000 : amount;
+}
+
+/**
+ * Parse a timing function: a CSS keyword or function, or a DTCG
+ * cubicBezier array `[x1, y1, x2, y2]`
+ */
+function parseTimingFunction(value: unknown): string | null {
+  if (Array.isArray(value) && value.length === 4 && value.every((n) => typeof n === 'number')) {
+    return `cubic-bezier(${value.join(', ')})`;
+  }
+  if (typeof value !== 'string') return null;
+
+  const trimmed = value.trim().toLowerCase();
+  if (TIMING_FUNCTIONS[trimmed]) return TIMING_FUNCTIONS[trimmed]!;
+
+  const fn = /^(cubic-bezier|steps)\((.*)\)$/.exec(trimmed);
+  if (!fn) return null;
+  return `${fn[1]}(${fn[2]!.split(',').map((arg) => arg.trim()).join(', ')})`;
+}
+
+function parseFontFamily(value: unknown): string | null {
+  const families = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  const names = families
+    .filter((family): family is string => typeof family === 'string')
+    .map((family) => family.trim().replace(/^["']|["']$/g, ''))
+    .filter(Boolean);
+  return names.length > 0 ? names.join(', ') : null;
+}
+
+function parseFontWeight(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return null;
+
+  const trimmed = value.trim().toLowerCase();
+  if (/^\d{3}$/.test(trimmed)) return Number(trimmed);
+  return FONT_WEIGHTS[trimmed.replace(/[\s_-]/g, '')] ?? null;
+}
+
+/**
+ * Line height as a multiple of the font size
+ */
+function parseLineHeight(value: unknown, fontSize: number): number | undefined {
+  if (typeof value === 'number') return value;
+  if (isObject(value)) {
+    const px = parseLength(value);
+    return px !== null && fontSize > 0 ? px / fontSize : undefined;
+  }
+  if (typeof value !== 'string' || value.trim().toLowerCase() === 'normal') return undefined;
+
+  const trimmed = value.trim();
+  if (trimmed.endsWith('%')) return parseFloat(trimmed) / 100;
+  if (/^[\d.]+$/.test(trimmed)) return parseFloat(trimmed);
+
+  const px = parseLength(trimmed);
+  return px !== null && fontSize > 0 ? px / fontSize : undefined;
+}
+
+function parseBorderStyle(value: string): BorderValue['style'] {
+  const style = value.trim().toLowerCase() as BorderValue['style'];
+  return BORDER_STYLES.has(style) ? style : 'solid';
+}
+
+function parseShadowObject(value: unknown): ShadowLayer | null {
+  if (!isObject(value)) return null;
+
+  const x = parseLength(value.offsetX ?? value.x);
+  const y = parseLength(value.offsetY ?? value.y);
+  if (x === null || y === null || typeof value.color !== 'string') return null;
+
+  const inset = value.inset === true || value.type === 'innerShadow';
+  return {
+    x,
+    y,
+    blur: parseLength(value.blur) ?? 0,
+    spread: parseLength(value.spread) ?? 0,
+    color: normalizeCssColor(value.color),
+    ...(inset && { inset }),
+  };
+}
+
+function parseCssShadowLayer(layer: string): ShadowLayer | null {
+  const lengths: number[] = [];
+  let color = '#000000';
+  let inset = false;
+
+  for (const part of splitTopLevel(layer, ' ')) {
+    const length = parseLength(part);
+    if (length !== null) {
+      lengths.push(length);
+    } else if (part.toLowerCase() === 'inset') {
+      inset = true;
+    } else {
+      color = normalizeCssColor(part);
+    }
+  }
+
+  if (lengths.length < 2 || lengths.length > 4) return null;
+  return {
+    x: lengths[0]!,
+    y: lengths[1]!,
+    blur: lengths[2] ?? 0,
+    spread: lengths[3] ?? 0,
+    color,
+    ...(inset && { inset }),
+  };
+}
+
+function parseGradientAngle(arg: string): number | undefined {
+  const trimmed = arg.trim().toLowerCase();
+  const degrees = /^(-?[\d.]+)(deg|turn)$/.exec(trimmed);
+  if (degrees) {
+    const amount = parseFloat(degrees[1]!);
+    return degrees[2] === 'turn' ? amount * 360 : amount;
+  }
+
+  const sides: Record<string, number> = {
+    'to top': 0,
+    'to right': 90,
+    'to bottom': 180,
+    'to left': 270,
+  };
+  return sides[trimmed.replace(/\s+/g, ' ')];
+}
+
+function isColorStop(arg: string): boolean {
+  const [color] = splitTopLevel(arg, ' ');
+  return color !== undefined && normalizeCssColor(color).startsWith('#');
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { exportTokens } from './exporters.js';
+import { parseTokenFile } from './parser.js';
+
+const TOKENS = parseTokenFile(
+  JSON.stringify({
+    color: {
+      blue: { 500: { $value: '#3b82f6', $type: 'color' } },
+      primary: {
+        $value: '{color.blue.500}',
+        $description: 'Primary actions',
+        $extensions: { mode: { dark: '#60a5fa' } },
+      },
+      overlay: { $value: 'rgba(0, 0, 0, 0.5)', $type: 'color' },
+    },
+    spacing: { md: { $value: '1rem', $type: 'dimension' } },
+    shadow: {
+      card: {
+        $type: 'shadow',
+        $value: { color: '#0000001a', offsetX: '0px', offsetY: '1px', blur: '3px', spread: '0px' },
+      },
+    },
+  })
+);
+
+describe('exportTokens', () => {
+  it('exports CSS custom properties, SCSS and Less variables', () => {
+    expect(exportTokens(TOKENS, 'css', { prefix: 'ds' })).toContain(
+      '  --ds-color-blue-500: #3b82f6;\n  --ds-color-primary: #3b82f6;'
+    );
+
+    const scss = exportTokens(TOKENS, 'scss');
+    expect(scss).toContain('$shadow-card: 0px 1px 3px 0px #0000001a;');
+    expect(scss).toContain("$tokens: (\n  'color-blue-500': $color-blue-500,");
+
+    expect(exportTokens(TOKENS, 'less')).toContain('@spacing-md: 1rem;');
+  });
+
+  it('exports a TypeScript const object with literal types', () => {
+    const ts = exportTokens(TOKENS, 'typescript', { name: 'theme' });
+
+    expect(ts).toContain('export const theme = {\n  colorBlue500: "#3b82f6",');
+    expect(ts).toContain('  spacingMd: "1rem",\n');
+    expect(ts).toContain('} as const;');
+    expect(ts).toContain('export type TokenName = keyof typeof theme;');
+  });
+
+  it('exports Swift and Kotlin constants', () => {
+    const swift = exportTokens(TOKENS, 'swift');
+    expect(swift).toContain('public enum DesignTokens {');
+    expect(swift).toContain(
+      'public static let colorBlue500 = Color(red: 0.231, green: 0.51, blue: 0.965, opacity: 1)'
+    );
+    expect(swift).toContain('public static let colorOverlay = Color(red: 0, green: 0, blue: 0, opacity: 0.502)');
+    expect(swift).toContain('public static let spacingMd: CGFloat = 16');
+    expect(swift).toContain('public static let shadowCard = "0px 1px 3px 0px #0000001a"');
+
+    const kotlin = exportTokens(TOKENS, 'kotlin', { packageName: 'com.example.tokens' });
+    expect(kotlin).toContain('package com.example.tokens');
+    expect(kotlin).toContain('    val colorBlue500 = Color(0xFF3B82F6)');
+    expect(kotlin).toContain('    val colorOverlay = Color(0x80000000)');
+    expect(kotlin).toContain('    val spacingMd = 16.dp');
+  });
+
+  it('exports DTCG JSON that keeps references, modes and descriptions', () => {
+    const json = JSON.parse(exportTokens(TOKENS, 'dtcg'));
+
+    expect(json.color.primary).toEqual({
+      $value: '{color.blue.500}',
+      $type: 'color',
+      $description: 'Primary actions',
+      $extensions: { mode: { dark: '#60a5fa' } },
+    });
+    expect(json.spacing.md).toEqual({ $value: '1rem', $type: 'dimension' });
+
+    // Parses back to the same tokens
+    const reparsed = parseTokenFile(JSON.stringify(json));
+    expect(reparsed.map((t) => [t.name, t.value, t.modes, t.aliases])).toEqual(
+      TOKENS.map((t) => [t.name, t.value, t.modes, t.aliases])
+    );
+  });
+});
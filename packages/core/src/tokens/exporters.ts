@@ -0,0 +1,417 @@
+// Token exporters - write DesignTokens for web, iOS and Android
+//
+// Formats one token list as CSS custom properties, SCSS variables and map,
+// Less variables, a TypeScript const object, Swift and Kotlin constants,
+// or DTCG JSON, the platform outputs Style Dictionary produces.
+
+import type { DesignToken, SpacingValue, TokenValue } from '../models/token.js';
+import { normalizeCssColor, tokenValueToCss } from './composite.js';
+
+export const TOKEN_EXPORT_FORMATS = [
+  'css',
+  'scss',
+  'less',
+  'typescript',
+  'swift',
+  'kotlin',
+  'dtcg',
+] as const;
+
+export type TokenExportFormat = (typeof TOKEN_EXPORT_FORMATS)[number];
+
+export interface TokenExportOptions {
+  /** Prefix for generated names, e.g. "ds" gives --ds-color-primary (not used for DTCG) */
+  prefix?: string;
+  /**
+   * Name of the generated container: the SCSS map (default "tokens"), the
+   * TypeScript object (default "tokens") or the Swift/Kotlin type (default
+   * "DesignTokens")
+   */
+  name?: string;
+  /** Kotlin package declaration */
+  packageName?: string;
+}
+
+const BASE_FONT_SIZE_PX = 16;
+
+const GENERATED_HEADER = '// Generated by buoy tokens export. Do not edit.';
+
+const DTCG_TYPES: Partial<Record<TokenValue['type'], string>> = {
+  color: 'color',
+  spacing: 'dimension',
+  typography: 'typography',
+  shadow: 'shadow',
+  border: 'border',
+  transition: 'transition',
+  gradient: 'gradient',
+};
+
+/**
+ * Export tokens in a platform format. Tokens whose generated names collide
+ * keep the first token. Composite values are written as CSS strings on
+ * platforms without an equivalent type.
+ */
+export function exportTokens(
+  tokens: DesignToken[],
+  format: TokenExportFormat,
+  options: TokenExportOptions = {}
+): string {
+  switch (format) {
+    case 'css':
+      return exportCss(tokens, options);
+    case 'scss':
+      return exportScss(tokens, options);
+    case 'less':
+      return exportLess(tokens, options);
+    case 'typescript':
+      return exportTypeScript(tokens, options);
+    case 'swift':
+      return exportSwift(tokens, options);
+    case 'kotlin':
+      return exportKotlin(tokens, options);
+    case 'dtcg':
+      return exportDtcg(tokens);
+  }
+}
+
+// ============================================================================
+// Web
+// ============================================================================
+
+function exportCss(tokens: DesignToken[], options: TokenExportOptions): string {
+  const lines = namedTokens(tokens, options, toKebabCase).map(
+    ({ name, token }) => `  --${name}: ${tokenValueToCss(token.value)};`
+  );
+  return `/* Generated by buoy tokens export. Do not edit. */\n\n:root {\n${lines.join('\n')}\n}\n`;
+}
+
+function exportScss(tokens: DesignToken[], options: TokenExportOptions): string {
+  const named = namedTokens(tokens, options, toKebabCase);
+  const variables = named.map(({ name, token }) => `$${name}: ${tokenValueToCss(token.value)};`);
+  const entries = named.map(({ name }) => `  '${name}': $${name},`);
+  const mapName = toKebabCase(nameParts(options.name ?? 'tokens'));
+
+  return [
+    GENERATED_HEADER,
+    '',
+    ...variables,
+    '',
+    `$${mapName}: (`,
+    ...entries,
+    ');',
+    '',
+  ].join('\n');
+}
+
+function exportLess(tokens: DesignToken[], options: TokenExportOptions): string {
+  const variables = namedTokens(tokens, options, toKebabCase).map(
+    ({ name, token }) => `@${name}: ${tokenValueToCss(token.value)};`
+  );
+  return [GENERATED_HEADER, '', ...variables, ''].join('\n');
+}
+
+function exportTypeScript(tokens: DesignToken[], options: TokenExportOptions): string {
+  const objectName = toCamelCase(nameParts(options.name ?? 'tokens'));
+  const entries = namedTokens(tokens, options, toCamelCase).map(
+    ({ name, token }) => `  ${name}: ${quote(tokenValueToCss(token.value))},`
+  );
+
+  return [
+    GENERATED_HEADER,
+    '',
+    `export const ${objectName} = {`,
+    ...entries,
+    '} as const;',
+    '',
+    `export type TokenName = keyof typeof ${objectName};`,
+    '',
+  ].join('\n');
+}
+
+// ============================================================================
+// Native
+// ============================================================================
+
+function exportSwift(tokens: DesignToken[], options: TokenExportOptions): string {
+  const typeName = toPascalCase(nameParts(options.name ?? 'DesignTokens'));
+  const constants = namedTokens(tokens, options, toCamelCase).map(({ name, token }) => {
+    const { value } = token;
+    const rgba = value.type === 'color' ? hexToRgba(value.hex) : null;
+    if (rgba) {
+      const [r, g, b] = [rgba.r, rgba.g, rgba.b].map((channel) => formatNumber(channel / 255));
+      return `    public static let ${name} = Color(red: ${r}, green: ${g}, blue: ${b}, opacity: ${formatNumber(rgba.a)})`;
+    }
+    if (value.type === 'spacing') {
+      return `    public static let ${name}: CGFloat = ${formatNumber(toPoints(value))}`;
+    }
+    return `    public static let ${name} = ${quote(tokenValueToCss(value))}`;
+  });
+
+  return [
+    GENERATED_HEADER,
+    '',
+    'import SwiftUI',
+    '',
+    `public enum ${typeName} {`,
+    ...constants,
+    '}',
+    '',
+  ].join('\n');
+}
+
+function exportKotlin(tokens: DesignToken[], options: TokenExportOptions): string {
+  const objectName = toPascalCase(nameParts(options.name ?? 'DesignTokens'));
+  const constants = namedTokens(tokens, options, toCamelCase).map(({ name, token }) => {
+    const { value } = token;
+    const rgba = value.type === 'color' ? hexToRgba(value.hex) : null;
+    if (rgba) {
+      const argb = [Math.round(rgba.a * 255), rgba.r, rgba.g, rgba.b]
+        .map((channel) => channel.toString(16).padStart(2, '0'))
+        .join('')
+        .toUpperCase();
+      return `    val ${name} = Color(0x${argb})`;
+    }
+    if (value.type === 'spacing') {
+      return `    val ${name} = ${formatNumber(toPoints(value))}.dp`;
+    }
+    // Escape $ so Kotlin doesn't read it as a string template
+    return `    const val ${name} = ${quote(tokenValueToCss(value)).replace(/\$/g, '\\$')}`;
+  });
+
+  return [
+    GENERATED_HEADER,
+    '',
+    ...(options.packageName ? [`package ${options.packageName}`, ''] : []),
+    'import androidx.compose.ui.graphics.Color',
+    'import androidx.compose.ui.unit.dp',
+    '',
+    `object ${objectName} {`,
+    ...constants,
+    '}',
+    '',
+  ].join('\n');
+}
+
+// ============================================================================
+// DTCG
+// ============================================================================
+
+type DtcgGroup = { [key: string]: DtcgGroup | DtcgToken };
+
+interface DtcgToken {
+  $value: unknown;
+  $type?: string;
+  $description?: string;
+  $deprecated?: boolean | string;
+  $extensions?: { mode: Record<string, unknown> };
+}
+
+/**
+ * Nest tokens by their dotted or slashed name path. Aliases of exported
+ * tokens are written as references; a token whose path collides with
+ * another token or group is skipped.
+ */
+function exportDtcg(tokens: DesignToken[]): string {
+  const paths = new Map<string, string[]>();
+  const byName = new Map<string, DesignToken>();
+  for (const token of tokens) {
+    const path = dtcgPath(token.name);
+    if (path.length > 0 && !paths.has(token.name)) {
+      paths.set(token.name, path);
+      byName.set(token.name, token);
+    }
+  }
+
+  const root: DtcgGroup = {};
+  for (const token of tokens) {
+    const path = paths.get(token.name);
+    if (!path) continue;
+
+    const group = getDtcgGroup(root, path.slice(0, -1));
+    const key = path[path.length - 1]!;
+    if (!group || key in group) continue;
+
+    const reference = token.aliases?.[0] !== undefined ? paths.get(token.aliases[0]) : undefined;
+    const type = DTCG_TYPES[token.value.type];
+    const entry: DtcgToken = {
+      $value: reference ? `{${reference.join('.')}}` : toDtcgValue(token.value),
+      ...(type && { $type: type }),
+      ...(token.metadata.description && { $description: token.metadata.description }),
+      ...(token.metadata.deprecated && {
+        $deprecated: token.metadata.deprecationReason ?? true,
+      }),
+    };
+
+    // A reference already brings the referenced token's modes
+    const referenced = reference ? byName.get(token.aliases[0]!) : undefined;
+    const modes = Object.entries(token.modes ?? {}).filter(
+      ([mode, value]) => JSON.stringify(value) !== JSON.stringify(referenced?.modes?.[mode])
+    );
+    if (modes.length > 0) {
+      entry.$extensions = {
+        mode: Object.fromEntries(modes.map(([mode, value]) => [mode, toDtcgValue(value)])),
+      };
+    }
+
+    group[key] = entry;
+  }
+
+  return `${JSON.stringify(root, null, 2)}\n`;
+}
+
+function dtcgPath(name: string): string[] {
+  return name
+    .replace(/^(--|\$|@)/, '')
+    .split(/[./]/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Walk to (creating) the group at a path, or null if a token is in the way
+ */
+function getDtcgGroup(root: DtcgGroup, path: string[]): DtcgGroup | null {
+  let group = root;
+  for (const key of path) {
+    const next = group[key] ?? (group[key] = {});
+    if ('$value' in next) return null;
+    group = next as DtcgGroup;
+  }
+  return group;
+}
+
+function toDtcgValue(value: TokenValue): unknown {
+  switch (value.type) {
+    case 'color':
+      return value.hex;
+    case 'spacing':
+      return `${value.value}${value.unit}`;
+    case 'typography':
+      return {
+        fontFamily: value.fontFamily,
+        fontSize: `${value.fontSize}px`,
+        fontWeight: value.fontWeight,
+        ...(value.lineHeight !== undefined && { lineHeight: value.lineHeight }),
+        ...(value.letterSpacing !== undefined && { letterSpacing: `${value.letterSpacing}px` }),
+      };
+    case 'shadow': {
+      const layers = (value.layers ?? [value]).map((layer) => ({
+        color: layer.color,
+        offsetX: `${layer.x}px`,
+        offsetY: `${layer.y}px`,
+        blur: `${layer.blur}px`,
+        spread: `${layer.spread}px`,
+        ...(layer.inset && { inset: true }),
+      }));
+      return layers.length === 1 ? layers[0] : layers;
+    }
+    case 'border':
+      return { color: value.color, width: `${value.width}px`, style: value.style };
+    case 'transition':
+      return {
+        duration: `${value.duration}ms`,
+        delay: `${value.delay}ms`,
+        timingFunction: toCubicBezier(value.timingFunction),
+      };
+    case 'gradient':
+      return value.stops.map((stop) => ({ color: stop.color, position: stop.position }));
+    case 'raw':
+      return value.value;
+  }
+}
+
+/**
+ * DTCG cubicBezier arrays for cubic-bezier() and linear; other timing
+ * functions (steps()) stay strings
+ */
+function toCubicBezier(timingFunction: string): number[] | string {
+  if (timingFunction === 'linear') return [0, 0, 1, 1];
+  const match = /^cubic-bezier\(([^)]*)\)$/.exec(timingFunction);
+  const points = match?.[1]!.split(',').map(Number);
+  return points?.length === 4 && points.every((n) => !isNaN(n)) ? points : timingFunction;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+interface NamedToken {
+  name: string;
+  token: DesignToken;
+}
+
+/**
+ * Generated names for each token (prefix first), dropping tokens whose
+ * name is empty or already taken
+ */
+function namedTokens(
+  tokens: DesignToken[],
+  options: TokenExportOptions,
+  format: (parts: string[]) => string
+): NamedToken[] {
+  const prefix = options.prefix ? nameParts(options.prefix) : [];
+  const seen = new Set<string>();
+  const named: NamedToken[] = [];
+
+  for (const token of tokens) {
+    const parts = nameParts(token.name);
+    if (parts.length === 0) continue;
+
+    const name = format([...prefix, ...parts]);
+    if (seen.has(name)) continue;
+    seen.add(name);
+    named.push({ name, token });
+  }
+
+  return named;
+}
+
+/**
+ * Lowercase words of a token name: "--color-primary", "color.primary" and
+ * "colorPrimary" all give ["color", "primary"]
+ */
+function nameParts(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.toLowerCase());
+}
+
+function toKebabCase(parts: string[]): string {
+  return parts.join('-');
+}
+
+function toCamelCase(parts: string[]): string {
+  const name = parts
+    .map((part, i) => (i === 0 ? part : part.charAt(0).toUpperCase() + part.slice(1)))
+    .join('');
+  // Identifiers can't start with a digit
+  return /^\d/.test(name) ? `_${name}` : name;
+}
+
+function toPascalCase(parts: string[]): string {
+  const name = toCamelCase(parts);
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function quote(value: string): string {
+  return JSON.stringify(value);
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(3)));
+}
+
+function toPoints(value: SpacingValue): number {
+  return value.unit === 'px' ? value.value : value.value * BASE_FONT_SIZE_PX;
+}
+
+function hexToRgba(color: string): { r: number; g: number; b: number; a: number } | null {
+  const hex = /^#([0-9a-f]{6})([0-9a-f]{2})?$/.exec(normalizeCssColor(color));
+  if (!hex) return null;
+
+  const [r, g, b] = [0, 2, 4].map((i) => parseInt(hex[1]!.slice(i, i + 2), 16)) as [number, number, number];
+  const a = hex[2] !== undefined ? parseInt(hex[2], 16) / 255 : 1;
+  return { r, g, b, a };
+}
@@ -1,5 +1,14 @@
 // Token parsing utilities
 export * from './parser.js';
 
+// Composite token values
+export * from './composite.js';
+
+// Tokens Studio token sets and themes
+export * from './token-sets.js';
+
+// Platform token exporters
+export * from './exporters.js';
+
 // Token comparison
 export * from './comparison.js';
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { detectFormat, parseTokenFile } from './parser.js';
+import { detectFormat, parseTokenFile, parseTokenFiles, TokenReferenceError } from './parser.js';
 
 describe('detectFormat', () => {
   it('detects W3C DTCG format by $value property', () => {
@@ -96,6 +96,24 @@ describe('parseTokenFile', () => {
       });
     });
 
+    it('parses per-mode values from $extensions.mode', () => {
+      const content = JSON.stringify({
+        surface: {
+          $type: 'color',
+          $value: '#FFFFFF',
+          $extensions: { mode: { light: '#FFFFFF', dark: '#18181B' } },
+        },
+      });
+
+      const [token] = parseTokenFile(content);
+
+      expect(token?.value).toEqual({ type: 'color', hex: '#ffffff' });
+      expect(token?.modes).toEqual({
+        light: { type: 'color', hex: '#ffffff' },
+        dark: { type: 'color', hex: '#18181b' },
+      });
+    });
+
     it('parses nested tokens with inherited $type', () => {
       const content = JSON.stringify({
         colors: {
@@ -274,6 +292,176 @@ describe('parseTokenFile', () => {
     });
   });
 
+  describe('composite tokens', () => {
+    it('parses DTCG composite values', () => {
+      const content = JSON.stringify({
+        color: { black: { $type: 'color', $value: '#000000' } },
+        shadow: {
+          sm: {
+            $type: 'shadow',
+            $value: { color: '#0000000d', offsetX: '0px', offsetY: '1px', blur: '2px', spread: '0px' },
+          },
+        },
+        type: {
+          body: {
+            $type: 'typography',
+            $value: { fontFamily: 'Inter', fontSize: '16px', fontWeight: 400, lineHeight: 1.5 },
+          },
+        },
+        border: {
+          default: { $type: 'border', $value: { color: '{color.black}', width: '1px', style: 'solid' } },
+        },
+        motion: {
+          fade: {
+            $type: 'transition',
+            $value: { duration: '200ms', delay: '0ms', timingFunction: [0.4, 0, 0.2, 1] },
+          },
+        },
+        gradient: {
+          fade: {
+            $type: 'gradient',
+            $value: [{ color: '#ffffff', position: 0 }, { color: '{color.black}', position: 1 }],
+          },
+        },
+      });
+
+      const tokens = parseTokenFile(content);
+      const byName = Object.fromEntries(tokens.map((t) => [t.name, t]));
+
+      expect(byName['shadow.sm']!.value).toEqual({
+        type: 'shadow', x: 0, y: 1, blur: 2, spread: 0, color: '#0000000d',
+      });
+      expect(byName['type.body']!.value).toEqual({
+        type: 'typography', fontFamily: 'Inter', fontSize: 16, fontWeight: 400, lineHeight: 1.5,
+      });
+      expect(byName['border.default']!.value).toEqual({
+        type: 'border', width: 1, style: 'solid', color: '#000000',
+      });
+      expect(byName['motion.fade']!.category).toBe('motion');
+      expect(byName['motion.fade']!.value).toEqual({
+        type: 'transition', duration: 200, delay: 0, timingFunction: 'cubic-bezier(0.4, 0, 0.2, 1)',
+      });
+      expect(byName['gradient.fade']!.value).toMatchObject({
+        type: 'gradient',
+        stops: [{ color: '#ffffff', position: 0 }, { color: '#000000', position: 1 }],
+      });
+    });
+
+    it('parses Style Dictionary shadows written as CSS', () => {
+      const content = JSON.stringify({
+        shadow: { md: { value: '0 4px 6px -1px rgba(0, 0, 0, 0.1)' } },
+      });
+
+      const [token] = parseTokenFile(content);
+
+      expect(token!.category).toBe('shadow');
+      expect(token!.value).toMatchObject({ type: 'shadow', y: 4, blur: 6, spread: -1, color: '#0000001a' });
+    });
+  });
+
+  describe('references', () => {
+    const primitives = {
+      color: {
+        $type: 'color',
+        blue: { 500: { $value: '#3B82F6' } },
+        white: { $value: '#ffffff' },
+      },
+      space: {
+        $type: 'dimension',
+        1: { $value: '4px' },
+        2: { $value: '8px' },
+      },
+    };
+
+    it('resolves chained references and records aliases', () => {
+      const content = JSON.stringify({
+        ...primitives,
+        semantic: {
+          primary: { $value: '{color.blue.500}' },
+          action: { $value: '{semantic.primary}' },
+        },
+      });
+
+      const tokens = parseTokenFile(content);
+      const action = tokens.find((t) => t.name === 'semantic.action')!;
+
+      expect(action.category).toBe('color');
+      expect(action.value).toEqual({ type: 'color', hex: '#3b82f6' });
+      expect(action.aliases).toEqual(['semantic.primary', 'color.blue.500']);
+      expect(tokens.find((t) => t.name === 'color.blue.500')!.aliases).toEqual([]);
+    });
+
+    it('resolves references embedded in composite values and modes', () => {
+      const content = JSON.stringify({
+        ...primitives,
+        inset: { $type: 'string', $value: '{space.1} {space.2}' },
+        surface: {
+          $type: 'color',
+          $value: '{color.white}',
+          $extensions: { mode: { dark: '{color.blue.500}' } },
+        },
+      });
+
+      const tokens = parseTokenFile(content);
+
+      expect(tokens.find((t) => t.name === 'inset')!.value).toEqual({ type: 'raw', value: '4px 8px' });
+      expect(tokens.find((t) => t.name === 'surface')!.modes).toEqual({
+        dark: { type: 'color', hex: '#3b82f6' },
+      });
+    });
+
+    it('resolves references across files', () => {
+      const semantic = JSON.stringify({
+        text: { link: { $value: '{color.blue.500}' } },
+      });
+
+      const tokens = parseTokenFiles([JSON.stringify(primitives), semantic]);
+      const link = tokens.find((t) => t.name === 'text.link')!;
+
+      expect(link.value).toEqual({ type: 'color', hex: '#3b82f6' });
+      expect(link.aliases).toEqual(['color.blue.500']);
+    });
+
+    it('reports dangling references and cycles', () => {
+      const content = JSON.stringify({
+        ...primitives,
+        broken: { $value: '{color.red.500}' },
+        a: { $value: '{b}' },
+        b: { $value: '{a}' },
+      });
+
+      expect(() => parseTokenFile(content)).toThrow(TokenReferenceError);
+      try {
+        parseTokenFile(content);
+      } catch (err) {
+        expect((err as TokenReferenceError).problems).toEqual([
+          '"broken" references unknown token {color.red.500}',
+          'Circular reference: a -> b -> a',
+        ]);
+      }
+    });
+
+    it('only reports reference-only problems that are referenced', () => {
+      const reference = JSON.stringify({
+        ...primitives,
+        broken: { $value: '{color.red.500}' },
+      });
+      const semantic = JSON.stringify({
+        text: { link: { $value: '{color.blue.500}' } },
+      });
+
+      const tokens = parseTokenFiles([{ content: reference, referenceOnly: true }, semantic]);
+      expect(tokens.map((t) => t.name)).toEqual(['text.link']);
+
+      expect(() =>
+        parseTokenFiles([
+          { content: reference, referenceOnly: true },
+          JSON.stringify({ text: { error: { $value: '{broken}' } } }),
+        ])
+      ).toThrow('"broken" references unknown token {color.red.500}');
+    });
+  });
+
   describe('edge cases', () => {
     it('throws on invalid JSON', () => {
       expect(() => parseTokenFile('not json')).toThrow();
@@ -1,6 +1,7 @@
 // Token file parser - supports DTCG, Tokens Studio, and Style Dictionary formats
 
 import type { DesignToken, TokenValue, TokenCategory } from '../models/token.js';
+import { parseCompositeValue } from './composite.js';
 
 export type TokenFormat = 'dtcg' | 'tokens-studio' | 'style-dictionary';
 
@@ -47,12 +48,70 @@ function hasNestedProperty(obj: unknown, prop: string): boolean {
   return false;
 }
 
+/**
+ * A reference to another token could not be resolved: it points at a
+ * token that does not exist, or the references form a cycle
+ */
+export class TokenReferenceError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Could not resolve token references:\n  - ${problems.join('\n  - ')}`);
+    this.name = 'TokenReferenceError';
+  }
+}
+
 /**
  * Parse a token file and return DesignTokens
  */
 export function parseTokenFile(content: string): DesignToken[] {
-  const json = JSON.parse(content) as JsonObject;
+  return parseTokenFiles([content]);
+}
+
+export interface TokenFile {
+  content: string;
+  /** Path recorded as the tokens' source (default "imported") */
+  path?: string;
+  /** Only used to resolve references; its tokens are not returned */
+  referenceOnly?: boolean;
+}
+
+/**
+ * Parse several token files as one token set, so `{group.token}`
+ * references can point into other files. When two files define the same
+ * token, the later file wins.
+ */
+export function parseTokenFiles(files: Array<string | TokenFile>): DesignToken[] {
+  const rawTokens = files.flatMap((file) => {
+    const { content, path = 'imported', referenceOnly } = typeof file === 'string' ? { content: file } : file;
+    return collectTokens(JSON.parse(content) as JsonObject).map((token) => ({
+      ...token,
+      path,
+      referenceOnly,
+    }));
+  });
+  return resolveTokens(rawTokens);
+}
+
+/**
+ * A token as written in the file, before references are resolved
+ */
+interface RawToken {
+  name: string;
+  value: RawTokenValue;
+  /** Type set on the token itself */
+  type?: string;
+  /** Type inherited from a group or inferred from the path */
+  inheritedType?: string;
+  description?: string;
+  deprecated?: boolean;
+  modes?: Record<string, RawTokenValue>;
+  /** File the token was read from */
+  path?: string;
+  referenceOnly?: boolean;
+}
+
+type RawTokenValue = string | number | JsonObject;
 
+function collectTokens(json: JsonObject): RawToken[] {
   if (Object.keys(json).length === 0) {
     return [];
   }
@@ -72,8 +131,8 @@ export function parseTokenFile(content: string): DesignToken[] {
 /**
  * Parse W3C DTCG format tokens
  */
-function parseDTCG(json: JsonObject, path: string[] = [], inheritedType?: string): DesignToken[] {
-  const tokens: DesignToken[] = [];
+function parseDTCG(json: JsonObject, path: string[] = [], inheritedType?: string): RawToken[] {
+  const tokens: RawToken[] = [];
 
   for (const [key, value] of Object.entries(json)) {
     // Skip $ properties at root level (like $description on the file)
@@ -90,17 +149,15 @@ function parseDTCG(json: JsonObject, path: string[] = [], inheritedType?: string
 
     // Check if this is a token (has $value)
     if ('$value' in obj) {
-      const type = (obj.$type as string) || inheritedType;
-      const token = createDesignToken(
-        currentPath.join('.'),
-        obj.$value as string | number | JsonObject,
-        type,
-        {
-          description: obj.$description as string | undefined,
-          deprecated: obj.$deprecated as boolean | undefined,
-        }
-      );
-      tokens.push(token);
+      tokens.push({
+        name: currentPath.join('.'),
+        value: obj.$value as RawTokenValue,
+        type: obj.$type as string | undefined,
+        inheritedType,
+        description: obj.$description as string | undefined,
+        deprecated: obj.$deprecated as boolean | undefined,
+        modes: getModeValues(obj.$extensions),
+      });
     } else {
       // This is a group - recurse with inherited type
       const groupType = (obj.$type as string) || inheritedType;
@@ -114,8 +171,8 @@ function parseDTCG(json: JsonObject, path: string[] = [], inheritedType?: string
 /**
  * Parse Tokens Studio format tokens
  */
-function parseTokensStudio(json: JsonObject, path: string[] = []): DesignToken[] {
-  const tokens: DesignToken[] = [];
+function parseTokensStudio(json: JsonObject, path: string[] = []): RawToken[] {
+  const tokens: RawToken[] = [];
 
   for (const [key, value] of Object.entries(json)) {
     if (typeof value !== 'object' || value === null) {
@@ -127,26 +184,20 @@ function parseTokensStudio(json: JsonObject, path: string[] = []): DesignToken[]
 
     // Check if this is a token (has value + type)
     if ('value' in obj && 'type' in obj) {
-      const token = createDesignToken(
-        currentPath.join('.'),
-        obj.value as string | number | JsonObject,
-        obj.type as string,
-        {
-          description: obj.description as string | undefined,
-        }
-      );
-      tokens.push(token);
+      tokens.push({
+        name: currentPath.join('.'),
+        value: obj.value as RawTokenValue,
+        type: obj.type as string,
+        description: obj.description as string | undefined,
+        modes: getModeValues(obj.$extensions),
+      });
     } else if ('value' in obj) {
       // Has value but no type - still a token
-      const token = createDesignToken(
-        currentPath.join('.'),
-        obj.value as string | number | JsonObject,
-        undefined,
-        {
-          description: obj.description as string | undefined,
-        }
-      );
-      tokens.push(token);
+      tokens.push({
+        name: currentPath.join('.'),
+        value: obj.value as RawTokenValue,
+        description: obj.description as string | undefined,
+      });
     } else {
       // This is a group - recurse
       tokens.push(...parseTokensStudio(obj, currentPath));
@@ -159,8 +210,8 @@ function parseTokensStudio(json: JsonObject, path: string[] = []): DesignToken[]
 /**
  * Parse Style Dictionary format tokens
  */
-function parseStyleDictionary(json: JsonObject, path: string[] = []): DesignToken[] {
-  const tokens: DesignToken[] = [];
+function parseStyleDictionary(json: JsonObject, path: string[] = []): RawToken[] {
+  const tokens: RawToken[] = [];
 
   for (const [key, value] of Object.entries(json)) {
     if (typeof value !== 'object' || value === null) {
@@ -172,17 +223,13 @@ function parseStyleDictionary(json: JsonObject, path: string[] = []): DesignToke
 
     // Check if this is a token (has value)
     if ('value' in obj) {
-      // Infer type from path
-      const inferredType = inferTypeFromPath(currentPath);
-      const token = createDesignToken(
-        currentPath.join('.'),
-        obj.value as string | number | JsonObject,
-        inferredType,
-        {
-          description: obj.description as string | undefined,
-        }
-      );
-      tokens.push(token);
+      tokens.push({
+        name: currentPath.join('.'),
+        value: obj.value as RawTokenValue,
+        // Infer type from path
+        inheritedType: inferTypeFromPath(currentPath),
+        description: obj.description as string | undefined,
+      });
     } else {
       // This is a group - recurse
       tokens.push(...parseStyleDictionary(obj, currentPath));
@@ -192,6 +239,189 @@ function parseStyleDictionary(json: JsonObject, path: string[] = []): DesignToke
   return tokens;
 }
 
+// ============================================================================
+// Reference resolution
+// ============================================================================
+
+const REFERENCE_PATTERN = /\{([^{}]+)\}/g;
+const EXACT_REFERENCE_PATTERN = /^\{([^{}]+)\}$/;
+
+interface ResolvedToken {
+  value: RawTokenValue;
+  type?: string;
+  modes?: Record<string, RawTokenValue>;
+  /** Referenced token names, nearest first */
+  aliases: string[];
+}
+
+/**
+ * Thrown while resolving a single token; collected into a
+ * TokenReferenceError. Tokens that fail because a token they reference
+ * failed carry no message, so each problem is reported once.
+ */
+class ReferenceProblem extends Error {}
+
+/**
+ * Replace `{group.token}` references with the values they point to,
+ * following chains of aliases, and build the DesignTokens
+ */
+function resolveTokens(rawTokens: RawToken[]): DesignToken[] {
+  const byName = new Map<string, RawToken>();
+  for (const raw of rawTokens) {
+    // Later files override earlier ones, but a reference-only file never
+    // overrides a token that will be output
+    const existing = byName.get(raw.name);
+    if (raw.referenceOnly && existing && !existing.referenceOnly) continue;
+    byName.set(raw.name, raw);
+  }
+
+  const resolved = new Map<string, ResolvedToken>();
+  const failed = new Set<string>();
+  const problems: string[] = [];
+
+  const lookup = (reference: string, from: string): string => {
+    if (byName.has(reference)) return reference;
+    // Style Dictionary references can point at the value: {color.base.red.value}
+    const withoutValue = reference.replace(/\.value$/, '');
+    if (byName.has(withoutValue)) return withoutValue;
+    throw new ReferenceProblem(`"${from}" references unknown token {${reference}}`);
+  };
+
+  const resolveToken = (name: string, chain: string[]): ResolvedToken => {
+    const cached = resolved.get(name);
+    if (cached) return cached;
+
+    if (chain.includes(name)) {
+      const cycle = [...chain.slice(chain.indexOf(name)), name];
+      throw new ReferenceProblem(`Circular reference: ${cycle.join(' -> ')}`);
+    }
+    if (failed.has(name)) throw new ReferenceProblem();
+
+    const raw = byName.get(name)!;
+    const aliases: string[] = [];
+    let referencedType: string | undefined;
+    let referencedModes: Record<string, RawTokenValue> | undefined;
+
+    const resolveValue = (value: JsonValue, mode: string | undefined): JsonValue => {
+      if (typeof value === 'string') {
+        const exact = EXACT_REFERENCE_PATTERN.exec(value);
+        if (exact) {
+          const targetName = lookup(exact[1]!.trim(), name);
+          const target = resolveToken(targetName, [...chain, name]);
+          aliases.push(targetName, ...target.aliases);
+          referencedType ??= target.type;
+          if (mode === undefined) {
+            referencedModes ??= target.modes;
+            return target.value;
+          }
+          return target.modes?.[mode] ?? target.value;
+        }
+
+        // References embedded in a larger value, e.g. "{space.1} {space.2}"
+        return value.replace(REFERENCE_PATTERN, (_, reference: string) => {
+          const targetName = lookup(reference.trim(), name);
+          const target = resolveToken(targetName, [...chain, name]);
+          aliases.push(targetName, ...target.aliases);
+          const targetValue = mode === undefined ? target.value : target.modes?.[mode] ?? target.value;
+          return typeof targetValue === 'object' ? JSON.stringify(targetValue) : String(targetValue);
+        });
+      }
+
+      if (Array.isArray(value)) {
+        return value.map((item) => resolveValue(item, mode));
+      }
+
+      if (typeof value === 'object' && value !== null) {
+        return Object.fromEntries(
+          Object.entries(value).map(([key, item]) => [key, resolveValue(item, mode)])
+        );
+      }
+
+      return value;
+    };
+
+    try {
+      const value = resolveValue(raw.value, undefined) as RawTokenValue;
+      const ownModes = raw.modes
+        ? Object.fromEntries(
+            Object.entries(raw.modes).map(([mode, modeValue]) => [
+              mode,
+              resolveValue(modeValue, mode) as RawTokenValue,
+            ])
+          )
+        : undefined;
+      // An alias follows the modes of the token it points to
+      const modes = referencedModes || ownModes ? { ...referencedModes, ...ownModes } : undefined;
+
+      const result: ResolvedToken = {
+        value,
+        type: raw.type ?? referencedType ?? raw.inheritedType,
+        ...(modes && { modes }),
+        aliases: [...new Set(aliases)],
+      };
+      resolved.set(name, result);
+      return result;
+    } catch (err) {
+      failed.add(name);
+      throw err;
+    }
+  };
+
+  // Reference-only tokens are resolved when something references them
+  for (const [name, raw] of byName) {
+    if (raw.referenceOnly) continue;
+    try {
+      resolveToken(name, []);
+    } catch (err) {
+      if (!(err instanceof ReferenceProblem)) throw err;
+      if (err.message) problems.push(err.message);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new TokenReferenceError(problems);
+  }
+
+  return [...byName.values()]
+    .filter((raw) => !raw.referenceOnly)
+    .map((raw) => {
+      const token = resolved.get(raw.name)!;
+      return createDesignToken(raw.name, token.value, token.type, {
+        description: raw.description,
+        deprecated: raw.deprecated,
+        modes: token.modes,
+        aliases: token.aliases,
+        path: raw.path,
+      });
+    });
+}
+
+/**
+ * Read per-mode values from `$extensions.mode`, e.g.
+ * `{ "mode": { "light": "#ffffff", "dark": "#0a0a0a" } }`
+ */
+function getModeValues(extensions: JsonValue | undefined): Record<string, string | number | JsonObject> | undefined {
+  if (typeof extensions !== 'object' || extensions === null || Array.isArray(extensions)) {
+    return undefined;
+  }
+
+  const mode = extensions.mode;
+  if (typeof mode !== 'object' || mode === null || Array.isArray(mode)) {
+    return undefined;
+  }
+
+  const modes: Record<string, string | number | JsonObject> = {};
+  for (const [name, value] of Object.entries(mode)) {
+    if (typeof value === 'string' || typeof value === 'number') {
+      modes[name] = value;
+    } else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      modes[name] = value;
+    }
+  }
+
+  return Object.keys(modes).length > 0 ? modes : undefined;
+}
+
 /**
  * Infer token type from path
  */
@@ -222,21 +452,38 @@ function createDesignToken(
   name: string,
   rawValue: string | number | JsonObject,
   type: string | undefined,
-  meta: { description?: string; deprecated?: boolean }
+  meta: {
+    description?: string;
+    deprecated?: boolean;
+    modes?: Record<string, string | number | JsonObject>;
+    aliases?: string[];
+    path?: string;
+  }
 ): DesignToken {
+  const path = meta.path ?? 'imported';
   const category = mapTypeToCategory(type, name, rawValue);
-  const value = parseTokenValue(rawValue, category);
+  const value = parseTokenValue(rawValue, category, type);
+
+  const modes = meta.modes
+    ? Object.fromEntries(
+        Object.entries(meta.modes).map(([mode, modeValue]) => [
+          mode,
+          parseTokenValue(modeValue, category, type),
+        ])
+      )
+    : undefined;
 
   return {
-    id: `json:imported:${name}`,
+    id: `json:${path}:${name}`,
     name,
     category,
     value,
+    ...(modes && { modes }),
     source: {
       type: 'json',
-      path: 'imported',
+      path,
     },
-    aliases: [],
+    aliases: meta.aliases ?? [],
     usedBy: [],
     metadata: {
       description: meta.description,
@@ -271,7 +518,12 @@ function mapTypeToCategory(type: string | undefined, name: string, rawValue: unk
     fontSize: 'typography',
     typography: 'typography',
     shadow: 'shadow',
+    boxShadow: 'shadow',
     border: 'border',
+    transition: 'motion',
+    duration: 'motion',
+    cubicBezier: 'motion',
+    gradient: 'other',
     number: 'other',
     string: 'other',
   };
@@ -282,7 +534,16 @@ function mapTypeToCategory(type: string | undefined, name: string, rawValue: unk
 /**
  * Parse raw value into TokenValue
  */
-function parseTokenValue(rawValue: string | number | JsonObject, category: TokenCategory): TokenValue {
+function parseTokenValue(
+  rawValue: string | number | JsonObject,
+  category: TokenCategory,
+  type: string | undefined
+): TokenValue {
+  const composite = parseCompositeValue(rawValue, type);
+  if (composite) {
+    return composite;
+  }
+
   if (category === 'color') {
     const hex = typeof rawValue === 'string' ? rawValue : '#000000';
     return {
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { resolveTokenSets, type TokenSetInput } from './token-sets.js';
+
+const INPUT: TokenSetInput = {
+  sets: [
+    {
+      name: 'themes/dark',
+      path: 'tokens/themes/dark.json',
+      content: JSON.stringify({ bg: { value: '{colors.gray.900}', type: 'color' } }),
+    },
+    {
+      name: 'core',
+      path: 'tokens/core.json',
+      content: JSON.stringify({
+        colors: {
+          white: { value: '#ffffff', type: 'color' },
+          gray: { 900: { value: '#111827', type: 'color' } },
+        },
+      }),
+    },
+    {
+      name: 'themes/light',
+      path: 'tokens/themes/light.json',
+      content: JSON.stringify({ bg: { value: '{colors.white}', type: 'color' } }),
+    },
+  ],
+  metadata: JSON.stringify({ tokenSetOrder: ['core', 'themes/light', 'themes/dark'] }),
+  themes: JSON.stringify([
+    {
+      id: 'light',
+      name: 'Light',
+      group: 'mode',
+      selectedTokenSets: { core: 'source', 'themes/light': 'enabled' },
+    },
+    {
+      id: 'dark',
+      name: 'Dark',
+      group: 'mode',
+      selectedTokenSets: { core: 'source', 'themes/dark': 'enabled' },
+    },
+  ]),
+};
+
+describe('resolveTokenSets', () => {
+  it('applies the first theme of each group by default', () => {
+    const result = resolveTokenSets(INPUT);
+
+    expect(result.themes).toEqual(['Light']);
+    expect(result.enabledSets).toEqual(['themes/light']);
+    expect(result.sourceSets).toEqual(['core']);
+    expect(result.tokens).toHaveLength(1);
+    expect(result.tokens[0]).toMatchObject({
+      id: 'json:tokens/themes/light.json:bg',
+      name: 'bg',
+      value: { type: 'color', hex: '#ffffff' },
+      aliases: ['colors.white'],
+      source: { type: 'json', path: 'tokens/themes/light.json' },
+    });
+  });
+
+  it('applies requested themes by name, id or group/name', () => {
+    for (const theme of ['Dark', 'dark', 'mode/Dark']) {
+      const { tokens } = resolveTokenSets(INPUT, { themes: [theme] });
+      expect(tokens[0]!.value).toEqual({ type: 'color', hex: '#111827' });
+    }
+  });
+
+  it('rejects unknown themes', () => {
+    expect(() => resolveTokenSets(INPUT, { themes: ['Sepia'] })).toThrow(
+      'Unknown token theme "Sepia". Available: mode/Light, mode/Dark'
+    );
+  });
+
+  it('keeps enabled tokens when a later source set redefines them', () => {
+    const { tokens } = resolveTokenSets({
+      sets: [
+        { name: 'brand', content: JSON.stringify({ primary: { value: '#2563eb', type: 'color' } }) },
+        { name: 'core', content: JSON.stringify({ primary: { value: '#000000', type: 'color' } }) },
+      ],
+      metadata: JSON.stringify({ tokenSetOrder: ['brand', 'core'] }),
+      themes: JSON.stringify([
+        { name: 'Brand', selectedTokenSets: { brand: 'enabled', core: 'source' } },
+      ]),
+    });
+
+    expect(tokens.map((t) => [t.name, t.value])).toEqual([
+      ['primary', { type: 'color', hex: '#2563eb' }],
+    ]);
+  });
+
+  it('merges every set in order when there are no themes', () => {
+    const { tokens, enabledSets } = resolveTokenSets({ ...INPUT, themes: undefined });
+
+    expect(enabledSets).toEqual(['core', 'themes/light', 'themes/dark']);
+    // Later sets override earlier ones
+    expect(tokens.find((t) => t.name === 'bg')!.value).toEqual({ type: 'color', hex: '#111827' });
+  });
+});
@@ -0,0 +1,164 @@
+// Token sets - Tokens Studio multi-file exports with $themes and $metadata
+//
+// A Tokens Studio export is a folder of token set files plus
+// `$metadata.json` (the set order) and `$themes.json` (which sets each
+// theme turns on). Sets are merged in order, later sets overriding earlier
+// ones, and references resolve across every set in play.
+
+import type { DesignToken } from '../models/token.js';
+import { parseTokenFiles, type TokenFile } from './parser.js';
+
+export interface TokenSet {
+  /** Set name, e.g. "core" or "themes/dark" */
+  name: string;
+  /** JSON content of the set */
+  content: string;
+  /** Path recorded as the tokens' source */
+  path?: string;
+}
+
+export interface TokenSetInput {
+  sets: TokenSet[];
+  /** Contents of `$metadata.json` */
+  metadata?: string;
+  /** Contents of `$themes.json` */
+  themes?: string;
+}
+
+export interface TokenSetOptions {
+  /**
+   * Themes to apply, by name, id or "group/name". Defaults to the first
+   * theme of each group.
+   */
+  themes?: string[];
+}
+
+export interface TokenSetResolution {
+  tokens: DesignToken[];
+  /** Sets whose tokens were returned, in merge order */
+  enabledSets: string[];
+  /** Sets only used to resolve references */
+  sourceSets: string[];
+  /** Names of the applied themes */
+  themes: string[];
+}
+
+/**
+ * Token set states in a theme: `enabled` sets contribute tokens, `source`
+ * sets are only used to resolve references
+ */
+type TokenSetStatus = 'enabled' | 'source' | 'disabled';
+
+interface TokenSetTheme {
+  id?: string;
+  name: string;
+  group?: string;
+  selectedTokenSets: Record<string, TokenSetStatus>;
+}
+
+/**
+ * Merge token sets in `$metadata.json` order, applying the selected
+ * `$themes.json` themes
+ */
+export function resolveTokenSets(input: TokenSetInput, options: TokenSetOptions = {}): TokenSetResolution {
+  const order = getSetOrder(input.sets, input.metadata);
+  const themes = selectThemes(parseThemes(input.themes), options.themes ?? []);
+
+  const statuses = new Map<string, TokenSetStatus>();
+  for (const name of order) {
+    statuses.set(name, themes.length > 0 ? getSetStatus(name, themes) : 'enabled');
+  }
+
+  const setsByName = new Map(input.sets.map((set) => [set.name, set]));
+  const files: TokenFile[] = [];
+  for (const name of order) {
+    const status = statuses.get(name)!;
+    if (status === 'disabled') continue;
+    const set = setsByName.get(name)!;
+    files.push({
+      content: set.content,
+      path: set.path ?? name,
+      referenceOnly: status === 'source',
+    });
+  }
+
+  return {
+    tokens: parseTokenFiles(files),
+    enabledSets: order.filter((name) => statuses.get(name) === 'enabled'),
+    sourceSets: order.filter((name) => statuses.get(name) === 'source'),
+    themes: themes.map((theme) => theme.name),
+  };
+}
+
+/**
+ * Sets in `tokenSetOrder`, then any sets it doesn't list in name order
+ */
+function getSetOrder(sets: TokenSet[], metadata: string | undefined): string[] {
+  const names = new Set(sets.map((set) => set.name));
+  const listed = metadata
+    ? ((JSON.parse(metadata) as { tokenSetOrder?: unknown }).tokenSetOrder ?? [])
+    : [];
+  const ordered = Array.isArray(listed)
+    ? listed.filter((name): name is string => typeof name === 'string' && names.has(name))
+    : [];
+
+  const unlisted = [...names].filter((name) => !ordered.includes(name)).sort();
+  return [...new Set(ordered), ...unlisted];
+}
+
+function parseThemes(content: string | undefined): TokenSetTheme[] {
+  if (!content) return [];
+
+  const themes = JSON.parse(content) as unknown;
+  if (!Array.isArray(themes)) {
+    throw new Error('$themes.json must contain an array of themes');
+  }
+
+  return themes.filter(
+    (theme): theme is TokenSetTheme =>
+      typeof theme === 'object' &&
+      theme !== null &&
+      typeof theme.name === 'string' &&
+      typeof theme.selectedTokenSets === 'object'
+  );
+}
+
+/**
+ * The requested themes, or the first theme of each group when none are
+ * requested
+ */
+function selectThemes(themes: TokenSetTheme[], requested: string[]): TokenSetTheme[] {
+  if (requested.length === 0) {
+    const byGroup = new Map<string, TokenSetTheme>();
+    for (const theme of themes) {
+      if (!byGroup.has(theme.group ?? '')) {
+        byGroup.set(theme.group ?? '', theme);
+      }
+    }
+    return [...byGroup.values()];
+  }
+
+  return requested.map((request) => {
+    const theme = themes.find(
+      (t) => t.name === request || t.id === request || (t.group && `${t.group}/${t.name}` === request)
+    );
+    if (!theme) {
+      const available = themes.map((t) => (t.group ? `${t.group}/${t.name}` : t.name));
+      throw new Error(
+        `Unknown token theme "${request}"${available.length > 0 ? `. Available: ${available.join(', ')}` : ''}`
+      );
+    }
+    return theme;
+  });
+}
+
+/**
+ * A set is enabled if any applied theme enables it, a reference source if
+ * any uses it as a source, and disabled otherwise
+ */
+function getSetStatus(name: string, themes: TokenSetTheme[]): TokenSetStatus {
+  const statuses = themes.map((theme) => theme.selectedTokenSets[name]);
+  if (statuses.includes('enabled')) return 'enabled';
+  if (statuses.includes('source')) return 'source';
+  return 'disabled';
+}
@@ -18,6 +18,8 @@ import {
   getUntrackedFiles,
   isFileTracked,
   getAllChangedFiles,
+  getChangedLines,
+  parseDiffHunks,
 } from "./git-utils.js";
 
 describe("git-utils", () => {
@@ -145,4 +147,74 @@ describe("git-utils", () => {
       expect(result.changed).toContain("file3.txt");
     });
   });
+
+  describe("parseDiffHunks", () => {
+    it("collects added and modified line ranges per file", () => {
+      const diff = [
+        "diff --git a/src/Button.tsx b/src/Button.tsx",
+        "--- a/src/Button.tsx",
+        "+++ b/src/Button.tsx",
+        "@@ -3 +3 @@ export function Button() {",
+        "-  color: red;",
+        "+  color: blue;",
+        "@@ -10,2 +10,0 @@",
+        "-  old",
+        "-  old",
+        "@@ -20,0 +19,3 @@",
+        "+  a",
+        "+  b",
+        "+  c",
+        "diff --git a/src/New.tsx b/src/New.tsx",
+        "--- /dev/null",
+        "+++ b/src/New.tsx",
+        "@@ -0,0 +1,2 @@",
+        "+export {}",
+        "+",
+        "diff --git a/src/Gone.tsx b/src/Gone.tsx",
+        "--- a/src/Gone.tsx",
+        "+++ /dev/null",
+        "@@ -1 +0,0 @@",
+        "-gone",
+      ].join("\n");
+
+      const changes = parseDiffHunks(diff);
+
+      expect([...changes.keys()]).toEqual(["src/Button.tsx", "src/New.tsx"]);
+      expect(changes.get("src/Button.tsx")).toEqual([
+        { start: 3, end: 3 },
+        { start: 19, end: 21 },
+      ]);
+      expect(changes.get("src/New.tsx")).toEqual([{ start: 1, end: Infinity }]);
+    });
+  });
+
+  describe("getChangedLines", () => {
+    it("returns lines changed since the base, including uncommitted work", async () => {
+      await writeFile(join(testDir, "a.css"), "one\ntwo\nthree\n");
+      execSync("git add .", { cwd: testDir });
+      execSync('git commit -m "initial"', { cwd: testDir });
+      const base = await getCurrentCommit(testDir);
+
+      await writeFile(join(testDir, "a.css"), "one\nTWO\nthree\n");
+      execSync("git commit -am \"edit\"", { cwd: testDir });
+      await writeFile(join(testDir, "a.css"), "one\nTWO\nthree\nfour\n");
+      await writeFile(join(testDir, "b.css"), "new\n");
+
+      const changes = await getChangedLines(testDir, base!);
+
+      expect(changes.get("a.css")).toEqual([
+        { start: 2, end: 2 },
+        { start: 4, end: 4 },
+      ]);
+      expect(changes.get("b.css")).toEqual([{ start: 1, end: Infinity }]);
+    });
+
+    it("throws for unknown refs", async () => {
+      await writeFile(join(testDir, "a.css"), "one\n");
+      execSync("git add .", { cwd: testDir });
+      execSync('git commit -m "initial"', { cwd: testDir });
+
+      await expect(getChangedLines(testDir, "no-such-branch")).rejects.toThrow();
+    });
+  });
 });
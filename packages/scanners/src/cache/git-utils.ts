@@ -1,10 +1,20 @@
 // packages/scanners/src/cache/git-utils.ts
-import { exec } from "child_process";
+import { exec, execFile } from "child_process";
 import { promisify } from "util";
 import { access } from "fs/promises";
 import { join } from "path";
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+/**
+ * Inclusive range of line numbers in the new version of a file.
+ * `end` is Infinity for files that are new as a whole.
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
 
 /**
  * Check if a directory is a git repository
@@ -152,3 +162,62 @@ export async function getAllChangedFiles(
 
   return { changed: Array.from(allChanged), isFullScan: false };
 }
+
+/**
+ * Parse `git diff --unified=0` output into the added or modified line
+ * ranges of each file. Deleted files and pure deletions are left out.
+ */
+export function parseDiffHunks(diff: string): Map<string, LineRange[]> {
+  const changes = new Map<string, LineRange[]>();
+  let file: string | null = null;
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("+++ ")) {
+      const path = line.slice(4).trim();
+      file = path === "/dev/null" ? null : path.replace(/^b\//, "");
+      continue;
+    }
+
+    const hunk = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    if (!hunk || !file) continue;
+
+    const added = hunk[4] === undefined ? 1 : Number(hunk[4]);
+    if (added === 0) continue;
+
+    const start = Number(hunk[3]);
+    const isNewFile = hunk[1] === "0" && hunk[2] === "0";
+    const ranges = changes.get(file) ?? [];
+    ranges.push({ start, end: isNewFile ? Infinity : start + added - 1 });
+    changes.set(file, ranges);
+  }
+
+  return changes;
+}
+
+/**
+ * Get the lines added or modified since the point the current branch
+ * forked from `baseRef` (like a pull request diff), including uncommitted
+ * changes and untracked files. Paths are relative to `dir`.
+ * Throws if `baseRef` can't be resolved.
+ */
+export async function getChangedLines(
+  dir: string,
+  baseRef: string
+): Promise<Map<string, LineRange[]>> {
+  const { stdout: mergeBase } = await execFileAsync(
+    "git",
+    ["merge-base", baseRef, "HEAD"],
+    { cwd: dir }
+  );
+  const { stdout: diff } = await execFileAsync(
+    "git",
+    ["diff", "--unified=0", "--no-color", "--no-ext-diff", "--relative", mergeBase.trim()],
+    { cwd: dir, maxBuffer: 64 * 1024 * 1024 }
+  );
+
+  const changes = parseDiffHunks(diff);
+  for (const file of await getUntrackedFiles(dir)) {
+    changes.set(file, [{ start: 1, end: Infinity }]);
+  }
+  return changes;
+}
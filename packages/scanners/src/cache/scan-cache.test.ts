@@ -118,6 +118,34 @@ describe("ScanCache", () => {
     });
   });
 
+  describe("invalidate", () => {
+    it("rescans only invalidated files in the same session", async () => {
+      await writeFile(
+        join(testDir, "src", "Card.tsx"),
+        "export const Card = () => <div />"
+      );
+      const files = [
+        join(testDir, "src", "Button.tsx"),
+        join(testDir, "src", "Card.tsx"),
+      ];
+
+      await cache.checkFiles(files, "react");
+      await cache.storeResult(files[0]!, "react", [{ name: "Button" }]);
+      await cache.storeResult(files[1]!, "react", [{ name: "Card" }]);
+
+      // Results stored this session are reused without saving first
+      const beforeResult = await cache.checkFiles(files, "react");
+      expect(beforeResult.filesToScan).toEqual([]);
+
+      cache.invalidate(["src/Card.tsx"]);
+      const result = await cache.checkFiles(files, "react");
+
+      expect(result.filesToScan).toEqual([files[1]]);
+      expect(result.cachedFiles).toEqual([files[0]]);
+      expect(cache.getCachedResult(files[1]!, "react")).toBeNull();
+    });
+  });
+
   describe("persistence", () => {
     it("persists cache to .buoy directory", async () => {
       const absPath = join(testDir, "src", "Button.tsx");
@@ -22,6 +22,8 @@ export class ScanCache {
   private loaded: boolean = false;
   private changedFilesCache: Set<string> | null = null;
   private isGit: boolean | null = null;
+  /** Keys stored during this session, valid until invalidated */
+  private freshKeys = new Set<string>();
 
   constructor(projectRoot: string) {
     this.projectRoot = projectRoot;
@@ -168,6 +170,11 @@ export class ScanCache {
     // Scanner mismatch = needs scan
     if (entry.scanner !== scanner) return true;
 
+    // Stored during this session and not invalidated since = fresh
+    if (this.freshKeys.has(this.getCacheKey(relativePath, scanner))) {
+      return false;
+    }
+
     // In git mode, check if file is in changed set
     if (this.isGit && this.changedFilesCache) {
       // If changedFilesCache is empty, we're doing a full scan
@@ -234,6 +241,27 @@ export class ScanCache {
     };
 
     this.data.entries[cacheKey] = entry;
+    this.freshKeys.add(cacheKey);
+  }
+
+  /**
+   * Drop cached results for specific files so the next scan re-processes them.
+   * Used by watch mode, where changes are reported by a file watcher rather
+   * than git.
+   */
+  invalidate(absoluteOrRelativePaths: string[]): void {
+    const paths = new Set(
+      absoluteOrRelativePaths.map((p) =>
+        isAbsolute(p) ? relative(this.projectRoot, p) : p
+      )
+    );
+
+    for (const [key, entry] of Object.entries(this.data.entries)) {
+      if (paths.has(entry.path)) {
+        delete this.data.entries[key];
+        this.freshKeys.delete(key);
+      }
+    }
   }
 
   /**
@@ -265,6 +293,7 @@ export class ScanCache {
   clear(): void {
     this.data = this.createEmptyCache();
     this.changedFilesCache = null;
+    this.freshKeys.clear();
   }
 
   /**
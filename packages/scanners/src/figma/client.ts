@@ -60,7 +60,9 @@ export interface FigmaVariable {
   id: string;
   name: string;
   key: string;
+  variableCollectionId?: string;
   resolvedType: string;
+  description?: string;
   valuesByMode: Record<string, FigmaVariableValue>;
 }
 
@@ -75,7 +77,8 @@ export type FigmaVariableValue =
   | { type: "COLOR"; value: { r: number; g: number; b: number; a: number } }
   | { type: "FLOAT"; value: number }
   | { type: "STRING"; value: string }
-  | { type: "BOOLEAN"; value: boolean };
+  | { type: "BOOLEAN"; value: boolean }
+  | { type: "VARIABLE_ALIAS"; id: string };
 
 export interface FigmaNodesResponse {
   name: string;
@@ -12,12 +12,19 @@ vi.mock('./client.js', async () => {
 });
 
 describe('FigmaComponentScanner', () => {
-  let mockClient: { getFile: ReturnType<typeof vi.fn>; getFigmaUrl: ReturnType<typeof vi.fn> };
+  let mockClient: {
+    getFile: ReturnType<typeof vi.fn>;
+    getLocalVariables: ReturnType<typeof vi.fn>;
+    getFigmaUrl: ReturnType<typeof vi.fn>;
+  };
 
   beforeEach(() => {
     vi.clearAllMocks();
     mockClient = {
       getFile: vi.fn(),
+      getLocalVariables: vi.fn().mockResolvedValue({
+        meta: { variables: {}, variableCollections: {} },
+      }),
       getFigmaUrl: vi.fn((fileKey: string, nodeId: string) =>
         `https://www.figma.com/file/${fileKey}?node-id=${nodeId}`
       ),
@@ -565,6 +572,64 @@ describe('FigmaComponentScanner', () => {
       expect(result.errors).toHaveLength(1);
       expect(result.stats.filesScanned).toBe(1);
     });
+
+    it('keeps components when variables cannot be read', async () => {
+      mockClient.getFile.mockResolvedValue(createFigmaFile([
+        { id: '16:1', name: 'Button', type: 'COMPONENT' },
+      ]));
+      mockClient.getLocalVariables.mockRejectedValue(new Error('Forbidden'));
+
+      const scanner = createScanner();
+      const result = await scanner.scan();
+
+      expect(result.items).toHaveLength(1);
+      expect(result.tokens).toEqual([]);
+      expect(result.errors).toEqual([
+        {
+          file: 'test-file-key',
+          message: 'Could not read variables: Forbidden',
+          code: 'FIGMA_VARIABLES_ERROR',
+        },
+      ]);
+    });
+  });
+
+  describe('variables', () => {
+    it('returns local variables as tokens', async () => {
+      mockClient.getFile.mockResolvedValue(createFigmaFile([]));
+      mockClient.getLocalVariables.mockResolvedValue({
+        meta: {
+          variableCollections: {
+            'VariableCollectionId:1': {
+              id: 'VariableCollectionId:1',
+              name: 'Theme',
+              modes: [{ modeId: '1:0', name: 'Light' }],
+              defaultModeId: '1:0',
+            },
+          },
+          variables: {
+            'VariableID:1': {
+              id: 'VariableID:1',
+              name: 'Color/Surface',
+              key: 'k1',
+              variableCollectionId: 'VariableCollectionId:1',
+              resolvedType: 'COLOR',
+              valuesByMode: {
+                '1:0': { type: 'COLOR', value: { r: 1, g: 1, b: 1, a: 1 } },
+              },
+            },
+          },
+        },
+      });
+
+      const scanner = createScanner();
+      const result = await scanner.scan();
+
+      expect(mockClient.getLocalVariables).toHaveBeenCalledWith('test-file-key');
+      expect(result.tokens).toHaveLength(1);
+      expect(result.tokens[0]!.source).toMatchObject({ type: 'figma', fileKey: 'test-file-key' });
+      expect(result.tokens[0]!.value).toMatchObject({ type: 'color', hex: '#ffffff' });
+    });
   });
 
   describe('multiple component property types', () => {
@@ -1,7 +1,8 @@
 import { Scanner, ScanResult, ScannerConfig, ScanError, ScanStats } from '../base/scanner.js';
-import type { Component, PropDefinition, VariantDefinition, FigmaSource } from '@buoy-design/core';
+import type { Component, DesignToken, PropDefinition, VariantDefinition, FigmaSource } from '@buoy-design/core';
 import { createComponentId } from '@buoy-design/core';
 import { FigmaClient, FigmaNode, FigmaFile, FigmaComponentMeta } from './client.js';
+import { figmaVariablesToTokens } from './variables.js';
 
 export interface FigmaScannerConfig extends ScannerConfig {
   accessToken: string;
@@ -43,6 +44,8 @@ export interface FigmaOrphanReport {
  * Extended Figma scan result with version tracking
  */
 export interface FigmaScanResult extends ScanResult<Component> {
+  /** Design tokens from the files' local variables */
+  tokens: DesignToken[];
   /** File version information */
   fileVersions: Record<string, { version: string; lastModified: string }>;
   /** Components that changed since last scan */
@@ -62,6 +65,7 @@ export class FigmaComponentScanner extends Scanner<Component, FigmaScannerConfig
   async scan(): Promise<FigmaScanResult> {
     const startTime = Date.now();
     const components: Component[] = [];
+    const tokens: DesignToken[] = [];
     const errors: ScanError[] = [];
     const fileVersions: Record<string, { version: string; lastModified: string }> = {};
     let filesScanned = 0;
@@ -86,6 +90,21 @@ export class FigmaComponentScanner extends Scanner<Component, FigmaScannerConfig
           message,
           code: 'FIGMA_API_ERROR',
         });
+        continue;
+      }
+
+      // The variables API needs the file_variables:read scope, so a
+      // failure here keeps the file's components
+      try {
+        const variables = await this.client.getLocalVariables(fileKey);
+        tokens.push(...figmaVariablesToTokens(variables, fileKey));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        errors.push({
+          file: fileKey,
+          message: `Could not read variables: ${message}`,
+          code: 'FIGMA_VARIABLES_ERROR',
+        });
       }
     }
 
@@ -109,6 +128,7 @@ export class FigmaComponentScanner extends Scanner<Component, FigmaScannerConfig
 
     return {
       items: components,
+      tokens,
       errors,
       stats,
       fileVersions,
@@ -6,6 +6,8 @@ export {
   type FigmaFile,
   type FigmaNode,
   type FigmaVariable,
+  type FigmaVariableCollection,
+  type FigmaVariablesResponse,
   type CircuitBreakerOptions,
   type CircuitBreakerState,
 } from "./client.js";
@@ -16,3 +18,4 @@ export {
   type FigmaVersionChange,
   type FigmaOrphanReport,
 } from "./component-scanner.js";
+export { figmaVariablesToTokens } from "./variables.js";
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { figmaVariablesToTokens } from './variables.js';
+import type { FigmaVariablesResponse } from './client.js';
+
+const response: FigmaVariablesResponse = {
+  meta: {
+    variableCollections: {
+      'VariableCollectionId:1': {
+        id: 'VariableCollectionId:1',
+        name: 'Theme',
+        modes: [
+          { modeId: '1:0', name: 'Light' },
+          { modeId: '1:1', name: 'Dark' },
+        ],
+        defaultModeId: '1:0',
+      },
+      'VariableCollectionId:2': {
+        id: 'VariableCollectionId:2',
+        name: 'Primitives',
+        modes: [{ modeId: '2:0', name: 'Value' }],
+        defaultModeId: '2:0',
+      },
+    },
+    variables: {
+      'VariableID:1': {
+        id: 'VariableID:1',
+        name: 'Color/Surface',
+        key: 'k1',
+        variableCollectionId: 'VariableCollectionId:1',
+        resolvedType: 'COLOR',
+        valuesByMode: {
+          '1:0': { type: 'COLOR', value: { r: 1, g: 1, b: 1, a: 1 } },
+          '1:1': { type: 'VARIABLE_ALIAS', id: 'VariableID:3' },
+        },
+      },
+      'VariableID:2': {
+        id: 'VariableID:2',
+        name: 'Spacing/MD',
+        key: 'k2',
+        variableCollectionId: 'VariableCollectionId:2',
+        resolvedType: 'FLOAT',
+        valuesByMode: { '2:0': { type: 'FLOAT', value: 16 } },
+      },
+      'VariableID:3': {
+        id: 'VariableID:3',
+        name: 'Gray/900',
+        key: 'k3',
+        variableCollectionId: 'VariableCollectionId:2',
+        resolvedType: 'COLOR',
+        valuesByMode: {
+          '2:0': { type: 'COLOR', value: { r: 0.0941, g: 0.0941, b: 0.1059, a: 1 } },
+        },
+      },
+    },
+  },
+};
+
+describe('figmaVariablesToTokens', () => {
+  it('turns collection modes into token modes, resolving aliases', () => {
+    const tokens = figmaVariablesToTokens(response, 'abc123');
+    const surface = tokens.find((t) => t.name === 'color.surface');
+
+    expect(surface).toMatchObject({
+      id: 'figma:abc123:VariableID:1',
+      category: 'color',
+      value: { type: 'color', hex: '#ffffff' },
+      source: { type: 'figma', fileKey: 'abc123', collectionName: 'Theme' },
+    });
+    expect(surface?.modes).toEqual({
+      light: { type: 'color', hex: '#ffffff', rgba: { r: 255, g: 255, b: 255, a: 1 } },
+      dark: { type: 'color', hex: '#18181b', rgba: { r: 24, g: 24, b: 27, a: 1 } },
+    });
+  });
+
+  it('leaves single-mode variables without modes', () => {
+    const tokens = figmaVariablesToTokens(response, 'abc123');
+    const spacing = tokens.find((t) => t.name === 'spacing.md');
+
+    expect(spacing).toMatchObject({
+      category: 'spacing',
+      value: { type: 'spacing', value: 16, unit: 'px' },
+    });
+    expect(spacing?.modes).toBeUndefined();
+  });
+
+  it('skips aliases that cannot be resolved', () => {
+    const tokens = figmaVariablesToTokens(
+      {
+        meta: {
+          variableCollections: {},
+          variables: {
+            'VariableID:9': {
+              id: 'VariableID:9',
+              name: 'Broken',
+              key: 'k9',
+              resolvedType: 'COLOR',
+              valuesByMode: { '9:0': { type: 'VARIABLE_ALIAS', id: 'VariableID:missing' } },
+            },
+          },
+        },
+      },
+      'abc123'
+    );
+
+    expect(tokens).toEqual([]);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Figma variables to design tokens
+ *
+ * Converts a file's variables into DesignTokens. Every mode of a variable's
+ * collection (Light/Dark, brands) becomes a token mode, and the collection's
+ * default mode provides the token's value. Aliases are resolved per mode.
+ */
+
+import type {
+  DesignToken,
+  FigmaTokenSource,
+  TokenCategory,
+  TokenModes,
+  TokenValue,
+} from '@buoy-design/core';
+import { createTokenId } from '@buoy-design/core';
+import type {
+  FigmaVariable,
+  FigmaVariableCollection,
+  FigmaVariablesResponse,
+  FigmaVariableValue,
+} from './client.js';
+
+/** Alias chains longer than this are treated as cycles */
+const MAX_ALIAS_DEPTH = 10;
+
+/**
+ * Convert a variables response into design tokens
+ */
+export function figmaVariablesToTokens(
+  response: FigmaVariablesResponse,
+  fileKey: string
+): DesignToken[] {
+  const { variables, variableCollections } = response.meta;
+  const tokens: DesignToken[] = [];
+
+  for (const variable of Object.values(variables)) {
+    const collection = variable.variableCollectionId
+      ? variableCollections[variable.variableCollectionId]
+      : undefined;
+    const name = toTokenName(variable.name);
+    const category = inferCategory(variable, name);
+
+    const modes: TokenModes = {};
+    for (const [modeId, raw] of Object.entries(variable.valuesByMode)) {
+      const mode = getModeName(collection, modeId);
+      const resolved = resolveAlias(raw, mode, variables, variableCollections);
+      const value = resolved && toTokenValue(resolved, category);
+      if (value) modes[mode] = value;
+    }
+
+    const defaultModeId = collection?.defaultModeId ?? Object.keys(variable.valuesByMode)[0];
+    const value = defaultModeId ? modes[getModeName(collection, defaultModeId)] : undefined;
+    if (!value) continue;
+
+    const source: FigmaTokenSource = {
+      type: 'figma',
+      fileKey,
+      variableId: variable.id,
+      collectionName: collection?.name,
+    };
+
+    tokens.push({
+      id: createTokenId(source, name),
+      name,
+      category,
+      value,
+      ...(Object.keys(modes).length > 1 && { modes }),
+      source,
+      aliases: [],
+      usedBy: [],
+      metadata: {
+        description: variable.description || undefined,
+        tags: ['figma', 'variable'],
+      },
+      scannedAt: new Date(),
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * "Color/Primary 500" -> "color.primary-500"
+ */
+function toTokenName(variableName: string): string {
+  return variableName
+    .split('/')
+    .map((part) => part.trim().toLowerCase().replace(/\s+/g, '-'))
+    .filter(Boolean)
+    .join('.');
+}
+
+/**
+ * Mode names are lowercased so "Dark" in Figma matches "dark" in code.
+ * Falls back to the mode ID when the collection is unknown.
+ */
+function getModeName(
+  collection: FigmaVariableCollection | undefined,
+  modeId: string
+): string {
+  return collection?.modes.find((m) => m.modeId === modeId)?.name.toLowerCase() ?? modeId;
+}
+
+/**
+ * Follow alias values to a concrete value, preferring the target's value in
+ * a mode with the same name and falling back to its default mode
+ */
+function resolveAlias(
+  value: FigmaVariableValue,
+  modeName: string,
+  variables: Record<string, FigmaVariable>,
+  collections: Record<string, FigmaVariableCollection>,
+  depth = 0
+): FigmaVariableValue | null {
+  if (value.type !== 'VARIABLE_ALIAS') return value;
+  if (depth >= MAX_ALIAS_DEPTH) return null;
+
+  const target = variables[value.id];
+  if (!target) return null;
+
+  const collection = target.variableCollectionId
+    ? collections[target.variableCollectionId]
+    : undefined;
+  const modeId =
+    collection?.modes.find((m) => m.name.toLowerCase() === modeName)?.modeId ??
+    collection?.defaultModeId ??
+    Object.keys(target.valuesByMode)[0];
+  const next = modeId ? target.valuesByMode[modeId] : undefined;
+
+  return next ? resolveAlias(next, modeName, variables, collections, depth + 1) : null;
+}
+
+function inferCategory(variable: FigmaVariable, name: string): TokenCategory {
+  switch (variable.resolvedType) {
+    case 'COLOR':
+      return 'color';
+    case 'FLOAT':
+      if (/radius|rounded/.test(name)) return 'border';
+      if (/font|text|line-height|letter/.test(name)) return 'typography';
+      if (/spacing|space|gap|padding|margin|inset/.test(name)) return 'spacing';
+      if (/size|width|height/.test(name)) return 'sizing';
+      return 'other';
+    case 'STRING':
+      return /font/.test(name) ? 'typography' : 'other';
+    default:
+      return 'other';
+  }
+}
+
+function toTokenValue(value: FigmaVariableValue, category: TokenCategory): TokenValue | null {
+  switch (value.type) {
+    case 'COLOR': {
+      const { r, g, b, a } = value.value;
+      const rgba = {
+        r: Math.round(r * 255),
+        g: Math.round(g * 255),
+        b: Math.round(b * 255),
+        a,
+      };
+      const hex = `#${[rgba.r, rgba.g, rgba.b].map((c) => c.toString(16).padStart(2, '0')).join('')}`;
+      return { type: 'color', hex, rgba };
+    }
+    case 'FLOAT':
+      return category === 'other'
+        ? { type: 'raw', value: String(value.value) }
+        : { type: 'spacing', value: value.value, unit: 'px' };
+    case 'STRING':
+      return { type: 'raw', value: value.value };
+    default:
+      return null;
+  }
+}
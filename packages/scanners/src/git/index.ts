@@ -1,5 +1,6 @@
 export { ReactComponentScanner, type ReactScannerConfig, type ReactScanResult, type HookUsageInfo, type ReactComponentInfo } from './react-scanner.js';
 export { TokenScanner, type TokenScannerConfig } from './token-scanner.js';
+export { loadTokenSet, isTokenSetDirectory, type TokenSetLoaderOptions } from './token-set-loader.js';
 export { VueComponentScanner, type VueScannerConfig, type VueScanResult, type NuxtProjectInfo } from './vue-scanner.js';
 export { SvelteComponentScanner, type SvelteScannerConfig } from './svelte-scanner.js';
 export { AngularComponentScanner, type AngularScannerConfig, type AngularScanResult, type NgModuleInfo, type MaterialOverride } from './angular-scanner.js';
@@ -1358,6 +1358,10 @@ export class ReactComponentScanner extends SignalAwareScanner<
       case "fontFamily":
         // Font families are often hardcoded, only flag if it's a system font
         return !value.includes("var(--") && !value.includes("inherit");
+      case "shadow":
+      case "border":
+        // Matched against composite tokens (e.g. `0 1px 2px rgba(...)`)
+        return /\d/.test(value) && !/^(none|0)$/i.test(value.trim());
       default:
         return false;
     }
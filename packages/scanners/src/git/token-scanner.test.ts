@@ -241,6 +241,133 @@ describe("TokenScanner", () => {
 
       expect(result.items[0]!.metadata.description).toBe("Main brand color");
     });
+
+    it("resolves references across token files", async () => {
+      vol.fromJSON({
+        "/project/tokens/primitives.json": JSON.stringify({
+          color: { blue: { 500: { $value: "#3b82f6", $type: "color" } } },
+        }),
+        "/project/tokens/semantic.json": JSON.stringify({
+          color: { primary: { $value: "{color.blue.500}" } },
+        }),
+      });
+
+      const scanner = new TokenScanner({
+        projectRoot: "/project",
+        files: ["tokens/**/*.json"],
+      });
+
+      const result = await scanner.scan();
+
+      expect(result.errors).toEqual([]);
+      expect(result.items.map((t) => t.name).sort()).toEqual([
+        "color.blue.500",
+        "color.primary",
+      ]);
+      expect(result.items.find((t) => t.name === "color.primary")).toMatchObject({
+        id: "json:tokens/semantic.json:color.primary",
+        value: { type: "color", hex: "#3b82f6" },
+        source: { type: "json", path: "tokens/semantic.json" },
+        aliases: ["color.blue.500"],
+      });
+    });
+
+    it("keeps tokens that several files define under the same name", async () => {
+      vol.fromJSON({
+        "/project/tokens/core.json": JSON.stringify({
+          color: {
+            white: { $value: "#ffffff", $type: "color" },
+            black: { $value: "#000000", $type: "color" },
+          },
+        }),
+        "/project/tokens/light.json": JSON.stringify({
+          bg: { $value: "{color.white}" },
+          fg: { $value: "{color.black}" },
+        }),
+        "/project/tokens/dark.json": JSON.stringify({
+          bg: { $value: "{color.black}" },
+        }),
+      });
+
+      const scanner = new TokenScanner({
+        projectRoot: "/project",
+        files: ["tokens/**/*.json"],
+      });
+
+      const result = await scanner.scan();
+
+      expect(result.errors).toEqual([]);
+      expect(result.items.map((t) => t.id).sort()).toEqual([
+        "json:tokens/core.json:color.black",
+        "json:tokens/core.json:color.white",
+        "json:tokens/dark.json:bg",
+        "json:tokens/light.json:bg",
+        "json:tokens/light.json:fg",
+      ]);
+      expect(result.items.find((t) => t.id === "json:tokens/light.json:bg")).toMatchObject({
+        value: { type: "color", hex: "#ffffff" },
+      });
+    });
+  });
+
+  describe("token set folders", () => {
+    const tokensStudioExport = {
+      "/project/tokens/core.json": JSON.stringify({
+        colors: {
+          white: { value: "#ffffff", type: "color" },
+          black: { value: "#000000", type: "color" },
+        },
+      }),
+      "/project/tokens/light.json": JSON.stringify({
+        bg: { value: "{colors.white}", type: "color" },
+      }),
+      "/project/tokens/dark.json": JSON.stringify({
+        bg: { value: "{colors.black}", type: "color" },
+      }),
+      "/project/tokens/$metadata.json": JSON.stringify({
+        tokenSetOrder: ["core", "light", "dark"],
+      }),
+      "/project/tokens/$themes.json": JSON.stringify([
+        { name: "Light", selectedTokenSets: { core: "source", light: "enabled" } },
+        { name: "Dark", selectedTokenSets: { core: "source", dark: "enabled" } },
+      ]),
+    };
+
+    it("loads a Tokens Studio folder with the selected theme", async () => {
+      vol.fromJSON(tokensStudioExport);
+
+      const scanner = new TokenScanner({
+        projectRoot: "/project",
+        files: ["tokens"],
+        themes: ["Dark"],
+      });
+
+      const result = await scanner.scan();
+
+      expect(result.errors).toEqual([]);
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0]).toMatchObject({
+        name: "bg",
+        value: { type: "color", hex: "#000000" },
+        aliases: ["colors.black"],
+        source: { type: "json", path: "tokens/dark.json" },
+      });
+    });
+
+    it("reports unknown themes as scan errors", async () => {
+      vol.fromJSON(tokensStudioExport);
+
+      const scanner = new TokenScanner({
+        projectRoot: "/project",
+        files: ["tokens"],
+        themes: ["Sepia"],
+      });
+
+      const result = await scanner.scan();
+
+      expect(result.items).toEqual([]);
+      expect(result.errors[0]).toMatchObject({ file: "tokens", code: "TOKEN_SET_ERROR" });
+    });
   });
 
   describe("SCSS variable parsing", () => {
@@ -330,6 +457,38 @@ describe("TokenScanner", () => {
       expect(result.errors[0]!.code).toBe("JSON_PARSE_ERROR");
     });
 
+    it("reports unresolved references and keeps the file's tokens", async () => {
+      vol.fromJSON({
+        "/project/tokens/semantic.json": JSON.stringify({
+          color: {
+            primary: { $value: "{color.blue.500}" },
+            surface: { $value: "#ffffff", $type: "color" },
+          },
+        }),
+      });
+
+      const scanner = new TokenScanner({
+        projectRoot: "/project",
+        files: ["tokens/**/*.json"],
+      });
+
+      const result = await scanner.scan();
+
+      expect(result.errors).toEqual([
+        {
+          file: "/project/tokens/semantic.json",
+          message: expect.stringContaining(
+            '"color.primary" references unknown token {color.blue.500}',
+          ),
+          code: "TOKEN_REFERENCE_ERROR",
+        },
+      ]);
+      expect(result.items.map((t) => t.name)).toEqual([
+        "color.primary",
+        "color.surface",
+      ]);
+    });
+
     it("handles empty files", async () => {
       vol.fromJSON({
         "/project/tokens/empty.css": "",
@@ -458,6 +617,91 @@ describe("TokenScanner", () => {
           .unit,
       ).toBe("px");
     });
+
+    it("parses composite CSS values", async () => {
+      vol.fromJSON({
+        "/project/tokens/effects.css": `
+          :root {
+            --shadow-sm: 0 1px 2px rgba(0, 0, 0, 0.05);
+            --border-default: 1px solid #e5e7eb;
+            --radius-md: 4px 8px;
+            --gradient-brand: linear-gradient(90deg, #3b82f6, #8b5cf6);
+          }
+        `,
+      });
+
+      const scanner = new TokenScanner({
+        projectRoot: "/project",
+        files: ["tokens/**/*.css"],
+      });
+
+      const result = await scanner.scan();
+      const valueOf = (name: string) =>
+        result.items.find((t) => t.name === name)?.value;
+
+      expect(valueOf("--shadow-sm")).toEqual({
+        type: "shadow",
+        x: 0,
+        y: 1,
+        blur: 2,
+        spread: 0,
+        color: "#0000000d",
+      });
+      expect(valueOf("--border-default")).toEqual({
+        type: "border",
+        width: 1,
+        style: "solid",
+        color: "#e5e7eb",
+      });
+      expect(valueOf("--radius-md")).toEqual({ type: "raw", value: "4px 8px" });
+      expect(valueOf("--gradient-brand")?.type).toBe("gradient");
+    });
+
+    it("parses composite DTCG objects", async () => {
+      vol.fromJSON({
+        "/project/tokens.json": JSON.stringify({
+          shadow: {
+            card: {
+              $type: "shadow",
+              $value: {
+                color: "#0000001a",
+                offsetX: "0px",
+                offsetY: "1px",
+                blur: "3px",
+                spread: "0px",
+              },
+            },
+          },
+          font: {
+            body: {
+              $type: "typography",
+              $value: { fontFamily: "Inter", fontSize: "16px", fontWeight: 400 },
+            },
+          },
+        }),
+      });
+
+      const scanner = new TokenScanner({
+        projectRoot: "/project",
+        files: ["tokens.json"],
+      });
+
+      const result = await scanner.scan();
+
+      expect(result.items.find((t) => t.name === "shadow.card")?.value).toEqual({
+        type: "shadow",
+        x: 0,
+        y: 1,
+        blur: 3,
+        spread: 0,
+        color: "#0000001a",
+      });
+      expect(result.items.find((t) => t.name === "font.body")?.value).toMatchObject({
+        type: "typography",
+        fontFamily: "Inter",
+        fontSize: 16,
+      });
+    });
   });
 
   describe("token deduplication", () => {
@@ -15,14 +15,23 @@ import type {
   CssTokenSource,
   TypeScriptTokenSource,
 } from "@buoy-design/core";
-import { createTokenId } from "@buoy-design/core";
+import {
+  createTokenId,
+  parseCompositeValue,
+  parseTokenFiles,
+  TokenReferenceError,
+} from "@buoy-design/core";
 import { glob } from "glob";
 import { readFile } from "fs/promises";
-import { relative, extname } from "path";
+import { relative, extname, resolve } from "path";
+import { isTokenSetDirectory, loadTokenSet } from "./token-set-loader.js";
 
 export interface TokenScannerConfig extends ScannerConfig {
+  /** Token file globs, or folders loaded as multi-file token sets */
   files?: string[];
   cssVariablePrefix?: string;
+  /** Themes to apply to Tokens Studio token sets ($themes.json) */
+  themes?: string[];
 }
 
 export class TokenScanner extends Scanner<DesignToken, TokenScannerConfig> {
@@ -50,6 +59,25 @@ export class TokenScanner extends Scanner<DesignToken, TokenScannerConfig> {
     if (this.config.files && this.config.files.length > 0) {
       // Scan explicitly configured files
       for (const pattern of this.config.files) {
+        // Folders are token sets whose references resolve across files
+        if (await isTokenSetDirectory(resolve(this.config.projectRoot, pattern))) {
+          try {
+            const { tokens } = await loadTokenSet(pattern, {
+              themes: this.config.themes,
+              projectRoot: this.config.projectRoot,
+            });
+            addTokens(tokens);
+            scannedFiles.add(pattern);
+          } catch (err) {
+            errors.push({
+              file: pattern,
+              message: err instanceof Error ? err.message : String(err),
+              code: "TOKEN_SET_ERROR",
+            });
+          }
+          continue;
+        }
+
         const matches = await glob(pattern, {
           cwd: this.config.projectRoot,
           absolute: true,
@@ -126,8 +154,18 @@ export class TokenScanner extends Scanner<DesignToken, TokenScannerConfig> {
       cacheHits = cachedEntries.length;
       cacheMisses = uncached.length;
 
+      // References can point into any JSON file, so one changed JSON file
+      // re-parses all of them
+      const jsonChanged = uncached.some((file) => extname(file) === ".json");
+
       // Add cached tokens
       for (const entry of cachedEntries) {
+        if (jsonChanged && extname(entry.path) === ".json") {
+          filesToProcess.push(`${this.config.projectRoot}/${entry.path}`);
+          cacheHits--;
+          cacheMisses++;
+          continue;
+        }
         try {
           const cachedTokens = JSON.parse(entry.result) as DesignToken[];
           addTokens(cachedTokens);
@@ -142,15 +180,28 @@ export class TokenScanner extends Scanner<DesignToken, TokenScannerConfig> {
       }
     }
 
-    // Process files in parallel
+    // JSON files are parsed together so references resolve across files
+    const jsonFiles = filesToProcess.filter((file) => extname(file) === ".json");
+    if (jsonFiles.length > 0) {
+      const json = await this.parseJsonTokenFiles(jsonFiles);
+      for (const { file, tokens } of json.results) {
+        if (cache) {
+          await cache.storeResult(file, this.getSourceType(), tokens);
+        }
+        scannedFiles.add(file);
+        addTokens(tokens);
+      }
+      errors.push(...json.errors);
+      filesToProcess = filesToProcess.filter((file) => extname(file) !== ".json");
+    }
+
+    // Process other files in parallel
     const results = await parallelProcess(
       filesToProcess,
       async (file) => {
         const ext = extname(file);
         let tokens: DesignToken[] = [];
-        if (ext === ".json") {
-          tokens = await this.parseJsonTokenFile(file);
-        } else if (ext === ".css" || ext === ".scss") {
+        if (ext === ".css" || ext === ".scss") {
           tokens = await this.parseCssVariables(file);
         } else if (ext === ".ts" || ext === ".tsx") {
           tokens = await this.parseTypeScriptUnionTypes(file);
@@ -182,11 +233,7 @@ export class TokenScanner extends Scanner<DesignToken, TokenScannerConfig> {
             ? result.reason.message
             : String(result.reason);
         const code =
-          ext === ".json"
-            ? "JSON_PARSE_ERROR"
-            : ext === ".ts" || ext === ".tsx"
-              ? "TS_PARSE_ERROR"
-              : "CSS_PARSE_ERROR";
+          ext === ".ts" || ext === ".tsx" ? "TS_PARSE_ERROR" : "CSS_PARSE_ERROR";
         errors.push({ file, message, code });
       }
     }
@@ -226,18 +273,130 @@ export class TokenScanner extends Scanner<DesignToken, TokenScannerConfig> {
     return [...new Set(allFiles)];
   }
 
-  private async parseJsonTokenFile(filePath: string): Promise<DesignToken[]> {
-    const content = await readFile(filePath, "utf-8");
-    const data = JSON.parse(content);
-    const relativePath = relative(this.config.projectRoot, filePath);
-    const tokens: DesignToken[] = [];
+  /**
+   * Parse JSON token files with core's token parser. The files are parsed
+   * as one set, so `{group.token}` references resolve across files, and
+   * the tokens are split by the file they come from. Files that fail on
+   * their own are reported and left out. A file that shares token names
+   * with another, or whose references don't resolve, is parsed on its own
+   * against the others; unresolved references are reported and the file
+   * is parsed unresolved.
+   */
+  private async parseJsonTokenFiles(filePaths: string[]): Promise<{
+    results: Array<{ file: string; tokens: DesignToken[] }>;
+    errors: ScanError[];
+  }> {
+    const tokensByFile = new Map<string, DesignToken[]>();
+    const errors: ScanError[] = [];
+    const files: Array<{ file: string; path: string; content: string; data: unknown }> = [];
+
+    for (const file of filePaths) {
+      try {
+        const content = await readFile(file, "utf-8");
+        const path = relative(this.config.projectRoot, file);
+        files.push({ file, path, content, data: JSON.parse(content) });
+      } catch (err) {
+        errors.push({
+          file,
+          message: err instanceof Error ? err.message : String(err),
+          code: "JSON_PARSE_ERROR",
+        });
+      }
+    }
+
+    // Only token objects can be referenced, not Chakra UI name arrays
+    let objectFiles = files.filter(
+      ({ data }) => typeof data === "object" && data !== null && !Array.isArray(data),
+    );
+    for (const { file, path, data } of files) {
+      // Handle JSON arrays of token names (Chakra UI generated format)
+      if (Array.isArray(data)) {
+        tokensByFile.set(file, this.parseJsonArrayTokens(data, path));
+      } else if (typeof data !== "object" || data === null) {
+        tokensByFile.set(file, []);
+      }
+    }
+
+    let parsed = tryParseTokenFiles(objectFiles);
+    if (parsed.error && !(parsed.error instanceof TokenReferenceError)) {
+      // Find the files that can't be parsed even on their own
+      objectFiles = objectFiles.filter(({ file, path, content }) => {
+        const { error } = tryParseTokenFiles([{ path, content }]);
+        if (!error || error instanceof TokenReferenceError) return true;
+        errors.push({ file, message: error.message, code: "JSON_PARSE_ERROR" });
+        return false;
+      });
+      parsed = tryParseTokenFiles(objectFiles);
+    }
+
+    // In one set, a token name defined by several files (e.g. light and
+    // dark themes) only keeps the last definition, so those files are
+    // parsed on their own against the others
+    const namesByFile = new Map(
+      objectFiles.map(({ file, data }) => [
+        file,
+        new Set(collectTokenNames(data as Record<string, unknown>)),
+      ]),
+    );
+    const fileCountByName = new Map<string, number>();
+    for (const names of namesByFile.values()) {
+      for (const name of names) {
+        fileCountByName.set(name, (fileCountByName.get(name) ?? 0) + 1);
+      }
+    }
+    const overlapping = new Set(
+      [...namesByFile]
+        .filter(([, names]) => [...names].some((name) => fileCountByName.get(name)! > 1))
+        .map(([file]) => file),
+    );
 
-    // Handle JSON arrays of token names (Chakra UI generated format)
-    if (Array.isArray(data)) {
-      const arrayTokens = this.parseJsonArrayTokens(data, relativePath);
-      return arrayTokens;
+    const byPath = new Map<string, DesignToken[]>();
+    for (const token of parsed.tokens) {
+      const path = "path" in token.source ? token.source.path : "";
+      byPath.set(path, [...(byPath.get(path) ?? []), token]);
     }
 
+    for (const { file, path, content, data } of objectFiles) {
+      if (!parsed.error && !overlapping.has(file)) {
+        tokensByFile.set(file, byPath.get(path) ?? []);
+        continue;
+      }
+
+      const references = objectFiles
+        .filter((other) => other.file !== file)
+        .map((other) => ({ content: other.content, path: other.path, referenceOnly: true }));
+
+      const { tokens, error } = tryParseTokenFiles([...references, { content, path }]);
+      if (error) {
+        errors.push({
+          file,
+          message: error.message,
+          code: error instanceof TokenReferenceError ? "TOKEN_REFERENCE_ERROR" : "JSON_PARSE_ERROR",
+        });
+      }
+      tokensByFile.set(
+        file,
+        error ? this.parseJsonTokenObject(data as Record<string, unknown>, path) : tokens,
+      );
+    }
+
+    // Keep the order the files were found in
+    const results = files.flatMap(({ file }) => {
+      const tokens = tokensByFile.get(file);
+      return tokens ? [{ file, tokens }] : [];
+    });
+    return { results, errors };
+  }
+
+  /**
+   * Parse a JSON token object without resolving references
+   */
+  private parseJsonTokenObject(
+    data: Record<string, unknown>,
+    relativePath: string,
+  ): DesignToken[] {
+    const tokens: DesignToken[] = [];
+
     const processTokens = (
       obj: Record<string, unknown>,
       prefix: string = "",
@@ -390,10 +549,7 @@ export class TokenScanner extends Scanner<DesignToken, TokenScannerConfig> {
     value: Record<string, unknown>,
     filePath: string,
   ): DesignToken | null {
-    const rawValue = (value.value || value.$value) as
-      | string
-      | number
-      | undefined;
+    const rawValue = value.value || value.$value;
     const type = (value.type ||
       value.$type ||
       this.inferCategory(name, rawValue)) as string;
@@ -406,7 +562,7 @@ export class TokenScanner extends Scanner<DesignToken, TokenScannerConfig> {
       key: name,
     };
 
-    const tokenValue = this.parseTokenValue(type, rawValue);
+    const tokenValue = this.parseTokenValue(type, rawValue, name);
 
     return {
       id: createTokenId(source, name),
@@ -455,7 +611,7 @@ export class TokenScanner extends Scanner<DesignToken, TokenScannerConfig> {
       };
 
       const category = this.inferCategory(cleanName, cleanValue);
-      const tokenValue = this.parseTokenValue(category, cleanValue);
+      const tokenValue = this.parseTokenValue(category, cleanValue, cleanName);
 
       tokens.push({
         id: createTokenId(source, cleanName),
@@ -487,7 +643,7 @@ export class TokenScanner extends Scanner<DesignToken, TokenScannerConfig> {
       };
 
       const category = this.inferCategory(cleanName, cleanValue);
-      const tokenValue = this.parseTokenValue(category, cleanValue);
+      const tokenValue = this.parseTokenValue(category, cleanValue, cleanName);
 
       tokens.push({
         id: createTokenId(source, cleanName),
@@ -774,9 +930,16 @@ export class TokenScanner extends Scanner<DesignToken, TokenScannerConfig> {
 
   private parseTokenValue(
     category: string,
-    rawValue: string | number,
+    rawValue: unknown,
+    name = "",
   ): TokenValue {
-    const valueStr = String(rawValue).trim();
+    const composite = this.parseCompositeTokenValue(category, rawValue, name);
+    if (composite) return composite;
+
+    const valueStr =
+      typeof rawValue === "object" && rawValue !== null
+        ? JSON.stringify(rawValue)
+        : String(rawValue).trim();
 
     if (category === "color") {
       return {
@@ -803,6 +966,34 @@ export class TokenScanner extends Scanner<DesignToken, TokenScannerConfig> {
     };
   }
 
+  /**
+   * Parse shadow, typography, border, transition and gradient values (DTCG
+   * objects or CSS shorthands) with core's composite parser
+   */
+  private parseCompositeTokenValue(
+    category: string,
+    rawValue: unknown,
+    name: string,
+  ): TokenValue | null {
+    const lower = `${category} ${name}`.toLowerCase();
+
+    if (typeof rawValue === "string" && /-gradient\(/i.test(rawValue)) {
+      return parseCompositeValue(rawValue, "gradient");
+    }
+    if (lower.includes("transition")) {
+      return parseCompositeValue(rawValue, "transition");
+    }
+    if (category === "gradient") {
+      return parseCompositeValue(rawValue, "gradient");
+    }
+
+    const normalized = this.normalizeCategory(category);
+    // Radius values like "4px 8px" would otherwise read as a border
+    if (normalized === "border" && /radius|radii/.test(lower)) return null;
+
+    return parseCompositeValue(rawValue, normalized);
+  }
+
   private normalizeColor(value: string): string {
     // Already a hex color
     if (/^#[0-9a-fA-F]{3,8}$/.test(value)) {
@@ -2085,3 +2276,29 @@ export class TokenScanner extends Scanner<DesignToken, TokenScannerConfig> {
     return "other";
   }
 }
+
+/**
+ * Parse token files, returning the error instead of throwing
+ */
+function tryParseTokenFiles(
+  files: Array<{ content: string; path: string; referenceOnly?: boolean }>,
+): { tokens: DesignToken[]; error?: Error } {
+  try {
+    return { tokens: parseTokenFiles(files) };
+  } catch (err) {
+    return { tokens: [], error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Names of the tokens defined in a JSON token object, without parsing them
+ */
+function collectTokenNames(obj: Record<string, unknown>, prefix = ""): string[] {
+  return Object.entries(obj).flatMap(([key, value]) => {
+    if (key.startsWith("$") || typeof value !== "object" || value === null) return [];
+    const name = prefix ? `${prefix}.${key}` : key;
+    return "value" in value || "$value" in value
+      ? [name]
+      : collectTokenNames(value as Record<string, unknown>, name);
+  });
+}
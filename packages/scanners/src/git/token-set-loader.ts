@@ -0,0 +1,71 @@
+// packages/scanners/src/git/token-set-loader.ts
+/**
+ * Token set loader - reads a multi-file token folder (Tokens Studio
+ * export with $metadata.json / $themes.json, or any folder of DTCG files)
+ * and resolves it into one token set.
+ */
+
+import { resolveTokenSets } from "@buoy-design/core";
+import type { TokenSet, TokenSetResolution } from "@buoy-design/core";
+import { glob } from "glob";
+import { readFile, stat } from "fs/promises";
+import { relative, resolve, sep } from "path";
+
+export interface TokenSetLoaderOptions {
+  /** Themes from $themes.json to apply (default: first theme of each group) */
+  themes?: string[];
+  /** Root that token source paths are relative to */
+  projectRoot?: string;
+}
+
+/**
+ * Load every set in a token folder. Set names are the file paths relative
+ * to the folder without `.json`, matching Tokens Studio's set names.
+ */
+export async function loadTokenSet(
+  dir: string,
+  options: TokenSetLoaderOptions = {},
+): Promise<TokenSetResolution> {
+  const projectRoot = options.projectRoot ?? process.cwd();
+  const root = resolve(projectRoot, dir);
+  const files = await glob("**/*.json", {
+    cwd: root,
+    absolute: true,
+    ignore: ["**/node_modules/**"],
+  });
+
+  const sets: TokenSet[] = [];
+  let metadata: string | undefined;
+  let themes: string | undefined;
+
+  for (const file of files.sort()) {
+    const name = relative(root, file).split(sep).join("/");
+    const content = await readFile(file, "utf-8");
+
+    if (name === "$metadata.json") {
+      metadata = content;
+    } else if (name === "$themes.json") {
+      themes = content;
+    } else {
+      sets.push({
+        name: name.replace(/\.json$/, ""),
+        content,
+        path: relative(projectRoot, file).split(sep).join("/"),
+      });
+    }
+  }
+
+  return resolveTokenSets({ sets, metadata, themes }, { themes: options.themes });
+}
+
+/**
+ * Whether a configured token path is a folder to load as a token set
+ */
+export async function isTokenSetDirectory(path: string): Promise<boolean> {
+  if (/[*?{}[\]]/.test(path)) return false;
+  try {
+    return (await stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+}
@@ -11,16 +11,22 @@ export { SvelteComponentScanner, type SvelteScannerConfig } from './git/index.js
 export { AngularComponentScanner, type AngularScannerConfig } from './git/index.js';
 export { WebComponentScanner, type WebComponentScannerConfig } from './git/index.js';
 export { TokenScanner, type TokenScannerConfig } from './git/index.js';
+export { loadTokenSet, isTokenSetDirectory, type TokenSetLoaderOptions } from './git/index.js';
 
 // Figma scanner
-export { FigmaClient, FigmaComponentScanner, type FigmaScannerConfig } from './figma/index.js';
+export {
+  FigmaClient,
+  FigmaComponentScanner,
+  figmaVariablesToTokens,
+  type FigmaScannerConfig,
+} from './figma/index.js';
 
 // Storybook scanner
 export { StorybookScanner, type StorybookScannerConfig } from './storybook/index.js';
 
 // Tailwind scanner
-export { TailwindScanner, TailwindConfigParser, ArbitraryValueDetector } from './tailwind/index.js';
-export type { TailwindScannerConfig, TailwindScanResult, TailwindTheme, ArbitraryValue, SemanticToken } from './tailwind/index.js';
+export { TailwindScanner, TailwindConfigParser, ArbitraryValueDetector, generateTailwindFixes } from './tailwind/index.js';
+export type { TailwindScannerConfig, TailwindScanResult, TailwindTheme, ArbitraryValue, SemanticToken, TailwindFixOptions } from './tailwind/index.js';
 
 // CSS analyzer
 export { CssScanner, analyzeCss, mergeAnalyses } from './css/index.js';
@@ -31,6 +37,7 @@ export { createPluginFromScanner } from './plugin-adapter.js';
 
 // Cache (Incremental Scanning)
 export { ScanCache, withCache, withOptionalCache, type ScanCacheData, type FileCacheEntry, type CacheCheckResult, type CacheOptions, type WithCacheOptions, type WithCacheResult, CACHE_VERSION } from './cache/index.js';
+export { getChangedLines, parseDiffHunks, type LineRange } from './cache/index.js';
 
 // Signals (Pattern Mining Engine)
 export {
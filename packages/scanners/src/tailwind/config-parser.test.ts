@@ -553,9 +553,38 @@ describe('TailwindConfigParser', () => {
 
       expect(result).not.toBeNull();
 
-      // Should have both light and dark tokens
+      // Should have both light and dark values
       const bgTokens = result?.tokens.filter(t => t.name.includes('background'));
       expect(bgTokens?.length).toBeGreaterThanOrEqual(1);
+      expect(bgTokens?.[0]?.modes?.dark).toEqual({ type: 'raw', value: 'oklch(0.145 0 0)' });
+    });
+
+    it('keeps dark-only variables as separate dark tokens', async () => {
+      vi.mocked(fs.existsSync).mockImplementation((path) => {
+        return path === '/test/project/app/globals.css';
+      });
+      vi.mocked(fs.readFileSync).mockReturnValue(`
+@import "tailwindcss";
+
+:root {
+  --background: #ffffff;
+}
+
+.dark {
+  --background: #0a0a0a;
+  --sidebar: #171717;
+}
+      `);
+
+      const parser = new TailwindConfigParser(mockProjectRoot, {
+        cssConfigPaths: ['/test/project/app/globals.css'],
+      });
+      const result = await parser.parse();
+
+      const names = result?.tokens.map(t => t.name);
+      expect(names).toContain('tw-background');
+      expect(names).toContain('tw-sidebar-dark');
+      expect(names).not.toContain('tw-background-dark');
     });
 
     it('extracts custom variants from @custom-variant', async () => {
@@ -1329,9 +1358,12 @@ describe('TailwindConfigParser', () => {
       const bgToken = result?.tokens.find(t => t.name.includes('background') && !t.name.includes('dark'));
       expect(bgToken).toBeDefined();
 
-      // Should also extract dark mode tokens
-      const darkBgToken = result?.tokens.find(t => t.name.includes('background') && t.name.includes('dark'));
-      expect(darkBgToken).toBeDefined();
+      // Should also extract dark mode values onto the same token
+      expect(bgToken?.modes).toEqual({
+        light: { type: 'raw', value: 'oklch(1 0 0)' },
+        dark: { type: 'raw', value: 'oklch(0.1 0 0)' },
+      });
+      expect(result?.tokens.some(t => t.name === 'tw-background-dark')).toBe(false);
     });
 
     it('handles color-mix() expressions', async () => {
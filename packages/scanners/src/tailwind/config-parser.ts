@@ -260,19 +260,27 @@ export class TailwindConfigParser {
 
     // Extract :root CSS variables
     const rootVars = this.extractRootVariables(content);
+    const lightTokens = new Map<string, DesignToken>();
     for (const [name, value] of Object.entries(rootVars)) {
       const token = this.cssVarToToken(name, value, source, 'light');
       if (token) {
         tokens.push(token);
+        lightTokens.set(name, token);
         this.addToTheme(theme, token);
       }
     }
 
-    // Extract .dark CSS variables
+    // Extract .dark CSS variables. A variable also set in :root becomes the
+    // dark mode of that token; dark-only variables stay separate tokens.
     const darkVars = this.extractDarkVariables(content);
     for (const [name, value] of Object.entries(darkVars)) {
       const token = this.cssVarToToken(name, value, source, 'dark');
-      if (token) {
+      if (!token) continue;
+
+      const lightToken = lightTokens.get(name);
+      if (lightToken) {
+        lightToken.modes = { light: lightToken.value, dark: token.value };
+      } else {
         tokens.push(token);
       }
     }
@@ -0,0 +1,117 @@
+// packages/scanners/src/tailwind/fix-generator.test.ts
+import { describe, it, expect } from 'vitest';
+import { generateTailwindFixes } from './fix-generator.js';
+import type { ArbitraryValue } from './arbitrary-detector.js';
+import type { TailwindTheme } from './config-parser.js';
+
+function arbitrary(
+  fullClass: string,
+  value: string,
+  type: ArbitraryValue['type'],
+  line = 1,
+): ArbitraryValue {
+  return { type, value, fullClass, file: 'src/Button.tsx', line, column: 10 };
+}
+
+const theme: Partial<TailwindTheme> = {
+  colors: {
+    primary: { DEFAULT: '#3b82f6', 600: '#2563eb' },
+    danger: '#ef4444',
+    brand: 'var(--brand)',
+  },
+  spacing: {},
+};
+
+describe('generateTailwindFixes', () => {
+  it('rewrites arbitrary colors to theme color classes', () => {
+    const [fix] = generateTailwindFixes([arbitrary('bg-[#3b82f6]', '#3b82f6', 'color')], theme);
+
+    expect(fix).toMatchObject({
+      original: 'bg-[#3b82f6]',
+      replacement: 'bg-primary',
+      confidence: 'exact',
+      fixType: 'hardcoded-color',
+      tokenName: 'colors.primary',
+      driftSignalId: 'drift:hardcoded-value:tailwind:src/Button.tsx:color',
+    });
+  });
+
+  it('rewrites arbitrary spacing to the nearest default scale class', () => {
+    const [fix] = generateTailwindFixes([arbitrary('p-[13px]', '13px', 'spacing')], theme);
+
+    expect(fix).toMatchObject({
+      replacement: 'p-3',
+      confidence: 'high',
+      fixType: 'hardcoded-spacing',
+      tokenName: 'spacing.3',
+    });
+  });
+
+  it('keeps variants, negative prefixes and alpha modifiers', () => {
+    const fixes = generateTailwindFixes(
+      [
+        arbitrary('md:hover:-mt-[16px]', '16px', 'spacing', 1),
+        arbitrary('dark:text-[#2563eb]/50', '#2563eb', 'color', 2),
+        arbitrary('[&>svg]:p-[8px]', '8px', 'spacing', 3),
+      ],
+      theme,
+    );
+
+    expect(fixes.map((f) => f.replacement)).toEqual([
+      'md:hover:-mt-4',
+      'dark:text-primary-600/50',
+      '[&>svg]:p-2',
+    ]);
+  });
+
+  it('maps radius and font size utilities to their scales', () => {
+    const fixes = generateTailwindFixes(
+      [
+        arbitrary('rounded-[4px]', '4px', 'border', 1),
+        arbitrary('rounded-t-[8px]', '8px', 'border', 2),
+        arbitrary('text-[14px]', '14px', 'typography', 3),
+      ],
+      theme,
+    );
+
+    expect(fixes.map((f) => [f.replacement, f.fixType])).toEqual([
+      ['rounded', 'hardcoded-radius'],
+      ['rounded-t-lg', 'hardcoded-radius'],
+      ['text-sm', 'hardcoded-font-size'],
+    ]);
+  });
+
+  it('prefers project theme values over defaults', () => {
+    const [fix] = generateTailwindFixes(
+      [arbitrary('gap-[13px]', '13px', 'spacing')],
+      { spacing: { gutter: '13px' } },
+    );
+
+    expect(fix).toMatchObject({ replacement: 'gap-gutter', confidence: 'exact' });
+  });
+
+  it('skips values without a close theme match', () => {
+    const fixes = generateTailwindFixes(
+      [
+        arbitrary('bg-[#00ff00]', '#00ff00', 'color'),
+        arbitrary('w-[calc(100%-2rem)]', 'calc(100%-2rem)', 'size'),
+        arbitrary('grid-cols-[1fr_2fr]', '1fr_2fr', 'grid'),
+      ],
+      theme,
+    );
+
+    expect(fixes).toEqual([]);
+  });
+
+  it('applies confidence, type and file filters', () => {
+    const values = [
+      arbitrary('p-[13px]', '13px', 'spacing', 1),
+      arbitrary('bg-[#3b82f6]', '#3b82f6', 'color', 2),
+    ];
+
+    expect(generateTailwindFixes(values, theme, { minConfidence: 'exact' })).toHaveLength(1);
+    expect(generateTailwindFixes(values, theme, { types: ['hardcoded-spacing'] })[0]!.replacement).toBe('p-3');
+    expect(generateTailwindFixes(values, theme, { excludeFiles: ['src/**'] })).toEqual([]);
+    expect(generateTailwindFixes(values, theme, { includeDefaultTheme: false })).toHaveLength(1);
+  });
+});
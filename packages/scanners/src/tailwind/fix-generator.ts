@@ -0,0 +1,334 @@
+/**
+ * Tailwind Fix Generator
+ *
+ * Turns arbitrary value classes found by ArbitraryValueDetector into fixes that
+ * rewrite them to the nearest theme class: `p-[13px]` → `p-3`,
+ * `bg-[#3b82f6]` → `bg-primary`. Matches are scored with the same
+ * confidence rules as token fixes, so `--confidence` behaves identically.
+ */
+
+import type {
+  DesignToken,
+  Fix,
+  FixGeneratorOptions,
+  ConfidenceResult,
+} from '@buoy-design/core';
+import {
+  createFixId,
+  meetsConfidenceThreshold,
+  matchesFilePatterns,
+  scoreConfidence,
+} from '@buoy-design/core';
+import type { ArbitraryValue } from './arbitrary-detector.js';
+import type { TailwindTheme } from './config-parser.js';
+
+type TailwindFixType = Fix['fixType'];
+
+/**
+ * One theme entry that a class can be rewritten to
+ */
+interface ThemeCandidate {
+  /** Class suffix, e.g. "3" for p-3 or "primary-500" for bg-primary-500 */
+  key: string;
+  /** Synthetic token so candidates can be scored with scoreConfidence */
+  token: DesignToken;
+}
+
+interface ThemeScales {
+  colors: ThemeCandidate[];
+  spacing: ThemeCandidate[];
+  borderRadius: ThemeCandidate[];
+  fontSize: ThemeCandidate[];
+}
+
+export interface TailwindFixOptions extends FixGeneratorOptions {
+  /**
+   * Fall back to Tailwind's default spacing, radius and font size scales
+   * for keys the project theme doesn't define (default: true)
+   */
+  includeDefaultTheme?: boolean;
+}
+
+// Tailwind's default scales (identical in v3 and v4)
+const DEFAULT_SPACING: Record<string, string> = {
+  '0': '0px', px: '1px', '0.5': '0.125rem', '1': '0.25rem', '1.5': '0.375rem',
+  '2': '0.5rem', '2.5': '0.625rem', '3': '0.75rem', '3.5': '0.875rem', '4': '1rem',
+  '5': '1.25rem', '6': '1.5rem', '7': '1.75rem', '8': '2rem', '9': '2.25rem',
+  '10': '2.5rem', '11': '2.75rem', '12': '3rem', '14': '3.5rem', '16': '4rem',
+  '20': '5rem', '24': '6rem', '28': '7rem', '32': '8rem', '36': '9rem',
+  '40': '10rem', '44': '11rem', '48': '12rem', '52': '13rem', '56': '14rem',
+  '60': '15rem', '64': '16rem', '72': '18rem', '80': '20rem', '96': '24rem',
+};
+
+const DEFAULT_BORDER_RADIUS: Record<string, string> = {
+  none: '0px', sm: '0.125rem', DEFAULT: '0.25rem', md: '0.375rem', lg: '0.5rem',
+  xl: '0.75rem', '2xl': '1rem', '3xl': '1.5rem', full: '9999px',
+};
+
+const DEFAULT_FONT_SIZE: Record<string, string> = {
+  xs: '0.75rem', sm: '0.875rem', base: '1rem', lg: '1.125rem', xl: '1.25rem',
+  '2xl': '1.5rem', '3xl': '1.875rem', '4xl': '2.25rem', '5xl': '3rem',
+  '6xl': '3.75rem', '7xl': '4.5rem', '8xl': '6rem', '9xl': '8rem',
+};
+
+const SPACING_UTILITIES = new Set([
+  'p', 'px', 'py', 'pt', 'pr', 'pb', 'pl', 'ps', 'pe',
+  'm', 'mx', 'my', 'mt', 'mr', 'mb', 'ml', 'ms', 'me',
+  'gap', 'gap-x', 'gap-y', 'space-x', 'space-y',
+  'inset', 'inset-x', 'inset-y', 'top', 'right', 'bottom', 'left', 'start', 'end',
+  'w', 'h', 'size', 'translate-x', 'translate-y',
+]);
+
+const COLOR_UTILITIES = new Set([
+  'text', 'bg', 'border', 'fill', 'stroke', 'from', 'via', 'to',
+  'accent', 'caret', 'decoration', 'shadow',
+]);
+
+const RADIUS_UTILITY = /^rounded(?:-(?:t|r|b|l|tl|tr|bl|br|s|e|ss|se|es|ee))?$/;
+
+/**
+ * Minimum score for a theme class to be suggested (same as token fixes)
+ */
+const MIN_MATCH_SCORE = 40;
+
+/**
+ * Generate class rewrite fixes for arbitrary Tailwind values
+ */
+export function generateTailwindFixes(
+  values: ArbitraryValue[],
+  theme: Partial<TailwindTheme>,
+  options: TailwindFixOptions = {}
+): Fix[] {
+  const {
+    types,
+    minConfidence = 'low',
+    includeFiles = [],
+    excludeFiles = [],
+    includeDefaultTheme = true,
+  } = options;
+
+  const scales = buildThemeScales(theme, includeDefaultTheme);
+  const fixes: Fix[] = [];
+
+  for (const value of values) {
+    if (!matchesFilePatterns(value.file, includeFiles, excludeFiles)) continue;
+
+    const fix = generateFixForValue(value, scales);
+    if (!fix) continue;
+    if (types && !types.includes(fix.fixType)) continue;
+    if (!meetsConfidenceThreshold(fix.confidence, minConfidence)) continue;
+
+    fixes.push(fix);
+  }
+
+  // Same ordering as generateFixes: confidence first, then file
+  const confidenceOrder = { exact: 0, high: 1, medium: 2, low: 3 };
+  return fixes.sort((a, b) => {
+    const confDiff = confidenceOrder[a.confidence] - confidenceOrder[b.confidence];
+    if (confDiff !== 0) return confDiff;
+    return a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column;
+  });
+}
+
+/**
+ * Generate a fix for a single arbitrary value class
+ */
+function generateFixForValue(value: ArbitraryValue, scales: ThemeScales): Fix | null {
+  const parts = parseArbitraryClass(value.fullClass);
+  if (!parts) return null;
+
+  const target = resolveScale(parts.utility, value, scales);
+  if (!target) return null;
+
+  const match = findBestCandidate(value.value, target.fixType, target.candidates);
+  if (!match) return null;
+
+  const suffix = match.candidate.key === 'DEFAULT' ? '' : `-${match.candidate.key}`;
+  // Alpha modifiers (bg-[#fff]/50) only make sense on colors
+  const alpha = target.fixType === 'hardcoded-color' ? parts.alpha : '';
+  const replacement = `${parts.variants}${parts.negative}${parts.utility}${suffix}${alpha}`;
+
+  return {
+    id: createFixId(value.file, value.line, value.column),
+    // Matches the IDs of signals emitted by ArbitraryValueDetector
+    driftSignalId: `drift:hardcoded-value:tailwind:${value.file}:${value.type}`,
+    confidence: match.confidence.level,
+    confidenceScore: match.confidence.score,
+    file: value.file,
+    line: value.line,
+    column: value.column,
+    original: value.fullClass,
+    replacement,
+    reason: match.confidence.reason,
+    fixType: target.fixType,
+    tokenName: match.candidate.token.name,
+  };
+}
+
+/**
+ * Split a class like `hover:-mt-[4px]` into its parts
+ */
+function parseArbitraryClass(fullClass: string): {
+  variants: string;
+  negative: string;
+  utility: string;
+  alpha: string;
+} | null {
+  // Variants end at the last top-level colon (brackets can contain colons)
+  let depth = 0;
+  let variantEnd = 0;
+  for (let i = 0; i < fullClass.length; i++) {
+    const char = fullClass[i];
+    if (char === '[') depth++;
+    else if (char === ']') depth--;
+    else if (char === ':' && depth === 0) variantEnd = i + 1;
+  }
+
+  const variants = fullClass.slice(0, variantEnd);
+  const match = fullClass.slice(variantEnd).match(/^(-?)([a-z][a-z0-9-]*?)-\[[^\]]+\](\/\d+)?$/);
+  if (!match) return null;
+
+  return {
+    variants,
+    negative: match[1]!,
+    utility: match[2]!,
+    alpha: match[3] ?? '',
+  };
+}
+
+/**
+ * Pick the theme scale a utility draws from
+ */
+function resolveScale(
+  utility: string,
+  value: ArbitraryValue,
+  scales: ThemeScales
+): { fixType: TailwindFixType; candidates: ThemeCandidate[] } | null {
+  if (value.type === 'color' && COLOR_UTILITIES.has(utility)) {
+    return { fixType: 'hardcoded-color', candidates: scales.colors };
+  }
+  if (utility === 'text') {
+    return { fixType: 'hardcoded-font-size', candidates: scales.fontSize };
+  }
+  if (RADIUS_UTILITY.test(utility)) {
+    return { fixType: 'hardcoded-radius', candidates: scales.borderRadius };
+  }
+  if (SPACING_UTILITIES.has(utility)) {
+    return { fixType: 'hardcoded-spacing', candidates: scales.spacing };
+  }
+  return null;
+}
+
+/**
+ * Find the best scoring theme entry for a value
+ */
+function findBestCandidate(
+  value: string,
+  fixType: TailwindFixType,
+  candidates: ThemeCandidate[]
+): { candidate: ThemeCandidate; confidence: ConfidenceResult } | null {
+  let best: { candidate: ThemeCandidate; confidence: ConfidenceResult } | null = null;
+
+  for (const candidate of candidates) {
+    const confidence = scoreConfidence(value, candidate.token, fixType);
+    if (!best || confidence.score > best.confidence.score) {
+      best = { candidate, confidence };
+    }
+  }
+
+  return best && best.confidence.score >= MIN_MATCH_SCORE ? best : null;
+}
+
+/**
+ * Build scorable candidates from the parsed theme
+ */
+function buildThemeScales(
+  theme: Partial<TailwindTheme>,
+  includeDefaults: boolean
+): ThemeScales {
+  const withDefaults = (
+    defaults: Record<string, string>,
+    configured: Record<string, string> | undefined
+  ) => (includeDefaults ? { ...defaults, ...configured } : { ...configured });
+
+  const fontSizes: Record<string, string> = {};
+  for (const [key, value] of Object.entries(theme.fontSize ?? {})) {
+    fontSizes[key] = Array.isArray(value) ? value[0] : value;
+  }
+
+  const colors: ThemeCandidate[] = [];
+  for (const [name, value] of Object.entries(theme.colors ?? {})) {
+    const entries = typeof value === 'string' ? { DEFAULT: value } : value;
+    for (const [shade, color] of Object.entries(entries)) {
+      const hex = toHex(color);
+      if (!hex) continue; // var(), oklch() etc. can't be compared
+      const key = shade === 'DEFAULT' ? name : `${name}-${shade}`;
+      colors.push({ key, token: createCandidateToken(`colors.${key}`, 'color', { type: 'color', hex }) });
+    }
+  }
+
+  return {
+    colors,
+    spacing: toSpacingCandidates('spacing', withDefaults(DEFAULT_SPACING, theme.spacing)),
+    borderRadius: toSpacingCandidates('borderRadius', withDefaults(DEFAULT_BORDER_RADIUS, theme.borderRadius)),
+    fontSize: toSpacingCandidates('fontSize', withDefaults(DEFAULT_FONT_SIZE, fontSizes)),
+  };
+}
+
+function toSpacingCandidates(scale: string, entries: Record<string, string>): ThemeCandidate[] {
+  const candidates: ThemeCandidate[] = [];
+  for (const [key, raw] of Object.entries(entries)) {
+    const match = raw.trim().match(/^(-?[\d.]+)(px|rem|em)?$/);
+    if (!match) continue;
+    const unit = (match[2] as 'px' | 'rem' | 'em' | undefined) ?? 'px';
+    candidates.push({
+      key,
+      token: createCandidateToken(`${scale}.${key}`, 'spacing', {
+        type: 'spacing',
+        value: parseFloat(match[1]!),
+        unit,
+      }),
+    });
+  }
+  return candidates;
+}
+
+function createCandidateToken(
+  name: string,
+  category: DesignToken['category'],
+  value: DesignToken['value']
+): DesignToken {
+  return {
+    id: `tailwind:theme:${name}`,
+    name,
+    category,
+    value,
+    source: { type: 'json', path: 'tailwind.config' },
+    aliases: [],
+    usedBy: [],
+    metadata: { tags: ['tailwind'] },
+    scannedAt: new Date(),
+  };
+}
+
+/**
+ * Normalize a theme color to 6-digit lowercase hex
+ */
+function toHex(color: string): string | null {
+  const value = color.trim().toLowerCase();
+
+  if (/^#[0-9a-f]{6}$/.test(value)) return value;
+  if (/^#[0-9a-f]{8}$/.test(value)) return value.slice(0, 7);
+  if (/^#[0-9a-f]{3}$/.test(value)) {
+    return `#${value[1]}${value[1]}${value[2]}${value[2]}${value[3]}${value[3]}`;
+  }
+
+  const rgb = value.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/);
+  if (rgb) {
+    return `#${[rgb[1], rgb[2], rgb[3]]
+      .map((n) => parseInt(n!, 10).toString(16).padStart(2, '0'))
+      .join('')}`;
+  }
+
+  return null;
+}
@@ -1,3 +1,4 @@
 export { TailwindScanner, type TailwindScannerConfig, type TailwindScanResult, type SemanticToken, type ApplyDirectiveUsage } from './scanner.js';
 export { TailwindConfigParser, type TailwindTheme, type ParsedTailwindConfig } from './config-parser.js';
 export { ArbitraryValueDetector, type ArbitraryValue, type ArbitraryDetectorConfig } from './arbitrary-detector.js';
+export { generateTailwindFixes, type TailwindFixOptions } from './fix-generator.js';